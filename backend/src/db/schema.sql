@@ -63,8 +63,25 @@ DROP TABLE IF EXISTS notifications CASCADE;
 DROP TABLE IF EXISTS user_sessions CASCADE;
 DROP TABLE IF EXISTS task_activity_log CASCADE;
 DROP TABLE IF EXISTS task_dependencies CASCADE;
+DROP TABLE IF EXISTS task_checklist_items CASCADE;
+DROP TABLE IF EXISTS audit_log CASCADE;
+DROP TABLE IF EXISTS task_templates CASCADE;
+DROP TABLE IF EXISTS time_entries CASCADE;
+DROP TABLE IF EXISTS task_reminders CASCADE;
+DROP TABLE IF EXISTS mail_outbox CASCADE;
+DROP TABLE IF EXISTS password_reset_tokens CASCADE;
+DROP TABLE IF EXISTS ai_usage CASCADE;
 -- Now drop users
 DROP TABLE IF EXISTS users CASCADE;
+DROP TABLE IF EXISTS teams CASCADE;
+
+CREATE TABLE IF NOT EXISTS teams (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) UNIQUE NOT NULL,
+    description TEXT,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
 
 CREATE TABLE IF NOT EXISTS users (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -73,11 +90,15 @@ CREATE TABLE IF NOT EXISTS users (
     first_name VARCHAR(255),
     last_name VARCHAR(255),
     role user_role NOT NULL DEFAULT 'User',
+    -- Managers oversee the tasks of everyone on their team
+    team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
     is_active BOOLEAN NOT NULL DEFAULT true,
     email_verified BOOLEAN NOT NULL DEFAULT false,
     created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
     soft_deleted_at TIMESTAMPTZ,
+    -- Tokens issued before this are no longer accepted
+    password_changed_at TIMESTAMPTZ,
     CONSTRAINT email_format_check CHECK (email ~* '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$')
 );
 
@@ -97,9 +118,17 @@ CREATE TABLE IF NOT EXISTS tasks (
     description TEXT,
     status task_status NOT NULL DEFAULT 'Pending Approval',
     priority task_priority NOT NULL DEFAULT 'Medium',
+    start_date TIMESTAMPTZ,
     deadline TIMESTAMPTZ,
     progress_percentage INTEGER NOT NULL DEFAULT 0,
     recurring_pattern TEXT,
+    -- Recurring series: which instance this one was generated from, its position in the
+    -- series, and when the instance after it was generated (or the series found to be over)
+    recurrence_source_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+    recurrence_index INTEGER NOT NULL DEFAULT 1,
+    recurrence_spawned_at TIMESTAMPTZ,
+    -- Subtasks go with their parent when it is removed
+    parent_task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
     project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
     assigner_id UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
     assigned_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
@@ -111,16 +140,20 @@ CREATE TABLE IF NOT EXISTS tasks (
     updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
     completed_at TIMESTAMPTZ,
     soft_deleted_at TIMESTAMPTZ,
-    CONSTRAINT title_not_empty_check CHECK (title IS NOT NULL AND length(trim(title)) > 0)
+    CONSTRAINT title_not_empty_check CHECK (title IS NOT NULL AND length(trim(title)) > 0),
+    CONSTRAINT start_before_deadline_check CHECK (start_date IS NULL OR deadline IS NULL OR start_date <= deadline)
 );
 
 CREATE TABLE IF NOT EXISTS task_comments (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    parent_comment_id UUID REFERENCES task_comments(id) ON DELETE CASCADE,
     content TEXT NOT NULL,
+    mentions UUID[] NOT NULL DEFAULT '{}',
     created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    edited_at TIMESTAMPTZ,
     soft_deleted_at TIMESTAMPTZ,
     CONSTRAINT content_not_empty_check CHECK (length(trim(content)) > 0)
 );
@@ -133,6 +166,9 @@ CREATE TABLE IF NOT EXISTS task_attachments (
     file_path TEXT NOT NULL,
     file_type VARCHAR(100),
     file_size INTEGER,
+    checksum CHAR(64),
+    -- NULL for link-only attachments whose file_path is an external URL
+    storage_driver VARCHAR(20) CHECK (storage_driver IN ('local', 's3')),
     created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
     soft_deleted_at TIMESTAMPTZ
@@ -142,13 +178,32 @@ CREATE TABLE IF NOT EXISTS task_dependencies (
     id SERIAL PRIMARY KEY,
     predecessor_task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
     successor_task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
-    UNIQUE (predecessor_task_id, successor_task_id)
+    dependency_type VARCHAR(20) NOT NULL DEFAULT 'finish_to_start'
+        CHECK (dependency_type IN ('finish_to_start', 'start_to_start', 'finish_to_finish', 'start_to_finish')),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (predecessor_task_id, successor_task_id),
+    CHECK (predecessor_task_id <> successor_task_id)
+);
+
+CREATE TABLE IF NOT EXISTS task_checklist_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    content VARCHAR(500) NOT NULL,
+    is_done BOOLEAN NOT NULL DEFAULT false,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    completed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT checklist_content_not_empty_check CHECK (length(trim(content)) > 0)
 );
 
 CREATE TABLE IF NOT EXISTS task_activity_log (
     id SERIAL PRIMARY KEY,
     task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
-    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
     action VARCHAR(255) NOT NULL,
     details JSONB,
     created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
@@ -165,15 +220,134 @@ CREATE TABLE IF NOT EXISTS notifications (
     updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
 );
 
+-- One row per signed-in device. Refresh tokens rotate on every use and only their SHA-256 is stored;
+-- the previous hash is kept so a replayed (possibly stolen) token can be recognised.
 CREATE TABLE IF NOT EXISTS user_sessions (
-    id SERIAL PRIMARY KEY,
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    token VARCHAR(255) NOT NULL UNIQUE,
+    refresh_token_hash CHAR(64) NOT NULL UNIQUE,
+    previous_token_hash CHAR(64),
+    user_agent TEXT,
+    ip_address VARCHAR(64),
     expires_at TIMESTAMPTZ NOT NULL,
+    last_used_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    revoked_at TIMESTAMPTZ,
     created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Append-only record of user actions; resource_id is free text because not every resource has a UUID
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    action VARCHAR(100) NOT NULL,
+    resource VARCHAR(100) NOT NULL,
+    resource_id VARCHAR(255),
+    metadata JSONB NOT NULL DEFAULT '{}',
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    -- The browser behind a server action, as reported by the Next server; only set on requests carrying the internal secret
+    forwarded_ip_address VARCHAR(45),
+    forwarded_user_agent TEXT,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per AI request made on a user's behalf; answers served from the cache are recorded with no tokens
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    flow VARCHAR(100) NOT NULL,
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(255) NOT NULL,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    cached BOOLEAN NOT NULL DEFAULT false,
+    success BOOLEAN NOT NULL,
+    error TEXT,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Reusable starting points for new tasks; checklist is an ordered JSON array of item texts
+CREATE TABLE IF NOT EXISTS task_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    default_priority task_priority NOT NULL DEFAULT 'Medium',
+    default_timer_duration INTEGER NOT NULL DEFAULT 0 CHECK (default_timer_duration >= 0),
+    checklist JSONB NOT NULL DEFAULT '[]',
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    is_public BOOLEAN NOT NULL DEFAULT false,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT template_name_not_empty_check CHECK (length(trim(name)) > 0)
+);
+
+-- A row with ended_at NULL is a running timer; each user has at most one
+CREATE TABLE IF NOT EXISTS time_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    started_at TIMESTAMPTZ NOT NULL,
+    ended_at TIMESTAMPTZ,
+    note TEXT,
+    is_manual BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT time_entry_range_check CHECK (ended_at IS NULL OR ended_at > started_at)
+);
+
+-- One row per reminder sent for a task's deadline; offset_minutes 0 is the overdue notice.
+-- Keyed on the deadline too, so moving a deadline re-arms its reminders.
+CREATE TABLE IF NOT EXISTS task_reminders (
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    offset_minutes INTEGER NOT NULL,
+    deadline TIMESTAMPTZ NOT NULL,
+    sent_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (task_id, offset_minutes, deadline)
+);
+
+-- Rendered emails waiting for (or done with) delivery; the outbox job sends, retries and gives up
+CREATE TABLE IF NOT EXISTS mail_outbox (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    template VARCHAR(50) NOT NULL,
+    recipients TEXT[] NOT NULL,
+    subject TEXT NOT NULL,
+    body_text TEXT NOT NULL,
+    body_html TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMPTZ,
+    sent_at TIMESTAMPTZ,
+    dedupe_key VARCHAR(255) UNIQUE,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT mail_outbox_status_check CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+    CONSTRAINT mail_outbox_recipients_check CHECK (cardinality(recipients) > 0)
+);
+
+-- =============================================================================
+-- -- PASSWORD RESET TOKENS TABLE
+-- =============================================================================
+
+-- Only a SHA-256 of each token is stored; the token itself exists only in the emailed link
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ,
+    -- Set when a newer link replaces this one; kept so the hourly request cap can count it
+    invalidated_at TIMESTAMPTZ,
+    requested_ip VARCHAR(64),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
 -- =============================================================================
 -- -- EMAIL VERIFICATION CODES TABLE
 -- =============================================================================
@@ -190,20 +364,43 @@ CREATE TABLE IF NOT EXISTS email_verification_codes (
 
 CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
 CREATE INDEX IF NOT EXISTS idx_users_soft_deleted ON users(soft_deleted_at);
+CREATE INDEX IF NOT EXISTS idx_users_team_id ON users(team_id);
 CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
 CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority);
 CREATE INDEX IF NOT EXISTS idx_tasks_deadline ON tasks(deadline);
 CREATE INDEX IF NOT EXISTS idx_tasks_assigner_id ON tasks(assigner_id);
 CREATE INDEX IF NOT EXISTS idx_tasks_assigned_user_id ON tasks(assigned_user_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_project_id ON tasks(project_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON tasks(parent_task_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_pending ON tasks(id) WHERE recurring_pattern IS NOT NULL AND recurrence_spawned_at IS NULL;
 CREATE INDEX IF NOT EXISTS idx_tasks_soft_deleted ON tasks(soft_deleted_at);
 CREATE INDEX IF NOT EXISTS idx_task_comments_task_id ON task_comments(task_id);
 CREATE INDEX IF NOT EXISTS idx_task_comments_user_id ON task_comments(user_id);
+CREATE INDEX IF NOT EXISTS idx_task_comments_parent_id ON task_comments(parent_comment_id);
 CREATE INDEX IF NOT EXISTS idx_task_attachments_task_id ON task_attachments(task_id);
 CREATE INDEX IF NOT EXISTS idx_task_attachments_user_id ON task_attachments(user_id);
 CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id, is_read) WHERE is_read = FALSE;
 CREATE INDEX IF NOT EXISTS idx_notifications_task_id ON notifications(task_id);
-CREATE INDEX IF NOT EXISTS idx_task_activity_log_task_id ON task_activity_log(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_successor ON task_dependencies(successor_task_id);
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_task_id ON task_checklist_items(task_id, position);
+CREATE INDEX IF NOT EXISTS idx_task_templates_created_by ON task_templates(created_by);
+CREATE INDEX IF NOT EXISTS idx_task_templates_tags ON task_templates USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_time_entries_task_id ON time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_user_started ON time_entries(user_id, started_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_one_running ON time_entries(user_id) WHERE ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_active ON user_sessions(user_id, last_used_at DESC) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_user_sessions_previous_token ON user_sessions(previous_token_hash) WHERE previous_token_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mail_outbox_due ON mail_outbox(next_attempt_at) WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_mail_outbox_status_created ON mail_outbox(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_task_activity_log_task_id ON task_activity_log(task_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_task_activity_log_user_id ON task_activity_log(user_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_user_id ON audit_log(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action);
+CREATE INDEX IF NOT EXISTS idx_audit_log_resource ON audit_log(resource, resource_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON ai_usage(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_id ON ai_usage(user_id, created_at DESC);
 
 -- =============================================================================
 -- -- TRIGGERS (Idempotent Creation)
@@ -212,12 +409,33 @@ CREATE INDEX IF NOT EXISTS idx_task_activity_log_user_id ON task_activity_log(us
 DROP TRIGGER IF EXISTS trigger_users_updated_at ON users;
 CREATE TRIGGER trigger_users_updated_at BEFORE UPDATE ON users FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS trigger_teams_updated_at ON teams;
+CREATE TRIGGER trigger_teams_updated_at BEFORE UPDATE ON teams FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 DROP TRIGGER IF EXISTS trigger_tasks_updated_at ON tasks;
 CREATE TRIGGER trigger_tasks_updated_at BEFORE UPDATE ON tasks FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS trigger_projects_updated_at ON projects;
+CREATE TRIGGER trigger_projects_updated_at BEFORE UPDATE ON projects FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 DROP TRIGGER IF EXISTS trigger_task_comments_updated_at ON task_comments;
 CREATE TRIGGER trigger_task_comments_updated_at BEFORE UPDATE ON task_comments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS trigger_task_checklist_items_updated_at ON task_checklist_items;
+CREATE TRIGGER trigger_task_checklist_items_updated_at BEFORE UPDATE ON task_checklist_items FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS trigger_task_templates_updated_at ON task_templates;
+CREATE TRIGGER trigger_task_templates_updated_at BEFORE UPDATE ON task_templates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS trigger_time_entries_updated_at ON time_entries;
+CREATE TRIGGER trigger_time_entries_updated_at BEFORE UPDATE ON time_entries FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS trigger_mail_outbox_updated_at ON mail_outbox;
+CREATE TRIGGER trigger_mail_outbox_updated_at BEFORE UPDATE ON mail_outbox FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS trigger_user_sessions_updated_at ON user_sessions;
+CREATE TRIGGER trigger_user_sessions_updated_at BEFORE UPDATE ON user_sessions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- =============================================================================
 -- -- END OF SCHEMA DEFINITION
 -- =============================================================================
\ No newline at end of file
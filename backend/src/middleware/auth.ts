@@ -0,0 +1,107 @@
+// middleware/auth.ts
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { pool } from '../config/db';
+import { AuthUser, UserRole } from '../types';
+
+// JWT secret (use environment variable in production)
+export const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+
+// Access tokens are short-lived; clients renew them through POST /api/auth/refresh
+export const ACCESS_TOKEN_TTL_MINUTES = Number(process.env.ACCESS_TOKEN_TTL_MINUTES || 15);
+
+export interface TokenPayload {
+  id: string;
+  email: string;
+  role: UserRole;
+  sid: string;
+  iat?: number;
+}
+
+export const signAccessToken = (user: { id: string; email: string; role: UserRole }, sessionId: string) => {
+  const token = jwt.sign(
+    { id: user.id, email: user.email, role: user.role, sid: sessionId },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60 }
+  );
+  return { token, expiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_MINUTES * 60 * 1000) };
+};
+
+/**
+ * Verifies a JWT and checks it against the database: the session it was issued for must
+ * still be live, and tokens issued before the user's last password change are rejected.
+ * This is what makes logout and "revoke this device" take effect immediately.
+ */
+export const verifyAccessToken = async (token: string): Promise<AuthUser> => {
+  const payload = jwt.verify(token, JWT_SECRET) as TokenPayload;
+  if (!payload.sid) {
+    throw new Error('Token is not tied to a session');
+  }
+
+  const result = await pool.query(
+    `SELECT u.role, u.password_changed_at
+    FROM users u
+    JOIN user_sessions s ON s.user_id = u.id
+    WHERE u.id = $1 AND u.soft_deleted_at IS NULL AND u.is_active = true
+      AND s.id = $2 AND s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP`,
+    [payload.id, payload.sid]
+  );
+  if (result.rows.length === 0) {
+    throw new Error('Session has ended');
+  }
+
+  const changedAt = result.rows[0].password_changed_at;
+  // iat has whole-second precision
+  if (changedAt && (payload.iat ?? 0) < Math.floor(new Date(changedAt).getTime() / 1000)) {
+    throw new Error('Token was issued before the last password change');
+  }
+  // The stored role wins, so promotions and demotions apply without waiting for a new token
+  return { id: payload.id, email: payload.email, role: result.rows[0].role, sessionId: payload.sid };
+};
+
+// Middleware to verify JWT token
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+  
+  // Also check for token in cookies
+  const cookieToken = req.cookies?.token;
+  const finalToken = token || cookieToken;
+
+  if (!finalToken) {
+    return res.status(401).json({ error: 'No token provided' });
+  }
+
+  try {
+    req.user = await verifyAccessToken(finalToken);
+  } catch (err) {
+    console.error('Backend: authenticateToken - JWT verification failed:', err);
+    return res.status(403).json({ error: 'Invalid or expired token' });
+  }
+  next();
+};
+
+// Like authenticateToken, but lets anonymous requests through; req.user is set only for a valid token
+export const identifyUser = async (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers['authorization'];
+  const token = (authHeader && authHeader.split(' ')[1]) || req.cookies?.token;
+
+  if (!token) {
+    return next();
+  }
+
+  try {
+    req.user = await verifyAccessToken(token);
+  } catch {
+    // Treated as anonymous
+  }
+  next();
+};
+
+// Use after authenticateToken to restrict a route to the given roles
+export const requireRole = (...roles: UserRole[]) => (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user || !roles.includes(req.user.role)) {
+    return res.status(403).json({ error: 'Insufficient permissions' });
+  }
+  next();
+};
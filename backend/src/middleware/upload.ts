@@ -0,0 +1,60 @@
+// middleware/upload.ts
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { ALLOWED_FILE_TYPES, MAX_FILE_SIZE } from './validation';
+import { ValidationError } from '../utils/errors';
+
+// Leading bytes of each allowed type, so a renamed executable cannot pass as a PDF
+const FILE_SIGNATURES: Record<string, number[]> = {
+  'image/jpeg': [0xff, 0xd8, 0xff],
+  'image/png': [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  'application/pdf': [0x25, 0x50, 0x44, 0x46],
+  'application/msword': [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [0x50, 0x4b, 0x03, 0x04]
+};
+
+const matchesSignature = (buffer: Buffer, mimeType: string): boolean => {
+  const signature = FILE_SIGNATURES[mimeType];
+  return !!signature && buffer.length >= signature.length && signature.every((byte, i) => buffer[i] === byte);
+};
+
+// Files are held in memory (bounded by MAX_FILE_SIZE) so the checksum and type sniffing see the full content
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (!ALLOWED_FILE_TYPES.includes(file.mimetype)) {
+      callback(new ValidationError(`File type ${file.mimetype || 'unknown'} is not allowed`, 'file'));
+      return;
+    }
+    callback(null, true);
+  }
+});
+
+// Accepts exactly one file in `fieldName` and turns multer's own errors into ValidationErrors
+export const uploadSingleFile = (fieldName: string) => (req: Request, res: Response, next: NextFunction) => {
+  upload.single(fieldName)(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `File must be at most ${MAX_FILE_SIZE / (1024 * 1024)}MB`
+        : error.message;
+      next(new ValidationError(message, fieldName));
+      return;
+    }
+    if (error) {
+      next(error);
+      return;
+    }
+
+    if (!req.file) {
+      next(new ValidationError(`A file is required in the "${fieldName}" field`, fieldName));
+      return;
+    }
+    if (!matchesSignature(req.file.buffer, req.file.mimetype)) {
+      next(new ValidationError(`File content does not match its declared type ${req.file.mimetype}`, fieldName));
+      return;
+    }
+
+    next();
+  });
+};
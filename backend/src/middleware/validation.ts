@@ -1,14 +1,49 @@
 // middleware/validation.ts
 import { Request, Response, NextFunction } from 'express';
-import { CreateTaskRequest, UpdateTaskRequest, TaskStatus, TaskPriority } from '../types/task';
+import { CreateTaskRequest, UpdateTaskRequest, CreateSubtasksRequest, SubtaskDraft, TaskStatus, TaskPriority, TASK_SORT_FIELDS, TASK_STATUSES } from '../types/task';
+import { NOTIFICATION_TYPES } from '../types/notification';
+import { DEPENDENCY_TYPES } from '../types/dependency';
+import { UpdateTemplateRequest } from '../types/template';
+import { UpdateChecklistItemRequest } from '../types/checklist';
+import { OUTBOX_STATUSES } from '../types/mail';
+import { AI_PROVIDERS } from '../types/aiUsage';
 import { ValidationError } from '../utils/errors';
+import { parseRecurrenceRule } from '../utils/recurrence';
 
-const ALLOWED_FILE_TYPES = ['image/jpeg', 'image/png', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const ALLOWED_FILE_TYPES = ['image/jpeg', 'image/png', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
 // Remove invalid status and priority values
-const VALID_TASK_STATUSES = ['Pending Approval', 'To Do', 'In Progress', 'In Review', 'Needs Changes', 'Completed', 'Rejected', 'Archived'];
+const VALID_TASK_STATUSES: readonly string[] = TASK_STATUSES;
 const VALID_TASK_PRIORITIES = ['Low', 'Medium', 'High', 'Urgent'];
+const MAX_DEPENDENCY_LINK_TASKS = 500;
+const MAX_SUBTASKS_PER_BATCH = 50;
+const MAX_TASK_TITLE_LENGTH = 255;
+const MAX_CHECKLIST_ITEM_LENGTH = 500;
+const MAX_PROJECT_NAME_LENGTH = 255;
+const MAX_TEAM_NAME_LENGTH = 255;
+const TEAM_MEMBER_ROLES = ['Manager', 'User'];
+const MAX_TEMPLATE_NAME_LENGTH = 100;
+const MAX_TEMPLATE_TAGS = 20;
+const MAX_TEMPLATE_TAG_LENGTH = 50;
+const MAX_TEMPLATE_CHECKLIST_ITEMS = 50;
+const MAX_TEMPLATE_CHECKLIST_ITEM_LENGTH = 255;
+const MAX_TIMER_DURATION_MINUTES = 2880;
+const MAX_STATUS_REASON_LENGTH = 1000;
+const MAX_ESTIMATE_TEXT_LENGTH = 5000;
+const MAX_ESTIMATE_TAGS = 20;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// Accepts both `?status=A,B` and repeated `?status=A&status=B` query params
+export const parseListParam = (value: unknown): string[] => {
+  if (value === undefined || value === null || value === '') return [];
+  const raw = Array.isArray(value) ? value : [value];
+  return raw
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+};
 
 export const validateCreateTask = (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -19,10 +54,6 @@ export const validateCreateTask = (req: Request, res: Response, next: NextFuncti
       throw new ValidationError('Title is required and must be a non-empty string', 'title');
     }
 
-    if (!taskData.assignerId || typeof taskData.assignerId !== 'string') {
-      throw new ValidationError('Assigner ID is required and must be a string (UUID)', 'assignerId');
-    }
-
     // Validate optional fields
     if (taskData.description !== undefined && typeof taskData.description !== 'string') {
       throw new ValidationError('Description must be a string', 'description');
@@ -44,12 +75,29 @@ export const validateCreateTask = (req: Request, res: Response, next: NextFuncti
       // Do not assign Date object, just validate
     }
 
+    if (taskData.startDate !== undefined) {
+      const date = new Date(taskData.startDate);
+      if (isNaN(date.getTime())) {
+        throw new ValidationError('Start date must be a valid date', 'startDate');
+      }
+      if (taskData.deadline !== undefined && date > new Date(taskData.deadline)) {
+        throw new ValidationError('Start date must be on or before the deadline', 'startDate');
+      }
+    }
+
     if (taskData.progressPercentage !== undefined && (typeof taskData.progressPercentage !== 'number' || taskData.progressPercentage < 0 || taskData.progressPercentage > 100)) {
       throw new ValidationError('Progress percentage must be a number between 0 and 100', 'progressPercentage');
     }
 
-    if (taskData.projectId !== undefined && taskData.projectId !== null && typeof taskData.projectId !== 'string') {
-      throw new ValidationError('Project ID must be a string (UUID) or null', 'projectId');
+    if (taskData.projectId !== undefined && taskData.projectId !== null && (typeof taskData.projectId !== 'string' || !UUID_PATTERN.test(taskData.projectId))) {
+      throw new ValidationError('Project ID must be a valid UUID or null', 'projectId');
+    }
+
+    if (taskData.recurringPattern !== undefined && taskData.recurringPattern !== null) {
+      if (typeof taskData.recurringPattern !== 'string') {
+        throw new ValidationError('Recurring pattern must be a string or null', 'recurringPattern');
+      }
+      parseRecurrenceRule(taskData.recurringPattern);
     }
 
     if (taskData.assignedUserId !== undefined && typeof taskData.assignedUserId !== 'string') {
@@ -95,6 +143,10 @@ export const validateCreateTask = (req: Request, res: Response, next: NextFuncti
       }
     }
 
+    if (taskData.subtasks !== undefined) {
+      validateSubtaskDrafts(taskData.subtasks);
+    }
+
     next();
   } catch (error) {
     next(error);
@@ -118,6 +170,10 @@ export const validateUpdateTask = (req: Request, res: Response, next: NextFuncti
       throw new ValidationError('Invalid status value', 'status');
     }
 
+    if (taskData.statusReason !== undefined && (typeof taskData.statusReason !== 'string' || taskData.statusReason.length > MAX_STATUS_REASON_LENGTH)) {
+      throw new ValidationError(`Status reason must be a string of at most ${MAX_STATUS_REASON_LENGTH} characters`, 'statusReason');
+    }
+
     if (taskData.priority !== undefined && !VALID_TASK_PRIORITIES.includes(taskData.priority)) {
       throw new ValidationError('Invalid priority value', 'priority');
     }
@@ -130,18 +186,34 @@ export const validateUpdateTask = (req: Request, res: Response, next: NextFuncti
       // Do not assign Date object, just validate
     }
 
+    // null clears the start date; the range check against the stored deadline happens in the service
+    if (taskData.startDate !== undefined && taskData.startDate !== null && isNaN(new Date(taskData.startDate).getTime())) {
+      throw new ValidationError('Start date must be a valid date', 'startDate');
+    }
+
     if (taskData.progressPercentage !== undefined && (typeof taskData.progressPercentage !== 'number' || taskData.progressPercentage < 0 || taskData.progressPercentage > 100)) {
       throw new ValidationError('Progress percentage must be a number between 0 and 100', 'progressPercentage');
     }
 
-    if (taskData.projectId !== undefined && taskData.projectId !== null && typeof taskData.projectId !== 'string') {
-      throw new ValidationError('Project ID must be a string (UUID) or null', 'projectId');
+    if (taskData.projectId !== undefined && taskData.projectId !== null && (typeof taskData.projectId !== 'string' || !UUID_PATTERN.test(taskData.projectId))) {
+      throw new ValidationError('Project ID must be a valid UUID or null', 'projectId');
+    }
+
+    if (taskData.recurringPattern !== undefined && taskData.recurringPattern !== null) {
+      if (typeof taskData.recurringPattern !== 'string') {
+        throw new ValidationError('Recurring pattern must be a string or null', 'recurringPattern');
+      }
+      parseRecurrenceRule(taskData.recurringPattern);
     }
 
     if (taskData.assignedUserId !== undefined && typeof taskData.assignedUserId !== 'string') {
       throw new ValidationError('Assigned user ID must be a string (UUID)', 'assignedUserId');
     }
 
+    if (taskData.updatedBy !== undefined && (typeof taskData.updatedBy !== 'string' || !UUID_PATTERN.test(taskData.updatedBy))) {
+      throw new ValidationError('Updated by must be a valid UUID', 'updatedBy');
+    }
+
     if (taskData.suggestedPriority !== undefined && taskData.suggestedPriority !== null && !VALID_TASK_PRIORITIES.includes(taskData.suggestedPriority)) {
       throw new ValidationError('Invalid suggested priority value', 'suggestedPriority');
     }
@@ -181,24 +253,229 @@ export const validateUpdateTask = (req: Request, res: Response, next: NextFuncti
       }
     }
 
-    // Validate comments if present
-    if (taskData.comments) {
-      if (!Array.isArray(taskData.comments)) {
-        throw new ValidationError('Comments must be an array', 'comments');
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validatePagination = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page, limit, status, priority, assigneeId, assignerId, projectId, sortBy, sortOrder, search, dateFrom, dateTo, overdue } = req.query;
+
+    if (page !== undefined && (isNaN(Number(page)) || Number(page) < 1)) {
+      throw new ValidationError('Page must be a positive number', 'page');
+    }
+
+    if (limit !== undefined && (isNaN(Number(limit)) || Number(limit) < 1 || Number(limit) > 100)) {
+      throw new ValidationError('Limit must be a number between 1 and 100', 'limit');
+    }
+
+    if (parseListParam(status).some(value => !VALID_TASK_STATUSES.includes(value))) {
+      throw new ValidationError('Invalid status value', 'status');
+    }
+
+    if (parseListParam(priority).some(value => !VALID_TASK_PRIORITIES.includes(value))) {
+      throw new ValidationError('Invalid priority value', 'priority');
+    }
+
+    if (assigneeId !== undefined && !UUID_PATTERN.test(String(assigneeId))) {
+      throw new ValidationError('Assignee ID must be a valid UUID', 'assigneeId');
+    }
+
+    if (assignerId !== undefined && !UUID_PATTERN.test(String(assignerId))) {
+      throw new ValidationError('Assigner ID must be a valid UUID', 'assignerId');
+    }
+
+    if (projectId !== undefined && !UUID_PATTERN.test(String(projectId))) {
+      throw new ValidationError('Project ID must be a valid UUID', 'projectId');
+    }
+
+    if (sortBy !== undefined && !(TASK_SORT_FIELDS as readonly string[]).includes(sortBy as string)) {
+      throw new ValidationError(`Sort by must be one of: ${TASK_SORT_FIELDS.join(', ')}`, 'sortBy');
+    }
+
+    if (sortOrder !== undefined && !['asc', 'desc'].includes(sortOrder as string)) {
+      throw new ValidationError('Sort order must be either "asc" or "desc"', 'sortOrder');
+    }
+
+    if (search !== undefined && (typeof search !== 'string' || search.length > 200)) {
+      throw new ValidationError('Search must be a string of at most 200 characters', 'search');
+    }
+
+    if (dateFrom !== undefined && isNaN(new Date(dateFrom as string).getTime())) {
+      throw new ValidationError('dateFrom must be a valid date', 'dateFrom');
+    }
+
+    if (dateTo !== undefined && isNaN(new Date(dateTo as string).getTime())) {
+      throw new ValidationError('dateTo must be a valid date', 'dateTo');
+    }
+
+    if (overdue !== undefined && !['true', 'false'].includes(overdue as string)) {
+      throw new ValidationError('Overdue must be either "true" or "false"', 'overdue');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+const MAX_COMMENT_LENGTH = 5000;
+
+export const validateCreateComment = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { content, parentCommentId } = req.body;
+
+    if (!content || typeof content !== 'string' || content.trim().length === 0) {
+      throw new ValidationError('Content is required and must be a non-empty string', 'content');
+    }
+
+    if (content.length > MAX_COMMENT_LENGTH) {
+      throw new ValidationError(`Content must be at most ${MAX_COMMENT_LENGTH} characters`, 'content');
+    }
+
+    if (parentCommentId !== undefined && parentCommentId !== null && (typeof parentCommentId !== 'string' || !UUID_PATTERN.test(parentCommentId))) {
+      throw new ValidationError('Parent comment ID must be a valid UUID', 'parentCommentId');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateUpdateComment = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { content } = req.body;
+
+    if (!content || typeof content !== 'string' || content.trim().length === 0) {
+      throw new ValidationError('Content is required and must be a non-empty string', 'content');
+    }
+
+    if (content.length > MAX_COMMENT_LENGTH) {
+      throw new ValidationError(`Content must be at most ${MAX_COMMENT_LENGTH} characters`, 'content');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateCreateDependency = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { predecessorTaskId, successorTaskId, dependencyType } = req.body;
+
+    if ((predecessorTaskId === undefined) === (successorTaskId === undefined)) {
+      throw new ValidationError('Exactly one of predecessorTaskId or successorTaskId is required', 'predecessorTaskId');
+    }
+
+    const otherTaskId = predecessorTaskId ?? successorTaskId;
+    const field = predecessorTaskId !== undefined ? 'predecessorTaskId' : 'successorTaskId';
+    if (typeof otherTaskId !== 'string' || !UUID_PATTERN.test(otherTaskId)) {
+      throw new ValidationError(`${field} must be a valid UUID`, field);
+    }
+
+    if (otherTaskId === req.params.id) {
+      throw new ValidationError('A task cannot depend on itself', field);
+    }
+
+    if (dependencyType !== undefined && !(DEPENDENCY_TYPES as readonly string[]).includes(dependencyType)) {
+      throw new ValidationError(`Dependency type must be one of: ${DEPENDENCY_TYPES.join(', ')}`, 'dependencyType');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateDependencyLinkQuery = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const taskIds = parseListParam(req.query.taskIds);
+
+    if (taskIds.length === 0 || taskIds.length > MAX_DEPENDENCY_LINK_TASKS) {
+      throw new ValidationError(`taskIds must list between 1 and ${MAX_DEPENDENCY_LINK_TASKS} task IDs`, 'taskIds');
+    }
+
+    if (taskIds.some(id => !UUID_PATTERN.test(id))) {
+      throw new ValidationError('taskIds must be valid UUIDs', 'taskIds');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateDependencyIdParam = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!/^[1-9]\d*$/.test(req.params.dependencyId || '')) {
+      throw new ValidationError('Invalid dependencyId format', 'dependencyId');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateIdParams = (...names: string[]) => (req: Request, res: Response, next: NextFunction) => {
+  try {
+    for (const name of names) {
+      if (!UUID_PATTERN.test(req.params[name] || '')) {
+        throw new ValidationError(`Invalid ${name} format`, name);
       }
+    }
 
-      for (let i = 0; i < taskData.comments.length; i++) {
-        const comment = taskData.comments[i];
-        
-        if (!comment.content || typeof comment.content !== 'string') {
-          throw new ValidationError(`Comment ${i + 1}: content is required and must be a string`, 'comments');
-        }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
 
-        if (!comment.userId || typeof comment.userId !== 'string') {
-          throw new ValidationError(`Comment ${i + 1}: userId is required and must be a string (UUID)`, 'comments');
-        }
+// Shared by task creation and the subtasks sub-resource
+const validateSubtaskDrafts = (subtasks: unknown) => {
+  if (!Array.isArray(subtasks) || subtasks.length === 0 || subtasks.length > MAX_SUBTASKS_PER_BATCH) {
+    throw new ValidationError(`Subtasks must be an array of 1 to ${MAX_SUBTASKS_PER_BATCH} entries`, 'subtasks');
+  }
+
+  (subtasks as SubtaskDraft[]).forEach((subtask, index) => {
+    const label = `Subtask ${index + 1}`;
+
+    if (!subtask || typeof subtask.title !== 'string' || !subtask.title.trim() || subtask.title.trim().length > MAX_TASK_TITLE_LENGTH) {
+      throw new ValidationError(`${label}: title must be a non-empty string of at most ${MAX_TASK_TITLE_LENGTH} characters`, 'subtasks');
+    }
+
+    if (subtask.description !== undefined && typeof subtask.description !== 'string') {
+      throw new ValidationError(`${label}: description must be a string`, 'subtasks');
+    }
+
+    if (subtask.priority !== undefined && !VALID_TASK_PRIORITIES.includes(subtask.priority)) {
+      throw new ValidationError(`${label}: invalid priority value`, 'subtasks');
+    }
+
+    if (subtask.estimatedMinutes !== undefined && (!Number.isInteger(subtask.estimatedMinutes) || subtask.estimatedMinutes < 0 || subtask.estimatedMinutes > MAX_TIMER_DURATION_MINUTES)) {
+      throw new ValidationError(`${label}: estimatedMinutes must be a whole number between 0 and ${MAX_TIMER_DURATION_MINUTES}`, 'subtasks');
+    }
+
+    // Only earlier entries may be referenced, so the links can never form a cycle
+    if (subtask.dependsOn !== undefined) {
+      if (!Array.isArray(subtask.dependsOn) || subtask.dependsOn.some(position => !Number.isInteger(position) || position < 0 || position >= index)) {
+        throw new ValidationError(`${label}: dependsOn must list positions of earlier subtasks`, 'subtasks');
+      }
+      if (new Set(subtask.dependsOn).size !== subtask.dependsOn.length) {
+        throw new ValidationError(`${label}: dependsOn must not repeat a position`, 'subtasks');
       }
     }
+  });
+};
+
+export const validateCreateSubtasks = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { subtasks } = req.body as CreateSubtasksRequest;
+    validateSubtaskDrafts(subtasks);
 
     next();
   } catch (error) {
@@ -206,9 +483,48 @@ export const validateUpdateTask = (req: Request, res: Response, next: NextFuncti
   }
 };
 
-export const validatePagination = (req: Request, res: Response, next: NextFunction) => {
+const validateChecklistContent = (content: unknown) => {
+  if (typeof content !== 'string' || content.trim().length === 0) {
+    throw new ValidationError('Content is required and must be a non-empty string', 'content');
+  }
+  if (content.trim().length > MAX_CHECKLIST_ITEM_LENGTH) {
+    throw new ValidationError(`Content must be at most ${MAX_CHECKLIST_ITEM_LENGTH} characters`, 'content');
+  }
+};
+
+export const validateCreateChecklistItem = (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { page, limit, status, priority, assigneeId, projectId, sortBy, sortOrder } = req.query;
+    validateChecklistContent(req.body.content);
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateUpdateChecklistItem = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { content, isDone } = req.body as UpdateChecklistItemRequest;
+
+    if (content === undefined && isDone === undefined) {
+      throw new ValidationError('At least one of content or isDone is required', 'body');
+    }
+    if (content !== undefined) {
+      validateChecklistContent(content);
+    }
+    if (isDone !== undefined && typeof isDone !== 'boolean') {
+      throw new ValidationError('isDone must be a boolean', 'isDone');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateNotificationList = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page, limit, unreadOnly } = req.query;
 
     if (page !== undefined && (isNaN(Number(page)) || Number(page) < 1)) {
       throw new ValidationError('Page must be a positive number', 'page');
@@ -218,32 +534,546 @@ export const validatePagination = (req: Request, res: Response, next: NextFuncti
       throw new ValidationError('Limit must be a number between 1 and 100', 'limit');
     }
 
-    if (status !== undefined && !VALID_TASK_STATUSES.includes(status as string)) {
-      throw new ValidationError('Invalid status value', 'status');
+    if (unreadOnly !== undefined && !['true', 'false'].includes(unreadOnly as string)) {
+      throw new ValidationError('unreadOnly must be either "true" or "false"', 'unreadOnly');
     }
 
-    if (priority !== undefined && !VALID_TASK_PRIORITIES.includes(priority as string)) {
-      throw new ValidationError('Invalid priority value', 'priority');
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateCreateNotification = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { recipientId, taskId, type, message } = req.body;
+
+    if (typeof recipientId !== 'string' || !UUID_PATTERN.test(recipientId)) {
+      throw new ValidationError('Recipient ID must be a valid UUID', 'recipientId');
     }
 
-    if (assigneeId !== undefined && isNaN(Number(assigneeId))) {
-      throw new ValidationError('Assignee ID must be a number', 'assigneeId');
+    if (taskId !== undefined && taskId !== null && (typeof taskId !== 'string' || !UUID_PATTERN.test(taskId))) {
+      throw new ValidationError('Task ID must be a valid UUID', 'taskId');
     }
 
-    if (projectId !== undefined && isNaN(Number(projectId))) {
-      throw new ValidationError('Project ID must be a number', 'projectId');
+    if (!(NOTIFICATION_TYPES as readonly string[]).includes(type)) {
+      throw new ValidationError(`Type must be one of: ${NOTIFICATION_TYPES.join(', ')}`, 'type');
     }
 
-    if (sortBy !== undefined && typeof sortBy !== 'string') {
-      throw new ValidationError('Sort by must be a string', 'sortBy');
+    if (!message || typeof message !== 'string' || message.trim().length === 0 || message.length > 1000) {
+      throw new ValidationError('Message is required and must be at most 1000 characters', 'message');
     }
 
-    if (sortOrder !== undefined && !['asc', 'desc'].includes(sortOrder as string)) {
-      throw new ValidationError('Sort order must be either "asc" or "desc"', 'sortOrder');
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+const AUDIT_NAME_PATTERN = /^[A-Za-z0-9_.:-]{1,100}$/;
+
+export const validateCreateAuditLog = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { action, resource, resourceId, metadata, forwardedIpAddress, forwardedUserAgent } = req.body;
+
+    if (typeof action !== 'string' || !AUDIT_NAME_PATTERN.test(action)) {
+      throw new ValidationError('Action must be 1-100 letters, digits or _.:-', 'action');
+    }
+
+    if (typeof resource !== 'string' || !AUDIT_NAME_PATTERN.test(resource)) {
+      throw new ValidationError('Resource must be 1-100 letters, digits or _.:-', 'resource');
+    }
+
+    if (resourceId !== undefined && resourceId !== null && (typeof resourceId !== 'string' || resourceId.length > 255)) {
+      throw new ValidationError('Resource ID must be a string of at most 255 characters', 'resourceId');
+    }
+
+    if (metadata !== undefined && (metadata === null || typeof metadata !== 'object' || Array.isArray(metadata))) {
+      throw new ValidationError('Metadata must be an object', 'metadata');
+    }
+
+    if (forwardedIpAddress !== undefined && forwardedIpAddress !== null && (typeof forwardedIpAddress !== 'string' || forwardedIpAddress.length > 45)) {
+      throw new ValidationError('Forwarded IP address must be a string of at most 45 characters', 'forwardedIpAddress');
+    }
+
+    if (forwardedUserAgent !== undefined && forwardedUserAgent !== null && (typeof forwardedUserAgent !== 'string' || forwardedUserAgent.length > 1000)) {
+      throw new ValidationError('Forwarded user agent must be a string of at most 1000 characters', 'forwardedUserAgent');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateAuditLogQuery = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page, limit, userId, action, resource, search, dateFrom, dateTo } = req.query;
+
+    if (page !== undefined && (isNaN(Number(page)) || Number(page) < 1)) {
+      throw new ValidationError('Page must be a positive number', 'page');
+    }
+
+    if (limit !== undefined && (isNaN(Number(limit)) || Number(limit) < 1 || Number(limit) > 200)) {
+      throw new ValidationError('Limit must be a number between 1 and 200', 'limit');
+    }
+
+    if (userId !== undefined && !UUID_PATTERN.test(String(userId))) {
+      throw new ValidationError('User ID must be a valid UUID', 'userId');
+    }
+
+    if (action !== undefined && !AUDIT_NAME_PATTERN.test(String(action))) {
+      throw new ValidationError('Invalid action filter', 'action');
+    }
+
+    if (resource !== undefined && !AUDIT_NAME_PATTERN.test(String(resource))) {
+      throw new ValidationError('Invalid resource filter', 'resource');
+    }
+
+    if (search !== undefined && (typeof search !== 'string' || search.length > 200)) {
+      throw new ValidationError('Search must be a string of at most 200 characters', 'search');
+    }
+
+    if (dateFrom !== undefined && isNaN(new Date(dateFrom as string).getTime())) {
+      throw new ValidationError('dateFrom must be a valid date', 'dateFrom');
+    }
+
+    if (dateTo !== undefined && isNaN(new Date(dateTo as string).getTime())) {
+      throw new ValidationError('dateTo must be a valid date', 'dateTo');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateCreateProject = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, description } = req.body;
+
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      throw new ValidationError('Name is required and must be a non-empty string', 'name');
+    }
+
+    if (name.trim().length > MAX_PROJECT_NAME_LENGTH) {
+      throw new ValidationError(`Name must be at most ${MAX_PROJECT_NAME_LENGTH} characters`, 'name');
+    }
+
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      throw new ValidationError('Description must be a string or null', 'description');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateUpdateProject = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, description } = req.body;
+
+    if (name === undefined && description === undefined) {
+      throw new ValidationError('At least one of name or description is required', 'name');
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+      throw new ValidationError('Name must be a non-empty string', 'name');
+    }
+
+    if (name !== undefined && name.trim().length > MAX_PROJECT_NAME_LENGTH) {
+      throw new ValidationError(`Name must be at most ${MAX_PROJECT_NAME_LENGTH} characters`, 'name');
+    }
+
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      throw new ValidationError('Description must be a string or null', 'description');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Shared by create and update; on create the required fields must be present
+const validateTemplateFields = (data: UpdateTemplateRequest, isCreate: boolean) => {
+  if (isCreate || data.name !== undefined) {
+    if (typeof data.name !== 'string' || data.name.trim().length === 0) {
+      throw new ValidationError('Name is required and must be a non-empty string', 'name');
+    }
+    if (data.name.trim().length > MAX_TEMPLATE_NAME_LENGTH) {
+      throw new ValidationError(`Name must be at most ${MAX_TEMPLATE_NAME_LENGTH} characters`, 'name');
+    }
+  }
+
+  if (isCreate || data.title !== undefined) {
+    if (typeof data.title !== 'string' || data.title.trim().length === 0) {
+      throw new ValidationError('Title is required and must be a non-empty string', 'title');
+    }
+    if (data.title.trim().length > 255) {
+      throw new ValidationError('Title must be at most 255 characters', 'title');
+    }
+  }
+
+  if (data.description !== undefined && data.description !== null && typeof data.description !== 'string') {
+    throw new ValidationError('Description must be a string or null', 'description');
+  }
+
+  if (data.defaultPriority !== undefined && !VALID_TASK_PRIORITIES.includes(data.defaultPriority)) {
+    throw new ValidationError('Invalid default priority value', 'defaultPriority');
+  }
+
+  if (data.defaultTimerDuration !== undefined && (!Number.isInteger(data.defaultTimerDuration) || data.defaultTimerDuration < 0 || data.defaultTimerDuration > MAX_TIMER_DURATION_MINUTES)) {
+    throw new ValidationError(`Default timer duration must be a whole number of minutes between 0 and ${MAX_TIMER_DURATION_MINUTES}`, 'defaultTimerDuration');
+  }
+
+  if (data.checklist !== undefined) {
+    if (!Array.isArray(data.checklist) || data.checklist.length > MAX_TEMPLATE_CHECKLIST_ITEMS) {
+      throw new ValidationError(`Checklist must be an array of at most ${MAX_TEMPLATE_CHECKLIST_ITEMS} items`, 'checklist');
+    }
+    if (data.checklist.some(item => typeof item !== 'string' || item.trim().length === 0 || item.length > MAX_TEMPLATE_CHECKLIST_ITEM_LENGTH)) {
+      throw new ValidationError(`Checklist items must be non-empty strings of at most ${MAX_TEMPLATE_CHECKLIST_ITEM_LENGTH} characters`, 'checklist');
+    }
+  }
+
+  if (data.tags !== undefined) {
+    if (!Array.isArray(data.tags) || data.tags.length > MAX_TEMPLATE_TAGS) {
+      throw new ValidationError(`Tags must be an array of at most ${MAX_TEMPLATE_TAGS} items`, 'tags');
+    }
+    if (data.tags.some(tag => typeof tag !== 'string' || tag.trim().length === 0 || tag.length > MAX_TEMPLATE_TAG_LENGTH)) {
+      throw new ValidationError(`Tags must be non-empty strings of at most ${MAX_TEMPLATE_TAG_LENGTH} characters`, 'tags');
+    }
+  }
+
+  if (data.isPublic !== undefined && typeof data.isPublic !== 'boolean') {
+    throw new ValidationError('isPublic must be a boolean', 'isPublic');
+  }
+};
+
+export const validateCreateTemplate = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    validateTemplateFields(req.body, true);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateUpdateTemplate = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.body || Object.keys(req.body).length === 0) {
+      throw new ValidationError('At least one field is required', 'name');
+    }
+    validateTemplateFields(req.body, false);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateTemplateQuery = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { search, tags } = req.query;
+
+    if (search !== undefined && (typeof search !== 'string' || search.length > 200)) {
+      throw new ValidationError('Search must be a string of at most 200 characters', 'search');
+    }
+
+    if (parseListParam(tags).some(tag => tag.length > MAX_TEMPLATE_TAG_LENGTH)) {
+      throw new ValidationError(`Tags must be at most ${MAX_TEMPLATE_TAG_LENGTH} characters`, 'tags');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+const MAX_TIME_ENTRY_NOTE_LENGTH = 1000;
+// A single entry longer than this is almost certainly a forgotten timer or a typo
+const MAX_TIME_ENTRY_HOURS = 24;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const validateTimestamp = (value: unknown, field: string): Date => {
+  if (typeof value !== 'string' || isNaN(new Date(value).getTime())) {
+    throw new ValidationError(`${field} must be a valid ISO date-time`, field);
+  }
+  const date = new Date(value);
+  if (date.getTime() > Date.now()) {
+    throw new ValidationError(`${field} cannot be in the future`, field);
+  }
+  return date;
+};
+
+const validateTimeEntryNote = (note: unknown) => {
+  if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > MAX_TIME_ENTRY_NOTE_LENGTH)) {
+    throw new ValidationError(`Note must be a string of at most ${MAX_TIME_ENTRY_NOTE_LENGTH} characters`, 'note');
+  }
+};
+
+const validateTimeEntryRange = (startedAt: Date, endedAt: Date) => {
+  if (endedAt <= startedAt) {
+    throw new ValidationError('End time must be after the start time', 'endedAt');
+  }
+  if (endedAt.getTime() - startedAt.getTime() > MAX_TIME_ENTRY_HOURS * 60 * 60 * 1000) {
+    throw new ValidationError(`A time entry cannot be longer than ${MAX_TIME_ENTRY_HOURS} hours`, 'endedAt');
+  }
+};
+
+export const validateStartTimer = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    validateTimeEntryNote(req.body?.note);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateCreateTimeEntry = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { startedAt, endedAt, note } = req.body;
+
+    validateTimeEntryRange(validateTimestamp(startedAt, 'startedAt'), validateTimestamp(endedAt, 'endedAt'));
+    validateTimeEntryNote(note);
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateUpdateTimeEntry = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { startedAt, endedAt, note } = req.body;
+
+    if (startedAt === undefined && endedAt === undefined && note === undefined) {
+      throw new ValidationError('At least one of startedAt, endedAt or note is required', 'body');
+    }
+
+    const start = startedAt !== undefined ? validateTimestamp(startedAt, 'startedAt') : undefined;
+    const end = endedAt !== undefined ? validateTimestamp(endedAt, 'endedAt') : undefined;
+    if (start && end) {
+      validateTimeEntryRange(start, end);
+    }
+    validateTimeEntryNote(note);
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateTimesheetQuery = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { weekStart, timezone } = req.query;
+
+    if (weekStart !== undefined && (typeof weekStart !== 'string' || !DATE_ONLY_PATTERN.test(weekStart) || isNaN(new Date(weekStart).getTime()))) {
+      throw new ValidationError('weekStart must be a date in YYYY-MM-DD format', 'weekStart');
+    }
+
+    if (timezone !== undefined) {
+      try {
+        if (typeof timezone !== 'string') throw new Error();
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      } catch {
+        throw new ValidationError('timezone must be a valid IANA time zone name', 'timezone');
+      }
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateOutboxQuery = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page, limit, status } = req.query;
+
+    if (page !== undefined && (isNaN(Number(page)) || Number(page) < 1)) {
+      throw new ValidationError('Page must be a positive number', 'page');
+    }
+
+    if (limit !== undefined && (isNaN(Number(limit)) || Number(limit) < 1 || Number(limit) > 100)) {
+      throw new ValidationError('Limit must be a number between 1 and 100', 'limit');
+    }
+
+    if (status !== undefined && !(OUTBOX_STATUSES as readonly string[]).includes(String(status))) {
+      throw new ValidationError(`Status must be one of: ${OUTBOX_STATUSES.join(', ')}`, 'status');
     }
 
     next();
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+export const validateCreateTeam = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, description } = req.body;
+
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      throw new ValidationError('Name is required and must be a non-empty string', 'name');
+    }
+
+    if (name.trim().length > MAX_TEAM_NAME_LENGTH) {
+      throw new ValidationError(`Name must be at most ${MAX_TEAM_NAME_LENGTH} characters`, 'name');
+    }
+
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      throw new ValidationError('Description must be a string or null', 'description');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateUpdateTeam = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, description } = req.body;
+
+    if (name === undefined && description === undefined) {
+      throw new ValidationError('At least one of name or description is required', 'name');
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+      throw new ValidationError('Name must be a non-empty string', 'name');
+    }
+
+    if (name !== undefined && name.trim().length > MAX_TEAM_NAME_LENGTH) {
+      throw new ValidationError(`Name must be at most ${MAX_TEAM_NAME_LENGTH} characters`, 'name');
+    }
+
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      throw new ValidationError('Description must be a string or null', 'description');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateAddTeamMember = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { userId, role } = req.body;
+
+    if (typeof userId !== 'string' || !UUID_PATTERN.test(userId)) {
+      throw new ValidationError('User ID is required and must be a valid UUID', 'userId');
+    }
+
+    if (role !== undefined && !TEAM_MEMBER_ROLES.includes(role)) {
+      throw new ValidationError(`Role must be one of: ${TEAM_MEMBER_ROLES.join(', ')}`, 'role');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateDeadlineEstimate = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { title, description, priority, assigneeId, tags, startDate } = req.body;
+
+    if ((typeof title !== 'string' || !title.trim()) && (typeof description !== 'string' || !description.trim())) {
+      throw new ValidationError('A title or description is required', 'title');
+    }
+
+    for (const [field, value] of Object.entries({ title, description })) {
+      if (value !== undefined && (typeof value !== 'string' || value.length > MAX_ESTIMATE_TEXT_LENGTH)) {
+        throw new ValidationError(`${field} must be a string of at most ${MAX_ESTIMATE_TEXT_LENGTH} characters`, field);
+      }
+    }
+
+    if (priority !== undefined && !VALID_TASK_PRIORITIES.includes(priority)) {
+      throw new ValidationError(`Priority must be one of: ${VALID_TASK_PRIORITIES.join(', ')}`, 'priority');
+    }
+
+    if (assigneeId !== undefined && (typeof assigneeId !== 'string' || !UUID_PATTERN.test(assigneeId))) {
+      throw new ValidationError('Assignee ID must be a valid UUID', 'assigneeId');
+    }
+
+    if (tags !== undefined && (!Array.isArray(tags) || tags.length > MAX_ESTIMATE_TAGS || tags.some(tag => typeof tag !== 'string'))) {
+      throw new ValidationError(`Tags must be an array of at most ${MAX_ESTIMATE_TAGS} strings`, 'tags');
+    }
+
+    if (startDate !== undefined && (typeof startDate !== 'string' || isNaN(new Date(startDate).getTime()))) {
+      throw new ValidationError('Start date must be a valid ISO date-time', 'startDate');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+const AI_FLOW_NAME_PATTERN = /^[A-Za-z0-9_.:-]{1,100}$/;
+const MAX_AI_MODEL_LENGTH = 255;
+const MAX_AI_USAGE_COUNT = 10000000;
+
+export const validateRecordAiUsage = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { flow, provider, model, inputTokens, outputTokens, latencyMs, attempts, cached, success, error } = req.body;
+
+    if (typeof flow !== 'string' || !AI_FLOW_NAME_PATTERN.test(flow)) {
+      throw new ValidationError('Flow must be 1-100 letters, digits or _.:-', 'flow');
+    }
+
+    if (!(AI_PROVIDERS as readonly string[]).includes(provider)) {
+      throw new ValidationError(`Provider must be one of: ${AI_PROVIDERS.join(', ')}`, 'provider');
+    }
+
+    if (typeof model !== 'string' || !model.trim() || model.length > MAX_AI_MODEL_LENGTH) {
+      throw new ValidationError(`Model must be a non-empty string of at most ${MAX_AI_MODEL_LENGTH} characters`, 'model');
+    }
+
+    const counts: Record<string, unknown> = { inputTokens, outputTokens, latencyMs, attempts };
+    for (const [field, value] of Object.entries(counts)) {
+      if (value !== undefined && (!Number.isInteger(value) || (value as number) < 0 || (value as number) > MAX_AI_USAGE_COUNT)) {
+        throw new ValidationError(`${field} must be a non-negative whole number`, field);
+      }
+    }
+
+    if (cached !== undefined && typeof cached !== 'boolean') {
+      throw new ValidationError('Cached must be a boolean', 'cached');
+    }
+
+    if (typeof success !== 'boolean') {
+      throw new ValidationError('Success must be a boolean', 'success');
+    }
+
+    if (error !== undefined && error !== null && typeof error !== 'string') {
+      throw new ValidationError('Error must be a string', 'error');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const validateAiUsageQuery = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { dateFrom, dateTo } = req.query;
+
+    if (dateFrom !== undefined && isNaN(new Date(dateFrom as string).getTime())) {
+      throw new ValidationError('dateFrom must be a valid date', 'dateFrom');
+    }
+
+    if (dateTo !== undefined && isNaN(new Date(dateTo as string).getTime())) {
+      throw new ValidationError('dateTo must be a valid date', 'dateTo');
+    }
+
+    if (dateFrom !== undefined && dateTo !== undefined && new Date(dateFrom as string) > new Date(dateTo as string)) {
+      throw new ValidationError('dateFrom must not be after dateTo', 'dateFrom');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
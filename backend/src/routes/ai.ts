@@ -0,0 +1,54 @@
+// routes/ai.ts
+import express, { Request, Response, NextFunction } from 'express';
+import { AiUsageService } from '../services/aiUsageService';
+import { validateRecordAiUsage, validateAiUsageQuery } from '../middleware/validation';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { handleError } from '../utils/errorHandler';
+import { ApiResponse } from '../types/task';
+import { AiUsageRecord, AiUsageSummary, RecordAiUsageRequest } from '../types/aiUsage';
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// Record one AI request made for the signed-in user. The AI flows run on the Next
+// server, which reports each call here with the user's cookie.
+router.post('/usage', validateRecordAiUsage, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const usageData: RecordAiUsageRequest = req.body;
+    const record = await AiUsageService.record(req.user!.id, usageData);
+
+    const response: ApiResponse<AiUsageRecord> = {
+      success: true,
+      data: record
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Requests, tokens and latency per flow, model and user (admin)
+router.get('/usage/summary', requireRole('Admin'), validateAiUsageQuery, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { dateFrom, dateTo } = req.query;
+    const summary = await AiUsageService.getSummary({
+      dateFrom: dateFrom as string | undefined,
+      dateTo: dateTo as string | undefined
+    });
+
+    const response: ApiResponse<AiUsageSummary> = {
+      success: true,
+      data: summary
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.use(handleError);
+
+export default router;
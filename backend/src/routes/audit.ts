@@ -0,0 +1,101 @@
+// routes/audit.ts
+import crypto from 'crypto';
+import express, { Request, Response, NextFunction } from 'express';
+import { AuditService } from '../services/auditService';
+import { validateCreateAuditLog, validateAuditLogQuery } from '../middleware/validation';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { handleError } from '../utils/errorHandler';
+import { ApiResponse } from '../types/task';
+import { AuditLogEntry, AuditLogFilters, CreateAuditLogRequest, PaginatedAuditLog } from '../types/audit';
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+const parseFilters = (req: Request): AuditLogFilters => {
+  const { page, limit, userId, action, resource, search, dateFrom, dateTo } = req.query;
+  return {
+    page: page ? Number(page) : undefined,
+    limit: limit ? Number(limit) : undefined,
+    userId: userId as string | undefined,
+    action: action as string | undefined,
+    resource: resource as string | undefined,
+    search: typeof search === 'string' && search.trim() ? search.trim() : undefined,
+    dateFrom: dateFrom as string | undefined,
+    dateTo: dateTo as string | undefined
+  };
+};
+
+// Server actions reach us from the Next server, which proves it with INTERNAL_API_SECRET.
+// Without the secret configured nobody is trusted.
+const isFromServerAction = (req: Request): boolean => {
+  const secret = process.env.INTERNAL_API_SECRET;
+  const presented = req.get('X-Internal-Secret');
+  if (!secret || !presented) {
+    return false;
+  }
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(presented);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+// Record an action taken by the signed-in user. The IP and user agent are always the ones
+// this request came from; the browser's details a server action forwards are kept beside them.
+router.post('/', validateCreateAuditLog, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { forwardedIpAddress, forwardedUserAgent, ...logData }: CreateAuditLogRequest = req.body;
+    const trusted = isFromServerAction(req);
+    const entry = await AuditService.record(
+      req.user!.id,
+      {
+        ...logData,
+        forwardedIpAddress: trusted ? forwardedIpAddress : null,
+        forwardedUserAgent: trusted ? forwardedUserAgent : null
+      },
+      { ipAddress: req.ip || null, userAgent: req.get('User-Agent') || null }
+    );
+
+    const response: ApiResponse<AuditLogEntry> = {
+      success: true,
+      data: entry
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Search the audit log (admin only)
+router.get('/', requireRole('Admin'), validateAuditLogQuery, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await AuditService.listEntries(parseFilters(req));
+
+    const response: ApiResponse<PaginatedAuditLog> = {
+      success: true,
+      data: result
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Download the filtered audit log as CSV (admin only)
+router.get('/export', requireRole('Admin'), validateAuditLogQuery, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const csv = await AuditService.exportCsv(parseFilters(req));
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(csv);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.use(handleError);
+
+export default router;
@@ -2,81 +2,69 @@
 import express from 'express';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
+import rateLimit from 'express-rate-limit';
 import { v4 as uuidv4 } from 'uuid';
-import { User, UserRole } from '../types';
+import { UserRole } from '../types';
 import { pool } from '../config/db';
 import { ValidationError } from '../utils/validationError';
-import nodemailer from 'nodemailer';
+import { ValidationError as FieldValidationError } from '../utils/errors';
+import { authenticateToken, JWT_SECRET, signAccessToken, TokenPayload, verifyAccessToken } from '../middleware/auth';
+import { MailService } from '../services/mailService';
+import { PasswordResetService } from '../services/passwordResetService';
+import { SessionService } from '../services/sessionService';
+import { NotFoundError } from '../utils/errors';
+import { IssuedSession } from '../types/session';
 
 const router = express.Router();
 
-// JWT secret (use environment variable in production)
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-
-// In-memory store for demo; use DB or Redis in production!
-const verificationCodes: Record<string, string> = {};
-
-// Helper to send email (configure SMTP in your .env)
-async function sendVerificationEmail(email: string, code: string) {
-  const transporter = nodemailer.createTransport({
-    host: process.env.SMTP_HOST,
-    port: parseInt(process.env.SMTP_PORT || '587'),
-    secure: false,
-    auth: {
-      user: process.env.SMTP_USER,
-      pass: process.env.SMTP_PASS,
-    },
-  });
+const REFRESH_COOKIE = 'refresh_token';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-  await transporter.sendMail({
-    from: process.env.SMTP_FROM || 'Task App <no-reply@taskapp.com>',
-    to: email,
-    subject: 'Your Verification Code',
-    text: `Your verification code is: ${code}`,
-    html: `<p>Your verification code is: <b>${code}</b></p>`,
-  });
-}
-
-// Add type for authenticated request
-interface AuthenticatedRequest extends express.Request {
-  user?: {
-    id: string;
-    email: string;
-    role: UserRole;
-  };
-}
-
-// Middleware to verify JWT token
-const authenticateToken = (req: express.Request, res: express.Response, next: express.NextFunction) => {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
-  
-  // Also check for token in cookies
-  const cookieToken = req.cookies?.token;
-  const finalToken = token || cookieToken;
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const
+};
 
-  console.log('Backend: authenticateToken - Received cookieToken:', cookieToken);
-  console.log('Backend: authenticateToken - Final token:', finalToken);
+// The refresh cookie is only sent to the auth routes, never with ordinary API calls
+const refreshCookieOptions = { ...cookieOptions, path: '/api/auth' };
 
-  if (!finalToken) {
-    return res.status(401).json({ error: 'No token provided' });
-  }
+const clientInfo = (req: express.Request) => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
 
-  jwt.verify(finalToken, JWT_SECRET, (err: any, user: any) => {
-    if (err) {
-      console.error('Backend: authenticateToken - JWT verification failed:', err);
-      return res.status(403).json({ error: 'Invalid or expired token' });
-    }
-    (req as AuthenticatedRequest).user = user;
-    next();
-  });
+// Signs an access token for the session and sets both cookies
+const issueTokens = (
+  res: express.Response,
+  user: { id: string; email: string; role: UserRole },
+  session: IssuedSession
+) => {
+  const { token, expiresAt } = signAccessToken(user, session.sessionId);
+  res.cookie('token', token, { ...cookieOptions, expires: expiresAt });
+  res.cookie(REFRESH_COOKIE, session.refreshToken, { ...refreshCookieOptions, expires: session.expiresAt });
+  return { token, accessTokenExpiresAt: expiresAt.toISOString() };
 };
 
+const clearAuthCookies = (res: express.Response) => {
+  res.clearCookie('token', cookieOptions);
+  res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+};
+
+// Tighter than the app-wide limiter: these routes send email and accept guessable input
+const passwordResetLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  message: { success: false, error: 'Too many password reset attempts, please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
 // POST /api/auth/register
 router.post('/register', async (req: express.Request, res: express.Response) => {
   const client = await pool.connect();
   try {
-    const { email, password, firstName, lastName, role = 'User' } = req.body;
+    const { email, password, firstName, lastName } = req.body;
 
     // Validate required fields
     if (!email || !password) {
@@ -107,31 +95,21 @@ router.post('/register', async (req: express.Request, res: express.Response) =>
     const salt = await bcrypt.genSalt(10);
     const hashedPassword = await bcrypt.hash(password, salt);
 
-    // Convert role to proper case
-    const normalizedRole = role.charAt(0).toUpperCase() + role.slice(1).toLowerCase();
-    if (!['Admin', 'User'].includes(normalizedRole)) {
-      throw new ValidationError('Invalid role. Must be one of: Admin, User');
-    }
-
-    // Create user with UUID
+    // Self sign-up always creates a regular user; an admin grants Manager when adding them to a team
     const userId = uuidv4();
     const result = await client.query(
       `INSERT INTO users (
         id, email, password_hash, first_name, last_name, role,
         is_active, email_verified, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, true, false, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ) VALUES ($1, $2, $3, $4, $5, 'User', true, false, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
       RETURNING id, email, first_name, last_name, role`,
-      [userId, email, hashedPassword, firstName, lastName, normalizedRole]
+      [userId, email, hashedPassword, firstName, lastName]
     );
 
     const user = result.rows[0];
 
-    // Generate JWT token with UUID
-    const token = jwt.sign(
-      { id: user.id, email: user.email, role: user.role },
-      JWT_SECRET,
-      { expiresIn: '24h' }
-    );
+    const session = await SessionService.createSession(String(user.id), clientInfo(req));
+    const { token, accessTokenExpiresAt } = issueTokens(res, { ...user, id: String(user.id) }, session);
 
     res.status(201).json({
       success: true,
@@ -143,7 +121,8 @@ router.post('/register', async (req: express.Request, res: express.Response) =>
           lastName: user.last_name,
           role: user.role
         },
-        token
+        token,
+        accessTokenExpiresAt
       }
     });
   } catch (error) {
@@ -187,20 +166,9 @@ router.post('/login', async (req, res) => {
       }
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { id: user.id, email: user.email, role: user.role },
-      JWT_SECRET,
-      { expiresIn: '24h' }
-    );
-
-    // Set httpOnly cookie
-    res.cookie('token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 24 * 60 * 60 * 1000 // 24 hours
-    });
+    // Each login is its own session, so devices can be listed and signed out separately
+    const session = await SessionService.createSession(String(user.id), clientInfo(req));
+    const { token, accessTokenExpiresAt } = issueTokens(res, { ...user, id: String(user.id) }, session);
 
     // Return user without password
     const { password_hash, ...userWithoutPassword } = user;
@@ -212,7 +180,8 @@ router.post('/login', async (req, res) => {
         lastName: userWithoutPassword.last_name,
         role: userWithoutPassword.role
       },
-      token
+      token,
+      accessTokenExpiresAt
     });
 
   } catch (error) {
@@ -223,16 +192,102 @@ router.post('/login', async (req, res) => {
   }
 });
 
+// POST /api/auth/refresh
+router.post('/refresh', async (req, res) => {
+  const refreshToken = req.cookies?.[REFRESH_COOKIE];
+  if (!refreshToken) {
+    return res.status(401).json({ success: false, error: 'No refresh token' });
+  }
+
+  try {
+    const rotated = await SessionService.rotateSession(refreshToken, clientInfo(req));
+    if (!rotated) {
+      clearAuthCookies(res);
+      return res.status(401).json({ success: false, error: 'Session has expired. Please sign in again.' });
+    }
+
+    const { user, session } = rotated;
+    const { token, accessTokenExpiresAt } = issueTokens(res, user, session);
+    res.json({
+      success: true,
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          role: user.role
+        },
+        token,
+        accessTokenExpiresAt
+      }
+    });
+  } catch (error) {
+    console.error('[REFRESH] Error:', error);
+    res.status(500).json({ success: false, error: 'Failed to refresh session' });
+  }
+});
+
 // POST /api/auth/logout
-router.post('/logout', (req, res) => {
-  res.clearCookie('token', {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax'
-  });
+router.post('/logout', async (req, res) => {
+  try {
+    const refreshToken = req.cookies?.[REFRESH_COOKIE];
+    if (refreshToken) {
+      await SessionService.revokeByRefreshToken(refreshToken);
+    } else {
+      // No refresh cookie (e.g. a bearer-only client): fall back to the access token's session
+      const authHeader = req.headers['authorization'];
+      const token = (authHeader && authHeader.split(' ')[1]) || req.cookies?.token;
+      const payload: TokenPayload | null = token ? jwt.verify(token, JWT_SECRET, { ignoreExpiration: true }) as TokenPayload : null;
+      if (payload?.sid) {
+        await SessionService.revokeSession(payload.sid, payload.id).catch(error => {
+          if (!(error instanceof NotFoundError)) throw error;
+        });
+      }
+    }
+  } catch (error) {
+    // The cookies are cleared regardless; a stale or forged token just has nothing to revoke
+    console.error('[LOGOUT] Failed to revoke session:', error);
+  }
+
+  clearAuthCookies(res);
   res.json({ message: 'Logged out successfully' });
 });
 
+// GET /api/auth/sessions
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const sessions = await SessionService.listSessions(req.user!.id, req.user!.sessionId);
+    res.json({ success: true, data: sessions });
+  } catch (error) {
+    console.error('[SESSIONS] Error:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch sessions' });
+  }
+});
+
+// DELETE /api/auth/sessions/:id
+router.delete('/sessions/:id', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({ success: false, error: 'Invalid session id' });
+  }
+
+  try {
+    await SessionService.revokeSession(id, req.user!.id);
+    if (id === req.user!.sessionId) {
+      clearAuthCookies(res);
+    }
+    res.json({ success: true, message: 'Session revoked' });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      res.status(404).json({ success: false, error: error.message });
+    } else {
+      console.error('[REVOKE SESSION] Error:', error);
+      res.status(500).json({ success: false, error: 'Failed to revoke session' });
+    }
+  }
+});
+
 // GET /api/auth/me
 router.get('/me', async (req, res) => {
   // Try to get JWT from Authorization header or cookie
@@ -245,7 +300,7 @@ router.get('/me', async (req, res) => {
     return res.status(401).json({ success: false, error: 'Not authenticated' });
   }
   try {
-    const decoded: any = jwt.verify(token, JWT_SECRET);
+    const decoded = await verifyAccessToken(token);
     const userId = decoded.id;
     const client = await pool.connect();
     try {
@@ -263,12 +318,57 @@ router.get('/me', async (req, res) => {
   }
 });
 
+// POST /api/auth/forgot-password
+router.post('/forgot-password', passwordResetLimiter, async (req, res) => {
+  const { email } = req.body;
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ success: false, error: 'Email is required' });
+  }
+
+  try {
+    await PasswordResetService.requestReset(email, req.ip);
+  } catch (error) {
+    // Logged but not surfaced: the response must look the same for every address
+    console.error('[FORGOT PASSWORD] Error:', error);
+  }
+  res.json({
+    success: true,
+    message: 'If an account exists for that email, a password reset link is on its way.'
+  });
+});
+
+// POST /api/auth/reset-password
+router.post('/reset-password', passwordResetLimiter, async (req, res) => {
+  try {
+    const { token, password } = req.body;
+    if (!token || typeof token !== 'string') {
+      throw new ValidationError('Reset token is required');
+    }
+    if (!password || typeof password !== 'string' || password.length < 8) {
+      throw new ValidationError('Password must be at least 8 characters long');
+    }
+
+    await PasswordResetService.resetPassword(token, password);
+
+    // Whoever made the request is signed out too; they log in with the new password
+    clearAuthCookies(res);
+    res.json({ success: true, message: 'Your password has been reset. Please log in.' });
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof FieldValidationError) {
+      res.status(400).json({ success: false, error: error.message });
+    } else {
+      console.error('[RESET PASSWORD] Error:', error);
+      res.status(500).json({ success: false, error: 'Failed to reset password' });
+    }
+  }
+});
+
 // GET /api/users
 router.get('/users', authenticateToken, async (req: express.Request, res: express.Response) => {
   const client = await pool.connect();
   try {
     const result = await client.query(
-      'SELECT id, email, first_name, last_name, role FROM users'
+      'SELECT id, email, first_name, last_name, role, team_id FROM users'
     );
     res.json(result.rows);
   } catch (error) {
@@ -311,7 +411,7 @@ router.post('/send-verification-email', async (req, res) => {
        ON CONFLICT (email) DO UPDATE SET code = $2, expires_at = $3`,
       [email, code, expiresAt]
     );
-    await sendVerificationEmail(email, code);
+    await MailService.enqueue('verification', email, { code, expiresInMinutes: 10 });
     res.json({ success: true });
   } catch (err) {
     console.error('[SEND VERIFICATION EMAIL] Error:', err);
@@ -0,0 +1,26 @@
+// routes/events.ts
+import express, { Request, Response } from 'express';
+import { EventService } from '../services/eventService';
+import { TeamService } from '../services/teamService';
+import { authenticateToken } from '../middleware/auth';
+
+const router = express.Router();
+
+// Server-Sent Events stream of task and notification changes for the signed-in user
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  let teammateIds: string[] = [];
+  if (req.user!.role === 'Manager') {
+    try {
+      teammateIds = await TeamService.getTeammateIds(req.user!.id);
+    } catch (error) {
+      console.error('Failed to resolve team for event stream:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  const removeClient = EventService.addClient(req.user!, res, teammateIds);
+
+  req.on('close', removeClient);
+});
+
+export default router;
@@ -0,0 +1,55 @@
+// routes/mail.ts
+import express, { Request, Response, NextFunction } from 'express';
+import { MailService } from '../services/mailService';
+import { validateIdParams, validateOutboxQuery } from '../middleware/validation';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { handleError } from '../utils/errorHandler';
+import { ApiResponse } from '../types/task';
+import { OutboxEmail, OutboxStatus, PaginatedOutbox } from '../types/mail';
+
+const router = express.Router();
+
+// The outbox holds other people's addresses and message bodies, so it is admin-only
+router.use(authenticateToken, requireRole('Admin'));
+
+// List queued, sent and failed emails, newest first
+router.get('/outbox', validateOutboxQuery, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page, limit, status } = req.query;
+    const result = await MailService.listOutbox({
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+      status: status as OutboxStatus | undefined
+    });
+
+    const response: ApiResponse<PaginatedOutbox> = {
+      success: true,
+      data: result
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Queue a failed email for another round of delivery attempts
+router.post('/outbox/:id/retry', validateIdParams('id'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const email = await MailService.retryEmail(req.params.id);
+
+    const response: ApiResponse<OutboxEmail> = {
+      success: true,
+      data: email,
+      message: 'Email queued for delivery'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.use(handleError);
+
+export default router;
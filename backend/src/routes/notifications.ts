@@ -0,0 +1,122 @@
+// routes/notifications.ts
+import express, { Request, Response, NextFunction } from 'express';
+import { NotificationService } from '../services/notificationService';
+import { TaskService } from '../services/taskService';
+import { validateNotificationList, validateCreateNotification } from '../middleware/validation';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { ValidationError } from '../utils/errors';
+import { handleError } from '../utils/errorHandler';
+import { ApiResponse } from '../types/task';
+import { Notification, PaginatedNotifications, CreateNotificationRequest } from '../types/notification';
+
+const router = express.Router();
+
+// Every notification route acts on the signed-in user's own feed
+router.use(authenticateToken);
+
+// List notifications, newest first
+router.get('/', validateNotificationList, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page, limit, unreadOnly } = req.query;
+
+    const result = await NotificationService.listNotifications(req.user!.id, {
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+      unreadOnly: unreadOnly === 'true'
+    });
+
+    const response: ApiResponse<PaginatedNotifications> = {
+      success: true,
+      data: result
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Unread badge count
+router.get('/unread-count', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const count = await NotificationService.getUnreadCount(req.user!.id);
+
+    const response: ApiResponse<{ count: number }> = {
+      success: true,
+      data: { count }
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Send a notification to another user. Reviewers only, and a linked task must be one they can see,
+// so regular users can't imitate system notices or point others at tasks outside their scope.
+router.post('/', requireRole('Admin', 'Manager'), validateCreateNotification, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const notificationData: CreateNotificationRequest = req.body;
+    if (notificationData.taskId) {
+      await TaskService.assertTaskVisible(notificationData.taskId, req.user!);
+    }
+
+    const notification = await NotificationService.createNotification({
+      ...notificationData,
+      message: notificationData.message.trim()
+    });
+
+    const response: ApiResponse<Notification> = {
+      success: true,
+      data: notification,
+      message: 'Notification sent successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark every unread notification as read
+router.patch('/read-all', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const updated = await NotificationService.markAllAsRead(req.user!.id);
+
+    const response: ApiResponse<{ updated: number }> = {
+      success: true,
+      data: { updated },
+      message: 'All notifications marked as read'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark a single notification as read
+router.patch('/:id/read', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const notificationId = Number(req.params.id);
+    if (!Number.isInteger(notificationId) || notificationId < 1) {
+      throw new ValidationError('Invalid notification ID format', 'id');
+    }
+
+    const notification = await NotificationService.markAsRead(req.user!.id, notificationId);
+
+    const response: ApiResponse<Notification> = {
+      success: true,
+      data: notification,
+      message: 'Notification marked as read'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.use(handleError);
+
+export default router;
@@ -0,0 +1,100 @@
+// routes/projects.ts
+import express, { Request, Response, NextFunction } from 'express';
+import { ProjectService } from '../services/projectService';
+import { validateCreateProject, validateUpdateProject, validateIdParams } from '../middleware/validation';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { handleError } from '../utils/errorHandler';
+import { ApiResponse } from '../types/task';
+import { CreateProjectRequest, Project, UpdateProjectRequest } from '../types/project';
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// List all projects with progress and overdue counts over the tasks the caller can see
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const projects = await ProjectService.listProjects(req.user!);
+
+    const response: ApiResponse<Project[]> = {
+      success: true,
+      data: projects
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a single project
+router.get('/:id', validateIdParams('id'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const project = await ProjectService.getProjectById(req.params.id, req.user!);
+
+    const response: ApiResponse<Project> = {
+      success: true,
+      data: project
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a project (admin only)
+router.post('/', requireRole('Admin'), validateCreateProject, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const projectData: CreateProjectRequest = req.body;
+    const project = await ProjectService.createProject(projectData, req.user!.id);
+
+    const response: ApiResponse<Project> = {
+      success: true,
+      data: project,
+      message: 'Project created successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rename or re-describe a project (admin only)
+router.put('/:id', requireRole('Admin'), validateIdParams('id'), validateUpdateProject, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const projectData: UpdateProjectRequest = req.body;
+    const project = await ProjectService.updateProject(req.params.id, projectData, req.user!.id);
+
+    const response: ApiResponse<Project> = {
+      success: true,
+      data: project,
+      message: 'Project updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a project (admin only); its tasks are kept and become unassigned
+router.delete('/:id', requireRole('Admin'), validateIdParams('id'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await ProjectService.deleteProject(req.params.id);
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Project deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.use(handleError);
+
+export default router;
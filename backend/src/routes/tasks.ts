@@ -1,44 +1,134 @@
 // routes/tasks.ts
 import express, { Request, Response, NextFunction } from 'express';
 import { TaskService } from '../services/taskService';
-import { validateCreateTask, validateUpdateTask, validatePagination } from '../middleware/validation';
-import { ValidationError } from '../utils/errors';
-import { CreateTaskRequest, UpdateTaskRequest, PaginationParams, ApiResponse, Task, TaskStatus, TaskPriority } from '../types/task';
+import { CommentService } from '../services/commentService';
+import { ActivityService } from '../services/activityService';
+import { DependencyService } from '../services/dependencyService';
+import { AttachmentService } from '../services/attachmentService';
+import { TimeEntryService } from '../services/timeEntryService';
+import { ChecklistService } from '../services/checklistService';
+import { DeadlineEstimatorService } from '../services/deadlineEstimatorService';
+import { getWorkflow } from '../utils/statusTransitions';
+import { validateCreateTask, validateUpdateTask, validatePagination, parseListParam, validateCreateComment, validateUpdateComment, validateIdParams, validateCreateDependency, validateDependencyIdParam, validateDependencyLinkQuery, validateStartTimer, validateCreateTimeEntry, validateDeadlineEstimate, validateCreateSubtasks, validateCreateChecklistItem, validateUpdateChecklistItem } from '../middleware/validation';
+import { authenticateToken, identifyUser } from '../middleware/auth';
+import { uploadSingleFile } from '../middleware/upload';
+import { handleError } from '../utils/errorHandler';
+import { CreateTaskRequest, UpdateTaskRequest, PaginationParams, PaginatedResponse, PaginatedComments, ApiResponse, Task, TaskStatus, TaskWorkflow, TaskPriority, TaskSortField, TaskCommentResponse, CreateSubtasksRequest, CreatedSubtasks } from '../types/task';
+import { PaginatedActivity } from '../types/activity';
+import { DependencyLink, TaskDependencies, TaskDependency } from '../types/dependency';
+import { TaskAttachmentResponse } from '../types/attachment';
+import { ChecklistItem } from '../types/checklist';
+import { StartTimerResult, TaskTimeSummary, TimeEntry } from '../types/timeEntry';
+import { DeadlineEstimate, DeadlineEstimateRequest } from '../types/estimate';
 
 const router = express.Router();
 
 // Error handler middleware for this router
-const handleError = (error: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error(`[${new Date().toISOString()}] ${req.method} ${req.path}:`, error);
-
-  if (error instanceof ValidationError) {
-    res.status(400).json({
-      error: 'Validation failed',
-      message: error.message,
-      field: error.field
-    });
-  } else {
-    res.status(500).json({
-      error: 'Internal server error',
-      message: 'An unexpected error occurred'
-    });
+// Sub-resources of a task the caller can't see answer 404, like the task itself
+const requireVisibleTask = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await TaskService.assertTaskVisible(req.params.id, req.user!);
+    next();
+  } catch (error) {
+    next(error);
   }
 };
 
-// Get all tasks with pagination and filtering
-router.get('/', async (req: Request, res: Response) => {
+// Get all tasks the caller can see, with pagination and filtering
+router.get('/', authenticateToken, validatePagination, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page, limit, status, priority, assigneeId, assignerId, projectId, sortBy, sortOrder, search, dateFrom, dateTo, overdue } = req.query;
+
+    const params: PaginationParams = {
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+      status: parseListParam(status) as TaskStatus[],
+      priority: parseListParam(priority) as TaskPriority[],
+      assigneeId: assigneeId as string | undefined,
+      assignerId: assignerId as string | undefined,
+      projectId: projectId as string | undefined,
+      sortBy: sortBy as TaskSortField | undefined,
+      sortOrder: sortOrder as 'asc' | 'desc' | undefined,
+      search: typeof search === 'string' && search.trim() ? search.trim() : undefined,
+      dateFrom: dateFrom as string | undefined,
+      dateTo: dateTo as string | undefined,
+      overdue: overdue === undefined ? undefined : overdue === 'true'
+    };
+
+    const result = await TaskService.getAllTasks(params, req.user);
+
+    const response: ApiResponse<PaginatedResponse<Task>> = {
+      success: true,
+      data: result
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Dependency links among a set of tasks (e.g. the tasks on a timeline)
+router.get('/dependencies', authenticateToken, validateDependencyLinkQuery, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const links = await DependencyService.listLinks(parseListParam(req.query.taskIds), req.user!);
+
+    const response: ApiResponse<DependencyLink[]> = {
+      success: true,
+      data: links
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Status moves the caller's role may make; the same table is enforced on create and update
+router.get('/workflow', identifyUser, (req: Request, res: Response) => {
+  const response: ApiResponse<TaskWorkflow> = {
+    success: true,
+    data: getWorkflow(req.user?.role || 'User')
+  };
+
+  res.json(response);
+});
+
+// Status counts over the tasks the caller can see
+router.get('/stats/overview', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const stats = await TaskService.getTaskStatistics(req.user);
+
+    const response: ApiResponse<Record<string, number>> = {
+      success: true,
+      data: stats
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Suggested deadline with a likely range, learned from how long comparable completed tasks took
+router.post('/estimate-deadline', authenticateToken, validateDeadlineEstimate, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    // TEMP: Use a minimal query to diagnose DB timeout
-    const result = await require('../config/db').pool.query('SELECT id, title FROM tasks LIMIT 5');
-    res.json({ success: true, data: { tasks: result.rows, pagination: {} } });
+    const estimateRequest: DeadlineEstimateRequest = req.body;
+    const estimate = await DeadlineEstimatorService.estimate(estimateRequest);
+
+    const response: ApiResponse<DeadlineEstimate> = {
+      success: true,
+      data: estimate
+    };
+
+    res.json(response);
   } catch (error) {
-    console.error('Error fetching tasks:', error);
-    res.status(500).json({ success: false, error: 'Failed to fetch tasks' });
+    next(error);
   }
 });
 
 // Get a specific task by ID
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     
@@ -48,7 +138,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
       });
     }
 
-    const task = await TaskService.getTaskById(id);
+    const task = await TaskService.getTaskById(id, req.user);
     
     if (!task) {
       return res.status(404).json({
@@ -67,11 +157,11 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
-// Create a new task
-router.post('/', validateCreateTask, async (req: Request, res: Response, next: NextFunction) => {
+// Create a new task; the signed-in caller is always its assigner
+router.post('/', authenticateToken, validateCreateTask, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const taskData: CreateTaskRequest = req.body;
-    const task = await TaskService.createTask(taskData);
+    const taskData: CreateTaskRequest = { ...req.body, assignerId: req.user!.id };
+    const task = await TaskService.createTask(taskData, req.user);
     
     const response: ApiResponse<Task> = {
       success: true,
@@ -86,12 +176,12 @@ router.post('/', validateCreateTask, async (req: Request, res: Response, next: N
 });
 
 // Update a task
-router.put('/:id', validateUpdateTask, async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id', authenticateToken, validateUpdateTask, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const taskData: UpdateTaskRequest = req.body;
     
-    const task = await TaskService.updateTask(id, taskData);
+    const task = await TaskService.updateTask(id, taskData, req.user);
     
     if (!task) {
       return res.status(404).json({
@@ -112,7 +202,7 @@ router.put('/:id', validateUpdateTask, async (req: Request, res: Response, next:
 });
 
 // Delete a task
-router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id', authenticateToken, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     
@@ -122,7 +212,7 @@ router.delete('/:id', async (req: Request, res: Response, next: NextFunction) =>
       });
     }
 
-    const success = await TaskService.deleteTask(id);
+    const success = await TaskService.deleteTask(id, req.user);
     
     if (!success) {
       return res.status(404).json({
@@ -141,6 +231,375 @@ router.delete('/:id', async (req: Request, res: Response, next: NextFunction) =>
   }
 });
 
+// List comments for a task (top-level comments paginated, replies nested)
+router.get('/:id/comments', authenticateToken, validateIdParams('id'), requireVisibleTask, validatePagination, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = req.query.page ? Number(req.query.page) : undefined;
+    const limit = req.query.limit ? Number(req.query.limit) : undefined;
+    const result = await CommentService.listComments(req.params.id, page, limit);
+
+    const response: ApiResponse<PaginatedComments> = {
+      success: true,
+      data: result
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a comment (or a reply when parentCommentId is given) to a task
+router.post('/:id/comments', authenticateToken, validateIdParams('id'), requireVisibleTask, validateCreateComment, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const comment = await CommentService.createComment(req.params.id, req.user!.id, req.body);
+
+    const response: ApiResponse<TaskCommentResponse> = {
+      success: true,
+      data: comment,
+      message: 'Comment added successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Edit a comment (author only)
+router.put('/:id/comments/:commentId', authenticateToken, validateIdParams('id', 'commentId'), requireVisibleTask, validateUpdateComment, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const comment = await CommentService.updateComment(req.params.id, req.params.commentId, req.user!, req.body);
+
+    const response: ApiResponse<TaskCommentResponse> = {
+      success: true,
+      data: comment,
+      message: 'Comment updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Soft-delete a comment (author or admin)
+router.delete('/:id/comments/:commentId', authenticateToken, validateIdParams('id', 'commentId'), requireVisibleTask, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await CommentService.deleteComment(req.params.id, req.params.commentId, req.user!);
+
+    const response: ApiResponse<void> = {
+      success: true,
+      message: 'Comment deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Field-level change history for a task, newest first
+router.get('/:id/activity', authenticateToken, validateIdParams('id'), requireVisibleTask, validatePagination, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = req.query.page ? Number(req.query.page) : undefined;
+    const limit = req.query.limit ? Number(req.query.limit) : undefined;
+    const result = await ActivityService.listActivity(req.params.id, page, limit);
+
+    const response: ApiResponse<PaginatedActivity> = {
+      success: true,
+      data: result
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Predecessors (tasks this one waits on) and successors (tasks waiting on this one)
+router.get('/:id/dependencies', authenticateToken, validateIdParams('id'), requireVisibleTask, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await DependencyService.listDependencies(req.params.id, req.user!);
+
+    const response: ApiResponse<TaskDependencies> = {
+      success: true,
+      data: result
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Link a predecessor or successor; rejected with 409 if the link would close a cycle
+router.post('/:id/dependencies', authenticateToken, validateIdParams('id'), requireVisibleTask, validateCreateDependency, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const dependency = await DependencyService.addDependency(req.params.id, req.body, req.user!);
+
+    const response: ApiResponse<TaskDependency> = {
+      success: true,
+      data: dependency,
+      message: 'Dependency added successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a dependency link from either end
+router.delete('/:id/dependencies/:dependencyId', authenticateToken, validateIdParams('id'), requireVisibleTask, validateDependencyIdParam, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await DependencyService.removeDependency(req.params.id, req.params.dependencyId, req.user!.id);
+
+    const response: ApiResponse<void> = {
+      success: true,
+      message: 'Dependency removed successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Direct subtasks of a task, oldest first
+router.get('/:id/subtasks', authenticateToken, validateIdParams('id'), requireVisibleTask, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subtasks = await TaskService.getSubtasks(req.params.id);
+
+    const response: ApiResponse<Task[]> = {
+      success: true,
+      data: subtasks
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a batch of subtasks under this task, with finish-to-start links between them, in one transaction
+router.post('/:id/subtasks', authenticateToken, validateIdParams('id'), requireVisibleTask, validateCreateSubtasks, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subtaskData: CreateSubtasksRequest = req.body;
+    const result = await TaskService.createSubtasks(req.params.id, subtaskData, req.user!);
+
+    const response: ApiResponse<CreatedSubtasks> = {
+      success: true,
+      data: result,
+      message: `${result.subtasks.length} subtasks created successfully`
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Checklist items in display order
+router.get('/:id/checklist', authenticateToken, validateIdParams('id'), requireVisibleTask, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const items = await ChecklistService.listItems(req.params.id);
+
+    const response: ApiResponse<ChecklistItem[]> = {
+      success: true,
+      data: items
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Append a checklist item; the task's progress is rolled up again
+router.post('/:id/checklist', authenticateToken, validateIdParams('id'), requireVisibleTask, validateCreateChecklistItem, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const item = await ChecklistService.addItem(req.params.id, req.body, req.user!.id);
+
+    const response: ApiResponse<ChecklistItem> = {
+      success: true,
+      data: item,
+      message: 'Checklist item added successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rename or tick/untick a checklist item
+router.put('/:id/checklist/:itemId', authenticateToken, validateIdParams('id', 'itemId'), requireVisibleTask, validateUpdateChecklistItem, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const item = await ChecklistService.updateItem(req.params.id, req.params.itemId, req.body, req.user!.id);
+
+    const response: ApiResponse<ChecklistItem> = {
+      success: true,
+      data: item,
+      message: 'Checklist item updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a checklist item
+router.delete('/:id/checklist/:itemId', authenticateToken, validateIdParams('id', 'itemId'), requireVisibleTask, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await ChecklistService.removeItem(req.params.id, req.params.itemId);
+
+    const response: ApiResponse<void> = {
+      success: true,
+      message: 'Checklist item deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List a task's stored and linked attachments
+router.get('/:id/attachments', authenticateToken, validateIdParams('id'), requireVisibleTask, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const attachments = await AttachmentService.listAttachments(req.params.id);
+
+    const response: ApiResponse<TaskAttachmentResponse[]> = {
+      success: true,
+      data: attachments
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Upload one file as multipart/form-data in the `file` field
+router.post('/:id/attachments', authenticateToken, validateIdParams('id'), requireVisibleTask, uploadSingleFile('file'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const attachment = await AttachmentService.uploadAttachment(req.params.id, {
+      originalName: req.file!.originalname,
+      mimeType: req.file!.mimetype,
+      buffer: req.file!.buffer
+    }, req.user!.id);
+
+    const response: ApiResponse<TaskAttachmentResponse> = {
+      success: true,
+      data: attachment,
+      message: 'Attachment uploaded successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Stream a stored attachment back to an authenticated user
+router.get('/:id/attachments/:attachmentId/download', authenticateToken, validateIdParams('id', 'attachmentId'), requireVisibleTask, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { attachment, stream } = await AttachmentService.getDownload(req.params.id, req.params.attachmentId);
+    const asciiName = attachment.fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+
+    res.setHeader('Content-Type', attachment.fileType || 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    if (attachment.fileSizeBytes !== null) {
+      res.setHeader('Content-Length', String(attachment.fileSizeBytes));
+    }
+    if (attachment.checksum) {
+      res.setHeader('ETag', `"${attachment.checksum}"`);
+    }
+
+    stream.on('error', error => {
+      if (res.headersSent) {
+        res.destroy(error);
+      } else {
+        next(error);
+      }
+    });
+    stream.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Soft-delete an attachment (uploader or admin)
+router.delete('/:id/attachments/:attachmentId', authenticateToken, validateIdParams('id', 'attachmentId'), requireVisibleTask, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await AttachmentService.deleteAttachment(req.params.id, req.params.attachmentId, req.user!);
+
+    const response: ApiResponse<void> = {
+      success: true,
+      message: 'Attachment deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Logged time on a task with its entries, compared against the timer_duration estimate
+router.get('/:id/time-entries', authenticateToken, validateIdParams('id'), requireVisibleTask, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const summary = await TimeEntryService.getTaskTimeSummary(req.params.id);
+
+    const response: ApiResponse<TaskTimeSummary> = {
+      success: true,
+      data: summary
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Log a finished block of time by hand
+router.post('/:id/time-entries', authenticateToken, validateIdParams('id'), requireVisibleTask, validateCreateTimeEntry, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const entry = await TimeEntryService.createManualEntry(req.params.id, req.user!.id, req.body);
+
+    const response: ApiResponse<TimeEntry> = {
+      success: true,
+      data: entry,
+      message: 'Time entry added successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Start the current user's timer on this task, stopping any timer running elsewhere
+router.post('/:id/time-entries/start', authenticateToken, validateIdParams('id'), requireVisibleTask, validateStartTimer, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await TimeEntryService.startTimer(req.params.id, req.user!.id, req.body?.note);
+
+    const response: ApiResponse<StartTimerResult> = {
+      success: true,
+      data: result,
+      message: result.stoppedEntry
+        ? `Timer started; stopped the timer on "${result.stoppedEntry.taskTitle}"`
+        : 'Timer started'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Apply error handler middleware
 router.use(handleError);
 
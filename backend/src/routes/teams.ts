@@ -0,0 +1,134 @@
+// routes/teams.ts
+import express, { Request, Response, NextFunction } from 'express';
+import { TeamService } from '../services/teamService';
+import { validateCreateTeam, validateUpdateTeam, validateAddTeamMember, validateIdParams } from '../middleware/validation';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { handleError } from '../utils/errorHandler';
+import { ApiResponse } from '../types/task';
+import { AddTeamMemberRequest, CreateTeamRequest, Team, UpdateTeamRequest } from '../types/team';
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// List all teams with their members
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const teams = await TeamService.listTeams();
+
+    const response: ApiResponse<Team[]> = {
+      success: true,
+      data: teams
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a single team
+router.get('/:id', validateIdParams('id'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const team = await TeamService.getTeamById(req.params.id);
+
+    const response: ApiResponse<Team> = {
+      success: true,
+      data: team
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a team (admin only)
+router.post('/', requireRole('Admin'), validateCreateTeam, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const teamData: CreateTeamRequest = req.body;
+    const team = await TeamService.createTeam(teamData);
+
+    const response: ApiResponse<Team> = {
+      success: true,
+      data: team,
+      message: 'Team created successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rename or re-describe a team (admin only)
+router.put('/:id', requireRole('Admin'), validateIdParams('id'), validateUpdateTeam, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const teamData: UpdateTeamRequest = req.body;
+    const team = await TeamService.updateTeam(req.params.id, teamData);
+
+    const response: ApiResponse<Team> = {
+      success: true,
+      data: team,
+      message: 'Team updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a team (admin only); its members are kept without a team
+router.delete('/:id', requireRole('Admin'), validateIdParams('id'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await TeamService.deleteTeam(req.params.id);
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Team deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Put a user on the team, optionally making them its manager (admin only)
+router.post('/:id/members', requireRole('Admin'), validateIdParams('id'), validateAddTeamMember, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const memberData: AddTeamMemberRequest = req.body;
+    const team = await TeamService.addMember(req.params.id, memberData);
+
+    const response: ApiResponse<Team> = {
+      success: true,
+      data: team,
+      message: 'Team member added successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Take a user off the team (admin only); their role is left as it is
+router.delete('/:id/members/:userId', requireRole('Admin'), validateIdParams('id', 'userId'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await TeamService.removeMember(req.params.id, req.params.userId);
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Team member removed successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.use(handleError);
+
+export default router;
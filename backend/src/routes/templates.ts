@@ -0,0 +1,103 @@
+// routes/templates.ts
+import express, { Request, Response, NextFunction } from 'express';
+import { TemplateService } from '../services/templateService';
+import { validateCreateTemplate, validateUpdateTemplate, validateTemplateQuery, validateIdParams, parseListParam } from '../middleware/validation';
+import { authenticateToken } from '../middleware/auth';
+import { handleError } from '../utils/errorHandler';
+import { ApiResponse } from '../types/task';
+import { CreateTemplateRequest, TaskTemplate, UpdateTemplateRequest } from '../types/template';
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// List templates visible to the caller, optionally filtered by any of `tags` and a name/title search
+router.get('/', validateTemplateQuery, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const templates = await TemplateService.listTemplates(req.user!, {
+      tags: parseListParam(req.query.tags),
+      search: req.query.search ? String(req.query.search) : undefined
+    });
+
+    const response: ApiResponse<TaskTemplate[]> = {
+      success: true,
+      data: templates
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a single template
+router.get('/:id', validateIdParams('id'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const template = await TemplateService.getTemplateById(req.params.id, req.user!);
+
+    const response: ApiResponse<TaskTemplate> = {
+      success: true,
+      data: template
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a template owned by the caller
+router.post('/', validateCreateTemplate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const templateData: CreateTemplateRequest = req.body;
+    const template = await TemplateService.createTemplate(templateData, req.user!);
+
+    const response: ApiResponse<TaskTemplate> = {
+      success: true,
+      data: template,
+      message: 'Template created successfully'
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update a template (creator or admin)
+router.put('/:id', validateIdParams('id'), validateUpdateTemplate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const templateData: UpdateTemplateRequest = req.body;
+    const template = await TemplateService.updateTemplate(req.params.id, templateData, req.user!);
+
+    const response: ApiResponse<TaskTemplate> = {
+      success: true,
+      data: template,
+      message: 'Template updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a template (creator or admin); tasks created from it are unaffected
+router.delete('/:id', validateIdParams('id'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await TemplateService.deleteTemplate(req.params.id, req.user!);
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Template deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.use(handleError);
+
+export default router;
@@ -0,0 +1,102 @@
+// routes/timeEntries.ts
+import express, { Request, Response, NextFunction } from 'express';
+import { TimeEntryService } from '../services/timeEntryService';
+import { validateUpdateTimeEntry, validateTimesheetQuery, validateIdParams } from '../middleware/validation';
+import { authenticateToken } from '../middleware/auth';
+import { handleError } from '../utils/errorHandler';
+import { ApiResponse } from '../types/task';
+import { TimeEntry, UpdateTimeEntryRequest, WeeklyTimesheet } from '../types/timeEntry';
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+// The caller's running timer, or null when none is running
+router.get('/running', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const entry = await TimeEntryService.getRunningEntry(req.user!.id);
+
+    const response: ApiResponse<TimeEntry | null> = {
+      success: true,
+      data: entry
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Stop the caller's running timer, whichever task it is on
+router.post('/stop', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const entry = await TimeEntryService.stopTimer(req.user!.id);
+
+    const response: ApiResponse<TimeEntry> = {
+      success: true,
+      data: entry,
+      message: 'Timer stopped'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// The caller's logged time per task and day for one Monday-to-Sunday week in their time zone
+router.get('/timesheet', validateTimesheetQuery, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const timesheet = await TimeEntryService.getWeeklyTimesheet(req.user!.id, {
+      weekStart: req.query.weekStart ? String(req.query.weekStart) : undefined,
+      timezone: req.query.timezone ? String(req.query.timezone) : undefined
+    });
+
+    const response: ApiResponse<WeeklyTimesheet> = {
+      success: true,
+      data: timesheet
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Correct an entry's times or note (owner or admin)
+router.put('/:id', validateIdParams('id'), validateUpdateTimeEntry, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const entryData: UpdateTimeEntryRequest = req.body;
+    const entry = await TimeEntryService.updateEntry(req.params.id, req.user!, entryData);
+
+    const response: ApiResponse<TimeEntry> = {
+      success: true,
+      data: entry,
+      message: 'Time entry updated successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete an entry (owner or admin)
+router.delete('/:id', validateIdParams('id'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await TimeEntryService.deleteEntry(req.params.id, req.user!);
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Time entry deleted successfully'
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.use(handleError);
+
+export default router;
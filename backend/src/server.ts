@@ -9,6 +9,20 @@ import dotenv from 'dotenv';
 import { Server } from 'http';
 import taskRoutes from './routes/tasks';
 import authRoutes from './routes/auth'; // Add this import
+import notificationRoutes from './routes/notifications';
+import eventRoutes from './routes/events';
+import auditRoutes from './routes/audit';
+import projectRoutes from './routes/projects';
+import teamRoutes from './routes/teams';
+import templateRoutes from './routes/templates';
+import timeEntryRoutes from './routes/timeEntries';
+import mailRoutes from './routes/mail';
+import aiRoutes from './routes/ai';
+import { NotificationService } from './services/notificationService';
+import { MailService } from './services/mailService';
+import { RecurrenceService } from './services/recurrenceService';
+import { TaskService } from './services/taskService';
+import { EventService } from './services/eventService';
 import { initializeDatabase, checkDatabaseHealth, DatabaseInitError } from './db/init';
 
 // Load environment variables
@@ -26,6 +40,79 @@ const isDevelopment = process.env.NODE_ENV !== 'production';
 // Declare server variable at module level
 let server: Server;
 
+// Deadlines are checked every few minutes (DEADLINE_CHECK_INTERVAL_MINUTES) so the tightest
+// reminder offset still lands close to its time; task_reminders keeps reruns from repeating one
+const DEADLINE_CHECK_INTERVAL_MS = (Number(process.env.DEADLINE_CHECK_INTERVAL_MINUTES) || 5) * 60 * 1000;
+let deadlineCheckTimer: NodeJS.Timeout | undefined;
+
+const runDeadlineChecks = async () => {
+  try {
+    const sent = await NotificationService.sendDeadlineReminders();
+    if (sent > 0) {
+      console.log(`⏰ Sent ${sent} deadline reminder(s)`);
+    }
+
+    // Overdue is derived on read, so open boards only need the newly overdue tasks pushed to them
+    const overdueTaskIds = await NotificationService.notifyOverdueTasks();
+    for (const taskId of overdueTaskIds) {
+      const task = await TaskService.getTaskById(taskId);
+      if (task) {
+        EventService.publishTaskChange('task.updated', task);
+      }
+    }
+    if (overdueTaskIds.length > 0) {
+      console.log(`🚨 Flagged ${overdueTaskIds.length} task(s) as overdue`);
+    }
+  } catch (error) {
+    console.error('❌ Deadline check job failed:', error);
+  }
+};
+
+// The outbox is drained every 30 seconds; emails queued outside a transaction start sending immediately
+const MAIL_OUTBOX_INTERVAL_MS = 30 * 1000;
+let mailOutboxTimer: NodeJS.Timeout | undefined;
+
+const runMailOutbox = async () => {
+  try {
+    const { sent, failed } = await MailService.processOutbox();
+    if (sent > 0 || failed > 0) {
+      console.log(`📧 Sent ${sent} email(s)${failed > 0 ? `, ${failed} gave up after repeated failures` : ''}`);
+    }
+  } catch (error) {
+    console.error('❌ Mail outbox job failed:', error);
+  }
+};
+
+// Digests are checked hourly; each user gets at most one per day
+const MAIL_DIGEST_INTERVAL_MS = 60 * 60 * 1000;
+let mailDigestTimer: NodeJS.Timeout | undefined;
+
+const runMailDigests = async () => {
+  try {
+    const queued = await NotificationService.sendDailyDigests();
+    if (queued > 0) {
+      console.log(`📬 Queued ${queued} daily digest(s)`);
+    }
+  } catch (error) {
+    console.error('❌ Daily digest job failed:', error);
+  }
+};
+
+// Recurring series are checked every 15 minutes; completing an instance generates the next one immediately
+const RECURRENCE_INTERVAL_MS = 15 * 60 * 1000;
+let recurrenceTimer: NodeJS.Timeout | undefined;
+
+const runRecurrence = async () => {
+  try {
+    const generated = await RecurrenceService.generateDueOccurrences();
+    if (generated > 0) {
+      console.log(`🔁 Generated ${generated} recurring task instance(s)`);
+    }
+  } catch (error) {
+    console.error('❌ Recurring task job failed:', error);
+  }
+};
+
 // Security middleware
 app.use(helmet({
   contentSecurityPolicy: {
@@ -113,6 +200,15 @@ app.use((req, res, next) => {
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/tasks', taskRoutes);
+app.use('/api/projects', projectRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/templates', templateRoutes);
+app.use('/api/time-entries', timeEntryRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/audit-log', auditRoutes);
+app.use('/api/mail', mailRoutes);
+app.use('/api/ai', aiRoutes);
 
 // Health check endpoints
 app.get('/health', (req, res) => {
@@ -186,22 +282,101 @@ app.get('/api/docs', (req, res) => {
     baseUrl: `${req.protocol}://${req.get('host')}/api`,
     endpoints: {
       auth: {
-        'POST /auth/register': 'Register a new user',
+        'POST /auth/register': 'Register a new account (always created as a regular user)',
         'POST /auth/login': 'Login user',
-        'POST /auth/logout': 'Logout user',
+        'POST /auth/logout': 'Logout user and revoke the current session',
+        'POST /auth/refresh': 'Exchange the refresh cookie for a new access token (the refresh token rotates)',
+        'GET /auth/sessions': 'List your active sessions',
+        'DELETE /auth/sessions/:id': 'Sign out one of your sessions',
         'GET /auth/me': 'Get current user info',
+        'POST /auth/forgot-password': 'Email a single-use password reset link (same response whether or not the account exists)',
+        'POST /auth/reset-password': 'Set a new password from a reset token and sign out existing sessions',
         'GET /users': 'Get all users (authenticated)'
       },
       tasks: {
-        'GET /tasks': 'Get all tasks with pagination and filtering',
+        'GET /tasks': 'Get the tasks you can see (admins: all, managers: their team\'s, users: their own) with pagination and filtering',
         'GET /tasks/:id': 'Get a specific task by ID',
-        'POST /tasks': 'Create a new task',
-        'PUT /tasks/:id': 'Update a task',
-        'DELETE /tasks/:id': 'Delete a task',
-        'GET /tasks/user/:userId': 'Get tasks by user ID',
-        'GET /tasks/stats/overview': 'Get task statistics',
-        'POST /tasks/:id/comments': 'Add comment to a task',
-        'PATCH /tasks/bulk/status': 'Bulk update task status'
+        'POST /tasks': 'Create a new task as its assigner, optionally with a batch of subtasks',
+        'PUT /tasks/:id': 'Update a task (status moves follow the workflow; 409 lists the allowed statuses or the open subtasks blocking completion)',
+        'GET /tasks/workflow': 'Status transitions allowed for your role',
+        'DELETE /tasks/:id': 'Delete a task and its subtasks',
+        'GET /tasks/stats/overview': 'Status counts over the tasks you can see',
+        'POST /tasks/estimate-deadline': 'Suggest a deadline and likely range from comparable completed tasks and the assignee\'s open workload',
+        'GET /tasks/:id/comments': 'List comments on a task (threaded, paginated)',
+        'POST /tasks/:id/comments': 'Add comment or reply to a task',
+        'PUT /tasks/:id/comments/:commentId': 'Edit a comment (author only)',
+        'DELETE /tasks/:id/comments/:commentId': 'Soft-delete a comment (author or admin)',
+        'GET /tasks/:id/activity': 'Field-level change history for a task',
+        'GET /tasks/dependencies?taskIds=': 'Dependency links among the given tasks you can see',
+        'GET /tasks/:id/dependencies': 'List predecessor and successor links for a task',
+        'POST /tasks/:id/dependencies': 'Link a predecessor or successor task (cycles are rejected)',
+        'DELETE /tasks/:id/dependencies/:dependencyId': 'Remove a dependency link',
+        'GET /tasks/:id/subtasks': 'List the direct subtasks of a task',
+        'POST /tasks/:id/subtasks': 'Create a batch of subtasks with their dependency links in one transaction',
+        'GET /tasks/:id/checklist': 'List checklist items on a task',
+        'POST /tasks/:id/checklist': 'Add a checklist item (progress is recalculated from subtasks and checked items)',
+        'PUT /tasks/:id/checklist/:itemId': 'Rename or tick/untick a checklist item',
+        'DELETE /tasks/:id/checklist/:itemId': 'Remove a checklist item',
+        'GET /tasks/:id/attachments': 'List attachments on a task',
+        'POST /tasks/:id/attachments': 'Upload a file (multipart field "file"; JPEG, PNG, PDF, DOC or DOCX up to 10MB)',
+        'GET /tasks/:id/attachments/:attachmentId/download': 'Download a stored attachment',
+        'DELETE /tasks/:id/attachments/:attachmentId': 'Soft-delete an attachment (uploader or admin)',
+        'GET /tasks/:id/time-entries': 'Logged time entries and totals vs. the estimate',
+        'POST /tasks/:id/time-entries': 'Log a manual time entry',
+        'POST /tasks/:id/time-entries/start': 'Start your timer on a task (stops any other running timer)'
+      },
+      projects: {
+        'GET /projects': 'List projects with task progress and overdue counts',
+        'GET /projects/:id': 'Get a specific project',
+        'POST /projects': 'Create a project (admin)',
+        'PUT /projects/:id': 'Update a project (admin)',
+        'DELETE /projects/:id': 'Delete a project; its tasks are kept (admin)'
+      },
+      teams: {
+        'GET /teams': 'List teams with their members',
+        'GET /teams/:id': 'Get a specific team',
+        'POST /teams': 'Create a team (admin)',
+        'PUT /teams/:id': 'Update a team (admin)',
+        'DELETE /teams/:id': 'Delete a team; its members are kept (admin)',
+        'POST /teams/:id/members': 'Move a user onto the team, optionally as its manager (admin)',
+        'DELETE /teams/:id/members/:userId': 'Take a user off the team (admin)'
+      },
+      templates: {
+        'GET /templates': 'List public templates and your own (?tags=a,b&search=...)',
+        'GET /templates/:id': 'Get a specific template',
+        'POST /templates': 'Create a template',
+        'PUT /templates/:id': 'Update a template (creator or admin)',
+        'DELETE /templates/:id': 'Delete a template (creator or admin)'
+      },
+      timeEntries: {
+        'GET /time-entries/running': 'Get your running timer, if any',
+        'POST /time-entries/stop': 'Stop your running timer',
+        'GET /time-entries/timesheet': 'Your weekly timesheet (?weekStart=YYYY-MM-DD&timezone=Europe/Berlin)',
+        'PUT /time-entries/:id': 'Edit a time entry (owner or admin)',
+        'DELETE /time-entries/:id': 'Delete a time entry (owner or admin)'
+      },
+      notifications: {
+        'GET /notifications': 'List your notifications (paginated, ?unreadOnly=true)',
+        'GET /notifications/unread-count': 'Get your unread notification count',
+        'POST /notifications': 'Send a notification to a user (admins and managers; a linked task must be visible to the sender)',
+        'PATCH /notifications/:id/read': 'Mark a notification as read',
+        'PATCH /notifications/read-all': 'Mark all your notifications as read'
+      },
+      auditLog: {
+        'POST /audit-log': 'Record an audit entry for the signed-in user (forwarded browser details need X-Internal-Secret)',
+        'GET /audit-log': 'Search the audit log (admin)',
+        'GET /audit-log/export': 'Export the filtered audit log as CSV (admin)'
+      },
+      mail: {
+        'GET /mail/outbox': 'List queued, sent and failed emails (admin, ?status=)',
+        'POST /mail/outbox/:id/retry': 'Queue a failed email for delivery again (admin)'
+      },
+      ai: {
+        'POST /ai/usage': 'Record an AI request made for the signed-in user',
+        'GET /ai/usage/summary': 'AI requests, tokens and latency by flow, model and user (admin, ?dateFrom=&dateTo=)'
+      },
+      events: {
+        'GET /events': 'Server-Sent Events stream: task.created, task.updated, task.deleted (also when a task leaves your view), notification.created'
       },
       health: {
         'GET /health': 'Basic health check',
@@ -227,13 +402,29 @@ app.use('*', (req, res) => {
       'POST /api/auth/register',
       'POST /api/auth/login',
       'POST /api/auth/logout',
+      'POST /api/auth/refresh',
+      'GET /api/auth/sessions',
+      'DELETE /api/auth/sessions/:id',
       'GET /api/auth/me',
-      'GET /api/users',
+      'POST /api/auth/forgot-password',
+      'POST /api/auth/reset-password',
+      'GET /api/auth/users',
       'GET /api/tasks',
       'POST /api/tasks',
       'GET /api/tasks/:id',
       'PUT /api/tasks/:id',
-      'DELETE /api/tasks/:id'
+      'DELETE /api/tasks/:id',
+      'GET /api/tasks/stats/overview',
+      'POST /api/tasks/estimate-deadline',
+      'GET /api/projects',
+      'GET /api/teams',
+      'GET /api/templates',
+      'GET /api/time-entries/timesheet',
+      'GET /api/notifications',
+      'GET /api/events',
+      'GET /api/audit-log',
+      'GET /api/mail/outbox',
+      'GET /api/ai/usage/summary'
     ]
   });
 });
@@ -270,6 +461,11 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 // Graceful shutdown handling
 process.on('SIGTERM', () => {
   console.log('🔄 SIGTERM received, shutting down gracefully...');
+  clearInterval(deadlineCheckTimer);
+  clearInterval(recurrenceTimer);
+  clearInterval(mailOutboxTimer);
+  clearInterval(mailDigestTimer);
+  EventService.closeAll();
   if (server) {
     server.close(() => {
       console.log('✅ Server closed');
@@ -282,6 +478,11 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('🔄 SIGINT received, shutting down gracefully...');
+  clearInterval(deadlineCheckTimer);
+  clearInterval(recurrenceTimer);
+  clearInterval(mailOutboxTimer);
+  clearInterval(mailDigestTimer);
+  EventService.closeAll();
   if (server) {
     server.close(() => {
       console.log('✅ Server closed');
@@ -319,6 +520,15 @@ const startServer = async () => {
       console.log(`📚 API docs: http://localhost:${port}/api/docs`);
       console.log(`🔐 Auth endpoints: http://localhost:${port}/api/auth/*`);
       console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
+
+      runDeadlineChecks();
+      deadlineCheckTimer = setInterval(runDeadlineChecks, DEADLINE_CHECK_INTERVAL_MS);
+      runRecurrence();
+      recurrenceTimer = setInterval(runRecurrence, RECURRENCE_INTERVAL_MS);
+      runMailOutbox();
+      mailOutboxTimer = setInterval(runMailOutbox, MAIL_OUTBOX_INTERVAL_MS);
+      runMailDigests();
+      mailDigestTimer = setInterval(runMailDigests, MAIL_DIGEST_INTERVAL_MS);
       
       if (isDevelopment) {
         console.log('🔧 Development mode - Debug logging enabled');
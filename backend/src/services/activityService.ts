@@ -0,0 +1,111 @@
+// services/activityService.ts
+import { pool } from '../config/db';
+import { Pool, PoolClient } from 'pg';
+import { DatabaseError } from './taskService';
+import { NotFoundError } from '../utils/errors';
+import { TaskActivityAction, TaskActivityDetails, TaskActivityEntry, FieldChange, PaginatedActivity } from '../types/activity';
+
+export class ActivityService {
+  static async listActivity(taskId: string, page: number = 1, limit: number = 50): Promise<PaginatedActivity> {
+    const offset = (page - 1) * limit;
+
+    try {
+      const taskResult = await pool.query('SELECT 1 FROM tasks WHERE id = $1 AND soft_deleted_at IS NULL', [taskId]);
+      if (taskResult.rows.length === 0) {
+        throw new NotFoundError('Task not found');
+      }
+
+      const countResult = await pool.query('SELECT COUNT(*) FROM task_activity_log WHERE task_id = $1', [taskId]);
+      const total = parseInt(countResult.rows[0].count);
+
+      const result = await pool.query(
+        `SELECT
+          al.id,
+          al.task_id,
+          al.action,
+          al.details,
+          al.created_at,
+          u.id as user_id,
+          u.first_name,
+          u.last_name
+        FROM task_activity_log al
+        LEFT JOIN users u ON al.user_id = u.id
+        WHERE al.task_id = $1
+        ORDER BY al.created_at DESC, al.id DESC
+        LIMIT $2 OFFSET $3`,
+        [taskId, limit, offset]
+      );
+
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        activity: result.rows.map(row => ActivityService.mapActivityFromDb(row)),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      throw new DatabaseError('Failed to fetch task activity', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Runs on the caller's client so the log entry commits or rolls back with the change itself
+  static async record(
+    executor: Pool | PoolClient,
+    taskId: string,
+    actorId: string | null,
+    action: TaskActivityAction,
+    details: TaskActivityDetails = {}
+  ): Promise<void> {
+    await executor.query(
+      `INSERT INTO task_activity_log (task_id, user_id, action, details)
+      VALUES ($1, $2, $3, $4)`,
+      [taskId, actorId, action, JSON.stringify(details)]
+    );
+  }
+
+  /**
+   * Field-level before/after diff of two rows. Dates are compared as ISO strings
+   * and only fields whose value actually changed are returned.
+   */
+  static diff(before: Record<string, any>, after: Record<string, any>, fields: Record<string, string>): Record<string, FieldChange> {
+    const changes: Record<string, FieldChange> = {};
+
+    for (const [field, column] of Object.entries(fields)) {
+      const from = ActivityService.normalizeValue(before[column]);
+      const to = ActivityService.normalizeValue(after[column]);
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[field] = { from, to };
+      }
+    }
+
+    return changes;
+  }
+
+  private static normalizeValue(value: unknown): unknown {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return value.toISOString();
+    return value;
+  }
+
+  private static mapActivityFromDb(row: any): TaskActivityEntry {
+    return {
+      id: Number(row.id),
+      taskId: String(row.task_id),
+      action: row.action,
+      details: row.details || {},
+      user: row.user_id ? {
+        id: String(row.user_id),
+        firstName: row.first_name,
+        lastName: row.last_name
+      } : null,
+      createdAt: new Date(row.created_at).toISOString()
+    };
+  }
+}
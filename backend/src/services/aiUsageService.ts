@@ -0,0 +1,130 @@
+// services/aiUsageService.ts
+import { pool } from '../config/db';
+import { DatabaseError } from './taskService';
+import { AiProviderName, AiUsageRecord, AiUsageSummary, AiUsageTotals, RecordAiUsageRequest } from '../types/aiUsage';
+
+export class AiUsageService {
+  static readonly DEFAULT_SUMMARY_DAYS = 30;
+  private static readonly MAX_ERROR_LENGTH = 1000;
+
+  private static readonly TOTALS_SELECT = `
+    COUNT(*) as requests,
+    COUNT(*) FILTER (WHERE au.cached) as cached_requests,
+    COUNT(*) FILTER (WHERE NOT au.success) as failed_requests,
+    COALESCE(SUM(au.input_tokens), 0) as input_tokens,
+    COALESCE(SUM(au.output_tokens), 0) as output_tokens,
+    COALESCE(ROUND(AVG(au.latency_ms) FILTER (WHERE NOT au.cached)), 0) as average_latency_ms
+  `;
+
+  static async record(userId: string | null, data: RecordAiUsageRequest): Promise<AiUsageRecord> {
+    try {
+      const result = await pool.query(
+        `INSERT INTO ai_usage
+          (user_id, flow, provider, model, input_tokens, output_tokens, latency_ms, attempts, cached, success, error)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        RETURNING *`,
+        [
+          userId,
+          data.flow,
+          data.provider,
+          data.model,
+          data.inputTokens || 0,
+          data.outputTokens || 0,
+          data.latencyMs || 0,
+          data.attempts || 1,
+          data.cached || false,
+          data.success,
+          data.error ? data.error.slice(0, AiUsageService.MAX_ERROR_LENGTH) : null
+        ]
+      );
+      return AiUsageService.mapRecordFromDb(result.rows[0]);
+    } catch (error) {
+      throw new DatabaseError('Failed to record AI usage', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Totals for the window, split by flow and model and by user; defaults to the last 30 days
+  static async getSummary(params: { dateFrom?: string; dateTo?: string }): Promise<AiUsageSummary> {
+    const to = params.dateTo ? new Date(params.dateTo) : new Date();
+    const from = params.dateFrom
+      ? new Date(params.dateFrom)
+      : new Date(to.getTime() - AiUsageService.DEFAULT_SUMMARY_DAYS * 24 * 60 * 60 * 1000);
+    const window = [from.toISOString(), to.toISOString()];
+    const whereClause = 'WHERE au.created_at >= $1 AND au.created_at <= $2';
+
+    try {
+      const [totals, byFlow, byUser] = await Promise.all([
+        pool.query(`SELECT ${AiUsageService.TOTALS_SELECT} FROM ai_usage au ${whereClause}`, window),
+        pool.query(
+          `SELECT au.flow, au.provider, au.model, ${AiUsageService.TOTALS_SELECT}
+          FROM ai_usage au
+          ${whereClause}
+          GROUP BY au.flow, au.provider, au.model
+          ORDER BY requests DESC, au.flow`,
+          window
+        ),
+        pool.query(
+          `SELECT
+            au.user_id,
+            NULLIF(concat_ws(' ', u.first_name, u.last_name), '') as user_name,
+            ${AiUsageService.TOTALS_SELECT}
+          FROM ai_usage au
+          LEFT JOIN users u ON au.user_id = u.id
+          ${whereClause}
+          GROUP BY au.user_id, u.first_name, u.last_name
+          ORDER BY input_tokens + output_tokens DESC, requests DESC`,
+          window
+        )
+      ]);
+
+      return {
+        from: window[0],
+        to: window[1],
+        totals: AiUsageService.mapTotalsFromDb(totals.rows[0]),
+        byFlow: byFlow.rows.map(row => ({
+          flow: row.flow,
+          provider: row.provider as AiProviderName,
+          model: row.model,
+          ...AiUsageService.mapTotalsFromDb(row)
+        })),
+        byUser: byUser.rows.map(row => ({
+          userId: row.user_id ? String(row.user_id) : null,
+          userName: row.user_name,
+          ...AiUsageService.mapTotalsFromDb(row)
+        }))
+      };
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch AI usage', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // COUNT and SUM come back from pg as strings
+  private static mapTotalsFromDb(row: any): AiUsageTotals {
+    return {
+      requests: Number(row.requests),
+      cachedRequests: Number(row.cached_requests),
+      failedRequests: Number(row.failed_requests),
+      inputTokens: Number(row.input_tokens),
+      outputTokens: Number(row.output_tokens),
+      averageLatencyMs: Number(row.average_latency_ms)
+    };
+  }
+
+  private static mapRecordFromDb(row: any): AiUsageRecord {
+    return {
+      id: Number(row.id),
+      userId: row.user_id ? String(row.user_id) : null,
+      flow: row.flow,
+      provider: row.provider,
+      model: row.model,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      latencyMs: row.latency_ms,
+      attempts: row.attempts,
+      cached: row.cached,
+      success: row.success,
+      error: row.error,
+      createdAt: new Date(row.created_at).toISOString()
+    };
+  }
+}
@@ -0,0 +1,214 @@
+// services/attachmentService.ts
+import crypto from 'crypto';
+import path from 'path';
+import { pool } from '../config/db';
+import { Pool, PoolClient } from 'pg';
+import { DatabaseError, TaskService } from './taskService';
+import { ActivityService } from './activityService';
+import { EventService } from './eventService';
+import { StorageService } from './storageService';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { UserRole } from '../types';
+import { AttachmentDownload, TaskAttachmentResponse, UploadedFile } from '../types/attachment';
+
+interface AttachmentActor {
+  id: string;
+  role: UserRole;
+}
+
+export class AttachmentService {
+  private static readonly ATTACHMENT_SELECT_QUERY = `
+    SELECT
+      a.*,
+      u.first_name as uploader_first_name,
+      u.last_name as uploader_last_name
+    FROM task_attachments a
+    JOIN users u ON u.id = a.user_id
+    WHERE a.task_id = $1
+      AND a.soft_deleted_at IS NULL
+  `;
+
+  static async listAttachments(taskId: string): Promise<TaskAttachmentResponse[]> {
+    try {
+      await AttachmentService.assertTaskExists(pool, taskId);
+
+      const result = await pool.query(
+        `${AttachmentService.ATTACHMENT_SELECT_QUERY}
+        ORDER BY a.created_at, a.id`,
+        [taskId]
+      );
+      return result.rows.map(row => AttachmentService.mapAttachmentFromDb(row));
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      throw new DatabaseError('Failed to fetch attachments', error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Writes the file to the configured storage backend, then records it. If the database
+   * write fails the stored object is removed again so no orphaned bytes are left behind.
+   */
+  static async uploadAttachment(taskId: string, file: UploadedFile, actorId: string): Promise<TaskAttachmentResponse> {
+    const storage = StorageService.getBackend();
+    const checksum = crypto.createHash('sha256').update(file.buffer).digest('hex');
+    const key = `tasks/${taskId}/${crypto.randomUUID()}${path.extname(file.originalName).toLowerCase()}`;
+    const client = await pool.connect();
+    let stored = false;
+    let committed = false;
+
+    try {
+      await client.query('BEGIN');
+
+      await AttachmentService.assertTaskExists(client, taskId);
+      const previousNames = await AttachmentService.getLiveFileNames(client, taskId);
+
+      await storage.put(key, file.buffer, file.mimeType);
+      stored = true;
+
+      const result = await client.query(
+        `INSERT INTO task_attachments (task_id, user_id, file_name, file_path, file_type, file_size, checksum, storage_driver)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING id`,
+        [taskId, actorId, file.originalName, key, file.mimeType, file.buffer.length, checksum, storage.driver]
+      );
+
+      await ActivityService.record(client, taskId, actorId, 'attachments_changed', {
+        changes: { attachments: { from: previousNames, to: [...previousNames, file.originalName] } }
+      });
+
+      await client.query('COMMIT');
+      committed = true;
+
+      await AttachmentService.publishTaskUpdate(taskId);
+
+      return await AttachmentService.getAttachment(taskId, String(result.rows[0].id));
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (stored && !committed) {
+        await storage.remove(key).catch(cleanupError => console.error(`Failed to remove orphaned upload ${key}:`, cleanupError));
+      }
+      if (error instanceof NotFoundError) throw error;
+      throw new DatabaseError('Failed to upload attachment', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getDownload(taskId: string, attachmentId: string): Promise<AttachmentDownload> {
+    const row = await AttachmentService.getAttachmentRow(taskId, attachmentId);
+    if (!row.storage_driver) {
+      throw new NotFoundError('This attachment is an external link and has no stored file');
+    }
+
+    const stream = await StorageService.getBackend(row.storage_driver).get(row.file_path);
+    return { attachment: AttachmentService.mapAttachmentFromDb(row), stream };
+  }
+
+  // Soft delete only; the stored bytes are kept so the record can be restored or audited
+  static async deleteAttachment(taskId: string, attachmentId: string, actor: AttachmentActor): Promise<void> {
+    const existing = await AttachmentService.getAttachment(taskId, attachmentId);
+
+    if (existing.uploadedBy.id !== actor.id && actor.role !== 'Admin') {
+      throw new ForbiddenError('Only the uploader or an administrator can delete this attachment');
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const previousNames = await AttachmentService.getLiveFileNames(client, taskId);
+
+      await client.query(
+        'UPDATE task_attachments SET soft_deleted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [attachmentId]
+      );
+
+      const remaining = [...previousNames];
+      remaining.splice(remaining.indexOf(existing.fileName), 1);
+      await ActivityService.record(client, taskId, actor.id, 'attachments_changed', {
+        changes: { attachments: { from: previousNames, to: remaining } }
+      });
+
+      await client.query('COMMIT');
+
+      await AttachmentService.publishTaskUpdate(taskId);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new DatabaseError('Failed to delete attachment', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  private static async getAttachment(taskId: string, attachmentId: string): Promise<TaskAttachmentResponse> {
+    return AttachmentService.mapAttachmentFromDb(await AttachmentService.getAttachmentRow(taskId, attachmentId));
+  }
+
+  private static async getAttachmentRow(taskId: string, attachmentId: string): Promise<any> {
+    let row;
+    try {
+      const result = await pool.query(
+        `${AttachmentService.ATTACHMENT_SELECT_QUERY}
+        AND a.id = $2`,
+        [taskId, attachmentId]
+      );
+      row = result.rows[0];
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch attachment', error instanceof Error ? error : undefined);
+    }
+
+    if (!row) {
+      throw new NotFoundError('Attachment not found');
+    }
+    return row;
+  }
+
+  // The task payload carries its attachment list, so subscribers need a fresh copy
+  private static async publishTaskUpdate(taskId: string): Promise<void> {
+    const task = await TaskService.getTaskById(taskId);
+    if (task) {
+      EventService.publishTaskChange('task.updated', task);
+    }
+  }
+
+  private static async getLiveFileNames(client: PoolClient, taskId: string): Promise<string[]> {
+    const result = await client.query(
+      'SELECT file_name FROM task_attachments WHERE task_id = $1 AND soft_deleted_at IS NULL ORDER BY created_at, id',
+      [taskId]
+    );
+    return result.rows.map(row => row.file_name);
+  }
+
+  private static async assertTaskExists(executor: Pool | PoolClient, taskId: string): Promise<void> {
+    const result = await executor.query(
+      'SELECT 1 FROM tasks WHERE id = $1 AND soft_deleted_at IS NULL',
+      [taskId]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Task not found');
+    }
+  }
+
+  private static mapAttachmentFromDb(row: any): TaskAttachmentResponse {
+    const id = String(row.id);
+    const taskId = String(row.task_id);
+
+    return {
+      id,
+      taskId,
+      fileName: row.file_name,
+      fileUrl: row.storage_driver ? `/tasks/${taskId}/attachments/${id}/download` : row.file_path,
+      fileType: row.file_type,
+      fileSizeBytes: row.file_size,
+      checksum: row.checksum ? row.checksum.trim() : null,
+      storageDriver: row.storage_driver,
+      uploadedBy: {
+        id: String(row.user_id),
+        firstName: row.uploader_first_name,
+        lastName: row.uploader_last_name
+      },
+      createdAt: new Date(row.created_at).toISOString()
+    };
+  }
+}
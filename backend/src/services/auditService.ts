@@ -0,0 +1,185 @@
+// services/auditService.ts
+import { pool } from '../config/db';
+import { DatabaseError } from './taskService';
+import { AuditLogEntry, AuditLogFilters, AuditRequestOrigin, CreateAuditLogRequest, PaginatedAuditLog } from '../types/audit';
+
+export class AuditService {
+  // Hard cap so an unfiltered export cannot pull the whole table into memory
+  static readonly MAX_EXPORT_ROWS = 10000;
+
+  private static readonly CSV_COLUMNS: Array<[string, (entry: AuditLogEntry) => unknown]> = [
+    ['id', entry => entry.id],
+    ['timestamp', entry => entry.createdAt],
+    ['user_id', entry => entry.userId],
+    ['user_email', entry => entry.userEmail],
+    ['user_name', entry => entry.userName],
+    ['action', entry => entry.action],
+    ['resource', entry => entry.resource],
+    ['resource_id', entry => entry.resourceId],
+    ['ip_address', entry => entry.ipAddress],
+    ['user_agent', entry => entry.userAgent],
+    ['forwarded_ip_address', entry => entry.forwardedIpAddress],
+    ['forwarded_user_agent', entry => entry.forwardedUserAgent],
+    ['metadata', entry => JSON.stringify(entry.metadata)]
+  ];
+
+  private static readonly AUDIT_SELECT_QUERY = `
+    SELECT
+      al.*,
+      u.email as user_email,
+      NULLIF(concat_ws(' ', u.first_name, u.last_name), '') as user_name
+    FROM audit_log al
+    LEFT JOIN users u ON al.user_id = u.id
+  `;
+
+  // Forwarded details are stored as given; the caller decides whether the request may send them
+  static async record(userId: string | null, data: CreateAuditLogRequest, origin: AuditRequestOrigin): Promise<AuditLogEntry> {
+    try {
+      const result = await pool.query(
+        `INSERT INTO audit_log (user_id, action, resource, resource_id, metadata, ip_address, user_agent, forwarded_ip_address, forwarded_user_agent)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING *`,
+        [
+          userId,
+          data.action,
+          data.resource,
+          data.resourceId || null,
+          JSON.stringify(data.metadata || {}),
+          origin.ipAddress,
+          origin.userAgent,
+          data.forwardedIpAddress || null,
+          data.forwardedUserAgent || null
+        ]
+      );
+      return AuditService.mapEntryFromDb(result.rows[0]);
+    } catch (error) {
+      throw new DatabaseError('Failed to write audit log', error instanceof Error ? error : undefined);
+    }
+  }
+
+  static async listEntries(filters: AuditLogFilters): Promise<PaginatedAuditLog> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 50;
+    const offset = (page - 1) * limit;
+    const { whereClause, params } = AuditService.buildWhereClause(filters);
+
+    try {
+      const countResult = await pool.query(`SELECT COUNT(*) FROM audit_log al ${whereClause}`, params);
+      const total = parseInt(countResult.rows[0].count);
+
+      const result = await pool.query(
+        `${AuditService.AUDIT_SELECT_QUERY}
+        ${whereClause}
+        ORDER BY al.created_at DESC, al.id DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      );
+
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        entries: result.rows.map(row => AuditService.mapEntryFromDb(row)),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      };
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch audit log', error instanceof Error ? error : undefined);
+    }
+  }
+
+  static async exportCsv(filters: AuditLogFilters): Promise<string> {
+    const { whereClause, params } = AuditService.buildWhereClause(filters);
+
+    let rows: any[];
+    try {
+      const result = await pool.query(
+        `${AuditService.AUDIT_SELECT_QUERY}
+        ${whereClause}
+        ORDER BY al.created_at DESC, al.id DESC
+        LIMIT $${params.length + 1}`,
+        [...params, AuditService.MAX_EXPORT_ROWS]
+      );
+      rows = result.rows;
+    } catch (error) {
+      throw new DatabaseError('Failed to export audit log', error instanceof Error ? error : undefined);
+    }
+
+    const header = AuditService.CSV_COLUMNS.map(([name]) => name).join(',');
+    const lines = rows.map(row => {
+      const entry = AuditService.mapEntryFromDb(row);
+      return AuditService.CSV_COLUMNS.map(([, getValue]) => AuditService.toCsvCell(getValue(entry))).join(',');
+    });
+
+    return [header, ...lines].join('\r\n') + '\r\n';
+  }
+
+  private static buildWhereClause(filters: AuditLogFilters): { whereClause: string; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.userId) {
+      params.push(filters.userId);
+      conditions.push(`al.user_id = $${params.length}`);
+    }
+    if (filters.action) {
+      params.push(filters.action);
+      conditions.push(`al.action = $${params.length}`);
+    }
+    if (filters.resource) {
+      params.push(filters.resource);
+      conditions.push(`al.resource = $${params.length}`);
+    }
+    if (filters.search) {
+      params.push(`%${filters.search.replace(/[\\%_]/g, '\\$&')}%`);
+      const placeholder = `$${params.length}`;
+      conditions.push(`(al.action ILIKE ${placeholder} OR al.resource ILIKE ${placeholder} OR al.resource_id ILIKE ${placeholder} OR al.metadata::text ILIKE ${placeholder})`);
+    }
+    if (filters.dateFrom) {
+      params.push(filters.dateFrom);
+      conditions.push(`al.created_at >= $${params.length}`);
+    }
+    if (filters.dateTo) {
+      params.push(filters.dateTo);
+      conditions.push(`al.created_at <= $${params.length}`);
+    }
+
+    return {
+      whereClause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+
+  // Quotes every cell and neutralises leading formula characters so spreadsheets do not evaluate them
+  private static toCsvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    let text = String(value);
+    if (/^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  private static mapEntryFromDb(row: any): AuditLogEntry {
+    return {
+      id: Number(row.id),
+      userId: row.user_id ? String(row.user_id) : null,
+      userEmail: row.user_email ?? null,
+      userName: row.user_name ?? null,
+      action: row.action,
+      resource: row.resource,
+      resourceId: row.resource_id,
+      metadata: row.metadata || {},
+      ipAddress: row.ip_address,
+      userAgent: row.user_agent,
+      forwardedIpAddress: row.forwarded_ip_address ?? null,
+      forwardedUserAgent: row.forwarded_user_agent ?? null,
+      createdAt: new Date(row.created_at).toISOString()
+    };
+  }
+}
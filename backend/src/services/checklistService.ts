@@ -0,0 +1,163 @@
+// services/checklistService.ts
+import { pool } from '../config/db';
+import { PoolClient } from 'pg';
+import { DatabaseError } from './taskService';
+import { ProgressService } from './progressService';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { ChecklistItem, CreateChecklistItemRequest, UpdateChecklistItemRequest } from '../types/checklist';
+
+export class ChecklistService {
+  private static readonly MAX_ITEMS_PER_TASK = 100;
+
+  static async listItems(taskId: string): Promise<ChecklistItem[]> {
+    try {
+      const result = await pool.query(
+        'SELECT * FROM task_checklist_items WHERE task_id = $1 ORDER BY position, created_at',
+        [taskId]
+      );
+      return result.rows.map(row => ChecklistService.mapItemFromDb(row));
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch checklist', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // New items go to the end of the list
+  static async addItem(taskId: string, data: CreateChecklistItemRequest, actorId: string): Promise<ChecklistItem> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await ChecklistService.lockTask(client, taskId);
+
+      const countResult = await client.query(
+        'SELECT COUNT(*)::int as count, COALESCE(MAX(position) + 1, 0) as next_position FROM task_checklist_items WHERE task_id = $1',
+        [taskId]
+      );
+      const { count, next_position: nextPosition } = countResult.rows[0];
+      if (count >= ChecklistService.MAX_ITEMS_PER_TASK) {
+        throw new ConflictError(`A task can have at most ${ChecklistService.MAX_ITEMS_PER_TASK} checklist items`);
+      }
+
+      const result = await client.query(
+        `INSERT INTO task_checklist_items (task_id, content, position, created_by)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *`,
+        [taskId, data.content.trim(), nextPosition, actorId]
+      );
+      const changed = await ProgressService.recalculate(client, taskId);
+
+      await client.query('COMMIT');
+
+      await ProgressService.publishChanges(changed);
+      return ChecklistService.mapItemFromDb(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (error instanceof NotFoundError || error instanceof ConflictError) throw error;
+      throw new DatabaseError('Failed to add checklist item', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  static async updateItem(taskId: string, itemId: string, data: UpdateChecklistItemRequest, actorId: string): Promise<ChecklistItem> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await ChecklistService.lockTask(client, taskId);
+
+      const updates: string[] = [];
+      const values: unknown[] = [itemId, taskId];
+      if (data.content !== undefined) {
+        values.push(data.content.trim());
+        updates.push(`content = $${values.length}`);
+      }
+      if (data.isDone !== undefined) {
+        values.push(data.isDone, actorId);
+        // Re-ticking an item that is already done keeps who finished it first
+        updates.push(
+          `is_done = $${values.length - 1}`,
+          `completed_by = CASE WHEN $${values.length - 1} THEN COALESCE(completed_by, $${values.length}::uuid) END`,
+          `completed_at = CASE WHEN $${values.length - 1} THEN COALESCE(completed_at, CURRENT_TIMESTAMP) END`
+        );
+      }
+
+      const result = await client.query(
+        `UPDATE task_checklist_items SET ${updates.join(', ')}
+        WHERE id = $1 AND task_id = $2
+        RETURNING *`,
+        values
+      );
+      if (result.rows.length === 0) {
+        throw new NotFoundError('Checklist item not found');
+      }
+      const changed = await ProgressService.recalculate(client, taskId);
+
+      await client.query('COMMIT');
+
+      await ProgressService.publishChanges(changed);
+      return ChecklistService.mapItemFromDb(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (error instanceof NotFoundError) throw error;
+      throw new DatabaseError('Failed to update checklist item', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  static async removeItem(taskId: string, itemId: string): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await ChecklistService.lockTask(client, taskId);
+
+      const result = await client.query(
+        'DELETE FROM task_checklist_items WHERE id = $1 AND task_id = $2 RETURNING id',
+        [itemId, taskId]
+      );
+      if (result.rows.length === 0) {
+        throw new NotFoundError('Checklist item not found');
+      }
+      const changed = await ProgressService.recalculate(client, taskId);
+
+      await client.query('COMMIT');
+
+      await ProgressService.publishChanges(changed);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (error instanceof NotFoundError) throw error;
+      throw new DatabaseError('Failed to delete checklist item', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Serialises checklist changes on one task so positions and the progress roll-up stay consistent
+  private static async lockTask(client: PoolClient, taskId: string): Promise<void> {
+    await ProgressService.lockLineage(client, taskId);
+    const result = await client.query(
+      'SELECT id FROM tasks WHERE id = $1 AND soft_deleted_at IS NULL FOR UPDATE',
+      [taskId]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Task not found');
+    }
+  }
+
+  private static mapItemFromDb(row: any): ChecklistItem {
+    return {
+      id: String(row.id),
+      taskId: String(row.task_id),
+      content: row.content,
+      isDone: row.is_done,
+      position: row.position,
+      createdBy: row.created_by ? String(row.created_by) : null,
+      completedBy: row.completed_by ? String(row.completed_by) : null,
+      completedAt: row.completed_at ? new Date(row.completed_at).toISOString() : null,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString()
+    };
+  }
+}
@@ -0,0 +1,313 @@
+// services/commentService.ts
+import { pool } from '../config/db';
+import { PoolClient } from 'pg';
+import { DatabaseError } from './taskService';
+import { NotificationService } from './notificationService';
+import { EventService } from './eventService';
+import { ActivityService } from './activityService';
+import { extractMentionHandles } from '../utils/mentions';
+import { taskAudienceCondition } from '../utils/taskScope';
+import { NotFoundError, ForbiddenError, ValidationError } from '../utils/errors';
+import { TaskCommentResponse, PaginatedComments, CreateCommentRequest, UpdateCommentRequest } from '../types/task';
+import { UserRole } from '../types';
+
+interface CommentActor {
+  id: string;
+  role: UserRole;
+}
+
+export class CommentService {
+  private static readonly COMMENT_SELECT_QUERY = `
+    SELECT
+      tc.id,
+      tc.task_id,
+      tc.parent_comment_id,
+      tc.content,
+      tc.mentions,
+      tc.created_at,
+      tc.updated_at,
+      tc.edited_at,
+      tc.soft_deleted_at,
+      u.id as user_id,
+      u.first_name,
+      u.last_name
+    FROM task_comments tc
+    JOIN users u ON tc.user_id = u.id
+  `;
+
+  static async listComments(taskId: string, page: number = 1, limit: number = 20): Promise<PaginatedComments> {
+    try {
+      await CommentService.assertTaskExists(taskId);
+
+      const offset = (page - 1) * limit;
+
+      // A deleted top-level comment stays in the listing only while it still has live replies
+      const topLevelCondition = `
+        tc.task_id = $1
+        AND tc.parent_comment_id IS NULL
+        AND (
+          tc.soft_deleted_at IS NULL
+          OR EXISTS (
+            SELECT 1 FROM task_comments r
+            WHERE r.parent_comment_id = tc.id AND r.soft_deleted_at IS NULL
+          )
+        )
+      `;
+
+      const countResult = await pool.query(
+        `SELECT COUNT(*) FROM task_comments tc WHERE ${topLevelCondition}`,
+        [taskId]
+      );
+      const total = parseInt(countResult.rows[0].count);
+
+      const topLevelResult = await pool.query(
+        `${CommentService.COMMENT_SELECT_QUERY}
+        WHERE ${topLevelCondition}
+        ORDER BY tc.created_at ASC, tc.id ASC
+        LIMIT $2 OFFSET $3`,
+        [taskId, limit, offset]
+      );
+
+      const comments = topLevelResult.rows.map(row => CommentService.mapCommentFromDb(row));
+      const parentIds = comments.map(comment => comment.id);
+
+      if (parentIds.length > 0) {
+        const repliesResult = await pool.query(
+          `${CommentService.COMMENT_SELECT_QUERY}
+          WHERE tc.parent_comment_id = ANY($1::uuid[]) AND tc.soft_deleted_at IS NULL
+          ORDER BY tc.created_at ASC, tc.id ASC`,
+          [parentIds]
+        );
+
+        const repliesByParent = new Map<string, TaskCommentResponse[]>();
+        for (const row of repliesResult.rows) {
+          const reply = CommentService.mapCommentFromDb(row);
+          const siblings = repliesByParent.get(reply.parentCommentId!) || [];
+          siblings.push(reply);
+          repliesByParent.set(reply.parentCommentId!, siblings);
+        }
+
+        comments.forEach(comment => {
+          comment.replies = repliesByParent.get(comment.id) || [];
+        });
+      }
+
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        comments,
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      throw new DatabaseError('Failed to fetch comments', error instanceof Error ? error : undefined);
+    }
+  }
+
+  static async getCommentById(commentId: string): Promise<TaskCommentResponse | null> {
+    try {
+      const result = await pool.query(
+        `${CommentService.COMMENT_SELECT_QUERY}
+        WHERE tc.id = $1`,
+        [commentId]
+      );
+      return result.rows[0] ? CommentService.mapCommentFromDb(result.rows[0]) : null;
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch comment', error instanceof Error ? error : undefined);
+    }
+  }
+
+  static async createComment(taskId: string, userId: string, commentData: CreateCommentRequest): Promise<TaskCommentResponse> {
+    await CommentService.assertTaskExists(taskId);
+
+    let parentCommentId: string | null = null;
+    if (commentData.parentCommentId) {
+      const parent = await CommentService.getCommentById(commentData.parentCommentId);
+      if (!parent || parent.taskId !== taskId) {
+        throw new ValidationError('Parent comment does not belong to this task', 'parentCommentId');
+      }
+      if (parent.isDeleted) {
+        throw new ValidationError('Cannot reply to a deleted comment', 'parentCommentId');
+      }
+      // Threads are one level deep: replying to a reply attaches to the thread root
+      parentCommentId = parent.parentCommentId || parent.id;
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const content = commentData.content.trim();
+      const mentions = await CommentService.resolveMentions(client, taskId, content);
+
+      const result = await client.query(
+        `INSERT INTO task_comments (task_id, user_id, parent_comment_id, content, mentions)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING id`,
+        [taskId, userId, parentCommentId, content, mentions]
+      );
+
+      await ActivityService.record(client, taskId, userId, 'comment_added', {
+        commentId: String(result.rows[0].id),
+        changes: { content: { from: null, to: content } }
+      });
+
+      const notifications = await NotificationService.notifyMentionedUsers(client, taskId, userId, mentions);
+
+      await client.query('COMMIT');
+
+      EventService.publishNotifications(notifications);
+
+      return (await CommentService.getCommentById(result.rows[0].id))!;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new DatabaseError('Failed to create comment', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  static async updateComment(taskId: string, commentId: string, actor: CommentActor, commentData: UpdateCommentRequest): Promise<TaskCommentResponse> {
+    const existing = await CommentService.getLiveComment(taskId, commentId);
+
+    if (existing.user.id !== actor.id) {
+      throw new ForbiddenError('Only the author can edit this comment');
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const content = commentData.content.trim();
+      const mentions = await CommentService.resolveMentions(client, taskId, content);
+
+      await client.query(
+        `UPDATE task_comments
+        SET content = $1, mentions = $2, edited_at = CURRENT_TIMESTAMP
+        WHERE id = $3`,
+        [content, mentions, commentId]
+      );
+
+      await ActivityService.record(client, taskId, actor.id, 'comment_edited', {
+        commentId,
+        changes: { content: { from: existing.content, to: content } }
+      });
+
+      // Only people who were not already mentioned before the edit get a new notification
+      const newlyMentioned = mentions.filter(id => !existing.mentions.includes(id));
+      const notifications = await NotificationService.notifyMentionedUsers(client, taskId, actor.id, newlyMentioned);
+
+      await client.query('COMMIT');
+
+      EventService.publishNotifications(notifications);
+
+      return (await CommentService.getCommentById(commentId))!;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new DatabaseError('Failed to update comment', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  static async deleteComment(taskId: string, commentId: string, actor: CommentActor): Promise<void> {
+    const existing = await CommentService.getLiveComment(taskId, commentId);
+
+    if (existing.user.id !== actor.id && actor.role !== 'Admin') {
+      throw new ForbiddenError('Only the author or an administrator can delete this comment');
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        'UPDATE task_comments SET soft_deleted_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [commentId]
+      );
+
+      await ActivityService.record(client, taskId, actor.id, 'comment_deleted', {
+        commentId,
+        changes: { content: { from: existing.content, to: null } }
+      });
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new DatabaseError('Failed to delete comment', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Resolves @first.last and @email handles to active users who can see the task; other handles are ignored
+  private static async resolveMentions(client: PoolClient, taskId: string, content: string): Promise<string[]> {
+    const { emails, names } = extractMentionHandles(content);
+    if (emails.length === 0 && names.length === 0) {
+      return [];
+    }
+
+    const result = await client.query(
+      `SELECT u.id FROM users u
+      JOIN tasks t ON t.id = $3
+      WHERE u.soft_deleted_at IS NULL
+        AND u.is_active = true
+        AND (
+          lower(u.email) = ANY($1::text[])
+          OR lower(u.first_name) || '.' || lower(u.last_name) = ANY($2::text[])
+        )
+        AND ${taskAudienceCondition('u')}`,
+      [emails, names, taskId]
+    );
+
+    return result.rows.map(row => String(row.id));
+  }
+
+  private static async getLiveComment(taskId: string, commentId: string): Promise<TaskCommentResponse> {
+    const comment = await CommentService.getCommentById(commentId);
+    if (!comment || comment.taskId !== taskId || comment.isDeleted) {
+      throw new NotFoundError('Comment not found');
+    }
+    return comment;
+  }
+
+  private static async assertTaskExists(taskId: string): Promise<void> {
+    const result = await pool.query(
+      'SELECT 1 FROM tasks WHERE id = $1 AND soft_deleted_at IS NULL',
+      [taskId]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Task not found');
+    }
+  }
+
+  private static mapCommentFromDb(row: any): TaskCommentResponse {
+    const isDeleted = row.soft_deleted_at !== null;
+    return {
+      id: String(row.id),
+      taskId: String(row.task_id),
+      parentCommentId: row.parent_comment_id ? String(row.parent_comment_id) : null,
+      content: isDeleted ? null : row.content,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+      isEdited: row.edited_at !== null,
+      isDeleted,
+      mentions: (row.mentions || []).map(String),
+      user: {
+        id: String(row.user_id),
+        firstName: row.first_name,
+        lastName: row.last_name
+      }
+    };
+  }
+}
@@ -0,0 +1,264 @@
+// services/deadlineEstimatorService.ts
+import { pool } from '../config/db';
+import { DatabaseError } from './taskService';
+import { DeadlineEstimate, DeadlineEstimateRequest, DeadlineEstimateWorkload } from '../types/estimate';
+
+interface CompletedSample {
+  durationHours: number;
+  weight: number;
+  similarity: number;
+}
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'that', 'this', 'our', 'new', 'task',
+  'add', 'update', 'fix', 'make', 'set', 'get', 'use', 'all', 'are', 'was', 'will', 'per'
+]);
+
+/**
+ * Estimates how long a task will take from the durations of completed tasks
+ * (start or creation to completion), weighting the ones most like it: similar
+ * title words and tags, same priority, same assignee and recent completion.
+ * The assignee's open work only moves the estimate when it is above what they
+ * usually carry, since past durations already include their normal queue.
+ */
+export class DeadlineEstimatorService {
+  private static readonly HISTORY_DAYS = 365;
+  private static readonly HISTORY_LIMIT = 1000;
+  private static readonly RECENCY_HALF_LIFE_DAYS = 180;
+  private static readonly INTERVAL_LEVEL = 0.8;
+  // Below this many effective samples the interval is widened by WIDENING_FACTOR
+  private static readonly MIN_EFFECTIVE_SAMPLES = 3;
+  private static readonly WIDENING_FACTOR = 1.5;
+  private static readonly WORKLOAD_WINDOW_DAYS = 90;
+  private static readonly MAX_WORKLOAD_DELAY_DAYS = 30;
+  private static readonly SIMILAR_THRESHOLD = 0.2;
+  private static readonly PRIORITY_DEFAULT_DAYS: Record<string, number> = {
+    Urgent: 1,
+    High: 3,
+    Medium: 5,
+    Low: 10
+  };
+
+  static async estimate(request: DeadlineEstimateRequest): Promise<DeadlineEstimate> {
+    const start = request.startDate ? new Date(request.startDate) : new Date();
+    const priority = request.priority || 'Medium';
+    const explanation: string[] = [];
+
+    const samples = await DeadlineEstimatorService.loadSamples(request, priority);
+    const totalWeight = samples.reduce((sum, sample) => sum + sample.weight, 0);
+    const effectiveSampleSize = totalWeight > 0
+      ? totalWeight ** 2 / samples.reduce((sum, sample) => sum + sample.weight ** 2, 0)
+      : 0;
+    const similarTasks = samples.filter(sample => sample.similarity >= DeadlineEstimatorService.SIMILAR_THRESHOLD).length;
+
+    let expectedHours: number;
+    let lowHours: number;
+    let highHours: number;
+
+    if (samples.length > 0) {
+      // Durations are right-skewed, so quantiles are taken on their logarithm
+      const tail = (1 - DeadlineEstimatorService.INTERVAL_LEVEL) / 2;
+      const logMedian = DeadlineEstimatorService.weightedQuantile(samples, 0.5);
+      let logLow = DeadlineEstimatorService.weightedQuantile(samples, tail);
+      let logHigh = DeadlineEstimatorService.weightedQuantile(samples, 1 - tail);
+
+      explanation.push(
+        `Based on ${samples.length} task(s) completed in the last year` +
+        (similarTasks > 0 ? `, ${similarTasks} of them with a similar title or tags` : '') +
+        `, weighted towards ${priority} priority work` +
+        (request.assigneeId ? ' by the same assignee' : '') + '.'
+      );
+
+      if (effectiveSampleSize < DeadlineEstimatorService.MIN_EFFECTIVE_SAMPLES) {
+        logLow = logMedian - (logMedian - logLow) * DeadlineEstimatorService.WIDENING_FACTOR;
+        logHigh = logMedian + (logHigh - logMedian) * DeadlineEstimatorService.WIDENING_FACTOR;
+        explanation.push('Few comparable tasks exist, so the range has been widened.');
+      }
+
+      expectedHours = Math.exp(logMedian);
+      lowHours = Math.exp(logLow);
+      highHours = Math.exp(logHigh);
+      explanation.push(
+        `Comparable tasks typically took ${DeadlineEstimatorService.formatDuration(expectedHours)}; ` +
+        `${Math.round(DeadlineEstimatorService.INTERVAL_LEVEL * 100)}% took between ` +
+        `${DeadlineEstimatorService.formatDuration(lowHours)} and ${DeadlineEstimatorService.formatDuration(highHours)}.`
+      );
+    } else {
+      const days = DeadlineEstimatorService.PRIORITY_DEFAULT_DAYS[priority] ?? DeadlineEstimatorService.PRIORITY_DEFAULT_DAYS.Medium;
+      expectedHours = days * 24;
+      lowHours = expectedHours / 2;
+      highHours = expectedHours * 2;
+      explanation.push(`No completed tasks to learn from yet, so the ${days}-day default for ${priority} priority work is used.`);
+    }
+
+    let workload: DeadlineEstimateWorkload | null = null;
+    if (request.assigneeId) {
+      workload = await DeadlineEstimatorService.loadWorkload(request.assigneeId, expectedHours, explanation);
+      expectedHours += workload.delayHours;
+      lowHours += workload.delayHours;
+      highHours += workload.delayHours;
+    }
+
+    return {
+      suggestedDeadline: DeadlineEstimatorService.deadlineAfter(start, expectedHours),
+      earliestDeadline: DeadlineEstimatorService.deadlineAfter(start, lowHours),
+      latestDeadline: DeadlineEstimatorService.deadlineAfter(start, highHours),
+      intervalLevel: DeadlineEstimatorService.INTERVAL_LEVEL,
+      confidence: Math.round((effectiveSampleSize / (effectiveSampleSize + 5)) * 100) / 100,
+      expectedDurationHours: Math.round(expectedHours * 10) / 10,
+      basis: {
+        source: samples.length > 0 ? 'history' : 'priority-default',
+        sampleSize: samples.length,
+        effectiveSampleSize: Math.round(effectiveSampleSize * 10) / 10,
+        similarTasks
+      },
+      workload,
+      explanation
+    };
+  }
+
+  private static async loadSamples(request: DeadlineEstimateRequest, priority: string): Promise<CompletedSample[]> {
+    let rows: any[];
+    try {
+      const result = await pool.query(
+        `SELECT t.title, t.description, t.priority, t.assigned_user_id,
+          EXTRACT(EPOCH FROM (t.completed_at - COALESCE(t.start_date, t.created_at))) / 3600 AS duration_hours,
+          EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - t.completed_at)) / 86400 AS age_days
+        FROM tasks t
+        WHERE t.completed_at IS NOT NULL
+          AND t.soft_deleted_at IS NULL
+          AND t.completed_at > COALESCE(t.start_date, t.created_at)
+          AND t.completed_at > CURRENT_TIMESTAMP - make_interval(days => $1)
+        ORDER BY t.completed_at DESC
+        LIMIT $2`,
+        [DeadlineEstimatorService.HISTORY_DAYS, DeadlineEstimatorService.HISTORY_LIMIT]
+      );
+      rows = result.rows;
+    } catch (error) {
+      throw new DatabaseError('Failed to load completed tasks', error instanceof Error ? error : undefined);
+    }
+
+    const queryTokens = DeadlineEstimatorService.tokenize(
+      [request.title, ...(request.tags || []), ...DeadlineEstimatorService.hashtags(request.description)].filter(Boolean).join(' ')
+    );
+    // With no title or tags to go on, the description's wording stands in
+    if (queryTokens.size === 0 && request.description) {
+      DeadlineEstimatorService.tokenize(request.description).forEach(token => queryTokens.add(token));
+    }
+
+    return rows.map(row => {
+      const similarity = DeadlineEstimatorService.jaccard(
+        queryTokens,
+        DeadlineEstimatorService.tokenize([row.title, ...DeadlineEstimatorService.hashtags(row.description)].join(' '))
+      );
+      const recency = 0.5 ** (Number(row.age_days) / DeadlineEstimatorService.RECENCY_HALF_LIFE_DAYS);
+      const weight = (1
+        + 4 * similarity
+        + (row.priority === priority ? 1 : 0)
+        + (request.assigneeId && String(row.assigned_user_id) === request.assigneeId ? 1 : 0)) * recency;
+
+      // Anything quicker than an hour is treated as an hour so logarithms stay meaningful
+      return { durationHours: Math.max(Number(row.duration_hours), 1), weight, similarity };
+    });
+  }
+
+  /**
+   * Little's law: someone finishing λ tasks a day that each take W days carries about λ·W open
+   * tasks. Only the open tasks beyond that push the deadline out, at λ tasks a day.
+   */
+  private static async loadWorkload(assigneeId: string, expectedHours: number, explanation: string[]): Promise<DeadlineEstimateWorkload> {
+    let row;
+    try {
+      const result = await pool.query(
+        `SELECT
+          COUNT(*) FILTER (WHERE status IN ('To Do', 'In Progress', 'In Review', 'Needs Changes')) AS open_tasks,
+          COUNT(*) FILTER (WHERE completed_at > CURRENT_TIMESTAMP - make_interval(days => $2)) AS completed_recently
+        FROM tasks
+        WHERE assigned_user_id = $1 AND soft_deleted_at IS NULL`,
+        [assigneeId, DeadlineEstimatorService.WORKLOAD_WINDOW_DAYS]
+      );
+      row = result.rows[0];
+    } catch (error) {
+      throw new DatabaseError('Failed to load assignee workload', error instanceof Error ? error : undefined);
+    }
+
+    const openTasks = Number(row.open_tasks);
+    const completedLast90Days = Number(row.completed_recently);
+    const tasksPerDay = completedLast90Days / DeadlineEstimatorService.WORKLOAD_WINDOW_DAYS;
+    let delayHours = 0;
+
+    if (tasksPerDay === 0) {
+      if (openTasks > 0) {
+        explanation.push(`The assignee has ${openTasks} open task(s) but none completed in the last ${DeadlineEstimatorService.WORKLOAD_WINDOW_DAYS} days, so their pace could not be factored in.`);
+      }
+    } else {
+      const usualOpenTasks = tasksPerDay * (expectedHours / 24);
+      const excess = openTasks - usualOpenTasks;
+      if (excess > 0.5) {
+        delayHours = Math.min(excess / tasksPerDay, DeadlineEstimatorService.MAX_WORKLOAD_DELAY_DAYS) * 24;
+        explanation.push(
+          `The assignee has ${openTasks} open task(s), more than the ${Math.max(1, Math.round(usualOpenTasks))} they usually carry; ` +
+          `at their pace of ${Math.round(tasksPerDay * 7 * 10) / 10} task(s) a week that adds about ${DeadlineEstimatorService.formatDuration(delayHours)}.`
+        );
+      } else {
+        explanation.push(`The assignee's ${openTasks} open task(s) are within their usual load.`);
+      }
+    }
+
+    return { openTasks, completedLast90Days, delayHours: Math.round(delayHours * 10) / 10 };
+  }
+
+  private static weightedQuantile(samples: CompletedSample[], q: number): number {
+    const sorted = samples
+      .map(sample => ({ value: Math.log(sample.durationHours), weight: sample.weight }))
+      .sort((a, b) => a.value - b.value);
+    const total = sorted.reduce((sum, item) => sum + item.weight, 0);
+
+    let cumulative = 0;
+    for (const item of sorted) {
+      cumulative += item.weight;
+      if (cumulative >= q * total) {
+        return item.value;
+      }
+    }
+    return sorted[sorted.length - 1].value;
+  }
+
+  private static tokenize(text: string): Set<string> {
+    const tokens = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+    return new Set(tokens.filter(token => token.length >= 3 && !STOPWORDS.has(token)));
+  }
+
+  private static hashtags(text: string | null | undefined): string[] {
+    return text?.match(/#[\w-]+/g)?.map(tag => tag.slice(1)) || [];
+  }
+
+  private static jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) {
+      return 0;
+    }
+    let shared = 0;
+    a.forEach(token => {
+      if (b.has(token)) shared++;
+    });
+    return shared / (a.size + b.size - shared);
+  }
+
+  // Rounded up to the next whole hour
+  private static deadlineAfter(start: Date, hours: number): string {
+    const deadline = new Date(start.getTime() + hours * 60 * 60 * 1000);
+    if (deadline.getUTCMinutes() || deadline.getUTCSeconds() || deadline.getUTCMilliseconds()) {
+      deadline.setUTCHours(deadline.getUTCHours() + 1, 0, 0, 0);
+    }
+    return deadline.toISOString();
+  }
+
+  private static formatDuration(hours: number): string {
+    if (hours < 24) {
+      const rounded = Math.max(1, Math.round(hours));
+      return `${rounded} hour${rounded === 1 ? '' : 's'}`;
+    }
+    const days = Math.round((hours / 24) * 10) / 10;
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+}
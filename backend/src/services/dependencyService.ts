@@ -0,0 +1,282 @@
+// services/dependencyService.ts
+import { pool } from '../config/db';
+import { Pool, PoolClient } from 'pg';
+import { DatabaseError, TaskService } from './taskService';
+import { ActivityService } from './activityService';
+import { EventService } from './eventService';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { TaskViewer, taskScopeCondition } from '../utils/taskScope';
+import { CreateDependencyRequest, DependencyLink, TaskDependencies, TaskDependency } from '../types/dependency';
+import { TaskStatus } from '../types/task';
+
+export class DependencyService {
+  // Moving into these statuses requires every finish-to-start predecessor to be completed
+  private static readonly BLOCKED_STATUSES: TaskStatus[] = ['In Progress', 'Completed'];
+
+  private static readonly DEPENDENCY_SELECT_QUERY = `
+    SELECT
+      d.*,
+      t.id as task_id,
+      t.title as task_title,
+      t.status as task_status
+    FROM task_dependencies d
+    JOIN tasks t ON t.id = CASE WHEN d.predecessor_task_id = $1 THEN d.successor_task_id ELSE d.predecessor_task_id END
+    WHERE (d.predecessor_task_id = $1 OR d.successor_task_id = $1)
+      AND t.soft_deleted_at IS NULL
+  `;
+
+  // Links to tasks outside the viewer's scope are left out, as in listLinks
+  static async listDependencies(taskId: string, viewer: TaskViewer): Promise<TaskDependencies> {
+    try {
+      await DependencyService.assertTaskExists(pool, taskId);
+
+      const scope = taskScopeCondition(viewer, '$2');
+      const result = await pool.query(
+        `${DependencyService.DEPENDENCY_SELECT_QUERY}
+        ${scope ? `AND ${scope}` : ''}
+        ORDER BY d.created_at, d.id`,
+        scope ? [taskId, viewer.id] : [taskId]
+      );
+
+      const dependencies = result.rows.map(row => DependencyService.mapDependencyFromDb(row));
+
+      return {
+        predecessors: dependencies.filter(dependency => dependency.successorTaskId === taskId),
+        successors: dependencies.filter(dependency => dependency.predecessorTaskId === taskId)
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      throw new DatabaseError('Failed to fetch task dependencies', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Both ends must be among the given tasks and visible to the viewer; other ids are ignored
+  static async listLinks(taskIds: string[], viewer: TaskViewer): Promise<DependencyLink[]> {
+    try {
+      const scope = taskScopeCondition(viewer, '$2');
+      const result = await pool.query(
+        `WITH visible AS (
+          SELECT t.id FROM tasks t
+          WHERE t.id = ANY($1::uuid[]) AND t.soft_deleted_at IS NULL ${scope ? `AND ${scope}` : ''}
+        )
+        SELECT id, predecessor_task_id, successor_task_id, dependency_type
+        FROM task_dependencies
+        WHERE predecessor_task_id IN (SELECT id FROM visible)
+          AND successor_task_id IN (SELECT id FROM visible)
+        ORDER BY id`,
+        scope ? [taskIds, viewer.id] : [taskIds]
+      );
+
+      return result.rows.map(row => ({
+        id: Number(row.id),
+        predecessorTaskId: String(row.predecessor_task_id),
+        successorTaskId: String(row.successor_task_id),
+        dependencyType: row.dependency_type
+      }));
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch dependency links', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Both ends must be visible to the actor; a task outside their scope is reported as not found
+  static async addDependency(taskId: string, data: CreateDependencyRequest, actor: TaskViewer): Promise<TaskDependency> {
+    const predecessorId = data.predecessorTaskId || taskId;
+    const successorId = data.successorTaskId || taskId;
+    const dependencyType = data.dependencyType || 'finish_to_start';
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialises concurrent link creation so two requests cannot each close half of a cycle
+      await client.query('LOCK TABLE task_dependencies IN SHARE ROW EXCLUSIVE MODE');
+
+      const predecessor = await DependencyService.assertTaskExists(client, predecessorId, actor);
+      const successor = await DependencyService.assertTaskExists(client, successorId, actor);
+
+      const existing = await client.query(
+        `SELECT 1 FROM task_dependencies
+        WHERE (predecessor_task_id = $1 AND successor_task_id = $2)
+          OR (predecessor_task_id = $2 AND successor_task_id = $1)`,
+        [predecessorId, successorId]
+      );
+      if (existing.rows.length > 0) {
+        throw new ConflictError('These tasks are already linked');
+      }
+
+      if (await DependencyService.isReachable(client, successorId, predecessorId)) {
+        throw new ConflictError('Adding this dependency would create a cycle');
+      }
+
+      const result = await client.query(
+        `INSERT INTO task_dependencies (predecessor_task_id, successor_task_id, dependency_type, created_by)
+        VALUES ($1, $2, $3, $4)
+        RETURNING id`,
+        [predecessorId, successorId, dependencyType, actor.id]
+      );
+
+      await ActivityService.record(client, successorId, actor.id, 'dependency_added', {
+        dependency: { taskId: predecessorId, title: predecessor.title, relation: 'blocked_by', type: dependencyType }
+      });
+      await ActivityService.record(client, predecessorId, actor.id, 'dependency_added', {
+        dependency: { taskId: successorId, title: successor.title, relation: 'blocking', type: dependencyType }
+      });
+
+      await client.query('COMMIT');
+
+      await DependencyService.publishTaskUpdates([predecessorId, successorId]);
+
+      const dependency = await DependencyService.getDependency(taskId, String(result.rows[0].id));
+      return dependency!;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (error instanceof NotFoundError || error instanceof ConflictError) throw error;
+      throw new DatabaseError('Failed to add task dependency', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  static async removeDependency(taskId: string, dependencyId: string, actorId: string): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `DELETE FROM task_dependencies d
+        USING tasks p, tasks s
+        WHERE d.id = $1
+          AND (d.predecessor_task_id = $2 OR d.successor_task_id = $2)
+          AND p.id = d.predecessor_task_id
+          AND s.id = d.successor_task_id
+        RETURNING d.predecessor_task_id, d.successor_task_id, d.dependency_type, p.title as predecessor_title, s.title as successor_title`,
+        [dependencyId, taskId]
+      );
+      if (result.rows.length === 0) {
+        throw new NotFoundError('Dependency not found');
+      }
+
+      const removed = result.rows[0];
+      const predecessorId = String(removed.predecessor_task_id);
+      const successorId = String(removed.successor_task_id);
+
+      await ActivityService.record(client, successorId, actorId, 'dependency_removed', {
+        dependency: { taskId: predecessorId, title: removed.predecessor_title, relation: 'blocked_by', type: removed.dependency_type }
+      });
+      await ActivityService.record(client, predecessorId, actorId, 'dependency_removed', {
+        dependency: { taskId: successorId, title: removed.successor_title, relation: 'blocking', type: removed.dependency_type }
+      });
+
+      await client.query('COMMIT');
+
+      await DependencyService.publishTaskUpdates([predecessorId, successorId]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (error instanceof NotFoundError) throw error;
+      throw new DatabaseError('Failed to remove task dependency', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Rejects a move into In Progress or Completed while a finish-to-start predecessor
+   * is unfinished. Predecessor rows are share-locked so they cannot be reopened
+   * between this check and the caller's commit.
+   */
+  static async assertStatusAllowed(client: PoolClient, taskId: string, status: TaskStatus): Promise<void> {
+    if (!DependencyService.BLOCKED_STATUSES.includes(status)) {
+      return;
+    }
+
+    const result = await client.query(
+      `SELECT p.title
+      FROM task_dependencies d
+      JOIN tasks p ON p.id = d.predecessor_task_id
+      WHERE d.successor_task_id = $1
+        AND d.dependency_type = 'finish_to_start'
+        AND p.status <> 'Completed'
+        AND p.soft_deleted_at IS NULL
+      ORDER BY p.title
+      FOR SHARE OF p`,
+      [taskId]
+    );
+
+    if (result.rows.length > 0) {
+      const titles = result.rows.map(row => `"${row.title}"`).join(', ');
+      throw new ConflictError(`Task cannot move to ${status} while it is blocked by ${titles}`);
+    }
+  }
+
+  static async getSuccessorIds(taskId: string): Promise<string[]> {
+    const result = await pool.query(
+      'SELECT successor_task_id FROM task_dependencies WHERE predecessor_task_id = $1',
+      [taskId]
+    );
+    return result.rows.map(row => String(row.successor_task_id));
+  }
+
+  // Blocked/blocking badges live on the task payload, so both ends need a fresh copy pushed
+  static async publishTaskUpdates(taskIds: string[]): Promise<void> {
+    for (const id of taskIds) {
+      const task = await TaskService.getTaskById(id);
+      if (task) {
+        EventService.publishTaskChange('task.updated', task);
+      }
+    }
+  }
+
+  private static async getDependency(taskId: string, dependencyId: string): Promise<TaskDependency | null> {
+    const result = await pool.query(
+      `${DependencyService.DEPENDENCY_SELECT_QUERY}
+      AND d.id = $2`,
+      [taskId, dependencyId]
+    );
+    return result.rows[0] ? DependencyService.mapDependencyFromDb(result.rows[0]) : null;
+  }
+
+  // Walks successor links from `fromId`; UNION (not UNION ALL) keeps the walk finite
+  private static async isReachable(client: PoolClient, fromId: string, toId: string): Promise<boolean> {
+    const result = await client.query(
+      `WITH RECURSIVE reachable(task_id) AS (
+        SELECT successor_task_id FROM task_dependencies WHERE predecessor_task_id = $1
+        UNION
+        SELECT d.successor_task_id
+        FROM task_dependencies d
+        JOIN reachable r ON d.predecessor_task_id = r.task_id
+      )
+      SELECT 1 FROM reachable WHERE task_id = $2 LIMIT 1`,
+      [fromId, toId]
+    );
+    return result.rows.length > 0;
+  }
+
+  private static async assertTaskExists(executor: Pool | PoolClient, taskId: string, viewer?: TaskViewer): Promise<{ title: string }> {
+    const scope = viewer ? taskScopeCondition(viewer, '$2') : null;
+    const result = await executor.query(
+      `SELECT t.title FROM tasks t WHERE t.id = $1 AND t.soft_deleted_at IS NULL ${scope ? `AND ${scope}` : ''}`,
+      scope ? [taskId, viewer!.id] : [taskId]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Task not found');
+    }
+    return result.rows[0];
+  }
+
+  private static mapDependencyFromDb(row: any): TaskDependency {
+    return {
+      id: Number(row.id),
+      predecessorTaskId: String(row.predecessor_task_id),
+      successorTaskId: String(row.successor_task_id),
+      dependencyType: row.dependency_type,
+      createdBy: row.created_by ? String(row.created_by) : null,
+      createdAt: new Date(row.created_at).toISOString(),
+      task: {
+        id: String(row.task_id),
+        title: row.task_title,
+        status: row.task_status
+      }
+    };
+  }
+}
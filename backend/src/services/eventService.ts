@@ -0,0 +1,181 @@
+// services/eventService.ts
+import { Response } from 'express';
+import { UserRole } from '../types';
+import { Task } from '../types/task';
+import { Notification } from '../types/notification';
+import { ServerEventName, ServerEventPayloads, TaskAudience } from '../types/events';
+
+interface EventClient {
+  userId: string;
+  role: UserRole;
+  // The sign-in session the stream was opened with; revoking it ends the stream
+  sessionId?: string;
+  // Managers also follow their team's tasks; resolved when the stream opens, and TeamService
+  // closes the stream when the team changes so the client reconnects with the new one
+  teammateIds: Set<string>;
+  res: Response;
+}
+
+/**
+ * Fans task and notification events out to open SSE connections. Admins see
+ * every task event, managers see their team's, and other users only see tasks
+ * they assigned or are assigned to.
+ * Connections live in this process only, so each server instance serves its own clients.
+ */
+export class EventService {
+  private static readonly HEARTBEAT_INTERVAL_MS = 25 * 1000;
+  private static readonly RECONNECT_DELAY_MS = 5000;
+
+  private static clients = new Set<EventClient>();
+  private static heartbeatTimer: NodeJS.Timeout | undefined;
+  private static nextEventId = 1;
+
+  static addClient(user: { id: string; role: UserRole; sessionId?: string }, res: Response, teammateIds: string[] = []): () => void {
+    const client: EventClient = {
+      userId: String(user.id),
+      role: user.role,
+      sessionId: user.sessionId,
+      teammateIds: new Set(teammateIds),
+      res
+    };
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps the compression middleware from buffering the stream
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write(`retry: ${EventService.RECONNECT_DELAY_MS}\n\n`);
+
+    EventService.clients.add(client);
+    EventService.startHeartbeat();
+
+    return () => {
+      EventService.clients.delete(client);
+      if (EventService.clients.size === 0) {
+        EventService.stopHeartbeat();
+      }
+    };
+  }
+
+  // Whoever only saw the task through its previous audience is told it is gone instead,
+  // so their boards drop it without being sent a task they can no longer see
+  static publishTaskChange(event: 'task.created' | 'task.updated', task: Task, previousAudience?: TaskAudience): void {
+    const audience = EventService.audienceIds(task);
+    EventService.sendToUsers(audience, event, { task }, true);
+
+    if (previousAudience) {
+      const formerAudience = EventService.audienceIds(previousAudience);
+      EventService.sendToUsers(formerAudience, 'task.deleted', { taskId: task.id }, true, client => !EventService.canSee(client, audience));
+    }
+  }
+
+  static publishTaskDeleted(taskId: string, audience: TaskAudience): void {
+    EventService.sendToUsers(EventService.audienceIds(audience), 'task.deleted', { taskId }, true);
+  }
+
+  static publishNotifications(notifications: Notification[]): void {
+    for (const notification of notifications) {
+      EventService.sendToUsers(new Set([notification.userId]), 'notification.created', { notification }, false);
+    }
+  }
+
+  // Ends the streams opened with any of these sessions once they are revoked
+  static closeSessions(sessionIds: string[]): void {
+    const revoked = new Set(sessionIds.map(String));
+    EventService.closeWhere(client => client.sessionId !== undefined && revoked.has(client.sessionId));
+  }
+
+  static closeUser(userId: string): void {
+    EventService.closeUsers([userId]);
+  }
+
+  static closeUsers(userIds: string[]): void {
+    const ids = new Set(userIds.map(String));
+    EventService.closeWhere(client => ids.has(client.userId));
+  }
+
+  static closeAll(): void {
+    for (const client of EventService.clients) {
+      client.res.end();
+    }
+    EventService.clients.clear();
+    EventService.stopHeartbeat();
+  }
+
+  private static closeWhere(matches: (client: EventClient) => boolean): void {
+    for (const client of EventService.clients) {
+      if (matches(client)) {
+        client.res.end();
+        EventService.clients.delete(client);
+      }
+    }
+    if (EventService.clients.size === 0) {
+      EventService.stopHeartbeat();
+    }
+  }
+
+  private static audienceIds(...audiences: (TaskAudience | undefined)[]): Set<string> {
+    const ids = new Set<string>();
+    for (const audience of audiences) {
+      if (audience?.assignerId) ids.add(String(audience.assignerId));
+      if (audience?.assignedUserId) ids.add(String(audience.assignedUserId));
+    }
+    return ids;
+  }
+
+  private static sendToUsers<E extends ServerEventName>(
+    userIds: Set<string>,
+    event: E,
+    data: ServerEventPayloads[E],
+    includeOverseers: boolean,
+    only: (client: EventClient) => boolean = () => true
+  ): void {
+    if (EventService.clients.size === 0) {
+      return;
+    }
+
+    const message = `id: ${EventService.nextEventId++}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+    for (const client of EventService.clients) {
+      const reaches = includeOverseers ? EventService.canSee(client, userIds) : userIds.has(client.userId);
+      if (reaches && only(client)) {
+        client.res.write(message);
+      }
+    }
+  }
+
+  private static canSee(client: EventClient, audience: Set<string>): boolean {
+    return audience.has(client.userId) || EventService.oversees(client, audience);
+  }
+
+  private static oversees(client: EventClient, userIds: Set<string>): boolean {
+    if (client.role === 'Admin') {
+      return true;
+    }
+    if (client.role === 'Manager') {
+      for (const id of userIds) {
+        if (client.teammateIds.has(id)) return true;
+      }
+    }
+    return false;
+  }
+
+  // Comment lines keep proxies from closing idle connections
+  private static startHeartbeat(): void {
+    if (EventService.heartbeatTimer) {
+      return;
+    }
+    EventService.heartbeatTimer = setInterval(() => {
+      for (const client of EventService.clients) {
+        client.res.write(': ping\n\n');
+      }
+    }, EventService.HEARTBEAT_INTERVAL_MS);
+  }
+
+  private static stopHeartbeat(): void {
+    clearInterval(EventService.heartbeatTimer);
+    EventService.heartbeatTimer = undefined;
+  }
+}
@@ -0,0 +1,272 @@
+// services/mailService.ts
+import path from 'path';
+import { PoolClient } from 'pg';
+import { pool } from '../config/db';
+import { DatabaseError } from './taskService';
+import { ConsoleTransport, FileTransport, MailTransport, ResendTransport, SmtpTransport } from './mailTransports';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { renderMailTemplate } from '../utils/mailTemplates';
+import {
+  EnqueueEmailOptions,
+  MAIL_TRANSPORTS,
+  MailTemplateData,
+  MailTemplateName,
+  MailTransportName,
+  OutboxEmail,
+  OutboxListParams,
+  OutboxStatus,
+  PaginatedOutbox
+} from '../types/mail';
+
+export class MailService {
+  private static readonly MAX_ATTEMPTS = 5;
+  private static readonly BATCH_SIZE = 20;
+  // A row left in 'sending' this long belongs to a worker that died mid-send
+  private static readonly STALE_LOCK_MINUTES = 10;
+
+  private static transportInstance: MailTransport | undefined;
+
+  // MAIL_TRANSPORT picks the provider; without it, SMTP is used when configured and the console otherwise
+  static get transport(): MailTransport {
+    if (!MailService.transportInstance) {
+      MailService.transportInstance = MailService.createTransport();
+    }
+    return MailService.transportInstance;
+  }
+
+  static get fromAddress(): string {
+    return process.env.MAIL_FROM || process.env.SMTP_FROM || 'Task App <no-reply@taskapp.com>';
+  }
+
+  // Links in emails point at the web app, not this API
+  static get appUrl(): string {
+    return (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+  }
+
+  static get dashboardUrl(): string {
+    return `${MailService.appUrl}/dashboard`;
+  }
+
+  /**
+   * Renders a template and queues it for delivery. With a client the row is written in the
+   * caller's transaction and goes out on the next outbox run; without one, delivery starts
+   * right away. Returns null when there is nobody to send to or the dedupe key was used before.
+   */
+  static async enqueue<K extends MailTemplateName>(
+    template: K,
+    to: string | Array<string | null | undefined>,
+    data: MailTemplateData[K],
+    options: EnqueueEmailOptions = {},
+    client?: PoolClient
+  ): Promise<string | null> {
+    const recipients = Array.from(new Set((Array.isArray(to) ? to : [to])
+      .map(address => address?.trim().toLowerCase())
+      .filter((address): address is string => !!address)));
+    if (recipients.length === 0) {
+      return null;
+    }
+
+    const rendered = renderMailTemplate(template, data);
+    let result;
+    try {
+      result = await (client || pool).query(
+        `INSERT INTO mail_outbox (template, recipients, subject, body_text, body_html, dedupe_key)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (dedupe_key) DO NOTHING
+        RETURNING id`,
+        [template, recipients, rendered.subject, rendered.text, rendered.html, options.dedupeKey || null]
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to queue email', error instanceof Error ? error : undefined);
+    }
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+    if (!client) {
+      MailService.processOutbox().catch(error => console.error('❌ Mail outbox run failed:', error));
+    }
+    return String(result.rows[0].id);
+  }
+
+  /**
+   * Sends a batch of due emails. Rows are claimed with SKIP LOCKED, so overlapping runs
+   * never deliver the same email twice. Failures back off exponentially and are marked
+   * 'failed' after MAX_ATTEMPTS.
+   */
+  static async processOutbox(limit: number = MailService.BATCH_SIZE): Promise<{ sent: number; failed: number }> {
+    let claimed;
+    try {
+      claimed = await pool.query(
+        `UPDATE mail_outbox
+        SET status = 'sending', locked_at = CURRENT_TIMESTAMP, attempts = attempts + 1
+        WHERE id IN (
+          SELECT id FROM mail_outbox
+          WHERE (status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP)
+            OR (status = 'sending' AND locked_at < CURRENT_TIMESTAMP - make_interval(mins => $2))
+          ORDER BY next_attempt_at
+          LIMIT $1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *`,
+        [limit, MailService.STALE_LOCK_MINUTES]
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to claim queued emails', error instanceof Error ? error : undefined);
+    }
+
+    let sent = 0;
+    let failed = 0;
+    for (const row of claimed.rows) {
+      try {
+        await MailService.transport.send({
+          from: MailService.fromAddress,
+          to: row.recipients,
+          subject: row.subject,
+          text: row.body_text,
+          html: row.body_html
+        });
+        await pool.query(
+          `UPDATE mail_outbox
+          SET status = 'sent', sent_at = CURRENT_TIMESTAMP, locked_at = NULL, next_attempt_at = NULL, last_error = NULL
+          WHERE id = $1`,
+          [row.id]
+        );
+        sent++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const givingUp = row.attempts >= MailService.MAX_ATTEMPTS;
+        console.error(`Failed to send email ${row.id} (attempt ${row.attempts}):`, message);
+        await pool.query(
+          `UPDATE mail_outbox
+          SET status = $2, locked_at = NULL, last_error = $3,
+            next_attempt_at = CASE WHEN $2 = 'failed' THEN NULL ELSE CURRENT_TIMESTAMP + make_interval(mins => $4) END
+          WHERE id = $1`,
+          [row.id, givingUp ? 'failed' : 'pending', message.slice(0, 2000), 2 ** row.attempts]
+        );
+        if (givingUp) {
+          failed++;
+        }
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  static async listOutbox(params: OutboxListParams = {}): Promise<PaginatedOutbox> {
+    const page = params.page || 1;
+    const limit = params.limit || 20;
+    const offset = (page - 1) * limit;
+    const statusFilter = params.status ? 'WHERE status = $3' : '';
+    const queryParams: any[] = [limit, offset];
+    if (params.status) {
+      queryParams.push(params.status);
+    }
+
+    try {
+      const countResult = await pool.query(
+        `SELECT COUNT(*) FROM mail_outbox ${params.status ? 'WHERE status = $1' : ''}`,
+        params.status ? [params.status] : []
+      );
+      const total = parseInt(countResult.rows[0].count);
+
+      const result = await pool.query(
+        `SELECT * FROM mail_outbox
+        ${statusFilter}
+        ORDER BY created_at DESC, id
+        LIMIT $1 OFFSET $2`,
+        queryParams
+      );
+
+      const totalPages = Math.ceil(total / limit);
+      return {
+        emails: result.rows.map(row => MailService.mapOutboxEmailFromDb(row)),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      };
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch the mail outbox', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Puts a failed email back in the queue with a fresh set of attempts
+  static async retryEmail(id: string): Promise<OutboxEmail> {
+    let result;
+    try {
+      result = await pool.query(
+        `UPDATE mail_outbox
+        SET status = 'pending', attempts = 0, last_error = NULL, next_attempt_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status = 'failed'
+        RETURNING *`,
+        [id]
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to retry email', error instanceof Error ? error : undefined);
+    }
+
+    if (result.rows.length === 0) {
+      const existing = await pool.query('SELECT status FROM mail_outbox WHERE id = $1', [id]);
+      if (existing.rows.length === 0) {
+        throw new NotFoundError('Email not found');
+      }
+      throw new ConflictError(`Only failed emails can be retried; this one is ${existing.rows[0].status}`);
+    }
+
+    MailService.processOutbox().catch(error => console.error('❌ Mail outbox run failed:', error));
+    return MailService.mapOutboxEmailFromDb(result.rows[0]);
+  }
+
+  private static createTransport(): MailTransport {
+    const name = (process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')) as MailTransportName;
+    if (!MAIL_TRANSPORTS.includes(name)) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"; expected one of ${MAIL_TRANSPORTS.join(', ')}`);
+    }
+
+    switch (name) {
+      case 'smtp': {
+        if (!process.env.SMTP_HOST) {
+          throw new Error('SMTP mail requires SMTP_HOST');
+        }
+        const port = parseInt(process.env.SMTP_PORT || '587');
+        return new SmtpTransport({
+          host: process.env.SMTP_HOST,
+          port,
+          // Port 465 is implicit TLS; other ports upgrade with STARTTLS
+          secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS
+        });
+      }
+      case 'resend':
+        if (!process.env.RESEND_API_KEY) {
+          throw new Error('Resend mail requires RESEND_API_KEY');
+        }
+        return new ResendTransport(process.env.RESEND_API_KEY);
+      case 'file':
+        return new FileTransport(process.env.MAIL_OUTPUT_DIR || path.resolve(process.cwd(), 'mail-outbox'));
+      case 'console':
+        return new ConsoleTransport();
+    }
+  }
+
+  private static mapOutboxEmailFromDb(row: any): OutboxEmail {
+    return {
+      id: String(row.id),
+      template: row.template as MailTemplateName,
+      recipients: row.recipients,
+      subject: row.subject,
+      status: row.status as OutboxStatus,
+      attempts: Number(row.attempts),
+      lastError: row.last_error ?? null,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at).toISOString() : null,
+      sentAt: row.sent_at ? new Date(row.sent_at).toISOString() : null,
+      createdAt: new Date(row.created_at).toISOString()
+    };
+  }
+}
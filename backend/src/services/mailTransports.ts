@@ -0,0 +1,95 @@
+// services/mailTransports.ts
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailTransportName, OutgoingEmail } from '../types/mail';
+
+// Hands one rendered email to a delivery provider; throwing marks the outbox row for retry
+export interface MailTransport {
+  readonly name: MailTransportName;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp' as const;
+  private readonly transporter: Transporter;
+
+  constructor(config: SmtpConfig) {
+    // One pooled connection for the process instead of a new transport per email
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      pool: true,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<void> {
+    await this.transporter.sendMail({
+      from: email.from,
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html
+    });
+  }
+}
+
+export class ResendTransport implements MailTransport {
+  readonly name = 'resend' as const;
+  private static readonly API_URL = 'https://api.resend.com/emails';
+
+  constructor(private readonly apiKey: string) {}
+
+  async send(email: OutgoingEmail): Promise<void> {
+    const response = await fetch(ResendTransport.API_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: email.from,
+        to: email.to,
+        subject: email.subject,
+        text: email.text,
+        html: email.html
+      })
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Resend rejected the email (${response.status}): ${body.slice(0, 500)}`);
+    }
+  }
+}
+
+// Local development: each email becomes a JSON file that can be opened or asserted on
+export class FileTransport implements MailTransport {
+  readonly name = 'file' as const;
+
+  constructor(private readonly outputDir: string) {}
+
+  async send(email: OutgoingEmail): Promise<void> {
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.json`;
+    await fs.promises.writeFile(path.join(this.outputDir, fileName), JSON.stringify(email, null, 2));
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console' as const;
+
+  async send(email: OutgoingEmail): Promise<void> {
+    console.log(`📧 [mail] To: ${email.to.join(', ')} | Subject: ${email.subject}\n${email.text}`);
+  }
+}
@@ -0,0 +1,443 @@
+// services/notificationService.ts
+import { pool } from '../config/db';
+import { PoolClient } from 'pg';
+import { DatabaseError } from './taskService';
+import { EventService } from './eventService';
+import { MailService } from './mailService';
+import { NotFoundError } from '../utils/errors';
+import { Notification, NotificationType, NotificationListParams, PaginatedNotifications, CreateNotificationRequest } from '../types/notification';
+
+export class NotificationService {
+  // Statuses after which a task no longer needs deadline reminders
+  private static readonly CLOSED_STATUSES = ['Completed', 'Rejected', 'Archived'];
+
+  private static readonly DEFAULT_REMINDER_OFFSETS = '24h,1h';
+  private static readonly OFFSET_UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: 24 * 60 };
+
+  private static readonly RETURNING_CLAUSE = 'RETURNING *, (SELECT title FROM tasks WHERE tasks.id = notifications.task_id) as task_title';
+
+  static async listNotifications(userId: string, params: NotificationListParams = {}): Promise<PaginatedNotifications> {
+    const page = params.page || 1;
+    const limit = params.limit || 20;
+    const offset = (page - 1) * limit;
+    const unreadFilter = params.unreadOnly ? 'AND n.is_read = FALSE' : '';
+
+    try {
+      const countResult = await pool.query(
+        `SELECT COUNT(*) FROM notifications n WHERE n.user_id = $1 ${unreadFilter}`,
+        [userId]
+      );
+      const total = parseInt(countResult.rows[0].count);
+
+      const result = await pool.query(
+        `SELECT n.*, t.title as task_title
+        FROM notifications n
+        LEFT JOIN tasks t ON n.task_id = t.id
+        WHERE n.user_id = $1 ${unreadFilter}
+        ORDER BY n.created_at DESC, n.id DESC
+        LIMIT $2 OFFSET $3`,
+        [userId, limit, offset]
+      );
+
+      const unreadCount = params.unreadOnly ? total : await NotificationService.getUnreadCount(userId);
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        notifications: result.rows.map(row => NotificationService.mapNotificationFromDb(row)),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        },
+        unreadCount
+      };
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch notifications', error instanceof Error ? error : undefined);
+    }
+  }
+
+  static async getUnreadCount(userId: string): Promise<number> {
+    try {
+      // Matches the partial index idx_notifications_user_unread
+      const result = await pool.query(
+        'SELECT COUNT(*) FROM notifications WHERE user_id = $1 AND is_read = FALSE',
+        [userId]
+      );
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      throw new DatabaseError('Failed to count unread notifications', error instanceof Error ? error : undefined);
+    }
+  }
+
+  static async markAsRead(userId: string, notificationId: number): Promise<Notification> {
+    let result;
+    try {
+      result = await pool.query(
+        `UPDATE notifications n
+        SET is_read = TRUE, updated_at = CURRENT_TIMESTAMP
+        WHERE n.id = $1 AND n.user_id = $2
+        RETURNING n.*, (SELECT title FROM tasks WHERE id = n.task_id) as task_title`,
+        [notificationId, userId]
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to mark notification as read', error instanceof Error ? error : undefined);
+    }
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Notification not found');
+    }
+    return NotificationService.mapNotificationFromDb(result.rows[0]);
+  }
+
+  static async markAllAsRead(userId: string): Promise<number> {
+    try {
+      const result = await pool.query(
+        `UPDATE notifications
+        SET is_read = TRUE, updated_at = CURRENT_TIMESTAMP
+        WHERE user_id = $1 AND is_read = FALSE`,
+        [userId]
+      );
+      return result.rowCount || 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to mark notifications as read', error instanceof Error ? error : undefined);
+    }
+  }
+
+  static async createNotification(data: CreateNotificationRequest): Promise<Notification> {
+    let notification: Notification;
+    try {
+      const result = await pool.query(
+        `INSERT INTO notifications (user_id, task_id, type, message)
+        VALUES ($1, $2, $3, $4)
+        ${NotificationService.RETURNING_CLAUSE}`,
+        [data.recipientId, data.taskId || null, data.type, data.message]
+      );
+      notification = NotificationService.mapNotificationFromDb(result.rows[0]);
+    } catch (error) {
+      throw new DatabaseError('Failed to create notification', error instanceof Error ? error : undefined);
+    }
+
+    EventService.publishNotifications([notification]);
+    return notification;
+  }
+
+  /**
+   * The notify* helpers run inside the caller's transaction and return the
+   * inserted rows; callers publish them with EventService once committed.
+   */
+  static async notifyTaskAssigned(client: PoolClient, taskId: string, assigneeId: string, actorId: string | null): Promise<Notification[]> {
+    if (assigneeId === actorId) {
+      return [];
+    }
+
+    const result = await client.query(
+      `INSERT INTO notifications (user_id, task_id, type, message)
+      SELECT $2, t.id, 'Task Assigned', 'You have been assigned to "' || t.title || '"'
+      FROM tasks t
+      WHERE t.id = $1
+      ${NotificationService.RETURNING_CLAUSE}`,
+      [taskId, assigneeId]
+    );
+
+    // Scheduled instances have no actor, so the task's assigner is named instead
+    const details = await client.query(
+      `SELECT t.title, t.deadline, assignee.email, assignee.first_name,
+        NULLIF(concat_ws(' ', actor.first_name, actor.last_name), '') as actor_name
+      FROM tasks t
+      JOIN users assignee ON assignee.id = $2
+      LEFT JOIN users actor ON actor.id = COALESCE($3::uuid, t.assigner_id)
+      WHERE t.id = $1`,
+      [taskId, assigneeId, actorId]
+    );
+    const row = details.rows[0];
+    if (row) {
+      await MailService.enqueue('assignment', row.email, {
+        recipientName: row.first_name || row.email,
+        taskTitle: row.title,
+        assignerName: row.actor_name,
+        deadline: row.deadline ? new Date(row.deadline).toISOString() : null,
+        dashboardUrl: MailService.dashboardUrl
+      }, {}, client);
+    }
+
+    return result.rows.map(row => NotificationService.mapNotificationFromDb(row));
+  }
+
+  // Emails the assignee (or the submitter of an unassigned task) the reviewer's feedback
+  static async notifyRevisionRequested(client: PoolClient, taskId: string, actorId: string | null, feedback: string | null): Promise<void> {
+    const result = await client.query(
+      `SELECT t.title, recipient.email, recipient.first_name,
+        NULLIF(concat_ws(' ', actor.first_name, actor.last_name), '') as actor_name
+      FROM tasks t
+      JOIN users recipient ON recipient.id = COALESCE(t.assigned_user_id, t.assigner_id)
+      LEFT JOIN users actor ON actor.id = $2
+      WHERE t.id = $1
+        AND recipient.id IS DISTINCT FROM $2::uuid`,
+      [taskId, actorId]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return;
+    }
+
+    await MailService.enqueue('revisionRequested', row.email, {
+      recipientName: row.first_name || row.email,
+      taskTitle: row.title,
+      reviewerName: row.actor_name,
+      feedback,
+      dashboardUrl: MailService.dashboardUrl
+    }, {}, client);
+  }
+
+  // Notifies the assignee and the assigner, skipping whoever made the change
+  static async notifyStatusChange(client: PoolClient, taskId: string, previousStatus: string, actorId: string | null): Promise<Notification[]> {
+    const result = await client.query(
+      `INSERT INTO notifications (user_id, task_id, type, message)
+      SELECT DISTINCT recipient.id, t.id, 'Status Change'::notification_type,
+        '"' || t.title || '" moved from ' || $2 || ' to ' || t.status
+      FROM tasks t
+      CROSS JOIN LATERAL (VALUES (t.assigned_user_id), (t.assigner_id)) AS recipient(id)
+      WHERE t.id = $1
+        AND recipient.id IS NOT NULL
+        AND recipient.id IS DISTINCT FROM $3::uuid
+      ${NotificationService.RETURNING_CLAUSE}`,
+      [taskId, previousStatus, actorId]
+    );
+    return result.rows.map(row => NotificationService.mapNotificationFromDb(row));
+  }
+
+  static async notifyMentionedUsers(client: PoolClient, taskId: string, authorId: string, mentionedUserIds: string[]): Promise<Notification[]> {
+    const recipients = mentionedUserIds.filter(id => id !== authorId);
+    if (recipients.length === 0) {
+      return [];
+    }
+
+    const result = await client.query(
+      `INSERT INTO notifications (user_id, task_id, type, message)
+      SELECT
+        recipient.id,
+        t.id,
+        'Comment Mention',
+        concat_ws(' ', author.first_name, author.last_name) || ' mentioned you in a comment on "' || t.title || '"'
+      FROM unnest($3::uuid[]) AS recipient(id)
+      JOIN tasks t ON t.id = $1
+      JOIN users author ON author.id = $2
+      ${NotificationService.RETURNING_CLAUSE}`,
+      [taskId, authorId, recipients]
+    );
+    return result.rows.map(row => NotificationService.mapNotificationFromDb(row));
+  }
+
+  // DEADLINE_REMINDER_OFFSETS lists how long before a deadline to remind, e.g. "24h,1h" or "90m"
+  static get reminderOffsetsMinutes(): number[] {
+    const raw = process.env.DEADLINE_REMINDER_OFFSETS || NotificationService.DEFAULT_REMINDER_OFFSETS;
+    const offsets = raw.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+      const match = /^(\d+)\s*([mhd])$/i.exec(part);
+      const minutes = match ? Number(match[1]) * NotificationService.OFFSET_UNIT_MINUTES[match[2].toLowerCase()] : 0;
+      if (minutes <= 0) {
+        throw new Error(`Invalid DEADLINE_REMINDER_OFFSETS entry "${part}"; expected a duration like "24h", "90m" or "2d"`);
+      }
+      return minutes;
+    });
+    return Array.from(new Set(offsets)).sort((a, b) => b - a);
+  }
+
+  /**
+   * Reminds assignees about open tasks whose deadline falls within one of the reminder
+   * offsets. A task is only reminded for the tightest offset it is inside of, so a task
+   * created an hour before its deadline does not also get the day-before reminder. Each
+   * (task, offset, deadline) is recorded in task_reminders, so reruns never send twice.
+   */
+  static async sendDeadlineReminders(offsetsMinutes: number[] = NotificationService.reminderOffsetsMinutes): Promise<number> {
+    if (offsetsMinutes.length === 0) {
+      return 0;
+    }
+
+    try {
+      const result = await pool.query(
+        `WITH due AS (
+          SELECT t.id, t.deadline,
+            (SELECT MIN(o) FROM unnest($2::int[]) AS o
+              WHERE t.deadline <= CURRENT_TIMESTAMP + make_interval(mins => o)) AS offset_minutes
+          FROM tasks t
+          WHERE t.assigned_user_id IS NOT NULL
+            AND t.soft_deleted_at IS NULL
+            AND t.status <> ALL($1::task_status[])
+            AND t.deadline > CURRENT_TIMESTAMP
+            AND t.deadline <= CURRENT_TIMESTAMP + make_interval(mins => $3)
+        ),
+        recorded AS (
+          INSERT INTO task_reminders (task_id, offset_minutes, deadline)
+          SELECT id, offset_minutes, deadline FROM due
+          ON CONFLICT DO NOTHING
+          RETURNING task_id
+        )
+        INSERT INTO notifications (user_id, task_id, type, message)
+        SELECT t.assigned_user_id, t.id, 'Deadline Reminder',
+          '"' || t.title || '" is due ' || to_char(t.deadline AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI') || ' UTC'
+        FROM recorded
+        JOIN tasks t ON t.id = recorded.task_id
+        ${NotificationService.RETURNING_CLAUSE}`,
+        [NotificationService.CLOSED_STATUSES, offsetsMinutes, Math.max(...offsetsMinutes)]
+      );
+      EventService.publishNotifications(result.rows.map(row => NotificationService.mapNotificationFromDb(row)));
+      return result.rows.length;
+    } catch (error) {
+      throw new DatabaseError('Failed to send deadline reminders', error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Tells the assignee and the assigner once when an open task passes its deadline.
+   * Returns the ids of the tasks that became overdue since the last run.
+   */
+  static async notifyOverdueTasks(): Promise<string[]> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const recorded = await client.query(
+        `INSERT INTO task_reminders (task_id, offset_minutes, deadline)
+        SELECT t.id, 0, t.deadline
+        FROM tasks t
+        WHERE t.soft_deleted_at IS NULL
+          AND t.status <> ALL($1::task_status[])
+          AND t.deadline <= CURRENT_TIMESTAMP
+        ON CONFLICT DO NOTHING
+        RETURNING task_id`,
+        [NotificationService.CLOSED_STATUSES]
+      );
+      const taskIds: string[] = recorded.rows.map(row => String(row.task_id));
+
+      let notifications: Notification[] = [];
+      if (taskIds.length > 0) {
+        const result = await client.query(
+          `INSERT INTO notifications (user_id, task_id, type, message)
+          SELECT DISTINCT recipient.id, t.id, 'Deadline Reminder'::notification_type,
+            '"' || t.title || '" is overdue; it was due ' || to_char(t.deadline AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI') || ' UTC'
+          FROM tasks t
+          CROSS JOIN LATERAL (VALUES (t.assigned_user_id), (t.assigner_id)) AS recipient(id)
+          WHERE t.id = ANY($1::uuid[])
+            AND recipient.id IS NOT NULL
+          ${NotificationService.RETURNING_CLAUSE}`,
+          [taskIds]
+        );
+        notifications = result.rows.map(row => NotificationService.mapNotificationFromDb(row));
+        await NotificationService.emailOverdueTasks(client, taskIds);
+      }
+
+      await client.query('COMMIT');
+      EventService.publishNotifications(notifications);
+      return taskIds;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new DatabaseError('Failed to notify about overdue tasks', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Queues the daily digest of overdue and soon-due work for every assignee who has any,
+   * once MAIL_DIGEST_HOUR_UTC (default 8) has passed. The dedupe key makes it once a day.
+   */
+  static async sendDailyDigests(now: Date = new Date()): Promise<number> {
+    const digestHour = Number(process.env.MAIL_DIGEST_HOUR_UTC ?? 8);
+    if (now.getUTCHours() < digestHour) {
+      return 0;
+    }
+
+    let result;
+    try {
+      result = await pool.query(
+        `SELECT u.id, u.email, u.first_name,
+          json_agg(json_build_object(
+            'title', t.title,
+            'status', t.status,
+            'deadline', t.deadline,
+            'isOverdue', t.deadline < CURRENT_TIMESTAMP
+          ) ORDER BY t.deadline) as tasks
+        FROM users u
+        JOIN tasks t ON t.assigned_user_id = u.id
+        WHERE u.soft_deleted_at IS NULL
+          AND u.is_active = true
+          AND t.soft_deleted_at IS NULL
+          AND t.status <> ALL($1::task_status[])
+          AND t.deadline <= CURRENT_TIMESTAMP + INTERVAL '7 days'
+        GROUP BY u.id`,
+        [NotificationService.CLOSED_STATUSES]
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to collect digest tasks', error instanceof Error ? error : undefined);
+    }
+
+    const day = now.toISOString().slice(0, 10);
+    let queued = 0;
+    for (const row of result.rows) {
+      const tasks: Array<{ title: string; status: string; deadline: string; isOverdue: boolean }> = row.tasks;
+      const summarize = (task: typeof tasks[number]) => ({ title: task.title, status: task.status, deadline: task.deadline });
+      const id = await MailService.enqueue('digest', row.email, {
+        recipientName: row.first_name || row.email,
+        overdue: tasks.filter(task => task.isOverdue).map(summarize),
+        dueSoon: tasks.filter(task => !task.isOverdue).map(summarize),
+        dashboardUrl: MailService.dashboardUrl
+      }, { dedupeKey: `digest:${row.id}:${day}` });
+      if (id) {
+        queued++;
+      }
+    }
+    return queued;
+  }
+
+  // Overdue emails go to the assignee, the assigner and OVERDUE_ESCALATION_EMAIL if set
+  private static async emailOverdueTasks(client: PoolClient, taskIds: string[]): Promise<void> {
+    const result = await client.query(
+      `SELECT t.id, t.title, t.deadline,
+        NULLIF(concat_ws(' ', assignee.first_name, assignee.last_name), '') as assignee_name,
+        recipient.email, recipient.first_name
+      FROM tasks t
+      LEFT JOIN users assignee ON assignee.id = t.assigned_user_id
+      CROSS JOIN LATERAL (VALUES (t.assigned_user_id), (t.assigner_id)) AS recipient_ids(id)
+      JOIN users recipient ON recipient.id = recipient_ids.id
+      WHERE t.id = ANY($1::uuid[])
+      ORDER BY t.id`,
+      [taskIds]
+    );
+
+    const escalationAddress = process.env.OVERDUE_ESCALATION_EMAIL;
+    const seen = new Set<string>();
+    for (const row of result.rows) {
+      const data = {
+        taskTitle: row.title,
+        deadline: new Date(row.deadline).toISOString(),
+        assigneeName: row.assignee_name,
+        dashboardUrl: MailService.dashboardUrl
+      };
+      // Tasks a user assigned to themselves would otherwise email them twice
+      if (!seen.has(`${row.id}|${row.email}`)) {
+        seen.add(`${row.id}|${row.email}`);
+        await MailService.enqueue('overdue', row.email, { ...data, recipientName: row.first_name || row.email }, {}, client);
+      }
+      if (escalationAddress && !seen.has(`${row.id}|escalation`)) {
+        seen.add(`${row.id}|escalation`);
+        await MailService.enqueue('overdue', escalationAddress, { ...data, recipientName: 'team' }, {}, client);
+      }
+    }
+  }
+
+  private static mapNotificationFromDb(row: any): Notification {
+    return {
+      id: Number(row.id),
+      userId: String(row.user_id),
+      taskId: row.task_id ? String(row.task_id) : null,
+      taskTitle: row.task_title ?? null,
+      type: row.type as NotificationType,
+      message: row.message,
+      isRead: Boolean(row.is_read),
+      createdAt: new Date(row.created_at).toISOString()
+    };
+  }
+}
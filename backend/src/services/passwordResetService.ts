@@ -0,0 +1,135 @@
+// services/passwordResetService.ts
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { pool } from '../config/db';
+import { DatabaseError } from './taskService';
+import { MailService } from './mailService';
+import { SessionService } from './sessionService';
+import { EventService } from './eventService';
+import { ValidationError } from '../utils/errors';
+
+export class PasswordResetService {
+  private static readonly TOKEN_TTL_MINUTES = 30;
+  // Per-account cap, on top of the per-IP limit on the routes, so one inbox can't be flooded
+  private static readonly MAX_REQUESTS_PER_HOUR = 3;
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Emails a reset link when the address belongs to an active account. Resolves the same way
+   * whether or not it does, so callers can't use it to find out which emails are registered.
+   * A new link replaces any earlier one that hasn't been used.
+   */
+  static async requestReset(email: string, requestedIp?: string): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const userResult = await client.query(
+        `SELECT id, email, first_name, last_name FROM users
+        WHERE LOWER(email) = LOWER($1) AND is_active = true AND soft_deleted_at IS NULL
+        FOR UPDATE`,
+        [email.trim()]
+      );
+      if (userResult.rows.length === 0) {
+        await client.query('COMMIT');
+        return;
+      }
+      const user = userResult.rows[0];
+
+      const recent = await client.query(
+        `SELECT COUNT(*) FROM password_reset_tokens
+        WHERE user_id = $1 AND created_at > CURRENT_TIMESTAMP - INTERVAL '1 hour'`,
+        [user.id]
+      );
+      if (parseInt(recent.rows[0].count) >= PasswordResetService.MAX_REQUESTS_PER_HOUR) {
+        await client.query('COMMIT');
+        return;
+      }
+
+      // Superseded links are invalidated rather than deleted so they still count towards the cap
+      await client.query(
+        `UPDATE password_reset_tokens SET invalidated_at = CURRENT_TIMESTAMP
+        WHERE user_id = $1 AND used_at IS NULL AND invalidated_at IS NULL`,
+        [user.id]
+      );
+
+      const token = crypto.randomBytes(32).toString('hex');
+      await client.query(
+        `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at, requested_ip)
+        VALUES ($1, $2, CURRENT_TIMESTAMP + make_interval(mins => $3), $4)`,
+        [user.id, PasswordResetService.hashToken(token), PasswordResetService.TOKEN_TTL_MINUTES, requestedIp || null]
+      );
+
+      await MailService.enqueue('passwordReset', user.email, {
+        recipientName: [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email,
+        resetUrl: `${MailService.appUrl}/reset-password?token=${token}`,
+        expiresInMinutes: PasswordResetService.TOKEN_TTL_MINUTES
+      }, {}, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new DatabaseError('Failed to request password reset', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+
+    MailService.processOutbox().catch(error => console.error('❌ Mail outbox run failed:', error));
+  }
+
+  /**
+   * Sets a new password from a reset link. The token is spent even if the caller never
+   * logs in afterwards, and every session is revoked, which signs the account out everywhere.
+   */
+  static async resetPassword(token: string, newPassword: string): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const tokenResult = await client.query(
+        `SELECT id, user_id FROM password_reset_tokens
+        WHERE token_hash = $1 AND used_at IS NULL AND invalidated_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+        FOR UPDATE`,
+        [PasswordResetService.hashToken(token)]
+      );
+      if (tokenResult.rows.length === 0) {
+        throw new ValidationError('This reset link is invalid or has expired', 'token');
+      }
+      const { id: tokenId, user_id: userId } = tokenResult.rows[0];
+
+      const salt = await bcrypt.genSalt(10);
+      const passwordHash = await bcrypt.hash(newPassword, salt);
+      const updated = await client.query(
+        `UPDATE users
+        SET password_hash = $2, password_changed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND is_active = true AND soft_deleted_at IS NULL`,
+        [userId, passwordHash]
+      );
+      if (updated.rowCount === 0) {
+        throw new ValidationError('This reset link is invalid or has expired', 'token');
+      }
+
+      await client.query('UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = $1', [tokenId]);
+      await client.query(
+        `UPDATE password_reset_tokens SET invalidated_at = CURRENT_TIMESTAMP
+        WHERE user_id = $1 AND used_at IS NULL AND invalidated_at IS NULL`,
+        [userId]
+      );
+      await SessionService.revokeAllSessions(userId, client);
+
+      await client.query('COMMIT');
+      EventService.closeUser(String(userId));
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      throw new DatabaseError('Failed to reset password', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+}
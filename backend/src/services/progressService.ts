@@ -0,0 +1,87 @@
+// services/progressService.ts
+import { Pool, PoolClient, QueryResult } from 'pg';
+import { EventService } from './eventService';
+import { TaskService } from './taskService';
+
+// A task with subtasks or checklist items gets its progress from them, each counting equally:
+// a subtask with its own progress (100 once completed), a checklist item with 0 or 100.
+// Tasks with neither keep the percentage set by hand.
+export class ProgressService {
+  // Rejected and archived subtasks no longer count towards their parent either way
+  private static readonly PARTS_QUERY = `
+    SELECT COUNT(*)::int as parts, COALESCE(ROUND(AVG(value)), 0)::int as progress
+    FROM (
+      SELECT CASE WHEN status = 'Completed' THEN 100 ELSE progress_percentage END as value
+      FROM tasks
+      WHERE parent_task_id = $1
+        AND soft_deleted_at IS NULL
+        AND status NOT IN ('Rejected', 'Archived')
+      UNION ALL
+      SELECT CASE WHEN is_done THEN 100 ELSE 0 END as value
+      FROM task_checklist_items
+      WHERE task_id = $1
+    ) parts
+  `;
+
+  // Caps the walk up the parent chain should a cycle ever slip into the data
+  private static readonly MAX_DEPTH = 50;
+
+  /**
+   * Locks the task and its ancestors, top-level task first, and returns them in that order.
+   * Every path that changes a task's roll-up takes its locks this way, and so does completing
+   * a parent (the parent before its subtasks), so the two can never wait on each other in a
+   * cycle. Call it before locking the task itself.
+   */
+  static async lockLineage(executor: Pool | PoolClient, taskId: string): Promise<Array<{ id: string; parent_task_id: string | null; progress_percentage: number }>> {
+    const result: QueryResult = await executor.query(
+      `WITH RECURSIVE lineage AS (
+        SELECT id, parent_task_id, 0 AS depth FROM tasks WHERE id = $1
+        UNION ALL
+        SELECT t.id, t.parent_task_id, l.depth + 1
+        FROM tasks t
+        JOIN lineage l ON t.id = l.parent_task_id
+        WHERE l.depth < $2
+      )
+      SELECT t.id, t.parent_task_id, t.progress_percentage
+      FROM tasks t
+      JOIN lineage l ON l.id = t.id
+      ORDER BY l.depth DESC
+      FOR UPDATE OF t`,
+      [taskId, ProgressService.MAX_DEPTH]
+    );
+    return result.rows;
+  }
+
+  // Recalculates the task, then each of its ancestors in turn. The whole chain is locked up
+  // front, so concurrent changes to siblings serialise on the parent instead of overwriting
+  // each other. Returns the tasks whose stored progress changed.
+  static async recalculate(executor: Pool | PoolClient, taskId: string): Promise<string[]> {
+    const changed: string[] = [];
+    const lineage = (await ProgressService.lockLineage(executor, taskId)).reverse();
+    const visited = new Set<string>();
+
+    for (const task of lineage) {
+      const currentId = String(task.id);
+      if (visited.has(currentId)) break;
+      visited.add(currentId);
+
+      const { parts, progress } = (await executor.query(ProgressService.PARTS_QUERY, [currentId])).rows[0];
+      if (parts > 0 && progress !== task.progress_percentage) {
+        await executor.query('UPDATE tasks SET progress_percentage = $2 WHERE id = $1', [currentId, progress]);
+        changed.push(currentId);
+      }
+    }
+
+    return changed;
+  }
+
+  // Progress is part of the task payload, so every recalculated task gets a fresh copy pushed
+  static async publishChanges(taskIds: string[]): Promise<void> {
+    for (const id of taskIds) {
+      const task = await TaskService.getTaskById(id);
+      if (task) {
+        EventService.publishTaskChange('task.updated', task);
+      }
+    }
+  }
+}
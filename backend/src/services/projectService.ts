@@ -0,0 +1,160 @@
+// services/projectService.ts
+import { pool } from '../config/db';
+import { Pool, PoolClient } from 'pg';
+import { DatabaseError } from './taskService';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { TaskViewer, taskScopeCondition } from '../utils/taskScope';
+import { CreateProjectRequest, Project, UpdateProjectRequest } from '../types/project';
+
+export class ProjectService {
+  // Archived and rejected tasks are out of scope, so they count towards neither side of the progress ratio.
+  // `scope` limits the counted tasks to those a viewer can see.
+  private static projectSelectQuery(scope: string | null): string {
+    return `
+    WITH project_stats AS (
+      SELECT
+        t.project_id,
+        COUNT(*) as total_tasks,
+        COUNT(CASE WHEN t.status = 'Completed' THEN 1 END) as completed_tasks,
+        COUNT(CASE WHEN t.deadline < CURRENT_TIMESTAMP AND t.status <> 'Completed' THEN 1 END) as overdue_tasks
+      FROM tasks t
+      WHERE t.project_id IS NOT NULL
+        AND t.soft_deleted_at IS NULL
+        AND t.status NOT IN ('Rejected', 'Archived')
+        ${scope ? `AND ${scope}` : ''}
+      GROUP BY t.project_id
+    )
+    SELECT
+      p.*,
+      COALESCE(ps.total_tasks, 0) as total_tasks,
+      COALESCE(ps.completed_tasks, 0) as completed_tasks,
+      COALESCE(ps.overdue_tasks, 0) as overdue_tasks
+    FROM projects p
+    LEFT JOIN project_stats ps ON ps.project_id = p.id
+  `;
+  }
+
+  static async listProjects(viewer: TaskViewer): Promise<Project[]> {
+    try {
+      const scope = taskScopeCondition(viewer, '$1');
+      const result = await pool.query(
+        `${ProjectService.projectSelectQuery(scope)} ORDER BY p.name, p.id`,
+        scope ? [viewer.id] : []
+      );
+      return result.rows.map(row => ProjectService.mapProjectFromDb(row));
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch projects', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Without a viewer the counts cover every task, as an Admin would see them
+  static async getProjectById(id: string, viewer?: TaskViewer): Promise<Project> {
+    let row;
+    try {
+      const scope = viewer ? taskScopeCondition(viewer, '$2') : null;
+      const result = await pool.query(
+        `${ProjectService.projectSelectQuery(scope)} WHERE p.id = $1`,
+        scope ? [id, viewer!.id] : [id]
+      );
+      row = result.rows[0];
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch project', error instanceof Error ? error : undefined);
+    }
+
+    if (!row) {
+      throw new NotFoundError('Project not found');
+    }
+    return ProjectService.mapProjectFromDb(row);
+  }
+
+  static async createProject(data: CreateProjectRequest, actorId: string): Promise<Project> {
+    try {
+      const result = await pool.query(
+        `INSERT INTO projects (name, description, created_by, updated_by)
+        VALUES ($1, $2, $3, $3)
+        RETURNING id`,
+        [data.name.trim(), data.description?.trim() || null, actorId]
+      );
+      return await ProjectService.getProjectById(String(result.rows[0].id));
+    } catch (error) {
+      throw new DatabaseError('Failed to create project', error instanceof Error ? error : undefined);
+    }
+  }
+
+  static async updateProject(id: string, data: UpdateProjectRequest, actorId: string): Promise<Project> {
+    const updateFields: string[] = [];
+    const updateValues: any[] = [];
+    let paramIndex = 1;
+
+    if (data.name !== undefined) {
+      updateFields.push(`name = $${paramIndex++}`);
+      updateValues.push(data.name.trim());
+    }
+    if (data.description !== undefined) {
+      updateFields.push(`description = $${paramIndex++}`);
+      updateValues.push(data.description?.trim() || null);
+    }
+    updateFields.push(`updated_by = $${paramIndex++}`, 'updated_at = CURRENT_TIMESTAMP');
+    updateValues.push(actorId, id);
+
+    let updated: boolean;
+    try {
+      const result = await pool.query(
+        `UPDATE projects SET ${updateFields.join(', ')} WHERE id = $${paramIndex} RETURNING id`,
+        updateValues
+      );
+      updated = result.rows.length > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to update project', error instanceof Error ? error : undefined);
+    }
+
+    if (!updated) {
+      throw new NotFoundError('Project not found');
+    }
+    return ProjectService.getProjectById(id);
+  }
+
+  // Tasks survive their project; the foreign key sets their project_id to NULL
+  static async deleteProject(id: string): Promise<void> {
+    let deleted: boolean;
+    try {
+      const result = await pool.query('DELETE FROM projects WHERE id = $1 RETURNING id', [id]);
+      deleted = result.rows.length > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to delete project', error instanceof Error ? error : undefined);
+    }
+
+    if (!deleted) {
+      throw new NotFoundError('Project not found');
+    }
+  }
+
+  // Used by task writes so an unknown project surfaces as a 400 rather than a foreign key failure
+  static async assertProjectExists(executor: Pool | PoolClient, projectId: string): Promise<void> {
+    const result = await executor.query('SELECT 1 FROM projects WHERE id = $1', [projectId]);
+    if (result.rows.length === 0) {
+      throw new ValidationError('Project not found', 'projectId');
+    }
+  }
+
+  private static mapProjectFromDb(row: any): Project {
+    const totalTasks = Number(row.total_tasks);
+    const completedTasks = Number(row.completed_tasks);
+
+    return {
+      id: String(row.id),
+      name: row.name,
+      description: row.description,
+      createdBy: row.created_by ? String(row.created_by) : null,
+      updatedBy: row.updated_by ? String(row.updated_by) : null,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+      stats: {
+        totalTasks,
+        completedTasks,
+        overdueTasks: Number(row.overdue_tasks),
+        progressPercentage: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0
+      }
+    };
+  }
+}
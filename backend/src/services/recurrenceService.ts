@@ -0,0 +1,174 @@
+// services/recurrenceService.ts
+import { pool } from '../config/db';
+import { PoolClient } from 'pg';
+import { DatabaseError, TaskService } from './taskService';
+import { ActivityService } from './activityService';
+import { NotificationService } from './notificationService';
+import { EventService } from './eventService';
+import { getNextOccurrence, parseRecurrenceRule } from '../utils/recurrence';
+import { Notification } from '../types/notification';
+
+export interface GeneratedOccurrence {
+  taskId: string;
+  notifications: Notification[];
+}
+
+export class RecurrenceService {
+  // Unapproved or closed instances never continue their series
+  private static readonly INACTIVE_STATUSES = ['Pending Approval', 'Needs Changes', 'Rejected', 'Archived'];
+
+  /**
+   * Creates the instance after `taskId` in its series, at most once per instance. With
+   * `dueOnly` the next instance is only created once its period has started, unless the
+   * current one is already completed. Runs on the caller's client and locks the source row.
+   */
+  static async generateNextOccurrence(client: PoolClient, taskId: string, dueOnly: boolean): Promise<GeneratedOccurrence | null> {
+    const result = await client.query(
+      `SELECT * FROM tasks
+      WHERE id = $1
+        AND recurring_pattern IS NOT NULL
+        AND recurrence_spawned_at IS NULL
+        AND soft_deleted_at IS NULL
+        AND status <> ALL($2::task_status[])
+      FOR UPDATE`,
+      [taskId, RecurrenceService.INACTIVE_STATUSES]
+    );
+    const source = result.rows[0];
+    if (!source) {
+      return null;
+    }
+
+    // The series is anchored on the start date, falling back to the deadline for tasks without one
+    const anchor: Date = source.start_date || source.deadline || source.created_at;
+    const seriesStart = await RecurrenceService.getSeriesStart(client, taskId);
+    const next = getNextOccurrence(parseRecurrenceRule(source.recurring_pattern), anchor, source.recurrence_index, seriesStart || anchor);
+
+    if (next && dueOnly && source.status !== 'Completed' && next.getTime() > Date.now()) {
+      return null;
+    }
+
+    await client.query('UPDATE tasks SET recurrence_spawned_at = CURRENT_TIMESTAMP WHERE id = $1', [taskId]);
+    if (!next) {
+      return null;
+    }
+
+    // Both ends of the date range move by the same amount, so the instance keeps its length
+    const shift = next.getTime() - anchor.getTime();
+    const shiftDate = (value: Date | null) => value ? new Date(value.getTime() + shift) : null;
+    const hasDates = source.start_date || source.deadline;
+
+    const inserted = await client.query(
+      `INSERT INTO tasks (
+        title, description, status, priority, start_date, deadline,
+        recurring_pattern, recurrence_source_id, recurrence_index,
+        assigner_id, assigned_user_id, timer_duration, project_id
+      ) VALUES ($1, $2, 'To Do', $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING *`,
+      [
+        source.title,
+        source.description,
+        source.priority,
+        hasDates ? shiftDate(source.start_date) : next,
+        shiftDate(source.deadline),
+        source.recurring_pattern,
+        source.id,
+        source.recurrence_index + 1,
+        source.assigner_id,
+        source.assigned_user_id,
+        source.timer_duration,
+        source.project_id
+      ]
+    );
+    const task = inserted.rows[0];
+
+    await ActivityService.record(client, task.id, null, 'created', {
+      changes: ActivityService.diff({}, task, {
+        title: 'title',
+        status: 'status',
+        priority: 'priority',
+        deadline: 'deadline',
+        projectId: 'project_id',
+        assignedUserId: 'assigned_user_id'
+      }),
+      recurrence: { sourceTaskId: String(source.id), occurrence: task.recurrence_index }
+    });
+
+    const notifications = task.assigned_user_id
+      ? await NotificationService.notifyTaskAssigned(client, task.id, String(task.assigned_user_id), null)
+      : [];
+
+    return { taskId: String(task.id), notifications };
+  }
+
+  // Anchor of the series' first instance still around, found by following the source links back
+  private static async getSeriesStart(client: PoolClient, taskId: string): Promise<Date | null> {
+    const result = await client.query(
+      `WITH RECURSIVE series AS (
+        SELECT id, recurrence_source_id, COALESCE(start_date, deadline, created_at) AS anchor
+        FROM tasks WHERE id = $1
+        UNION
+        SELECT t.id, t.recurrence_source_id, COALESCE(t.start_date, t.deadline, t.created_at)
+        FROM tasks t
+        JOIN series s ON t.id = s.recurrence_source_id
+      )
+      SELECT anchor FROM series WHERE recurrence_source_id IS NULL`,
+      [taskId]
+    );
+    return result.rows[0]?.anchor || null;
+  }
+
+  // Call after the transaction that generated the occurrence has committed
+  static async publishOccurrence(occurrence: GeneratedOccurrence): Promise<void> {
+    EventService.publishNotifications(occurrence.notifications);
+    const task = await TaskService.getTaskById(occurrence.taskId);
+    if (task) {
+      EventService.publishTaskChange('task.created', task);
+    }
+  }
+
+  /**
+   * Scheduler entry point: generates the next instance for every series whose current
+   * period has started or whose current instance is completed. Each series commits on
+   * its own, so one bad pattern cannot hold back the rest.
+   */
+  static async generateDueOccurrences(): Promise<number> {
+    let candidates;
+    try {
+      candidates = await pool.query(
+        `SELECT id FROM tasks
+        WHERE recurring_pattern IS NOT NULL
+          AND recurrence_spawned_at IS NULL
+          AND soft_deleted_at IS NULL
+          AND status <> ALL($1::task_status[])
+          AND (status = 'Completed' OR COALESCE(start_date, deadline, created_at) <= CURRENT_TIMESTAMP)`,
+        [RecurrenceService.INACTIVE_STATUSES]
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to find recurring tasks', error instanceof Error ? error : undefined);
+    }
+
+    let generated = 0;
+    for (const row of candidates.rows) {
+      const client = await pool.connect();
+      let occurrence: GeneratedOccurrence | null = null;
+      try {
+        await client.query('BEGIN');
+        occurrence = await RecurrenceService.generateNextOccurrence(client, String(row.id), true);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`Failed to generate next occurrence of task ${row.id}:`, error);
+        continue;
+      } finally {
+        client.release();
+      }
+
+      if (occurrence) {
+        generated++;
+        await RecurrenceService.publishOccurrence(occurrence);
+      }
+    }
+
+    return generated;
+  }
+}
@@ -0,0 +1,137 @@
+// services/s3Storage.ts
+import crypto from 'crypto';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { Readable } from 'stream';
+import { NotFoundError } from '../utils/errors';
+import type { StorageBackend } from './storageService';
+
+export interface S3StorageConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+const sha256Hex = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding per path segment, as SigV4 canonical URIs require
+const encodeKey = (key: string) => key
+  .split('/')
+  .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+  .join('/');
+
+/**
+ * Minimal S3 client covering the three object calls attachments need, signed with
+ * AWS Signature V4. Works against AWS itself and S3-compatible servers such as MinIO.
+ */
+export class S3CompatibleStorage implements StorageBackend {
+  readonly driver = 's3' as const;
+
+  constructor(private readonly config: S3StorageConfig) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.send('PUT', key, data, { 'content-type': contentType });
+    await this.assertOk(response, `upload ${key}`);
+    response.resume();
+  }
+
+  async get(key: string): Promise<Readable> {
+    const response = await this.send('GET', key);
+    if (response.statusCode === 404) {
+      response.resume();
+      throw new NotFoundError('Stored file not found');
+    }
+    await this.assertOk(response, `download ${key}`);
+    return response;
+  }
+
+  async remove(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    // S3 answers 204 whether or not the object existed
+    if (response.statusCode !== 404) {
+      await this.assertOk(response, `delete ${key}`);
+    }
+    response.resume();
+  }
+
+  private send(method: string, key: string, body?: Buffer, extraHeaders: Record<string, string> = {}): Promise<IncomingMessage> {
+    const endpoint = new URL(this.config.endpoint);
+    const host = this.config.forcePathStyle ? endpoint.host : `${this.config.bucket}.${endpoint.host}`;
+    const basePath = endpoint.pathname.replace(/\/$/, '');
+    const canonicalUri = this.config.forcePathStyle
+      ? `${basePath}/${this.config.bucket}/${encodeKey(key)}`
+      : `${basePath}/${encodeKey(key)}`;
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host,
+      'x-amz-content-sha256': sha256Hex(body || ''),
+      'x-amz-date': new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    };
+    if (body) {
+      headers['content-length'] = String(body.length);
+    }
+    headers.authorization = this.sign(method, canonicalUri, headers);
+
+    const transport = endpoint.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const request = transport.request({
+        method,
+        protocol: endpoint.protocol,
+        hostname: this.config.forcePathStyle ? endpoint.hostname : `${this.config.bucket}.${endpoint.hostname}`,
+        port: endpoint.port || undefined,
+        path: canonicalUri,
+        headers
+      }, resolve);
+
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  private sign(method: string, canonicalUri: string, headers: Record<string, string>): string {
+    const amzDate = headers['x-amz-date'];
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+
+    const signedHeaderNames = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const canonicalHeaders = signedHeaderNames.map(name => `${name}:${headers[name].trim()}\n`).join('');
+    const signedHeaders = signedHeaderNames.join(';');
+
+    const canonicalRequest = [
+      method,
+      canonicalUri,
+      '',
+      canonicalHeaders,
+      signedHeaders,
+      headers['x-amz-content-sha256']
+    ].join('\n');
+
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, date), this.config.region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  }
+
+  private async assertOk(response: IncomingMessage, operation: string): Promise<void> {
+    const status = response.statusCode || 0;
+    if (status >= 200 && status < 300) {
+      return;
+    }
+
+    const body = await new Promise<string>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      response.on('data', chunk => chunks.push(chunk));
+      response.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      response.on('error', reject);
+    });
+    throw new Error(`S3 ${operation} failed with ${status}: ${body.slice(0, 500)}`);
+  }
+}
@@ -0,0 +1,220 @@
+// services/sessionService.ts
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { pool } from '../config/db';
+import { DatabaseError } from './taskService';
+import { EventService } from './eventService';
+import { NotFoundError } from '../utils/errors';
+import { UserRole } from '../types';
+import { IssuedSession, SessionClientInfo, UserSession } from '../types/session';
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+export class SessionService {
+  // Two tabs refreshing at once both present the same token; the slower one is let through
+  // and the token the faster one received stays valid alongside its own
+  private static readonly ROTATION_GRACE_SECONDS = 30;
+
+  // Idle sessions end after this long; every refresh pushes the expiry out again
+  static get refreshTokenTtlDays(): number {
+    const days = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+    if (!Number.isFinite(days) || days <= 0) {
+      throw new Error(`Invalid REFRESH_TOKEN_TTL_DAYS "${process.env.REFRESH_TOKEN_TTL_DAYS}"`);
+    }
+    return days;
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static newToken(): { token: string; hash: string } {
+    const token = crypto.randomBytes(48).toString('base64url');
+    return { token, hash: SessionService.hashToken(token) };
+  }
+
+  private static expiryFromNow(): Date {
+    return new Date(Date.now() + SessionService.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+  }
+
+  static async createSession(userId: string, clientInfo: SessionClientInfo = {}): Promise<IssuedSession> {
+    const { token, hash } = SessionService.newToken();
+    const expiresAt = SessionService.expiryFromNow();
+
+    try {
+      // Housekeeping: the user's dead sessions have no further use
+      await pool.query(
+        'DELETE FROM user_sessions WHERE user_id = $1 AND (expires_at < CURRENT_TIMESTAMP OR revoked_at IS NOT NULL)',
+        [userId]
+      );
+      const result = await pool.query(
+        `INSERT INTO user_sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING id`,
+        [userId, hash, clientInfo.userAgent?.slice(0, 500) || null, clientInfo.ipAddress || null, expiresAt]
+      );
+      return { sessionId: String(result.rows[0].id), refreshToken: token, expiresAt };
+    } catch (error) {
+      throw new DatabaseError('Failed to create session', error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Exchanges a refresh token for a new one. Returns null when the token is unknown, expired
+   * or revoked. A token that was rotated away longer than ROTATION_GRACE_SECONDS ago means two
+   * parties hold the same session, so the session is revoked outright and both sign in again.
+   * A token presented within the grace window is not a reuse: the caller gets a new token and
+   * the current one moves to the previous slot, so whoever just received it can still use it.
+   */
+  static async rotateSession(
+    refreshToken: string,
+    clientInfo: SessionClientInfo = {}
+  ): Promise<{ session: IssuedSession; user: SessionUser } | null> {
+    const presentedHash = SessionService.hashToken(refreshToken);
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `SELECT s.id, u.id AS user_id, u.email, u.role, u.first_name, u.last_name
+        FROM user_sessions s
+        JOIN users u ON u.id = s.user_id
+        WHERE (s.refresh_token_hash = $1
+            OR (s.previous_token_hash = $1 AND s.last_used_at > CURRENT_TIMESTAMP - make_interval(secs => $2)))
+          AND s.revoked_at IS NULL
+          AND s.expires_at > CURRENT_TIMESTAMP
+          AND u.is_active = true
+          AND u.soft_deleted_at IS NULL
+        FOR UPDATE OF s`,
+        [presentedHash, SessionService.ROTATION_GRACE_SECONDS]
+      );
+
+      if (result.rows.length === 0) {
+        const reused = await client.query(
+          `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+          WHERE previous_token_hash = $1 AND revoked_at IS NULL
+          RETURNING id, user_id`,
+          [presentedHash]
+        );
+        if (reused.rows.length > 0) {
+          console.warn(`Refresh token reuse detected; revoked session ${reused.rows[0].id} for user ${reused.rows[0].user_id}`);
+        }
+        await client.query('COMMIT');
+        return null;
+      }
+
+      const row = result.rows[0];
+      const { token, hash } = SessionService.newToken();
+      const expiresAt = SessionService.expiryFromNow();
+      await client.query(
+        `UPDATE user_sessions
+        SET previous_token_hash = refresh_token_hash,
+          refresh_token_hash = $2, expires_at = $3,
+          last_used_at = CURRENT_TIMESTAMP,
+          user_agent = COALESCE($4, user_agent), ip_address = COALESCE($5, ip_address)
+        WHERE id = $1`,
+        [row.id, hash, expiresAt, clientInfo.userAgent?.slice(0, 500) || null, clientInfo.ipAddress || null]
+      );
+
+      await client.query('COMMIT');
+      return {
+        session: { sessionId: String(row.id), refreshToken: token, expiresAt },
+        user: {
+          id: String(row.user_id),
+          email: row.email,
+          role: row.role,
+          firstName: row.first_name,
+          lastName: row.last_name
+        }
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new DatabaseError('Failed to refresh session', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  static async listSessions(userId: string, currentSessionId?: string): Promise<UserSession[]> {
+    try {
+      const result = await pool.query(
+        `SELECT id, user_agent, ip_address, created_at, last_used_at, expires_at
+        FROM user_sessions
+        WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+        ORDER BY last_used_at DESC`,
+        [userId]
+      );
+      return result.rows.map(row => SessionService.mapSessionFromDb(row, currentSessionId));
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch sessions', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Users can only revoke their own sessions; anyone else's id reads as not found
+  static async revokeSession(sessionId: string, userId: string): Promise<void> {
+    let result;
+    try {
+      result = await pool.query(
+        `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+        [sessionId, userId]
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to revoke session', error instanceof Error ? error : undefined);
+    }
+
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Session not found');
+    }
+    EventService.closeSessions([sessionId]);
+  }
+
+  // Logout path: the refresh cookie alone identifies the session, even after the access token expired
+  static async revokeByRefreshToken(refreshToken: string): Promise<void> {
+    let result;
+    try {
+      result = await pool.query(
+        `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+        WHERE refresh_token_hash = $1 AND revoked_at IS NULL
+        RETURNING id`,
+        [SessionService.hashToken(refreshToken)]
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to revoke session', error instanceof Error ? error : undefined);
+    }
+    EventService.closeSessions(result.rows.map(row => String(row.id)));
+  }
+
+  // Callers passing their own transaction close the user's event streams once it commits
+  static async revokeAllSessions(userId: string, client?: PoolClient): Promise<void> {
+    try {
+      await (client || pool).query(
+        'UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND revoked_at IS NULL',
+        [userId]
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to revoke sessions', error instanceof Error ? error : undefined);
+    }
+    if (!client) {
+      EventService.closeUser(userId);
+    }
+  }
+
+  private static mapSessionFromDb(row: any, currentSessionId?: string): UserSession {
+    return {
+      id: String(row.id),
+      userAgent: row.user_agent ?? null,
+      ipAddress: row.ip_address ?? null,
+      createdAt: new Date(row.created_at).toISOString(),
+      lastUsedAt: new Date(row.last_used_at).toISOString(),
+      expiresAt: new Date(row.expires_at).toISOString(),
+      current: String(row.id) === currentSessionId
+    };
+  }
+}
@@ -0,0 +1,92 @@
+// services/storageService.ts
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { NotFoundError } from '../utils/errors';
+import { S3CompatibleStorage } from './s3Storage';
+import { STORAGE_DRIVERS, StorageDriver } from '../types/attachment';
+
+// Where attachment bytes live; rows in task_attachments keep the driver and key they were written with
+export interface StorageBackend {
+  readonly driver: StorageDriver;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+export class LocalDiskStorage implements StorageBackend {
+  readonly driver = 'local' as const;
+
+  constructor(private readonly rootDir: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+    } catch {
+      throw new NotFoundError('Stored file not found');
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  // Keys are generated server-side, but never let one escape the upload root
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export class StorageService {
+  private static readonly backends = new Map<StorageDriver, StorageBackend>();
+
+  // STORAGE_DRIVER picks where new uploads go; existing files are always read back from their own driver
+  static get defaultDriver(): StorageDriver {
+    const driver = (process.env.STORAGE_DRIVER || 'local') as StorageDriver;
+    if (!STORAGE_DRIVERS.includes(driver)) {
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"; expected one of ${STORAGE_DRIVERS.join(', ')}`);
+    }
+    return driver;
+  }
+
+  static getBackend(driver: StorageDriver = StorageService.defaultDriver): StorageBackend {
+    let backend = StorageService.backends.get(driver);
+    if (!backend) {
+      backend = StorageService.createBackend(driver);
+      StorageService.backends.set(driver, backend);
+    }
+    return backend;
+  }
+
+  private static createBackend(driver: StorageDriver): StorageBackend {
+    if (driver === 's3') {
+      const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_FORCE_PATH_STYLE } = process.env;
+      if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error('S3 storage requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+      }
+      return new S3CompatibleStorage({
+        endpoint: S3_ENDPOINT,
+        region: S3_REGION || 'us-east-1',
+        bucket: S3_BUCKET,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        // MinIO and most local stand-ins only serve path-style URLs
+        forcePathStyle: S3_FORCE_PATH_STYLE !== 'false'
+      });
+    }
+
+    return new LocalDiskStorage(process.env.UPLOAD_DIR || path.resolve(process.cwd(), 'uploads'));
+  }
+}
@@ -1,7 +1,28 @@
 // services/taskService.ts
 import { pool } from '../config/db';
 import { PoolClient } from 'pg';
-import { Task, TaskAttachment, TaskComment, CreateTaskRequest, UpdateTaskRequest, PaginationParams } from '../types/task';
+import { NotificationService } from './notificationService';
+import { EventService } from './eventService';
+import { ActivityService } from './activityService';
+import { DependencyService } from './dependencyService';
+import { ProjectService } from './projectService';
+import { RecurrenceService } from './recurrenceService';
+import { TeamService } from './teamService';
+import { ProgressService } from './progressService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { normalizeRecurrencePattern } from '../utils/recurrence';
+import { assertInitialStatusAllowed, assertTransitionAllowed, getInitialStatuses } from '../utils/statusTransitions';
+import { TaskViewer, taskScopeCondition } from '../utils/taskScope';
+import { Notification } from '../types/notification';
+import { Task, TaskAttachment, CreateTaskRequest, UpdateTaskRequest, PaginationParams, PaginatedResponse, TaskSortField, CreateSubtasksRequest, CreatedSubtasks, SubtaskDraft, TaskStatus } from '../types/task';
+import { DependencyLink } from '../types/dependency';
+import { UserRole } from '../types';
+
+// The authenticated caller; anonymous callers get the same workflow rights as a regular user
+interface TaskActor {
+  id: string;
+  role: UserRole;
+}
 
 export class DatabaseError extends Error {
   constructor(message: string, public originalError?: Error) {
@@ -11,6 +32,34 @@ export class DatabaseError extends Error {
 }
 
 export class TaskService {
+  // Only these columns may reach ORDER BY; sortBy is never interpolated directly
+  private static readonly SORT_COLUMNS: Record<TaskSortField, string> = {
+    createdAt: 't.created_at',
+    updatedAt: 't.updated_at',
+    deadline: 't.deadline',
+    priority: 't.priority',
+    status: 't.status',
+    title: 't.title'
+  };
+
+  // Task columns whose changes are written to task_activity_log, keyed by API field name
+  private static readonly ACTIVITY_FIELDS: Record<string, string> = {
+    title: 'title',
+    description: 'description',
+    status: 'status',
+    priority: 'priority',
+    startDate: 'start_date',
+    deadline: 'deadline',
+    projectId: 'project_id',
+    recurringPattern: 'recurring_pattern',
+    assignedUserId: 'assigned_user_id',
+    assignerId: 'assigner_id',
+    suggestedPriority: 'suggested_priority',
+    suggestedDeadline: 'suggested_deadline'
+  };
+
+  private static readonly CLOSED_STATUSES: TaskStatus[] = ['Completed', 'Rejected', 'Archived'];
+
   private static readonly TASK_SELECT_QUERY = `
     WITH task_attachments AS (
       SELECT 
@@ -19,13 +68,19 @@ export class TaskService {
           jsonb_build_object(
             'id', id,
             'fileName', file_name,
-            'fileUrl', file_path,
+            'fileUrl', CASE
+              WHEN storage_driver IS NULL THEN file_path
+              ELSE '/tasks/' || task_id || '/attachments/' || id || '/download'
+            END,
             'fileType', file_type,
             'fileSizeBytes', file_size,
+            'checksum', checksum,
+            'storageDriver', storage_driver,
             'createdAt', created_at
-          )
+          ) ORDER BY created_at, id
         ) as attachments
       FROM task_attachments
+      WHERE soft_deleted_at IS NULL
       GROUP BY task_id
     ),
     task_comments AS (
@@ -35,16 +90,77 @@ export class TaskService {
           jsonb_build_object(
             'id', tc.id,
             'content', tc.content,
+            'parentCommentId', tc.parent_comment_id,
             'createdAt', tc.created_at,
+            'updatedAt', tc.updated_at,
+            'isEdited', tc.edited_at IS NOT NULL,
             'user', jsonb_build_object(
               'id', u.id,
               'firstName', u.first_name,
               'lastName', u.last_name
             )
           )
+          ORDER BY tc.created_at
         ) as comments
       FROM task_comments tc
       JOIN users u ON tc.user_id = u.id
+      WHERE tc.soft_deleted_at IS NULL
+      GROUP BY task_id
+    ),
+    task_blocked_by AS (
+      SELECT
+        d.successor_task_id as task_id,
+        json_agg(
+          jsonb_build_object('id', p.id, 'title', p.title, 'status', p.status)
+          ORDER BY p.title
+        ) as blocked_by
+      FROM task_dependencies d
+      JOIN tasks p ON d.predecessor_task_id = p.id
+      WHERE d.dependency_type = 'finish_to_start'
+        AND p.status <> 'Completed'
+        AND p.soft_deleted_at IS NULL
+      GROUP BY d.successor_task_id
+    ),
+    task_blocking AS (
+      SELECT
+        d.predecessor_task_id as task_id,
+        json_agg(
+          jsonb_build_object('id', s.id, 'title', s.title, 'status', s.status)
+          ORDER BY s.title
+        ) as blocking
+      FROM task_dependencies d
+      JOIN tasks p ON d.predecessor_task_id = p.id
+      JOIN tasks s ON d.successor_task_id = s.id
+      WHERE d.dependency_type = 'finish_to_start'
+        AND p.status <> 'Completed'
+        AND s.soft_deleted_at IS NULL
+      GROUP BY d.predecessor_task_id
+    ),
+    task_time AS (
+      SELECT
+        task_id,
+        SUM(EXTRACT(EPOCH FROM (ended_at - started_at)))::int as logged_seconds
+      FROM time_entries
+      WHERE ended_at IS NOT NULL
+      GROUP BY task_id
+    ),
+    task_subtask_counts AS (
+      SELECT
+        parent_task_id as task_id,
+        COUNT(*)::int as subtask_count,
+        (COUNT(*) FILTER (WHERE status = 'Completed'))::int as completed_subtask_count
+      FROM tasks
+      WHERE parent_task_id IS NOT NULL
+        AND soft_deleted_at IS NULL
+        AND status NOT IN ('Rejected', 'Archived')
+      GROUP BY parent_task_id
+    ),
+    task_checklist_counts AS (
+      SELECT
+        task_id,
+        COUNT(*)::int as item_count,
+        (COUNT(*) FILTER (WHERE is_done))::int as checked_item_count
+      FROM task_checklist_items
       GROUP BY task_id
     )
     SELECT 
@@ -53,13 +169,21 @@ export class TaskService {
       t.description,
       t.status,
       t.priority,
+      t.start_date as "startDate",
       t.deadline,
-      t.progress_percentage as "progressPercentage",
+      CASE WHEN t.status = 'Completed' THEN 100 ELSE t.progress_percentage END as "progressPercentage",
       t.project_id as "projectId",
+      t.parent_task_id as "parentTaskId",
       t.recurring_pattern as "recurringPattern",
+      t.assigner_id as "assignerId",
+      t.assigned_user_id as "assignedUserId",
+      t.suggested_priority as "suggestedPriority",
+      t.suggested_deadline as "suggestedDeadline",
+      t.timer_duration as "timerDuration",
       t.created_at as "createdAt",
       t.updated_at as "updatedAt",
       t.completed_at as "completedAt",
+      p.name as "projectName",
       jsonb_build_object(
         'id', u_assignee.id,
         'firstName', u_assignee.first_name,
@@ -71,35 +195,45 @@ export class TaskService {
         'lastName', u_assigner.last_name
       ) as assigner,
       COALESCE(ta.attachments, '[]'::json) as attachments,
-      COALESCE(tc.comments, '[]'::json) as comments
+      COALESCE(tc.comments, '[]'::json) as comments,
+      COALESCE(tbb.blocked_by, '[]'::json) as "blockedBy",
+      COALESCE(tbl.blocking, '[]'::json) as blocking,
+      COALESCE(ttm.logged_seconds, 0) as "loggedSeconds",
+      COALESCE(tsc.subtask_count, 0) as "subtaskCount",
+      COALESCE(tsc.completed_subtask_count, 0) as "completedSubtaskCount",
+      COALESCE(tcc.item_count, 0) as "checklistItemCount",
+      COALESCE(tcc.checked_item_count, 0) as "checkedItemCount",
+      COALESCE(t.deadline < CURRENT_TIMESTAMP AND t.status NOT IN ('Completed', 'Rejected', 'Archived'), false) as "isOverdue"
     FROM tasks t
     LEFT JOIN users u_assignee ON t.assigned_user_id = u_assignee.id
     LEFT JOIN users u_assigner ON t.assigner_id = u_assigner.id
+    LEFT JOIN projects p ON t.project_id = p.id
     LEFT JOIN task_attachments ta ON t.id = ta.task_id
     LEFT JOIN task_comments tc ON t.id = tc.task_id
+    LEFT JOIN task_blocked_by tbb ON t.id = tbb.task_id
+    LEFT JOIN task_blocking tbl ON t.id = tbl.task_id
+    LEFT JOIN task_time ttm ON t.id = ttm.task_id
+    LEFT JOIN task_subtask_counts tsc ON t.id = tsc.task_id
+    LEFT JOIN task_checklist_counts tcc ON t.id = tcc.task_id
     WHERE t.soft_deleted_at IS NULL
   `;
 
-  static async getAllTasks(params: PaginationParams): Promise<{ 
-    tasks: Task[]; 
-    total: number;
-    page: number;
-    limit: number;
-  }> {
+  // Without a viewer the listing is unscoped; routes always pass the signed-in user
+  static async getAllTasks(params: PaginationParams, viewer?: TaskViewer): Promise<PaginatedResponse<Task>> {
     try {
-      const { page = 1, limit = 10, sortBy = 'created_at', sortOrder = 'desc', ...filters } = params;
+      const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'desc', ...filters } = params;
       const offset = (page - 1) * limit;
       const conditions: string[] = [];
       const queryParams: any[] = [];
       let paramIndex = 1;
 
       // Add filter conditions
-      if (filters.status) {
-        conditions.push(`t.status = $${paramIndex++}`);
+      if (filters.status && filters.status.length > 0) {
+        conditions.push(`t.status = ANY($${paramIndex++}::task_status[])`);
         queryParams.push(filters.status);
       }
-      if (filters.priority) {
-        conditions.push(`t.priority = $${paramIndex++}`);
+      if (filters.priority && filters.priority.length > 0) {
+        conditions.push(`t.priority = ANY($${paramIndex++}::task_priority[])`);
         queryParams.push(filters.priority);
       }
       if (filters.assigneeId) {
@@ -110,6 +244,33 @@ export class TaskService {
         conditions.push(`t.assigner_id = $${paramIndex++}`);
         queryParams.push(filters.assignerId);
       }
+      if (filters.projectId) {
+        conditions.push(`t.project_id = $${paramIndex++}`);
+        queryParams.push(filters.projectId);
+      }
+      if (filters.search) {
+        conditions.push(`(t.title ILIKE $${paramIndex} OR t.description ILIKE $${paramIndex})`);
+        queryParams.push(`%${filters.search.replace(/[\\%_]/g, '\\$&')}%`);
+        paramIndex++;
+      }
+      if (filters.dateFrom) {
+        conditions.push(`t.deadline >= $${paramIndex++}`);
+        queryParams.push(filters.dateFrom);
+      }
+      if (filters.dateTo) {
+        conditions.push(`t.deadline <= $${paramIndex++}`);
+        queryParams.push(filters.dateTo);
+      }
+      if (filters.overdue !== undefined) {
+        const overdueCondition = `(t.deadline < CURRENT_TIMESTAMP AND t.status NOT IN ('Completed', 'Rejected', 'Archived'))`;
+        conditions.push(filters.overdue ? overdueCondition : `NOT COALESCE(${overdueCondition}, false)`);
+      }
+      const scope = viewer && taskScopeCondition(viewer, `$${paramIndex}`);
+      if (scope) {
+        conditions.push(scope);
+        queryParams.push(viewer!.id);
+        paramIndex++;
+      }
 
       const whereClause = conditions.length > 0 ? `AND ${conditions.join(' AND ')}` : '';
 
@@ -124,37 +285,46 @@ export class TaskService {
       const total = parseInt(countResult.rows[0].count);
 
       // Get paginated results
+      const sortColumn = TaskService.SORT_COLUMNS[sortBy] || TaskService.SORT_COLUMNS.createdAt;
+      const direction = sortOrder === 'asc' ? 'ASC' : 'DESC';
       const tasksQuery = `
         ${TaskService.TASK_SELECT_QUERY}
         ${whereClause}
-        ORDER BY t.${sortBy} ${sortOrder.toUpperCase()}
+        ORDER BY ${sortColumn} ${direction} NULLS LAST, t.id ${direction}
         LIMIT $${paramIndex++} OFFSET $${paramIndex++}
       `;
-      queryParams.push(limit, offset);
+      const result = await pool.query(tasksQuery, [...queryParams, limit, offset]);
+      const totalPages = Math.ceil(total / limit);
 
-      const result = await pool.query(tasksQuery, queryParams);
       return {
         tasks: result.rows,
-        total,
-        page,
-        limit
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
       };
     } catch (error) {
-      console.error('Error in getAllTasks:', error);
-      throw new Error('Failed to fetch tasks');
+      throw new DatabaseError('Failed to fetch tasks', error instanceof Error ? error : undefined);
     }
   }
 
-  static async getTaskById(id: string): Promise<Task | null> {
+  // A task outside the viewer's scope reads as missing
+  static async getTaskById(id: string, viewer?: TaskViewer): Promise<Task | null> {
     const client = await pool.connect();
     
     try {
+      const scope = viewer && taskScopeCondition(viewer, '$2');
       const query = `
         ${TaskService.TASK_SELECT_QUERY}
         AND t.id = $1
+        ${scope ? `AND ${scope}` : ''}
       `;
       
-      const result = await client.query(query, [id]);
+      const result = await client.query(query, scope ? [id, viewer!.id] : [id]);
       return result.rows[0] || null;
     } catch (error) {
       throw new DatabaseError('Failed to fetch task', error instanceof Error ? error : undefined);
@@ -163,34 +333,80 @@ export class TaskService {
     }
   }
 
-  static async createTask(taskData: CreateTaskRequest): Promise<Task> {
+  // Guards the task sub-resources (comments, attachments, ...) with the same scope as the task itself
+  static async assertTaskVisible(id: string, viewer: TaskViewer): Promise<void> {
+    const scope = taskScopeCondition(viewer, '$2');
+    let visible: boolean;
+    try {
+      const result = await pool.query(
+        `SELECT 1 FROM tasks t WHERE t.id = $1 AND t.soft_deleted_at IS NULL ${scope ? `AND ${scope}` : ''}`,
+        scope ? [id, viewer.id] : [id]
+      );
+      visible = result.rows.length > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch task', error instanceof Error ? error : undefined);
+    }
+
+    if (!visible) {
+      throw new NotFoundError('Task not found');
+    }
+  }
+
+  // Direct children only, in the order they were created; the parent's visibility is checked by the route
+  static async getSubtasks(parentId: string): Promise<Task[]> {
+    try {
+      const result = await pool.query(
+        `${TaskService.TASK_SELECT_QUERY}
+        AND t.parent_task_id = $1
+        ORDER BY t.created_at, t.id`,
+        [parentId]
+      );
+      return result.rows;
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch subtasks', error instanceof Error ? error : undefined);
+    }
+  }
+
+  static async createTask(taskData: CreateTaskRequest, actor?: TaskActor): Promise<Task> {
+    const status = taskData.status || 'Pending Approval';
+    assertInitialStatusAllowed(status, actor?.role || 'User');
+
     const client = await pool.connect();
     
     try {
       await client.query('BEGIN');
 
+      if (taskData.projectId) {
+        await ProjectService.assertProjectExists(client, taskData.projectId);
+      }
+      if (actor?.role === 'Manager' && taskData.assignedUserId) {
+        await TeamService.assertAssignableBy(client, actor.id, taskData.assignedUserId);
+      }
+
       // Insert task
       const taskResult = await client.query(
         `INSERT INTO tasks (
           title, description, status, priority, deadline,
           progress_percentage, recurring_pattern,
           assigner_id, assigned_user_id, suggested_priority,
-          suggested_deadline, timer_duration
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+          suggested_deadline, timer_duration, start_date, project_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
         RETURNING *`,
         [
           taskData.title,
           taskData.description || null,
-          taskData.status || 'Pending Approval',
+          status,
           taskData.priority || 'Medium',
           taskData.deadline || null,
           taskData.progressPercentage || 0,
-          taskData.recurringPattern || null,
+          normalizeRecurrencePattern(taskData.recurringPattern),
           taskData.assignerId,
           taskData.assignedUserId || null,
           taskData.suggestedPriority || null,
           taskData.suggestedDeadline || null,
-          taskData.timerDuration || 0
+          taskData.timerDuration || 0,
+          taskData.startDate || null,
+          taskData.projectId || null
         ]
       );
 
@@ -219,8 +435,46 @@ export class TaskService {
         );
       }
 
+      const actorId = actor?.id || String(task.assigner_id);
+
+      await ActivityService.record(client, task.id, actorId, 'created', {
+        changes: ActivityService.diff({}, task, {
+          title: 'title',
+          status: 'status',
+          priority: 'priority',
+          deadline: 'deadline',
+          projectId: 'project_id',
+          assignedUserId: 'assigned_user_id'
+        })
+      });
+
+      if (taskData.attachments && taskData.attachments.length > 0) {
+        await ActivityService.record(client, task.id, actorId, 'attachments_changed', {
+          changes: { attachments: { from: [], to: taskData.attachments.map(attachment => attachment.fileName) } }
+        });
+      }
+
+      const subtaskIds = taskData.subtasks && taskData.subtasks.length > 0
+        ? (await TaskService.insertSubtasks(client, task, taskData.subtasks, { id: actorId, role: actor?.role || 'User' })).ids
+        : [];
+      if (subtaskIds.length > 0) {
+        // Only the new task itself can change here, and it is announced below anyway
+        await ProgressService.recalculate(client, task.id);
+      }
+
+      const notifications = task.assigned_user_id
+        ? await NotificationService.notifyTaskAssigned(client, task.id, String(task.assigned_user_id), actorId)
+        : [];
+
       await client.query('COMMIT');
 
+      EventService.publishNotifications(notifications);
+      const createdTask = await this.getTaskById(task.id);
+      if (createdTask) {
+        EventService.publishTaskChange('task.created', createdTask);
+      }
+      await TaskService.publishCreatedTasks(subtaskIds);
+
       // Fetch the complete task with joins
       const completeTaskResult = await client.query(
         `SELECT 
@@ -247,18 +501,190 @@ export class TaskService {
     }
   }
 
-  static async updateTask(id: string, taskData: UpdateTaskRequest): Promise<Task | null> {
+  // All or nothing; see insertSubtasks for what the subtasks inherit
+  static async createSubtasks(parentId: string, data: CreateSubtasksRequest, actor: TaskActor): Promise<CreatedSubtasks> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await ProgressService.lockLineage(client, parentId);
+      const parentResult = await client.query(
+        `SELECT id, title, status, priority, project_id, assigned_user_id
+        FROM tasks
+        WHERE id = $1 AND soft_deleted_at IS NULL
+        FOR UPDATE`,
+        [parentId]
+      );
+      const parent = parentResult.rows[0];
+      if (!parent) {
+        throw new NotFoundError('Task not found');
+      }
+      if (TaskService.CLOSED_STATUSES.includes(parent.status)) {
+        throw new ConflictError(`Subtasks cannot be added to a ${parent.status.toLowerCase()} task`);
+      }
+
+      const { ids, dependencies } = await TaskService.insertSubtasks(client, parent, data.subtasks, actor);
+      const recalculated = await ProgressService.recalculate(client, parent.id);
+
+      await client.query('COMMIT');
+
+      const subtasks = await TaskService.publishCreatedTasks(ids);
+      await ProgressService.publishChanges(recalculated);
+      return { subtasks, dependencies };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Subtasks inherit the parent's project and assignee (so no team check or assignment notice
+  // per subtask) and, unless given, its priority. They wait for approval with a pending parent
+  // or when the actor could not create a ready task directly. Dependencies only point at
+  // earlier entries of the batch, which keeps the batch free of cycles. Creation times are
+  // taken per row so the batch keeps its order when the subtasks are listed.
+  private static async insertSubtasks(
+    client: PoolClient,
+    parent: { id: string; title: string; status: TaskStatus; priority: string; project_id: string | null; assigned_user_id: string | null },
+    drafts: SubtaskDraft[],
+    actor: TaskActor
+  ): Promise<{ ids: string[]; dependencies: DependencyLink[] }> {
+    const status: TaskStatus = parent.status !== 'Pending Approval' && getInitialStatuses(actor.role).includes('To Do')
+      ? 'To Do'
+      : 'Pending Approval';
+
+    const created: { id: string; title: string }[] = [];
+    for (const draft of drafts) {
+      const result = await client.query(
+        `INSERT INTO tasks (
+          title, description, status, priority, assigner_id, assigned_user_id,
+          project_id, parent_task_id, timer_duration, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, clock_timestamp())
+        RETURNING *`,
+        [
+          draft.title.trim(),
+          draft.description || null,
+          status,
+          draft.priority || parent.priority,
+          actor.id,
+          parent.assigned_user_id,
+          parent.project_id,
+          parent.id,
+          draft.estimatedMinutes || 0
+        ]
+      );
+      const task = result.rows[0];
+
+      await ActivityService.record(client, task.id, actor.id, 'created', {
+        changes: ActivityService.diff({}, task, {
+          title: 'title',
+          status: 'status',
+          priority: 'priority',
+          projectId: 'project_id',
+          assignedUserId: 'assigned_user_id'
+        }),
+        parentTask: { taskId: String(parent.id), title: parent.title }
+      });
+      created.push({ id: String(task.id), title: task.title });
+    }
+
+    const dependencies: DependencyLink[] = [];
+    for (const [index, draft] of drafts.entries()) {
+      for (const position of draft.dependsOn || []) {
+        const predecessor = created[position];
+        const successor = created[index];
+        const result = await client.query(
+          `INSERT INTO task_dependencies (predecessor_task_id, successor_task_id, dependency_type, created_by)
+          VALUES ($1, $2, 'finish_to_start', $3)
+          RETURNING id`,
+          [predecessor.id, successor.id, actor.id]
+        );
+
+        await ActivityService.record(client, successor.id, actor.id, 'dependency_added', {
+          dependency: { taskId: predecessor.id, title: predecessor.title, relation: 'blocked_by', type: 'finish_to_start' }
+        });
+        await ActivityService.record(client, predecessor.id, actor.id, 'dependency_added', {
+          dependency: { taskId: successor.id, title: successor.title, relation: 'blocking', type: 'finish_to_start' }
+        });
+        dependencies.push({
+          id: Number(result.rows[0].id),
+          predecessorTaskId: predecessor.id,
+          successorTaskId: successor.id,
+          dependencyType: 'finish_to_start'
+        });
+      }
+    }
+
+    await ActivityService.record(client, String(parent.id), actor.id, 'subtasks_added', {
+      subtasks: created.map(subtask => ({ taskId: subtask.id, title: subtask.title }))
+    });
+
+    return { ids: created.map(subtask => subtask.id), dependencies };
+  }
+
+  // Fetches newly committed tasks in the given order and announces each one
+  private static async publishCreatedTasks(ids: string[]): Promise<Task[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const result = await pool.query(
+      `${TaskService.TASK_SELECT_QUERY}
+      AND t.id = ANY($1::uuid[])`,
+      [ids]
+    );
+    const tasks: Task[] = result.rows.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+    for (const task of tasks) {
+      EventService.publishTaskChange('task.created', task);
+    }
+    return tasks;
+  }
+
+  static async updateTask(id: string, taskData: UpdateTaskRequest, actor?: TaskActor): Promise<Task | null> {
     const client = await pool.connect();
     
     try {
       await client.query('BEGIN');
 
-      const existsResult = await client.query('SELECT id FROM tasks WHERE id = $1', [id]);
+      // Parents first, in the same order as the roll-up and the open-subtask check
+      await ProgressService.lockLineage(client, id);
+      const scope = actor && taskScopeCondition(actor, '$2');
+      const existsResult = await client.query(
+        `SELECT * FROM tasks t WHERE t.id = $1 ${scope ? `AND ${scope}` : ''} FOR UPDATE`,
+        scope ? [id, actor!.id] : [id]
+      );
       if (existsResult.rows.length === 0) {
         await client.query('ROLLBACK');
         return null;
       }
 
+      // Checked against the stored row so moving only one end of the range is still validated
+      const nextStart = taskData.startDate !== undefined ? taskData.startDate : existsResult.rows[0].start_date;
+      const nextDeadline = taskData.deadline !== undefined ? taskData.deadline : existsResult.rows[0].deadline;
+      if (nextStart && nextDeadline && new Date(nextStart) > new Date(nextDeadline)) {
+        throw new ValidationError('Start date must be on or before the deadline', 'startDate');
+      }
+
+      if (taskData.projectId) {
+        await ProjectService.assertProjectExists(client, taskData.projectId);
+      }
+
+      const nextAssigneeId = taskData.assignedUserId ? String(taskData.assignedUserId) : null;
+      if (actor?.role === 'Manager' && nextAssigneeId && nextAssigneeId !== String(existsResult.rows[0].assigned_user_id)) {
+        await TeamService.assertAssignableBy(client, actor.id, nextAssigneeId);
+      }
+
+      const isStatusChange = Boolean(taskData.status && taskData.status !== existsResult.rows[0].status);
+      if (isStatusChange) {
+        assertTransitionAllowed(existsResult.rows[0].status, taskData.status!, actor?.role || 'User', taskData.statusReason);
+        await DependencyService.assertStatusAllowed(client, id, taskData.status!);
+        if (taskData.status === 'Completed') {
+          await TaskService.assertNoOpenSubtasks(client, id);
+        }
+      }
+
       const updateFields: string[] = [];
       const updateValues: any[] = [];
       let paramIndex = 1;
@@ -270,21 +696,37 @@ export class TaskService {
         title: 'title',
         description: 'description',
         status: 'status',
+        startDate: 'start_date',
         deadline: 'deadline',
         priority: 'priority',
+        projectId: 'project_id',
+        recurringPattern: 'recurring_pattern',
         assignedUserId: 'assigned_user_id',
         assignerId: 'assigner_id',
+        updatedBy: 'updated_by',
         suggestedDeadline: 'suggested_deadline',
-        suggestedPriority: 'suggested_priority'
+        suggestedPriority: 'suggested_priority',
+        progressPercentage: 'progress_percentage'
       };
 
-      Object.entries(taskData).forEach(([key, value]) => {
+      // The authenticated caller, when known, takes precedence over a client-supplied updatedBy
+      const changes: UpdateTaskRequest = actor ? { ...taskData, updatedBy: actor.id } : { ...taskData };
+      if (changes.recurringPattern !== undefined) {
+        changes.recurringPattern = normalizeRecurrencePattern(changes.recurringPattern);
+      }
+
+      Object.entries(changes).forEach(([key, value]) => {
         if (key in fieldMappings && value !== undefined) {
           updateFields.push(`${fieldMappings[key]} = $${paramIndex++}`);
           updateValues.push(value);
         }
       });
 
+      // completed_at tracks the latest completion and is cleared whenever the task leaves Completed
+      if (isStatusChange) {
+        updateFields.push(taskData.status === 'Completed' ? 'completed_at = CURRENT_TIMESTAMP' : 'completed_at = NULL');
+      }
+
       if (updateFields.length > 0) {
         updateFields.push(`updated_at = CURRENT_TIMESTAMP`);
         const updateQuery = `
@@ -295,9 +737,21 @@ export class TaskService {
         await client.query(updateQuery, updateValues);
       }
 
+      // A task with subtasks or checklist items keeps its rolled-up progress over a value set by
+      // hand, and a new status or progress here moves the parents along
+      const recalculated = (await ProgressService.recalculate(client, id)).filter(taskId => taskId !== id);
+
+      const previous = existsResult.rows[0];
+      const actorId = actor?.id || taskData.updatedBy || null;
+
       if (taskData.attachments) {
-        // Delete existing attachments
-        await client.query('DELETE FROM task_attachments WHERE task_id = $1', [id]);
+        const previousAttachments = await client.query(
+          'SELECT file_name FROM task_attachments WHERE task_id = $1 AND storage_driver IS NULL AND soft_deleted_at IS NULL ORDER BY created_at, id',
+          [id]
+        );
+
+        // Replace link-only attachments; uploaded files are managed through the attachments sub-resource
+        await client.query('DELETE FROM task_attachments WHERE task_id = $1 AND storage_driver IS NULL', [id]);
         
         // Insert new attachments
         for (const attachment of taskData.attachments) {
@@ -313,45 +767,162 @@ export class TaskService {
             ]
           );
         }
-      }
 
-      if (taskData.comments) {
-        // Delete existing comments
-        await client.query('DELETE FROM task_comments WHERE task_id = $1', [id]);
-        
-        // Insert new comments
-        for (const comment of taskData.comments) {
-          await client.query(
-            'INSERT INTO task_comments (task_id, user_id, content, mentions) VALUES ($1, $2, $3, $4)',
-            [id, comment.userId, comment.content, comment.mentions]
-          );
+        const from = previousAttachments.rows.map(row => row.file_name);
+        const to = taskData.attachments.map(attachment => attachment.fileName);
+        if (JSON.stringify(from) !== JSON.stringify(to)) {
+          await ActivityService.record(client, id, actorId, 'attachments_changed', {
+            changes: { attachments: { from, to } }
+          });
         }
       }
 
+      const currentResult = await client.query('SELECT * FROM tasks WHERE id = $1', [id]);
+      const { status, assignedUserId, ...otherChanges } = ActivityService.diff(previous, currentResult.rows[0], TaskService.ACTIVITY_FIELDS);
+
+      // Status and assignee changes get their own entries so the timeline can call them out
+      if (status) {
+        await ActivityService.record(client, id, actorId, 'status_changed', {
+          changes: { status },
+          ...(taskData.statusReason?.trim() ? { reason: taskData.statusReason.trim() } : {})
+        });
+      }
+      if (assignedUserId) {
+        await ActivityService.record(client, id, actorId, 'reassigned', { changes: { assignedUserId } });
+      }
+      if (Object.keys(otherChanges).length > 0) {
+        await ActivityService.record(client, id, actorId, 'updated', { changes: otherChanges });
+      }
+
+      // A new pattern may extend a series that had already ended at this instance
+      if (otherChanges.recurringPattern) {
+        await client.query(
+          `UPDATE tasks SET recurrence_spawned_at = NULL
+          WHERE id = $1 AND NOT EXISTS (SELECT 1 FROM tasks WHERE recurrence_source_id = $1)`,
+          [id]
+        );
+      }
+
+      // Completing an instance of a recurring series queues up the next one straight away
+      const occurrence = status?.to === 'Completed'
+        ? await RecurrenceService.generateNextOccurrence(client, id, false)
+        : null;
+
+      const notifications: Notification[] = [];
+
+      if (assignedUserId?.to) {
+        notifications.push(...await NotificationService.notifyTaskAssigned(client, id, String(assignedUserId.to), actorId));
+      }
+
+      if (status) {
+        notifications.push(...await NotificationService.notifyStatusChange(client, id, previous.status, actorId));
+      }
+
+      if (status?.to === 'Needs Changes') {
+        await NotificationService.notifyRevisionRequested(client, id, actorId, taskData.statusReason?.trim() || null);
+      }
+
       await client.query('COMMIT');
 
-      return await this.getTaskById(id);
+      EventService.publishNotifications(notifications);
+      const updatedTask = await this.getTaskById(id);
+      if (updatedTask) {
+        EventService.publishTaskChange('task.updated', updatedTask, {
+          assignerId: previous.assigner_id,
+          assignedUserId: previous.assigned_user_id
+        });
+      }
+
+      // Completing or reopening a task flips the blocked badge on everything that waits on it
+      if (status) {
+        await DependencyService.publishTaskUpdates(await DependencyService.getSuccessorIds(id));
+      }
+
+      if (occurrence) {
+        await RecurrenceService.publishOccurrence(occurrence);
+      }
+
+      await ProgressService.publishChanges(recalculated);
+
+      return updatedTask;
     } catch (error) {
       await client.query('ROLLBACK');
+      if (error instanceof ConflictError || error instanceof ValidationError) throw error;
       throw new DatabaseError('Failed to update task', error instanceof Error ? error : undefined);
     } finally {
       client.release();
     }
   }
 
-  static async deleteTask(id: string): Promise<boolean> {
+  // Subtasks are removed along with the task, and the parent's progress is worked out again
+  static async deleteTask(id: string, viewer?: TaskViewer): Promise<boolean> {
     const client = await pool.connect();
     
     try {
-      const result = await client.query('DELETE FROM tasks WHERE id = $1 RETURNING id', [id]);
-      return result.rows.length > 0;
+      await client.query('BEGIN');
+
+      await ProgressService.lockLineage(client, id);
+      // Collected up front because the cascade takes them with the task
+      const descendantsResult = await client.query(
+        `WITH RECURSIVE subtree AS (
+          SELECT id, assigner_id, assigned_user_id FROM tasks WHERE parent_task_id = $1
+          UNION ALL
+          SELECT t.id, t.assigner_id, t.assigned_user_id FROM tasks t JOIN subtree s ON t.parent_task_id = s.id
+        )
+        SELECT * FROM subtree`,
+        [id]
+      );
+
+      const scope = viewer && taskScopeCondition(viewer, '$2');
+      const result = await client.query(
+        `DELETE FROM tasks t WHERE t.id = $1 ${scope ? `AND ${scope}` : ''} RETURNING id, assigner_id, assigned_user_id, parent_task_id`,
+        scope ? [id, viewer!.id] : [id]
+      );
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      const parentId = result.rows[0].parent_task_id;
+      const recalculated = parentId ? await ProgressService.recalculate(client, String(parentId)) : [];
+
+      await client.query('COMMIT');
+
+      for (const row of [result.rows[0], ...descendantsResult.rows]) {
+        EventService.publishTaskDeleted(String(row.id), {
+          assignerId: row.assigner_id,
+          assignedUserId: row.assigned_user_id
+        });
+      }
+      await ProgressService.publishChanges(recalculated);
+      return true;
     } catch (error) {
+      await client.query('ROLLBACK');
       throw new DatabaseError('Failed to delete task', error instanceof Error ? error : undefined);
     } finally {
       client.release();
     }
   }
 
+  // Rejected and archived subtasks count as settled, like the statuses a parent can close with
+  private static async assertNoOpenSubtasks(client: PoolClient, taskId: string): Promise<void> {
+    const result = await client.query(
+      `SELECT title
+      FROM tasks
+      WHERE parent_task_id = $1
+        AND soft_deleted_at IS NULL
+        AND status <> ALL($2::task_status[])
+      ORDER BY title
+      FOR SHARE`,
+      [taskId, TaskService.CLOSED_STATUSES]
+    );
+
+    if (result.rows.length > 0) {
+      const titles = result.rows.map(row => `"${row.title}"`).join(', ');
+      throw new ConflictError(`Task cannot be completed while it has open subtasks: ${titles}`);
+    }
+  }
+
   private static async insertAttachments(client: PoolClient, taskId: string, attachments: Omit<TaskAttachment, 'id' | 'createdAt'>[]): Promise<void> {
     /**
      * FIXED: Corrected column names to match the schema (`file_path`, `file_size`).
@@ -373,25 +944,6 @@ export class TaskService {
     }
   }
 
-  private static async insertComments(client: PoolClient, taskId: string, comments: Omit<TaskComment, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<void> {
-    /**
-     * FIXED: Removed `user_name` from the INSERT as it's not a real column.
-     * The name is derived via a JOIN in the SELECT query.
-     */
-    const commentQuery = `
-      INSERT INTO task_comments (task_id, user_id, content)
-      VALUES ($1, $2, $3)
-    `;
-
-    for (const comment of comments) {
-      await client.query(commentQuery, [
-        taskId,
-        comment.userId,
-        comment.content
-      ]);
-    }
-  }
-
   static async getTasksByUserId(userId: string, isAssigned: boolean = true): Promise<Task[]> {
     const client = await pool.connect();
     
@@ -413,10 +965,11 @@ export class TaskService {
     }
   }
 
-  static async getTaskStatistics(): Promise<Record<string, number>> {
+  static async getTaskStatistics(viewer?: TaskViewer): Promise<Record<string, number>> {
     const client = await pool.connect();
     
     try {
+      const scope = viewer && taskScopeCondition(viewer, '$1');
       /**
        * FIXED: The query now reflects the actual status values in the schema.
        * Removed 'Cancelled' which does not exist and updated the `overdue` check.
@@ -424,6 +977,7 @@ export class TaskService {
       const query = `
         SELECT
           COUNT(*) as total,
+          COUNT(CASE WHEN status = 'Pending Approval' THEN 1 END) as pending_approval,
           COUNT(CASE WHEN status = 'To Do' THEN 1 END) as todo,
           COUNT(CASE WHEN status = 'In Progress' THEN 1 END) as in_progress,
           COUNT(CASE WHEN status = 'In Review' THEN 1 END) as in_review,
@@ -431,11 +985,14 @@ export class TaskService {
           COUNT(CASE WHEN status = 'Rejected' THEN 1 END) as rejected,
           COUNT(CASE WHEN status = 'Archived' THEN 1 END) as archived,
           COUNT(CASE WHEN deadline < CURRENT_TIMESTAMP AND status NOT IN ('Completed', 'Rejected', 'Archived') THEN 1 END) as overdue
-        FROM tasks
+        FROM tasks t
+        WHERE t.soft_deleted_at IS NULL
+        ${scope ? `AND ${scope}` : ''}
       `;
       
-      const result = await client.query(query);
-      return result.rows[0];
+      const result = await client.query(query, scope ? [viewer!.id] : []);
+      // COUNT comes back as a bigint string
+      return Object.fromEntries(Object.entries(result.rows[0]).map(([key, value]) => [key, Number(value)]));
     } catch (error) {
       throw new DatabaseError('Failed to fetch task statistics', error instanceof Error ? error : undefined);
     } finally {
@@ -450,9 +1007,11 @@ export class TaskService {
       description: row.description,
       status: row.status,
       priority: row.priority,
+      startDate: row.start_date ? new Date(row.start_date).toISOString() : null,
       deadline: row.deadline ? new Date(row.deadline).toISOString() : null,
       progressPercentage: row.progress_percentage,
       projectId: row.project_id ? String(row.project_id) : null,
+      parentTaskId: row.parent_task_id ? String(row.parent_task_id) : null,
       recurringPattern: row.recurring_pattern,
       assignerId: row.assigner_id ? String(row.assigner_id) : '',
       assignedUserId: row.assigned_user_id ? String(row.assigned_user_id) : null,
@@ -0,0 +1,245 @@
+// services/teamService.ts
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../config/db';
+import { DatabaseError } from './taskService';
+import { EventService } from './eventService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { AddTeamMemberRequest, CreateTeamRequest, Team, TeamMember, UpdateTeamRequest } from '../types/team';
+
+export class TeamService {
+  private static readonly TEAM_SELECT_QUERY = `
+    SELECT
+      tm.*,
+      COALESCE(
+        json_agg(
+          json_build_object(
+            'id', u.id,
+            'email', u.email,
+            'firstName', u.first_name,
+            'lastName', u.last_name,
+            'role', u.role
+          ) ORDER BY u.role, u.first_name, u.last_name
+        ) FILTER (WHERE u.id IS NOT NULL),
+        '[]'
+      ) as members
+    FROM teams tm
+    LEFT JOIN users u ON u.team_id = tm.id AND u.soft_deleted_at IS NULL
+  `;
+
+  static async listTeams(): Promise<Team[]> {
+    try {
+      const result = await pool.query(`${TeamService.TEAM_SELECT_QUERY} GROUP BY tm.id ORDER BY tm.name, tm.id`);
+      return result.rows.map(row => TeamService.mapTeamFromDb(row));
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch teams', error instanceof Error ? error : undefined);
+    }
+  }
+
+  static async getTeamById(id: string): Promise<Team> {
+    let row;
+    try {
+      const result = await pool.query(`${TeamService.TEAM_SELECT_QUERY} WHERE tm.id = $1 GROUP BY tm.id`, [id]);
+      row = result.rows[0];
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch team', error instanceof Error ? error : undefined);
+    }
+
+    if (!row) {
+      throw new NotFoundError('Team not found');
+    }
+    return TeamService.mapTeamFromDb(row);
+  }
+
+  static async createTeam(data: CreateTeamRequest): Promise<Team> {
+    try {
+      const result = await pool.query(
+        'INSERT INTO teams (name, description) VALUES ($1, $2) RETURNING id',
+        [data.name.trim(), data.description?.trim() || null]
+      );
+      return await TeamService.getTeamById(String(result.rows[0].id));
+    } catch (error) {
+      throw TeamService.toWriteError(error, 'Failed to create team');
+    }
+  }
+
+  static async updateTeam(id: string, data: UpdateTeamRequest): Promise<Team> {
+    const updateFields: string[] = [];
+    const updateValues: any[] = [];
+    let paramIndex = 1;
+
+    if (data.name !== undefined) {
+      updateFields.push(`name = $${paramIndex++}`);
+      updateValues.push(data.name.trim());
+    }
+    if (data.description !== undefined) {
+      updateFields.push(`description = $${paramIndex++}`);
+      updateValues.push(data.description?.trim() || null);
+    }
+    updateFields.push('updated_at = CURRENT_TIMESTAMP');
+    updateValues.push(id);
+
+    let updated: boolean;
+    try {
+      const result = await pool.query(
+        `UPDATE teams SET ${updateFields.join(', ')} WHERE id = $${paramIndex} RETURNING id`,
+        updateValues
+      );
+      updated = result.rows.length > 0;
+    } catch (error) {
+      throw TeamService.toWriteError(error, 'Failed to update team');
+    }
+
+    if (!updated) {
+      throw new NotFoundError('Team not found');
+    }
+    return TeamService.getTeamById(id);
+  }
+
+  // Members stay behind without a team; the foreign key sets their team_id to NULL
+  static async deleteTeam(id: string): Promise<void> {
+    let deleted: boolean;
+    let managerIds: string[];
+    try {
+      managerIds = await TeamService.getManagerIds(pool, [id]);
+      const result = await pool.query('DELETE FROM teams WHERE id = $1 RETURNING id', [id]);
+      deleted = result.rows.length > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to delete team', error instanceof Error ? error : undefined);
+    }
+
+    if (!deleted) {
+      throw new NotFoundError('Team not found');
+    }
+    EventService.closeUsers(managerIds);
+  }
+
+  // A user belongs to at most one team, so adding them here takes them off their previous one
+  static async addMember(teamId: string, data: AddTeamMemberRequest): Promise<Team> {
+    const client = await pool.connect();
+    let managerIds: string[];
+    try {
+      await client.query('BEGIN');
+
+      const team = await client.query('SELECT id FROM teams WHERE id = $1 FOR UPDATE', [teamId]);
+      if (team.rows.length === 0) {
+        throw new NotFoundError('Team not found');
+      }
+
+      const user = await client.query(
+        'SELECT role, team_id FROM users WHERE id = $1 AND soft_deleted_at IS NULL FOR UPDATE',
+        [data.userId]
+      );
+      if (user.rows.length === 0) {
+        throw new ValidationError('User not found', 'userId');
+      }
+      if (user.rows[0].role === 'Admin') {
+        throw new ValidationError('Admins already oversee every team and cannot join one', 'userId');
+      }
+
+      await client.query(
+        `UPDATE users SET team_id = $2, role = COALESCE($3::user_role, role), updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1`,
+        [data.userId, teamId, data.role || null]
+      );
+
+      managerIds = await TeamService.getManagerIds(client, [teamId, user.rows[0].team_id]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (error instanceof NotFoundError || error instanceof ValidationError) throw error;
+      throw new DatabaseError('Failed to add team member', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+
+    EventService.closeUsers([data.userId, ...managerIds]);
+
+    return TeamService.getTeamById(teamId);
+  }
+
+  static async removeMember(teamId: string, userId: string): Promise<void> {
+    let removed: boolean;
+    let managerIds: string[];
+    try {
+      managerIds = await TeamService.getManagerIds(pool, [teamId]);
+      const result = await pool.query(
+        `UPDATE users SET team_id = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND team_id = $2
+        RETURNING id`,
+        [userId, teamId]
+      );
+      removed = result.rows.length > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to remove team member', error instanceof Error ? error : undefined);
+    }
+
+    if (!removed) {
+      throw new NotFoundError('Team member not found');
+    }
+    EventService.closeUsers([userId, ...managerIds]);
+  }
+
+  // Everyone on the same team as the given user, themselves included; empty when they have no team
+  static async getTeammateIds(userId: string): Promise<string[]> {
+    try {
+      const result = await pool.query(
+        `SELECT member.id FROM users member
+        JOIN users self ON self.team_id = member.team_id
+        WHERE self.id = $1 AND member.soft_deleted_at IS NULL`,
+        [userId]
+      );
+      return result.rows.map(row => String(row.id));
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch team members', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Used by task writes so a manager can only hand work to themselves or their own team
+  static async assertAssignableBy(executor: Pool | PoolClient, managerId: string, assigneeId: string): Promise<void> {
+    if (assigneeId === managerId) {
+      return;
+    }
+
+    const result = await executor.query(
+      `SELECT 1 FROM users member
+      JOIN users manager ON manager.team_id = member.team_id
+      WHERE manager.id = $1 AND member.id = $2 AND member.soft_deleted_at IS NULL`,
+      [managerId, assigneeId]
+    );
+    if (result.rows.length === 0) {
+      throw new ValidationError('Managers can only assign tasks to members of their team', 'assignedUserId');
+    }
+  }
+
+  // Managers' open event streams follow the team they connected with, so membership changes close them
+  private static async getManagerIds(executor: Pool | PoolClient, teamIds: (string | null)[]): Promise<string[]> {
+    const result = await executor.query(
+      `SELECT id FROM users
+      WHERE team_id = ANY($1::uuid[]) AND role = 'Manager' AND soft_deleted_at IS NULL`,
+      [teamIds.filter(Boolean)]
+    );
+    return result.rows.map(row => String(row.id));
+  }
+
+  private static toWriteError(error: unknown, message: string): Error {
+    if ((error as any)?.code === '23505') {
+      return new ConflictError('A team with this name already exists');
+    }
+    if (error instanceof NotFoundError) {
+      return error;
+    }
+    return new DatabaseError(message, error instanceof Error ? error : undefined);
+  }
+
+  private static mapTeamFromDb(row: any): Team {
+    return {
+      id: String(row.id),
+      name: row.name,
+      description: row.description,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+      members: (row.members as TeamMember[]).map(member => ({ ...member, id: String(member.id) }))
+    };
+  }
+}
@@ -0,0 +1,190 @@
+// services/templateService.ts
+import { pool } from '../config/db';
+import { DatabaseError } from './taskService';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { UserRole } from '../types';
+import { CreateTemplateRequest, TaskTemplate, TemplateListParams, UpdateTemplateRequest } from '../types/template';
+
+interface TemplateViewer {
+  id: string;
+  role: UserRole;
+}
+
+export class TemplateService {
+  private static readonly TEMPLATE_SELECT_QUERY = `
+    SELECT
+      tt.*,
+      u.first_name as creator_first_name,
+      u.last_name as creator_last_name
+    FROM task_templates tt
+    LEFT JOIN users u ON u.id = tt.created_by
+  `;
+
+  // Admins see every template; everyone else sees public ones plus their own
+  private static visibilityClause(viewer: TemplateViewer, paramIndex: number): { sql: string; params: any[] } {
+    if (viewer.role === 'Admin') {
+      return { sql: 'TRUE', params: [] };
+    }
+    return { sql: `(tt.is_public OR tt.created_by = $${paramIndex})`, params: [viewer.id] };
+  }
+
+  static async listTemplates(viewer: TemplateViewer, params: TemplateListParams = {}): Promise<TaskTemplate[]> {
+    const visibility = TemplateService.visibilityClause(viewer, 1);
+    const conditions = [visibility.sql];
+    const values: any[] = [...visibility.params];
+
+    if (params.tags && params.tags.length > 0) {
+      values.push(params.tags.map(tag => tag.toLowerCase()));
+      conditions.push(`tt.tags && $${values.length}::text[]`);
+    }
+
+    if (params.search) {
+      values.push(`%${params.search}%`);
+      conditions.push(`(tt.name ILIKE $${values.length} OR tt.title ILIKE $${values.length})`);
+    }
+
+    try {
+      const result = await pool.query(
+        `${TemplateService.TEMPLATE_SELECT_QUERY}
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY tt.name, tt.id`,
+        values
+      );
+      return result.rows.map(row => TemplateService.mapTemplateFromDb(row));
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch templates', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Private templates of other users are reported as missing rather than forbidden
+  static async getTemplateById(id: string, viewer: TemplateViewer): Promise<TaskTemplate> {
+    const visibility = TemplateService.visibilityClause(viewer, 2);
+    let row;
+    try {
+      const result = await pool.query(
+        `${TemplateService.TEMPLATE_SELECT_QUERY}
+        WHERE tt.id = $1 AND ${visibility.sql}`,
+        [id, ...visibility.params]
+      );
+      row = result.rows[0];
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch template', error instanceof Error ? error : undefined);
+    }
+
+    if (!row) {
+      throw new NotFoundError('Template not found');
+    }
+    return TemplateService.mapTemplateFromDb(row);
+  }
+
+  static async createTemplate(data: CreateTemplateRequest, viewer: TemplateViewer): Promise<TaskTemplate> {
+    let id: string;
+    try {
+      const result = await pool.query(
+        `INSERT INTO task_templates (
+          name, title, description, default_priority, default_timer_duration,
+          checklist, tags, is_public, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING id`,
+        [
+          data.name.trim(),
+          data.title.trim(),
+          data.description?.trim() || null,
+          data.defaultPriority || 'Medium',
+          data.defaultTimerDuration || 0,
+          JSON.stringify(TemplateService.normalizeChecklist(data.checklist)),
+          TemplateService.normalizeTags(data.tags),
+          data.isPublic || false,
+          viewer.id
+        ]
+      );
+      id = String(result.rows[0].id);
+    } catch (error) {
+      throw new DatabaseError('Failed to create template', error instanceof Error ? error : undefined);
+    }
+
+    return TemplateService.getTemplateById(id, viewer);
+  }
+
+  static async updateTemplate(id: string, data: UpdateTemplateRequest, viewer: TemplateViewer): Promise<TaskTemplate> {
+    await TemplateService.assertCanModify(id, viewer);
+
+    const updateFields: string[] = [];
+    const updateValues: any[] = [];
+    const set = (column: string, value: any) => {
+      updateValues.push(value);
+      updateFields.push(`${column} = $${updateValues.length}`);
+    };
+
+    if (data.name !== undefined) set('name', data.name.trim());
+    if (data.title !== undefined) set('title', data.title.trim());
+    if (data.description !== undefined) set('description', data.description?.trim() || null);
+    if (data.defaultPriority !== undefined) set('default_priority', data.defaultPriority);
+    if (data.defaultTimerDuration !== undefined) set('default_timer_duration', data.defaultTimerDuration);
+    if (data.checklist !== undefined) set('checklist', JSON.stringify(TemplateService.normalizeChecklist(data.checklist)));
+    if (data.tags !== undefined) set('tags', TemplateService.normalizeTags(data.tags));
+    if (data.isPublic !== undefined) set('is_public', data.isPublic);
+
+    if (updateFields.length > 0) {
+      updateValues.push(id);
+      try {
+        await pool.query(
+          `UPDATE task_templates SET ${updateFields.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = $${updateValues.length}`,
+          updateValues
+        );
+      } catch (error) {
+        throw new DatabaseError('Failed to update template', error instanceof Error ? error : undefined);
+      }
+    }
+
+    return TemplateService.getTemplateById(id, viewer);
+  }
+
+  static async deleteTemplate(id: string, viewer: TemplateViewer): Promise<void> {
+    await TemplateService.assertCanModify(id, viewer);
+
+    try {
+      await pool.query('DELETE FROM task_templates WHERE id = $1', [id]);
+    } catch (error) {
+      throw new DatabaseError('Failed to delete template', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Public templates can be used by anyone but only changed by their creator or an admin
+  private static async assertCanModify(id: string, viewer: TemplateViewer): Promise<void> {
+    const template = await TemplateService.getTemplateById(id, viewer);
+    if (viewer.role !== 'Admin' && template.createdBy?.id !== viewer.id) {
+      throw new ForbiddenError('Only the creator or an administrator can change this template');
+    }
+  }
+
+  // Tags are matched case-insensitively, so they are stored lowercased and de-duplicated
+  private static normalizeTags(tags: string[] | undefined): string[] {
+    return Array.from(new Set((tags || []).map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+  }
+
+  private static normalizeChecklist(items: string[] | undefined): string[] {
+    return (items || []).map(item => item.trim()).filter(Boolean);
+  }
+
+  private static mapTemplateFromDb(row: any): TaskTemplate {
+    return {
+      id: String(row.id),
+      name: row.name,
+      title: row.title,
+      description: row.description,
+      defaultPriority: row.default_priority,
+      defaultTimerDuration: Number(row.default_timer_duration),
+      checklist: Array.isArray(row.checklist) ? row.checklist : [],
+      tags: row.tags || [],
+      isPublic: Boolean(row.is_public),
+      createdBy: row.created_by ? {
+        id: String(row.created_by),
+        firstName: row.creator_first_name,
+        lastName: row.creator_last_name
+      } : null,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString()
+    };
+  }
+}
@@ -0,0 +1,389 @@
+// services/timeEntryService.ts
+import { pool } from '../config/db';
+import { PoolClient } from 'pg';
+import { DatabaseError } from './taskService';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { UserRole } from '../types';
+import {
+  CreateTimeEntryRequest,
+  StartTimerResult,
+  TaskTimeSummary,
+  TimeEntry,
+  TimesheetParams,
+  TimesheetRow,
+  UpdateTimeEntryRequest,
+  WeeklyTimesheet
+} from '../types/timeEntry';
+
+interface TimeEntryActor {
+  id: string;
+  role: UserRole;
+}
+
+const DAYS_PER_WEEK = 7;
+
+export class TimeEntryService {
+  private static readonly ENTRY_SELECT_QUERY = `
+    SELECT
+      te.*,
+      EXTRACT(EPOCH FROM (COALESCE(te.ended_at, CURRENT_TIMESTAMP) - te.started_at))::int as duration_seconds,
+      t.title as task_title,
+      u.first_name,
+      u.last_name
+    FROM time_entries te
+    JOIN tasks t ON t.id = te.task_id
+    JOIN users u ON u.id = te.user_id
+  `;
+
+  static async getTaskTimeSummary(taskId: string): Promise<TaskTimeSummary> {
+    const task = await TimeEntryService.getLiveTask(taskId);
+
+    try {
+      const result = await pool.query(
+        `${TimeEntryService.ENTRY_SELECT_QUERY}
+        WHERE te.task_id = $1
+        ORDER BY te.started_at DESC, te.id`,
+        [taskId]
+      );
+      const entries = result.rows.map(row => TimeEntryService.mapEntryFromDb(row));
+
+      return {
+        taskId,
+        estimatedMinutes: Number(task.timer_duration) || 0,
+        loggedSeconds: entries.reduce((total, entry) => total + entry.durationSeconds, 0),
+        entries
+      };
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch time entries', error instanceof Error ? error : undefined);
+    }
+  }
+
+  static async getRunningEntry(userId: string): Promise<TimeEntry | null> {
+    try {
+      const result = await pool.query(
+        `${TimeEntryService.ENTRY_SELECT_QUERY}
+        WHERE te.user_id = $1 AND te.ended_at IS NULL`,
+        [userId]
+      );
+      return result.rows[0] ? TimeEntryService.mapEntryFromDb(result.rows[0]) : null;
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch running timer', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Starting a timer stops whatever the user had running on another task; starting one that is already running is a no-op
+  static async startTimer(taskId: string, userId: string, note?: string | null): Promise<StartTimerResult> {
+    await TimeEntryService.getLiveTask(taskId);
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const runningResult = await client.query(
+        'SELECT id, task_id FROM time_entries WHERE user_id = $1 AND ended_at IS NULL FOR UPDATE',
+        [userId]
+      );
+      const running = runningResult.rows[0];
+
+      if (running && String(running.task_id) === taskId) {
+        await client.query('COMMIT');
+        return { entry: (await TimeEntryService.getEntryById(String(running.id)))!, stoppedEntry: null };
+      }
+
+      if (running) {
+        await client.query(
+          'UPDATE time_entries SET ended_at = CURRENT_TIMESTAMP WHERE id = $1',
+          [running.id]
+        );
+      }
+
+      const result = await client.query(
+        `INSERT INTO time_entries (task_id, user_id, started_at, note)
+        VALUES ($1, $2, CURRENT_TIMESTAMP, $3)
+        RETURNING id`,
+        [taskId, userId, note?.trim() || null]
+      );
+
+      await client.query('COMMIT');
+
+      return {
+        entry: (await TimeEntryService.getEntryById(String(result.rows[0].id)))!,
+        stoppedEntry: running ? await TimeEntryService.getEntryById(String(running.id)) : null
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      // Two starts racing each other trip the one-running-timer index
+      if ((error as any)?.code === '23505') {
+        throw new ConflictError('Another timer was started at the same time; please try again');
+      }
+      throw new DatabaseError('Failed to start timer', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  static async stopTimer(userId: string): Promise<TimeEntry> {
+    let id: string | undefined;
+    try {
+      const result = await pool.query(
+        `UPDATE time_entries SET ended_at = CURRENT_TIMESTAMP
+        WHERE user_id = $1 AND ended_at IS NULL
+        RETURNING id`,
+        [userId]
+      );
+      id = result.rows[0] ? String(result.rows[0].id) : undefined;
+    } catch (error) {
+      throw new DatabaseError('Failed to stop timer', error instanceof Error ? error : undefined);
+    }
+
+    if (!id) {
+      throw new NotFoundError('No timer is running');
+    }
+    return (await TimeEntryService.getEntryById(id))!;
+  }
+
+  static async createManualEntry(taskId: string, userId: string, data: CreateTimeEntryRequest): Promise<TimeEntry> {
+    await TimeEntryService.getLiveTask(taskId);
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await TimeEntryService.assertNoOverlap(client, userId, data.startedAt, data.endedAt);
+
+      const result = await client.query(
+        `INSERT INTO time_entries (task_id, user_id, started_at, ended_at, note, is_manual)
+        VALUES ($1, $2, $3, $4, $5, true)
+        RETURNING id`,
+        [taskId, userId, data.startedAt, data.endedAt, data.note?.trim() || null]
+      );
+
+      await client.query('COMMIT');
+
+      return (await TimeEntryService.getEntryById(String(result.rows[0].id)))!;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (error instanceof ConflictError) throw error;
+      throw new DatabaseError('Failed to create time entry', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  static async updateEntry(entryId: string, actor: TimeEntryActor, data: UpdateTimeEntryRequest): Promise<TimeEntry> {
+    const existing = await TimeEntryService.getEditableEntry(entryId, actor);
+
+    const startedAt = data.startedAt ?? existing.startedAt;
+    const endedAt = data.endedAt ?? existing.endedAt;
+
+    if (endedAt && new Date(endedAt) <= new Date(startedAt)) {
+      throw new ValidationError('End time must be after the start time', data.endedAt ? 'endedAt' : 'startedAt');
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await TimeEntryService.assertNoOverlap(client, existing.user.id, startedAt, endedAt, entryId);
+
+      const updateFields: string[] = [];
+      const updateValues: any[] = [];
+      const set = (column: string, value: any) => {
+        updateValues.push(value);
+        updateFields.push(`${column} = $${updateValues.length}`);
+      };
+
+      if (data.startedAt !== undefined) set('started_at', data.startedAt);
+      if (data.endedAt !== undefined) set('ended_at', data.endedAt);
+      if (data.note !== undefined) set('note', data.note?.trim() || null);
+
+      if (updateFields.length > 0) {
+        updateValues.push(entryId);
+        await client.query(
+          `UPDATE time_entries SET ${updateFields.join(', ')} WHERE id = $${updateValues.length}`,
+          updateValues
+        );
+      }
+
+      await client.query('COMMIT');
+
+      return (await TimeEntryService.getEntryById(entryId))!;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (error instanceof ConflictError) throw error;
+      throw new DatabaseError('Failed to update time entry', error instanceof Error ? error : undefined);
+    } finally {
+      client.release();
+    }
+  }
+
+  static async deleteEntry(entryId: string, actor: TimeEntryActor): Promise<void> {
+    await TimeEntryService.getEditableEntry(entryId, actor);
+
+    try {
+      await pool.query('DELETE FROM time_entries WHERE id = $1', [entryId]);
+    } catch (error) {
+      throw new DatabaseError('Failed to delete time entry', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Entries are bucketed by the local day they started on, so a timer running past midnight counts towards its first day
+  static async getWeeklyTimesheet(userId: string, params: TimesheetParams = {}): Promise<WeeklyTimesheet> {
+    const timezone = params.timezone || 'UTC';
+
+    try {
+      const weekResult = await pool.query(
+        `SELECT
+          to_char(date_trunc('week', COALESCE($1::date, (CURRENT_TIMESTAMP AT TIME ZONE $2)::date)::timestamp), 'YYYY-MM-DD') as week_start`,
+        [params.weekStart || null, timezone]
+      );
+      const weekStart: string = weekResult.rows[0].week_start;
+
+      const result = await pool.query(
+        `SELECT
+          te.task_id,
+          t.title as task_title,
+          p.name as project_name,
+          to_char(te.started_at AT TIME ZONE $2, 'YYYY-MM-DD') as day,
+          SUM(EXTRACT(EPOCH FROM (COALESCE(te.ended_at, CURRENT_TIMESTAMP) - te.started_at)))::int as seconds
+        FROM time_entries te
+        JOIN tasks t ON t.id = te.task_id
+        LEFT JOIN projects p ON p.id = t.project_id
+        WHERE te.user_id = $1
+          AND te.started_at AT TIME ZONE $2 >= $3::date
+          AND te.started_at AT TIME ZONE $2 < $3::date + ${DAYS_PER_WEEK}
+        GROUP BY te.task_id, t.title, p.name, day
+        ORDER BY t.title, te.task_id`,
+        [userId, timezone, weekStart]
+      );
+
+      const days = TimeEntryService.weekDays(weekStart);
+      const rowsByTask = new Map<string, TimesheetRow>();
+      const dailyTotals = new Array(DAYS_PER_WEEK).fill(0);
+
+      for (const row of result.rows) {
+        const taskId = String(row.task_id);
+        const dayIndex = days.indexOf(row.day);
+        if (dayIndex === -1) continue;
+
+        let timesheetRow = rowsByTask.get(taskId);
+        if (!timesheetRow) {
+          timesheetRow = {
+            taskId,
+            taskTitle: row.task_title,
+            projectName: row.project_name,
+            dailySeconds: new Array(DAYS_PER_WEEK).fill(0),
+            totalSeconds: 0
+          };
+          rowsByTask.set(taskId, timesheetRow);
+        }
+
+        const seconds = Number(row.seconds) || 0;
+        timesheetRow.dailySeconds[dayIndex] += seconds;
+        timesheetRow.totalSeconds += seconds;
+        dailyTotals[dayIndex] += seconds;
+      }
+
+      return {
+        weekStart,
+        timezone,
+        days,
+        rows: Array.from(rowsByTask.values()),
+        dailyTotals,
+        totalSeconds: dailyTotals.reduce((total, seconds) => total + seconds, 0)
+      };
+    } catch (error) {
+      throw new DatabaseError('Failed to build timesheet', error instanceof Error ? error : undefined);
+    }
+  }
+
+  // Time ranges of one user never overlap; a running timer occupies everything up to now
+  private static async assertNoOverlap(
+    client: PoolClient,
+    userId: string,
+    startedAt: string,
+    endedAt: string | null,
+    excludeEntryId?: string
+  ): Promise<void> {
+    const result = await client.query(
+      `SELECT 1 FROM time_entries
+      WHERE user_id = $1
+        AND id <> COALESCE($2::uuid, uuid_nil())
+        AND started_at < COALESCE($4::timestamptz, 'infinity')
+        AND COALESCE(ended_at, CURRENT_TIMESTAMP) > $3::timestamptz
+      LIMIT 1`,
+      [userId, excludeEntryId || null, startedAt, endedAt]
+    );
+    if (result.rows.length > 0) {
+      throw new ConflictError('This time range overlaps another time entry');
+    }
+  }
+
+  private static async getEntryById(entryId: string): Promise<TimeEntry | null> {
+    try {
+      const result = await pool.query(
+        `${TimeEntryService.ENTRY_SELECT_QUERY}
+        WHERE te.id = $1`,
+        [entryId]
+      );
+      return result.rows[0] ? TimeEntryService.mapEntryFromDb(result.rows[0]) : null;
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch time entry', error instanceof Error ? error : undefined);
+    }
+  }
+
+  private static async getEditableEntry(entryId: string, actor: TimeEntryActor): Promise<TimeEntry> {
+    const entry = await TimeEntryService.getEntryById(entryId);
+    if (!entry) {
+      throw new NotFoundError('Time entry not found');
+    }
+    if (entry.user.id !== actor.id && actor.role !== 'Admin') {
+      throw new ForbiddenError('Only the person who logged this time or an administrator can change it');
+    }
+    return entry;
+  }
+
+  private static async getLiveTask(taskId: string): Promise<{ timer_duration: number | null }> {
+    const result = await pool.query(
+      'SELECT timer_duration FROM tasks WHERE id = $1 AND soft_deleted_at IS NULL',
+      [taskId]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Task not found');
+    }
+    return result.rows[0];
+  }
+
+  private static weekDays(weekStart: string): string[] {
+    const start = new Date(`${weekStart}T00:00:00Z`);
+    return Array.from({ length: DAYS_PER_WEEK }, (_, offset) => {
+      const day = new Date(start.getTime());
+      day.setUTCDate(start.getUTCDate() + offset);
+      return day.toISOString().slice(0, 10);
+    });
+  }
+
+  private static mapEntryFromDb(row: any): TimeEntry {
+    return {
+      id: String(row.id),
+      taskId: String(row.task_id),
+      taskTitle: row.task_title,
+      user: {
+        id: String(row.user_id),
+        firstName: row.first_name,
+        lastName: row.last_name
+      },
+      startedAt: new Date(row.started_at).toISOString(),
+      endedAt: row.ended_at ? new Date(row.ended_at).toISOString() : null,
+      durationSeconds: Math.max(0, Number(row.duration_seconds) || 0),
+      note: row.note,
+      isManual: Boolean(row.is_manual),
+      isRunning: row.ended_at === null,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString()
+    };
+  }
+}
@@ -0,0 +1,70 @@
+// types/activity.ts
+import { PaginationMeta } from './task';
+import { DependencyType } from './dependency';
+
+export const TASK_ACTIVITY_ACTIONS = [
+  'created',
+  'updated',
+  'status_changed',
+  'reassigned',
+  'attachments_changed',
+  'comment_added',
+  'comment_edited',
+  'comment_deleted',
+  'dependency_added',
+  'dependency_removed',
+  'subtasks_added'
+] as const;
+export type TaskActivityAction = typeof TASK_ACTIVITY_ACTIONS[number];
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface TaskActivityDetails {
+  changes?: Record<string, FieldChange>;
+  // Given with a status change, e.g. why a completed task was reopened
+  reason?: string;
+  commentId?: string;
+  dependency?: {
+    taskId: string;
+    title: string;
+    relation: 'blocked_by' | 'blocking';
+    type: DependencyType;
+  };
+  // Set on `subtasks_added` entries of the parent
+  subtasks?: {
+    taskId: string;
+    title: string;
+  }[];
+  // Set on the `created` entry of a subtask
+  parentTask?: {
+    taskId: string;
+    title: string;
+  };
+  // Set on the `created` entry of a task generated from a recurring series
+  recurrence?: {
+    sourceTaskId: string;
+    occurrence: number;
+  };
+}
+
+export interface TaskActivityEntry {
+  id: number;
+  taskId: string;
+  action: TaskActivityAction;
+  details: TaskActivityDetails;
+  // Null for system changes or when the acting user has since been deleted
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+  createdAt: string;
+}
+
+export interface PaginatedActivity {
+  activity: TaskActivityEntry[];
+  pagination: PaginationMeta;
+}
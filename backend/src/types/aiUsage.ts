@@ -0,0 +1,50 @@
+// types/aiUsage.ts
+
+export const AI_PROVIDERS = ['gemini', 'openai-compatible', 'stub'] as const;
+export type AiProviderName = typeof AI_PROVIDERS[number];
+
+export interface AiUsageRecord {
+  id: number;
+  userId: string | null;
+  flow: string;
+  provider: AiProviderName;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  attempts: number;
+  cached: boolean;
+  success: boolean;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface RecordAiUsageRequest {
+  flow: string;
+  provider: AiProviderName;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  latencyMs?: number;
+  attempts?: number;
+  cached?: boolean;
+  success: boolean;
+  error?: string | null;
+}
+
+export interface AiUsageTotals {
+  requests: number;
+  cachedRequests: number;
+  failedRequests: number;
+  inputTokens: number;
+  outputTokens: number;
+  averageLatencyMs: number;
+}
+
+export interface AiUsageSummary {
+  from: string;
+  to: string;
+  totals: AiUsageTotals;
+  byFlow: Array<AiUsageTotals & { flow: string; provider: AiProviderName; model: string }>;
+  byUser: Array<AiUsageTotals & { userId: string | null; userName: string | null }>;
+}
@@ -0,0 +1,37 @@
+// types/attachment.ts
+import { Readable } from 'stream';
+
+export const STORAGE_DRIVERS = ['local', 's3'] as const;
+export type StorageDriver = typeof STORAGE_DRIVERS[number];
+
+export interface AttachmentUploader {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+// Shape returned by the attachments sub-resource
+export interface TaskAttachmentResponse {
+  id: string;
+  taskId: string;
+  fileName: string;
+  // Download path for stored files (relative to the API base), or the external URL for link-only attachments
+  fileUrl: string;
+  fileType: string | null;
+  fileSizeBytes: number | null;
+  checksum: string | null;
+  storageDriver: StorageDriver | null;
+  uploadedBy: AttachmentUploader;
+  createdAt: string;
+}
+
+export interface UploadedFile {
+  originalName: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+export interface AttachmentDownload {
+  attachment: TaskAttachmentResponse;
+  stream: Readable;
+}
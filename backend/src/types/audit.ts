@@ -0,0 +1,50 @@
+// types/audit.ts
+import { PaginationMeta } from './task';
+
+export interface AuditLogEntry {
+  id: number;
+  userId: string | null;
+  userEmail: string | null;
+  userName: string | null;
+  action: string;
+  resource: string;
+  resourceId: string | null;
+  metadata: Record<string, any>;
+  // Where the request reached this server from, as seen by it
+  ipAddress: string | null;
+  userAgent: string | null;
+  forwardedIpAddress: string | null;
+  forwardedUserAgent: string | null;
+  createdAt: string;
+}
+
+export interface CreateAuditLogRequest {
+  action: string;
+  resource: string;
+  resourceId?: string | null;
+  metadata?: Record<string, any>;
+  // The browser's details when the entry comes from a server action; ignored from anyone else
+  forwardedIpAddress?: string | null;
+  forwardedUserAgent?: string | null;
+}
+
+export interface AuditRequestOrigin {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface AuditLogFilters {
+  userId?: string;
+  action?: string;
+  resource?: string;
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaginatedAuditLog {
+  entries: AuditLogEntry[];
+  pagination: PaginationMeta;
+}
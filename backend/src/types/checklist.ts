@@ -0,0 +1,23 @@
+// types/checklist.ts
+export interface ChecklistItem {
+  id: string;
+  taskId: string;
+  content: string;
+  isDone: boolean;
+  position: number;
+  createdBy: string | null;
+  // Who ticked the item and when; cleared again when it is unticked
+  completedBy: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateChecklistItemRequest {
+  content: string;
+}
+
+export interface UpdateChecklistItemRequest {
+  content?: string;
+  isDone?: boolean;
+}
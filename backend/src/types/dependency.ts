@@ -0,0 +1,40 @@
+// types/dependency.ts
+export const DEPENDENCY_TYPES = ['finish_to_start', 'start_to_start', 'finish_to_finish', 'start_to_finish'] as const;
+export type DependencyType = typeof DEPENDENCY_TYPES[number];
+
+export interface DependencyTaskSummary {
+  id: string;
+  title: string;
+  status: string;
+}
+
+export interface TaskDependency {
+  id: number;
+  predecessorTaskId: string;
+  successorTaskId: string;
+  dependencyType: DependencyType;
+  createdBy: string | null;
+  createdAt: string;
+  // The task on the other end of the link, relative to the task being viewed
+  task: DependencyTaskSummary;
+}
+
+// A bare edge between two tasks, used to draw dependency arrows across many tasks at once
+export interface DependencyLink {
+  id: number;
+  predecessorTaskId: string;
+  successorTaskId: string;
+  dependencyType: DependencyType;
+}
+
+export interface TaskDependencies {
+  predecessors: TaskDependency[];
+  successors: TaskDependency[];
+}
+
+// Exactly one of predecessorTaskId / successorTaskId is given; the other end is the task in the URL
+export interface CreateDependencyRequest {
+  predecessorTaskId?: string;
+  successorTaskId?: string;
+  dependencyType?: DependencyType;
+}
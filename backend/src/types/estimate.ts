@@ -0,0 +1,38 @@
+// types/estimate.ts
+import { TaskPriority } from './task';
+
+export interface DeadlineEstimateRequest {
+  title?: string;
+  description?: string;
+  priority?: TaskPriority;
+  assigneeId?: string;
+  tags?: string[];
+  // Defaults to now
+  startDate?: string;
+}
+
+export interface DeadlineEstimateWorkload {
+  openTasks: number;
+  completedLast90Days: number;
+  // Extra time added because the assignee has more open work than they usually carry
+  delayHours: number;
+}
+
+export interface DeadlineEstimate {
+  suggestedDeadline: string;
+  // earliestDeadline..latestDeadline covers intervalLevel of comparable past durations
+  earliestDeadline: string;
+  latestDeadline: string;
+  intervalLevel: number;
+  // 0-1; grows with the number of comparable completed tasks behind the estimate
+  confidence: number;
+  expectedDurationHours: number;
+  basis: {
+    source: 'history' | 'priority-default';
+    sampleSize: number;
+    effectiveSampleSize: number;
+    similarTasks: number;
+  };
+  workload: DeadlineEstimateWorkload | null;
+  explanation: string[];
+}
@@ -0,0 +1,18 @@
+// types/events.ts
+import { Task } from './task';
+import { Notification } from './notification';
+
+export interface ServerEventPayloads {
+  'task.created': { task: Task };
+  'task.updated': { task: Task };
+  'task.deleted': { taskId: string };
+  'notification.created': { notification: Notification };
+}
+
+export type ServerEventName = keyof ServerEventPayloads;
+
+// The subset of a task needed to decide who may see an event about it
+export interface TaskAudience {
+  assignerId: string | null;
+  assignedUserId: string | null;
+}
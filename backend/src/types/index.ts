@@ -1,4 +1,4 @@
-export type UserRole = 'Admin' | 'User';
+export type UserRole = 'Admin' | 'Manager' | 'User';
 
 export interface User {
   id: string;
@@ -8,15 +8,20 @@ export interface User {
   password?: string;
 }
 
+// The signed-in user as read from a verified access token
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  // The user_sessions row the access token was issued for
+  sessionId?: string;
+}
+
 // Extend Express Request type to include user
 declare global {
   namespace Express {
     interface Request {
-      user?: {
-        id: string;
-        email: string;
-        role: UserRole;
-      };
+      user?: AuthUser;
     }
   }
 } 
\ No newline at end of file
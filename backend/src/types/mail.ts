@@ -0,0 +1,96 @@
+// types/mail.ts
+import { PaginationMeta } from './task';
+
+export const MAIL_TRANSPORTS = ['smtp', 'resend', 'file', 'console'] as const;
+export type MailTransportName = typeof MAIL_TRANSPORTS[number];
+
+export const OUTBOX_STATUSES = ['pending', 'sending', 'sent', 'failed'] as const;
+export type OutboxStatus = typeof OUTBOX_STATUSES[number];
+
+export interface MailTaskSummary {
+  title: string;
+  status: string;
+  deadline: string | null;
+}
+
+// The data each named template renders from
+export interface MailTemplateData {
+  verification: {
+    code: string;
+    expiresInMinutes: number;
+  };
+  passwordReset: {
+    recipientName: string;
+    resetUrl: string;
+    expiresInMinutes: number;
+  };
+  assignment: {
+    recipientName: string;
+    taskTitle: string;
+    assignerName: string | null;
+    deadline: string | null;
+    dashboardUrl: string;
+  };
+  revisionRequested: {
+    recipientName: string;
+    taskTitle: string;
+    reviewerName: string | null;
+    feedback: string | null;
+    dashboardUrl: string;
+  };
+  overdue: {
+    recipientName: string;
+    taskTitle: string;
+    deadline: string;
+    assigneeName: string | null;
+    dashboardUrl: string;
+  };
+  digest: {
+    recipientName: string;
+    overdue: MailTaskSummary[];
+    dueSoon: MailTaskSummary[];
+    dashboardUrl: string;
+  };
+}
+
+export type MailTemplateName = keyof MailTemplateData;
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface OutgoingEmail extends RenderedEmail {
+  from: string;
+  to: string[];
+}
+
+export interface EnqueueEmailOptions {
+  // Emails sharing a key are only ever queued once, e.g. one digest per user per day
+  dedupeKey?: string;
+}
+
+export interface OutboxEmail {
+  id: string;
+  template: MailTemplateName;
+  recipients: string[];
+  subject: string;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+export interface OutboxListParams {
+  status?: OutboxStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaginatedOutbox {
+  emails: OutboxEmail[];
+  pagination: PaginationMeta;
+}
@@ -0,0 +1,35 @@
+// types/notification.ts
+import { PaginationMeta } from './task';
+
+export const NOTIFICATION_TYPES = ['Task Assigned', 'Comment Mention', 'Status Change', 'Deadline Reminder'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export interface Notification {
+  id: number;
+  userId: string;
+  taskId: string | null;
+  taskTitle: string | null;
+  type: NotificationType;
+  message: string;
+  isRead: boolean;
+  createdAt: string;
+}
+
+export interface CreateNotificationRequest {
+  recipientId: string;
+  taskId?: string | null;
+  type: NotificationType;
+  message: string;
+}
+
+export interface NotificationListParams {
+  page?: number;
+  limit?: number;
+  unreadOnly?: boolean;
+}
+
+export interface PaginatedNotifications {
+  notifications: Notification[];
+  pagination: PaginationMeta;
+  unreadCount: number;
+}
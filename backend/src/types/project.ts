@@ -0,0 +1,28 @@
+// types/project.ts
+export interface ProjectStats {
+  totalTasks: number;
+  completedTasks: number;
+  overdueTasks: number;
+  progressPercentage: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  createdBy: string | null;
+  updatedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  stats: ProjectStats;
+}
+
+export interface CreateProjectRequest {
+  name: string;
+  description?: string | null;
+}
+
+export interface UpdateProjectRequest {
+  name?: string;
+  description?: string | null;
+}
@@ -0,0 +1,21 @@
+// types/recurrence.ts
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const;
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+// Ordered to match Date#getUTCDay, so a weekday's index is its day number
+export const RECURRENCE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export type RecurrenceWeekday = typeof RECURRENCE_WEEKDAYS[number];
+
+/**
+ * Parsed form of `tasks.recurring_pattern`, which is stored as an RRULE subset such as
+ * `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10`. A series ends at `until` (inclusive,
+ * YYYY-MM-DD) or after `count` occurrences, never both.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: RecurrenceWeekday[];
+  byMonthDay?: number;
+  until?: string;
+  count?: number;
+}
@@ -0,0 +1,24 @@
+// types/session.ts
+
+// A signed-in device, as shown in the user's "active sessions" list
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// What a new or rotated session hands back to the route; refreshToken only ever goes into a cookie
+export interface IssuedSession {
+  sessionId: string;
+  refreshToken: string;
+  expiresAt: Date;
+}
@@ -1,5 +1,10 @@
 // types/task.ts
-export type TaskStatus = 'To Do' | 'In Progress' | 'Completed' | 'Overdue' | 'Pending Approval' | 'Needs Changes' | 'Rejected';
+import { DependencyLink, DependencyTaskSummary } from './dependency';
+import { UserRole } from './index';
+
+// Mirrors the task_status enum in db/schema.sql; "overdue" is derived from the deadline, not stored
+export const TASK_STATUSES = ['Pending Approval', 'To Do', 'In Progress', 'In Review', 'Needs Changes', 'Completed', 'Rejected', 'Archived'] as const;
+export type TaskStatus = typeof TASK_STATUSES[number];
 export type TaskPriority = 'Low' | 'Medium' | 'High';
 
 export interface TaskAttachment {
@@ -20,7 +25,7 @@ export interface TaskComment {
   taskId: string;
   userId: number;
   content: string;
-  mentions: number | null;
+  mentions: string[];
   createdAt: Date;
   updatedAt: Date;
   softDeletedAt: Date | null;
@@ -51,16 +56,50 @@ export interface TaskComment {
   
 }
 
+export interface CommentAuthor {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+// Shape returned by the comments sub-resource; deleted comments keep their
+// place in a thread (content is blanked) only while they still have replies.
+export interface TaskCommentResponse {
+  id: string;
+  taskId: string;
+  parentCommentId: string | null;
+  content: string | null;
+  createdAt: string;
+  updatedAt: string;
+  isEdited: boolean;
+  isDeleted: boolean;
+  mentions: string[];
+  user: CommentAuthor;
+  replies?: TaskCommentResponse[];
+}
+
+export interface CreateCommentRequest {
+  content: string;
+  parentCommentId?: string;
+}
+
+export interface UpdateCommentRequest {
+  content: string;
+}
+
 export interface Task {
   id: string;
   title: string;
   description: string | null;
   status: TaskStatus;
   priority: TaskPriority;
+  startDate: string | null;
   deadline: string | null;
   progressPercentage: number;
   projectId: string | null;
-  recurringPattern: any | null;
+  parentTaskId: string | null;
+  // RRULE subset, see types/recurrence.ts
+  recurringPattern: string | null;
   assignerId: string;
   assignedUserId: string | null;
   updatedBy: string | null;
@@ -71,6 +110,18 @@ export interface Task {
   completedAt: string | null;
   softDeletedAt: string | null;
   // Computed fields from joins
+  // Unfinished finish-to-start predecessors, and the tasks this one is holding up
+  blockedBy?: DependencyTaskSummary[];
+  blocking?: DependencyTaskSummary[];
+  // Time logged through finished time entries; a running timer counts once it is stopped
+  loggedSeconds?: number;
+  // Past its deadline and still open; derived on read, never stored
+  isOverdue?: boolean;
+  // Open and completed subtasks count, rejected or archived ones do not
+  subtaskCount?: number;
+  completedSubtaskCount?: number;
+  checklistItemCount?: number;
+  checkedItemCount?: number;
   assigneeName?: string;
   assignerName?: string;
   projectName?: string;
@@ -81,32 +132,66 @@ export interface CreateTaskRequest {
   description?: string;
   status?: TaskStatus;
   priority?: TaskPriority;
+  startDate?: string;
   deadline?: string;
   progressPercentage?: number;
-  projectId?: number;
-  recurringPattern?: string;
+  projectId?: string | null;
+  recurringPattern?: string | null;
   assignerId: string;
   assignedUserId?: string;
   suggestedPriority?: TaskPriority;
   suggestedDeadline?: string;
   timerDuration?: number;
   attachments?: Omit<TaskAttachment, 'id' | 'createdAt'>[];
+  // Created in the same transaction as the task itself
+  subtasks?: SubtaskDraft[];
 }
 
 export interface UpdateTaskRequest {
   title?: string;
   description?: string;
   status?: TaskStatus;
+  // Why the status is changing; required when reopening a completed task
+  statusReason?: string;
   priority?: TaskPriority;
+  startDate?: Date | null;
   deadline?: Date;
   progressPercentage?: number;
-  projectId?: number;
-  recurringPattern?: any;
+  projectId?: string | null;
+  recurringPattern?: string | null;
   assignedUserId?: number;
   suggestedPriority?: TaskPriority;
   suggestedDeadline?: Date;
+  updatedBy?: string;
   attachments?: Omit<TaskAttachment, 'id' | 'createdAt'>[];
-  comments?: Omit<TaskComment, 'id' | 'createdAt' | 'updatedAt'>[];
+}
+
+// One entry of a subtask batch; `dependsOn` lists positions of earlier entries in the same
+// batch that must finish before this one starts
+export interface SubtaskDraft {
+  title: string;
+  description?: string;
+  priority?: TaskPriority;
+  estimatedMinutes?: number;
+  dependsOn?: number[];
+}
+
+export interface CreateSubtasksRequest {
+  subtasks: SubtaskDraft[];
+}
+
+export interface CreatedSubtasks {
+  subtasks: Task[];
+  dependencies: DependencyLink[];
+}
+
+// The status workflow as it applies to one role, so clients can offer only valid moves
+export interface TaskWorkflow {
+  role: UserRole;
+  transitions: Record<TaskStatus, TaskStatus[]>;
+  initialStatuses: TaskStatus[];
+  // Leaving one of these statuses (other than to Archived) needs a statusReason
+  reasonRequiredFrom: TaskStatus[];
 }
 
 export interface ApiResponse<T> {
@@ -116,15 +201,40 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
+export const TASK_SORT_FIELDS = ['createdAt', 'updatedAt', 'deadline', 'priority', 'status', 'title'] as const;
+export type TaskSortField = typeof TASK_SORT_FIELDS[number];
+
 export interface PaginationParams {
   page?: number;
   limit?: number;
-  status?: TaskStatus;
-  priority?: TaskPriority;
-  assigneeId?: number;
-  projectId?: number;
-  sortBy?: string;
+  status?: TaskStatus[];
+  priority?: TaskPriority[];
+  assigneeId?: string;
+  projectId?: string;
+  sortBy?: TaskSortField;
   sortOrder?: 'asc' | 'desc';
-  assignedUserId?: number;
-  assignerId?: number;
-}
\ No newline at end of file
+  assignerId?: string;
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  overdue?: boolean;
+}
+
+export interface PaginationMeta {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface PaginatedResponse<T> {
+  tasks: T[];
+  pagination: PaginationMeta;
+}
+
+export interface PaginatedComments {
+  comments: TaskCommentResponse[];
+  pagination: PaginationMeta;
+}
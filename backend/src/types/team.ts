@@ -0,0 +1,35 @@
+// types/team.ts
+import { UserRole } from './index';
+
+export interface TeamMember {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: UserRole;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+  members: TeamMember[];
+}
+
+export interface CreateTeamRequest {
+  name: string;
+  description?: string | null;
+}
+
+export interface UpdateTeamRequest {
+  name?: string;
+  description?: string | null;
+}
+
+// Moves the user onto the team, off whichever team they were on; role optionally promotes or demotes them
+export interface AddTeamMemberRequest {
+  userId: string;
+  role?: Exclude<UserRole, 'Admin'>;
+}
@@ -0,0 +1,41 @@
+// types/template.ts
+import { TaskPriority } from './task';
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  title: string;
+  description: string | null;
+  defaultPriority: TaskPriority;
+  // Estimated duration in minutes, copied to the task's timer_duration
+  defaultTimerDuration: number;
+  checklist: string[];
+  tags: string[];
+  // Private templates are only visible to their creator and to admins
+  isPublic: boolean;
+  createdBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTemplateRequest {
+  name: string;
+  title: string;
+  description?: string | null;
+  defaultPriority?: TaskPriority;
+  defaultTimerDuration?: number;
+  checklist?: string[];
+  tags?: string[];
+  isPublic?: boolean;
+}
+
+export type UpdateTemplateRequest = Partial<CreateTemplateRequest>;
+
+export interface TemplateListParams {
+  tags?: string[];
+  search?: string;
+}
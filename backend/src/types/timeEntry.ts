@@ -0,0 +1,73 @@
+// types/timeEntry.ts
+export interface TimeEntryUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  user: TimeEntryUser;
+  startedAt: string;
+  // null while the timer is running
+  endedAt: string | null;
+  // For a running timer this is the time elapsed so far
+  durationSeconds: number;
+  note: string | null;
+  isManual: boolean;
+  isRunning: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Logged time on a task compared with its timer_duration estimate
+export interface TaskTimeSummary {
+  taskId: string;
+  estimatedMinutes: number;
+  loggedSeconds: number;
+  entries: TimeEntry[];
+}
+
+export interface StartTimerResult {
+  entry: TimeEntry;
+  // The timer that was running on another task and got stopped to make room, if any
+  stoppedEntry: TimeEntry | null;
+}
+
+export interface CreateTimeEntryRequest {
+  startedAt: string;
+  endedAt: string;
+  note?: string | null;
+}
+
+export interface UpdateTimeEntryRequest {
+  startedAt?: string;
+  endedAt?: string;
+  note?: string | null;
+}
+
+export interface TimesheetRow {
+  taskId: string;
+  taskTitle: string;
+  projectName: string | null;
+  // One value per day of the week, Monday first
+  dailySeconds: number[];
+  totalSeconds: number;
+}
+
+export interface WeeklyTimesheet {
+  // YYYY-MM-DD of the Monday the week starts on
+  weekStart: string;
+  timezone: string;
+  days: string[];
+  rows: TimesheetRow[];
+  dailyTotals: number[];
+  totalSeconds: number;
+}
+
+export interface TimesheetParams {
+  weekStart?: string;
+  timezone?: string;
+}
@@ -0,0 +1,39 @@
+// utils/errorHandler.ts
+import { Request, Response, NextFunction } from 'express';
+import { ConflictError, ForbiddenError, NotFoundError, StatusTransitionError, ValidationError } from './errors';
+
+// Error middleware shared by the API routers; maps the errors in utils/errors.ts to their status codes
+export const handleError = (error: Error, req: Request, res: Response, next: NextFunction) => {
+  console.error(`[${new Date().toISOString()}] ${req.method} ${req.path}:`, error);
+
+  if (error instanceof ValidationError) {
+    res.status(400).json({
+      error: 'Validation failed',
+      message: error.message,
+      field: error.field
+    });
+  } else if (error instanceof NotFoundError) {
+    res.status(404).json({
+      error: error.message
+    });
+  } else if (error instanceof ForbiddenError) {
+    res.status(403).json({
+      error: error.message
+    });
+  } else if (error instanceof StatusTransitionError) {
+    res.status(409).json({
+      error: error.message,
+      currentStatus: error.currentStatus,
+      allowedStatuses: error.allowedStatuses
+    });
+  } else if (error instanceof ConflictError) {
+    res.status(409).json({
+      error: error.message
+    });
+  } else {
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'An unexpected error occurred'
+    });
+  }
+};
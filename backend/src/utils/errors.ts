@@ -7,4 +7,38 @@ export class ValidationError extends Error {
     this.name = 'ValidationError';
     this.field = field;
   }
-} 
\ No newline at end of file
+} 
+
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+// A status change the workflow does not allow; carries the statuses that would have been accepted
+export class StatusTransitionError extends ConflictError {
+  currentStatus: string | null;
+  allowedStatuses: string[];
+
+  constructor(message: string, currentStatus: string | null, allowedStatuses: string[]) {
+    super(message);
+    this.name = 'StatusTransitionError';
+    this.currentStatus = currentStatus;
+    this.allowedStatuses = allowedStatuses;
+  }
+}
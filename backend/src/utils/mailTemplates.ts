@@ -0,0 +1,104 @@
+// utils/mailTemplates.ts
+import { MailTaskSummary, MailTemplateData, MailTemplateName, RenderedEmail } from '../types/mail';
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Same format the in-app notifications use, since recipients may be in any time zone
+const formatDeadline = (iso: string) => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return iso;
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+};
+
+const layout = (heading: string, bodyHtml: string) => `<div style="font-family: Arial, sans-serif; max-width: 560px; color: #1f2937;">
+  <h2 style="margin: 0 0 16px;">${escapeHtml(heading)}</h2>
+  ${bodyHtml}
+  <p style="margin-top: 24px; font-size: 12px; color: #6b7280;">You are receiving this because of your account on Task Manager.</p>
+</div>`;
+
+const paragraph = (text: string) => `<p>${escapeHtml(text)}</p>`;
+
+const button = (label: string, url: string) =>
+  `<p><a href="${escapeHtml(url)}" style="display: inline-block; padding: 8px 16px; background: #2563eb; color: #ffffff; text-decoration: none; border-radius: 4px;">${escapeHtml(label)}</a></p>`;
+
+const taskLine = (task: MailTaskSummary) =>
+  `${task.title} (${task.status}${task.deadline ? `, due ${formatDeadline(task.deadline)}` : ''})`;
+
+type TemplateRenderers = { [K in MailTemplateName]: (data: MailTemplateData[K]) => RenderedEmail };
+
+const TEMPLATES: TemplateRenderers = {
+  verification: ({ code, expiresInMinutes }) => ({
+    subject: 'Your verification code',
+    text: `Your verification code is: ${code}\n\nIt expires in ${expiresInMinutes} minutes.`,
+    html: layout('Verify your email', `<p>Your verification code is: <b>${escapeHtml(code)}</b></p>`
+      + paragraph(`It expires in ${expiresInMinutes} minutes.`))
+  }),
+
+  passwordReset: ({ recipientName, resetUrl, expiresInMinutes }) => {
+    const intro = 'Someone asked to reset the password for your account. If it was you, use the link below to choose a new one.';
+    const expiry = `The link works once and expires in ${expiresInMinutes} minutes. If you did not ask for this, you can ignore this email.`;
+    return {
+      subject: 'Reset your password',
+      text: `Hi ${recipientName},\n\n${intro}\n\n${resetUrl}\n\n${expiry}`,
+      html: layout('Reset your password', paragraph(`Hi ${recipientName},`) + paragraph(intro)
+        + button('Choose a new password', resetUrl) + paragraph(expiry))
+    };
+  },
+
+  assignment: ({ recipientName, taskTitle, assignerName, deadline, dashboardUrl }) => {
+    const intro = `${assignerName || 'Someone'} assigned you "${taskTitle}".`;
+    const due = deadline ? `It is due ${formatDeadline(deadline)}.` : 'It has no deadline yet.';
+    return {
+      subject: `New task: ${taskTitle}`,
+      text: `Hi ${recipientName},\n\n${intro}\n${due}\n\n${dashboardUrl}`,
+      html: layout('You have a new task', paragraph(`Hi ${recipientName},`) + paragraph(intro) + paragraph(due)
+        + button('Open task', dashboardUrl))
+    };
+  },
+
+  revisionRequested: ({ recipientName, taskTitle, reviewerName, feedback, dashboardUrl }) => {
+    const intro = `${reviewerName || 'A reviewer'} asked for changes to "${taskTitle}".`;
+    return {
+      subject: `Changes requested: ${taskTitle}`,
+      text: `Hi ${recipientName},\n\n${intro}${feedback ? `\n\nFeedback:\n${feedback}` : ''}\n\n${dashboardUrl}`,
+      html: layout('Changes requested', paragraph(`Hi ${recipientName},`) + paragraph(intro)
+        + (feedback ? `<blockquote style="margin: 0; padding-left: 12px; border-left: 3px solid #d1d5db;">${escapeHtml(feedback)}</blockquote>` : '')
+        + button('Review task', dashboardUrl))
+    };
+  },
+
+  overdue: ({ recipientName, taskTitle, deadline, assigneeName, dashboardUrl }) => {
+    const intro = `"${taskTitle}" was due ${formatDeadline(deadline)} and is not finished.`;
+    const owner = assigneeName ? `It is assigned to ${assigneeName}.` : 'It is not assigned to anyone.';
+    return {
+      subject: `Overdue task: ${taskTitle}`,
+      text: `Hi ${recipientName},\n\n${intro}\n${owner}\n\n${dashboardUrl}`,
+      html: layout('Task overdue', paragraph(`Hi ${recipientName},`) + paragraph(intro) + paragraph(owner)
+        + button('Open task', dashboardUrl))
+    };
+  },
+
+  digest: ({ recipientName, overdue, dueSoon, dashboardUrl }) => {
+    const section = (title: string, tasks: MailTaskSummary[]) => tasks.length === 0 ? null : {
+      text: `${title}:\n${tasks.map(task => `- ${taskLine(task)}`).join('\n')}`,
+      html: `<h3 style="margin: 16px 0 8px;">${escapeHtml(title)}</h3><ul>${tasks.map(task => `<li>${escapeHtml(taskLine(task))}</li>`).join('')}</ul>`
+    };
+    const sections = [section('Overdue', overdue), section('Due in the next 7 days', dueSoon)]
+      .filter((value): value is { text: string; html: string } => value !== null);
+
+    return {
+      subject: `Your task digest: ${overdue.length} overdue, ${dueSoon.length} due soon`,
+      text: `Hi ${recipientName},\n\n${sections.map(s => s.text).join('\n\n')}\n\n${dashboardUrl}`,
+      html: layout('Your task digest', paragraph(`Hi ${recipientName},`) + sections.map(s => s.html).join('')
+        + button('Open dashboard', dashboardUrl))
+    };
+  }
+};
+
+export const renderMailTemplate = <K extends MailTemplateName>(template: K, data: MailTemplateData[K]): RenderedEmail =>
+  (TEMPLATES[template] as (data: MailTemplateData[K]) => RenderedEmail)(data);
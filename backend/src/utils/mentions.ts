@@ -0,0 +1,29 @@
+// utils/mentions.ts
+
+// `@first.last` or `@user@example.com`; the lookbehind keeps plain email addresses
+// written in a comment ("mail bob@example.com") from being read as mentions.
+const MENTION_PATTERN = /(?<![\w.@])@([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}|[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+)/;
+
+export interface MentionHandles {
+  emails: string[];
+  names: string[];
+}
+
+export const extractMentionHandles = (content: string): MentionHandles => {
+  const emails = new Set<string>();
+  const names = new Set<string>();
+
+  const pattern = new RegExp(MENTION_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    // Trailing dots are sentence punctuation, not part of the handle
+    const handle = match[1].replace(/\.+$/, '').toLowerCase();
+    if (handle.includes('@')) {
+      emails.add(handle);
+    } else if (handle.includes('.')) {
+      names.add(handle);
+    }
+  }
+
+  return { emails: [...emails], names: [...names] };
+};
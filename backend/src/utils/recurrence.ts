@@ -0,0 +1,182 @@
+// utils/recurrence.ts
+import { ValidationError } from './errors';
+import {
+  RECURRENCE_FREQUENCIES,
+  RECURRENCE_WEEKDAYS,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurrenceWeekday
+} from '../types/recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_INTERVAL = 365;
+const MAX_COUNT = 1000;
+const UNTIL_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+
+const invalid = (message: string) => new ValidationError(message, 'recurringPattern');
+
+const parseBoundedInteger = (name: string, value: string, min: number, max: number): number => {
+  const parsed = Number(value);
+  if (!/^-?\d+$/.test(value) || parsed < min || parsed > max) {
+    throw invalid(`${name} must be a whole number between ${min} and ${max}`);
+  }
+  return parsed;
+};
+
+/**
+ * Parses the RRULE subset the scheduler understands. Anything outside it is rejected
+ * rather than ignored, so a stored pattern always means exactly what it says.
+ */
+export const parseRecurrenceRule = (pattern: string): RecurrenceRule => {
+  const parts = pattern.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const values = new Map<string, string>();
+
+  for (const part of parts) {
+    const [name, value, ...rest] = part.split('=');
+    const key = name.trim().toUpperCase();
+    if (!value || rest.length > 0) {
+      throw invalid(`Malformed recurrence part "${part}"`);
+    }
+    if (values.has(key)) {
+      throw invalid(`${key} is given more than once`);
+    }
+    values.set(key, value.trim().toUpperCase());
+  }
+
+  const frequency = values.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!frequency || !RECURRENCE_FREQUENCIES.includes(frequency)) {
+    throw invalid(`FREQ must be one of ${RECURRENCE_FREQUENCIES.join(', ')}`);
+  }
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: values.has('INTERVAL') ? parseBoundedInteger('INTERVAL', values.get('INTERVAL')!, 1, MAX_INTERVAL) : 1
+  };
+
+  values.forEach((value, key) => {
+    switch (key) {
+      case 'FREQ':
+      case 'INTERVAL':
+        break;
+      case 'BYDAY': {
+        if (frequency !== 'WEEKLY') {
+          throw invalid('BYDAY is only supported for weekly recurrence');
+        }
+        const days = value.split(',') as RecurrenceWeekday[];
+        if (days.some(day => !RECURRENCE_WEEKDAYS.includes(day))) {
+          throw invalid(`BYDAY must list weekdays from ${RECURRENCE_WEEKDAYS.join(', ')}`);
+        }
+        rule.byWeekday = RECURRENCE_WEEKDAYS.filter(day => days.includes(day));
+        break;
+      }
+      case 'BYMONTHDAY':
+        if (frequency !== 'MONTHLY') {
+          throw invalid('BYMONTHDAY is only supported for monthly recurrence');
+        }
+        rule.byMonthDay = parseBoundedInteger('BYMONTHDAY', value, 1, 31);
+        break;
+      case 'UNTIL': {
+        // Date-only and UTC date-time forms are both accepted; the series runs through that whole day
+        const match = UNTIL_PATTERN.exec(value.replace(/T\d{6}Z$/, ''));
+        const until = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+        if (!match || !until || until.getUTCDate() !== Number(match[3])) {
+          throw invalid('UNTIL must be a date in YYYYMMDD form');
+        }
+        rule.until = until.toISOString().slice(0, 10);
+        break;
+      }
+      case 'COUNT':
+        rule.count = parseBoundedInteger('COUNT', value, 1, MAX_COUNT);
+        break;
+      default:
+        throw invalid(`Unsupported recurrence part ${key}`);
+    }
+  });
+
+  if (rule.until && rule.count) {
+    throw invalid('A recurrence can end on a date or after a count, not both');
+  }
+
+  return rule;
+};
+
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${rule.interval}`];
+  if (rule.byWeekday && rule.byWeekday.length > 0) parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+};
+
+// Canonical stored form, so equivalent patterns compare equal in the activity log
+export const normalizeRecurrencePattern = (pattern: string | null | undefined): string | null =>
+  pattern ? formatRecurrenceRule(parseRecurrenceRule(pattern)) : null;
+
+// Weeks start on Monday, as RRULE's default WKST does
+const startOfUtcWeek = (date: Date): number => {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return day - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+};
+
+const daysInUtcMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const nextCandidate = (rule: RecurrenceRule, current: Date, seriesStart: Date): Date => {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return new Date(current.getTime() + rule.interval * DAY_MS);
+
+    case 'WEEKLY': {
+      if (!rule.byWeekday || rule.byWeekday.length === 0) {
+        return new Date(current.getTime() + rule.interval * 7 * DAY_MS);
+      }
+      const currentWeek = startOfUtcWeek(current);
+      // Walking at most one full period plus a week always reaches the next listed weekday
+      for (let offset = 1; offset <= rule.interval * 7 + 7; offset++) {
+        const candidate = new Date(current.getTime() + offset * DAY_MS);
+        const weeksApart = Math.round((startOfUtcWeek(candidate) - currentWeek) / (7 * DAY_MS));
+        if (weeksApart % rule.interval === 0 && rule.byWeekday.includes(RECURRENCE_WEEKDAYS[candidate.getUTCDay()])) {
+          return candidate;
+        }
+      }
+      throw new Error('Weekly recurrence did not produce an occurrence');
+    }
+
+    case 'MONTHLY': {
+      // Taken from the first occurrence, so a series clamped into a short month returns to its day after
+      const targetDay = rule.byMonthDay || seriesStart.getUTCDate();
+      // Short months clamp to their last day instead of being skipped
+      for (let step = 0; ; step += rule.interval) {
+        const year = current.getUTCFullYear();
+        const month = current.getUTCMonth() + step;
+        const candidate = new Date(Date.UTC(
+          year,
+          month,
+          Math.min(targetDay, daysInUtcMonth(year, month)),
+          current.getUTCHours(),
+          current.getUTCMinutes(),
+          current.getUTCSeconds()
+        ));
+        if (candidate > current) {
+          return candidate;
+        }
+      }
+    }
+  }
+};
+
+/**
+ * The occurrence after `current`, which is occurrence number `occurrence` of its series,
+ * or null once the series has ended. `seriesStart` is the series' first occurrence.
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, current: Date, occurrence: number, seriesStart: Date = current): Date | null => {
+  if (rule.count && occurrence >= rule.count) {
+    return null;
+  }
+
+  const next = nextCandidate(rule, current, seriesStart);
+  if (rule.until && next.getTime() >= new Date(rule.until).getTime() + DAY_MS) {
+    return null;
+  }
+  return next;
+};
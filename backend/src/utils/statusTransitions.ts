@@ -0,0 +1,97 @@
+// utils/statusTransitions.ts
+import { TaskStatus, TaskWorkflow } from '../types/task';
+import { UserRole } from '../types';
+import { StatusTransitionError, ValidationError } from './errors';
+
+type TransitionTable = Record<TaskStatus, TaskStatus[]>;
+
+// What anyone working on a task may do. Approval and archiving are left to admins and managers,
+// rejection to admins, so a submitter can only send their task (back) for review.
+const USER_TRANSITIONS: TransitionTable = {
+  'Pending Approval': [],
+  'To Do': ['In Progress'],
+  'In Progress': ['To Do', 'In Review', 'Completed'],
+  'In Review': ['In Progress', 'Completed'],
+  'Needs Changes': ['Pending Approval'],
+  'Completed': ['In Progress'],
+  'Rejected': ['Pending Approval'],
+  'Archived': []
+};
+
+const ADMIN_TRANSITIONS: TransitionTable = {
+  'Pending Approval': ['To Do', 'In Progress', 'Needs Changes', 'Rejected'],
+  'To Do': ['In Progress', 'Needs Changes', 'Rejected', 'Archived'],
+  'In Progress': ['To Do', 'In Review', 'Completed', 'Needs Changes', 'Archived'],
+  'In Review': ['In Progress', 'Completed', 'Needs Changes', 'Archived'],
+  'Needs Changes': ['Pending Approval', 'To Do', 'Rejected', 'Archived'],
+  'Completed': ['To Do', 'In Progress', 'Archived'],
+  'Rejected': ['Pending Approval', 'Archived'],
+  'Archived': ['To Do']
+};
+
+// Managers approve, request revisions and archive like admins, but rejecting stays with admins.
+// Which tasks they can reach is scoped elsewhere.
+const MANAGER_TRANSITIONS: TransitionTable = {
+  'Pending Approval': ['To Do', 'In Progress', 'Needs Changes'],
+  'To Do': ['In Progress', 'Needs Changes', 'Archived'],
+  'In Progress': ['To Do', 'In Review', 'Completed', 'Needs Changes', 'Archived'],
+  'In Review': ['In Progress', 'Completed', 'Needs Changes', 'Archived'],
+  'Needs Changes': ['Pending Approval', 'To Do', 'Archived'],
+  'Completed': ['To Do', 'In Progress', 'Archived'],
+  'Rejected': ['Pending Approval', 'Archived'],
+  'Archived': ['To Do']
+};
+
+const TRANSITIONS: Record<UserRole, TransitionTable> = {
+  Admin: ADMIN_TRANSITIONS,
+  Manager: MANAGER_TRANSITIONS,
+  User: USER_TRANSITIONS
+};
+
+// Statuses a task may be created in; everyone else's tasks start out waiting for approval
+const INITIAL_STATUSES: Record<UserRole, TaskStatus[]> = {
+  Admin: ['Pending Approval', 'To Do', 'In Progress'],
+  Manager: ['Pending Approval', 'To Do', 'In Progress'],
+  User: ['Pending Approval']
+};
+
+export const getAllowedTransitions = (from: TaskStatus, role: UserRole): TaskStatus[] =>
+  (TRANSITIONS[role] || USER_TRANSITIONS)[from] || [];
+
+export const getInitialStatuses = (role: UserRole): TaskStatus[] =>
+  INITIAL_STATUSES[role] || INITIAL_STATUSES.User;
+
+const REASON_REQUIRED_FROM: TaskStatus[] = ['Completed'];
+
+// Moving a finished task back into work; archiving it is not a reopen
+export const isReopen = (from: TaskStatus, to: TaskStatus): boolean =>
+  REASON_REQUIRED_FROM.includes(from) && to !== 'Archived';
+
+export const getWorkflow = (role: UserRole): TaskWorkflow => ({
+  role,
+  transitions: TRANSITIONS[role] || USER_TRANSITIONS,
+  initialStatuses: getInitialStatuses(role),
+  reasonRequiredFrom: REASON_REQUIRED_FROM
+});
+
+export const assertTransitionAllowed = (from: TaskStatus, to: TaskStatus, role: UserRole, reason?: string): void => {
+  const allowed = getAllowedTransitions(from, role);
+  if (!allowed.includes(to)) {
+    throw new StatusTransitionError(
+      `A task cannot move from ${from} to ${to}`,
+      from,
+      allowed
+    );
+  }
+
+  if (isReopen(from, to) && !reason?.trim()) {
+    throw new ValidationError('A reason is required to reopen a completed task', 'statusReason');
+  }
+};
+
+export const assertInitialStatusAllowed = (status: TaskStatus, role: UserRole): void => {
+  const allowed = getInitialStatuses(role);
+  if (!allowed.includes(status)) {
+    throw new StatusTransitionError(`A new task cannot start as ${status}`, null, allowed);
+  }
+};
@@ -0,0 +1,42 @@
+// utils/taskScope.ts
+import { UserRole } from '../types';
+
+export interface TaskViewer {
+  id: string;
+  role: UserRole;
+}
+
+/**
+ * SQL condition restricting the tasks under `alias` to those the viewer may work with, or null
+ * when nothing is hidden from them. Admins see everything. Managers see their own tasks plus any
+ * task assigned to or by someone on their team. Everyone else sees tasks they assigned or were
+ * given. `param` is the placeholder bound to the viewer's id.
+ */
+export const taskScopeCondition = (viewer: TaskViewer, param: string, alias = 't'): string | null =>
+  scopeForRole(viewer.role, param, alias);
+
+/**
+ * The same rule for every user under `userAlias` at once, for queries that pick recipients rather
+ * than serve one viewer. The row must carry the user's `id` and `role`.
+ */
+export const taskAudienceCondition = (userAlias: string, alias = 't'): string =>
+  `(${userAlias}.role = 'Admin'
+    OR (${userAlias}.role = 'Manager' AND ${scopeForRole('Manager', `${userAlias}.id`, alias)})
+    OR ${scopeForRole('User', `${userAlias}.id`, alias)})`;
+
+const scopeForRole = (role: UserRole, param: string, alias: string): string | null => {
+  const ownTasks = `${alias}.assigned_user_id = ${param} OR ${alias}.assigner_id = ${param}`;
+
+  switch (role) {
+    case 'Admin':
+      return null;
+    case 'Manager':
+      return `(${ownTasks} OR EXISTS (
+        SELECT 1 FROM users member
+        JOIN users manager ON manager.team_id = member.team_id
+        WHERE manager.id = ${param} AND member.id IN (${alias}.assigned_user_id, ${alias}.assigner_id)
+      ))`;
+    default:
+      return `(${ownTasks})`;
+  }
+};
@@ -0,0 +1,100 @@
+import { DeadlineEstimatorService } from '../../src/services/deadlineEstimatorService';
+import { pool } from '../../src/config/db';
+
+jest.mock('../../src/config/db', () => ({ pool: { connect: jest.fn(), query: jest.fn() } }));
+
+const START = '2025-03-03T09:00:00.000Z';
+const hoursAfterStart = (hours: number) => new Date(Date.parse(START) + hours * 60 * 60 * 1000).toISOString();
+
+const completed = (days: number, overrides: Record<string, unknown> = {}) => ({
+  title: 'Unrelated work',
+  description: null,
+  priority: 'Medium',
+  assigned_user_id: 'user-9',
+  duration_hours: days * 24,
+  age_days: 0,
+  ...overrides
+});
+
+const mockHistory = (rows: Record<string, unknown>[], workload = { open_tasks: 0, completed_recently: 0 }) => {
+  (pool.query as jest.Mock).mockImplementation(async (sql: string) =>
+    sql.includes('open_tasks') ? { rows: [workload] } : { rows }
+  );
+};
+
+describe('DeadlineEstimatorService.estimate', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('takes the weighted median and the 10th and 90th percentiles of past durations', async () => {
+    mockHistory([1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(days => completed(days)));
+
+    const estimate = await DeadlineEstimatorService.estimate({ startDate: START });
+
+    expect(estimate.expectedDurationHours).toBe(5 * 24);
+    expect(estimate.suggestedDeadline).toBe(hoursAfterStart(5 * 24));
+    expect(estimate.earliestDeadline).toBe(hoursAfterStart(1 * 24));
+    expect(estimate.latestDeadline).toBe(hoursAfterStart(9 * 24));
+    expect(estimate.intervalLevel).toBe(0.8);
+    expect(estimate.basis).toEqual({ source: 'history', sampleSize: 10, effectiveSampleSize: 10, similarTasks: 0 });
+  });
+
+  it('pulls the estimate towards tasks with a similar title', async () => {
+    mockHistory([
+      completed(1), completed(1), completed(1),
+      completed(8, { title: 'Write release notes' }),
+      completed(8, { title: 'Write release notes for mobile' })
+    ]);
+
+    const estimate = await DeadlineEstimatorService.estimate({ startDate: START, title: 'Write release notes' });
+
+    expect(estimate.expectedDurationHours).toBe(8 * 24);
+    expect(estimate.basis.similarTasks).toBe(2);
+  });
+
+  it('counts recent completions more than old ones', async () => {
+    mockHistory([
+      completed(2, { age_days: 0 }), completed(2, { age_days: 0 }),
+      completed(6, { age_days: 720 }), completed(6, { age_days: 720 }), completed(6, { age_days: 720 })
+    ]);
+
+    const estimate = await DeadlineEstimatorService.estimate({ startDate: START });
+
+    expect(estimate.expectedDurationHours).toBe(2 * 24);
+  });
+
+  it('widens the range when there are few comparable tasks', async () => {
+    mockHistory([completed(1), completed(4)]);
+
+    const estimate = await DeadlineEstimatorService.estimate({ startDate: START });
+
+    // In log space the median sits at 1 day and the high end at 4; widening by 1.5 reaches 8 days
+    expect(estimate.expectedDurationHours).toBe(24);
+    expect(estimate.latestDeadline).toBe(hoursAfterStart(8 * 24));
+    expect(estimate.explanation).toContain('Few comparable tasks exist, so the range has been widened.');
+  });
+
+  it('falls back to the priority default without history', async () => {
+    mockHistory([]);
+
+    const estimate = await DeadlineEstimatorService.estimate({ startDate: START, priority: 'High' });
+
+    expect(estimate.basis.source).toBe('priority-default');
+    expect(estimate.expectedDurationHours).toBe(3 * 24);
+    expect(estimate.earliestDeadline).toBe(hoursAfterStart(1.5 * 24));
+    expect(estimate.latestDeadline).toBe(hoursAfterStart(6 * 24));
+    expect(estimate.confidence).toBe(0);
+  });
+
+  it('pushes the range out when the assignee carries more open work than usual', async () => {
+    // Ten tasks finished in 90 days while five days' work is expected, so about half a task is usually open
+    mockHistory([1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(days => completed(days)), { open_tasks: 3, completed_recently: 10 });
+
+    const estimate = await DeadlineEstimatorService.estimate({ startDate: START, assigneeId: 'user-1' });
+
+    const delayHours = ((3 - (10 / 90) * 5) / (10 / 90)) * 24;
+    expect(estimate.workload).toEqual({ openTasks: 3, completedLast90Days: 10, delayHours: Math.round(delayHours * 10) / 10 });
+    expect(estimate.expectedDurationHours).toBeCloseTo(5 * 24 + delayHours, 0);
+  });
+});
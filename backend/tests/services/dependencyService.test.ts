@@ -0,0 +1,114 @@
+import { DependencyService } from '../../src/services/dependencyService';
+import { ActivityService } from '../../src/services/activityService';
+import { ConflictError, NotFoundError } from '../../src/utils/errors';
+import { pool } from '../../src/config/db';
+
+jest.mock('../../src/config/db', () => ({ pool: { connect: jest.fn(), query: jest.fn() } }));
+jest.mock('../../src/services/activityService', () => ({ ActivityService: { record: jest.fn() } }));
+jest.mock('../../src/services/eventService', () => ({ EventService: { publishTaskChange: jest.fn() } }));
+jest.mock('../../src/services/taskService', () => ({
+  DatabaseError: class DatabaseError extends Error {},
+  TaskService: { getTaskById: jest.fn().mockResolvedValue(null) }
+}));
+
+const admin = { id: 'user-1', role: 'Admin' as const };
+const member = { id: 'user-2', role: 'User' as const };
+
+interface Answers {
+  visible?: string[];
+  linked?: boolean;
+  reachable?: boolean;
+}
+
+// Answers each query addDependency makes with a canned result
+const createFakeClient = ({ visible = ['a', 'b'], linked = false, reachable = false }: Answers) => ({
+  release: jest.fn(),
+  query: jest.fn(async (sql: string, params: any[] = []) => {
+    if (/^(BEGIN|COMMIT|ROLLBACK)$/.test(sql) || sql.startsWith('LOCK TABLE')) return { rows: [] };
+    if (sql.includes('SELECT t.title FROM tasks t')) {
+      return { rows: visible.includes(params[0]) ? [{ title: `Task ${params[0]}` }] : [] };
+    }
+    if (sql.includes('WITH RECURSIVE reachable')) return { rows: reachable ? [{ '?column?': 1 }] : [] };
+    if (sql.includes('SELECT 1 FROM task_dependencies')) return { rows: linked ? [{ '?column?': 1 }] : [] };
+    if (sql.includes('INSERT INTO task_dependencies')) return { rows: [{ id: '7' }] };
+    throw new Error(`Unexpected query: ${sql}`);
+  })
+});
+
+describe('DependencyService.addDependency', () => {
+  let client: ReturnType<typeof createFakeClient>;
+
+  const connectWith = (answers: Answers) => {
+    client = createFakeClient(answers);
+    (pool.connect as jest.Mock).mockResolvedValue(client);
+  };
+
+  const queries = (fragment: string) =>
+    client.query.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+  // Links `b` as blocked by `a`, edited from b's side
+  const link = (actor: { id: string; role: 'Admin' | 'Manager' | 'User' } = admin) =>
+    DependencyService.addDependency('b', { predecessorTaskId: 'a' }, actor);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // The link is read back once committed
+    (pool.query as jest.Mock).mockImplementation(async (sql: string, params: any[]) => ({
+      rows: [{ id: params[1], predecessor_task_id: 'a', successor_task_id: 'b', dependency_type: 'finish_to_start', task_id: 'a', task_title: 'Task a', task_status: 'To Do', created_at: new Date() }]
+    }));
+  });
+
+  it('inserts the link and records it on both tasks', async () => {
+    connectWith({});
+
+    await expect(link()).resolves.toMatchObject({ id: 7, predecessorTaskId: 'a', successorTaskId: 'b' });
+
+    expect(queries('INSERT INTO task_dependencies')[0][1]).toEqual(['a', 'b', 'finish_to_start', 'user-1']);
+    expect(ActivityService.record).toHaveBeenCalledWith(client, 'b', 'user-1', 'dependency_added', {
+      dependency: { taskId: 'a', title: 'Task a', relation: 'blocked_by', type: 'finish_to_start' }
+    });
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+  });
+
+  it('asks whether the predecessor is already reachable from the successor', async () => {
+    connectWith({});
+
+    await link();
+
+    expect(queries('WITH RECURSIVE reachable')[0][1]).toEqual(['b', 'a']);
+  });
+
+  it('refuses a link that would close a cycle', async () => {
+    connectWith({ reachable: true });
+
+    await expect(link()).rejects.toThrow(ConflictError);
+    await expect(link()).rejects.toThrow('Adding this dependency would create a cycle');
+    expect(queries('INSERT INTO task_dependencies')).toHaveLength(0);
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+  });
+
+  it('refuses to link two tasks twice', async () => {
+    connectWith({ linked: true });
+
+    await expect(link()).rejects.toThrow('These tasks are already linked');
+    expect(queries('WITH RECURSIVE reachable')).toHaveLength(0);
+  });
+
+  it('checks both ends against the caller\'s scope', async () => {
+    connectWith({});
+
+    await link(member);
+
+    const lookups = queries('SELECT t.title FROM tasks t');
+    expect(lookups.map(([, params]) => params)).toEqual([['a', 'user-2'], ['b', 'user-2']]);
+    expect(lookups[0][0]).toContain('t.assigned_user_id = $2');
+  });
+
+  it('reports a task the caller cannot see as not found, without touching the log', async () => {
+    connectWith({ visible: ['b'] });
+
+    await expect(link(member)).rejects.toThrow(NotFoundError);
+    expect(queries('INSERT INTO task_dependencies')).toHaveLength(0);
+    expect(ActivityService.record).not.toHaveBeenCalled();
+  });
+});
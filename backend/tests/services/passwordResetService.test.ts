@@ -0,0 +1,82 @@
+import { PasswordResetService } from '../../src/services/passwordResetService';
+import { MailService } from '../../src/services/mailService';
+import { pool } from '../../src/config/db';
+
+jest.mock('../../src/config/db', () => ({ pool: { connect: jest.fn(), query: jest.fn() } }));
+jest.mock('../../src/services/mailService', () => ({
+  MailService: {
+    appUrl: 'http://localhost:9002',
+    enqueue: jest.fn().mockResolvedValue(undefined),
+    processOutbox: jest.fn().mockResolvedValue({ sent: 0, failed: 0 })
+  }
+}));
+jest.mock('../../src/services/sessionService', () => ({ SessionService: { revokeAllSessions: jest.fn() } }));
+
+interface TokenRow {
+  user_id: string;
+  token_hash: string;
+  used_at: Date | null;
+  invalidated_at: Date | null;
+  created_at: Date;
+}
+
+// Just enough of password_reset_tokens for requestReset, kept in memory
+const createFakeClient = (tokens: TokenRow[]) => ({
+  release: jest.fn(),
+  query: jest.fn(async (sql: string, params: any[] = []) => {
+    if (/^(BEGIN|COMMIT|ROLLBACK)$/.test(sql)) return { rows: [] };
+    if (sql.includes('FROM users')) {
+      return { rows: [{ id: 'user-1', email: 'ada@example.com', first_name: 'Ada', last_name: 'Lovelace' }] };
+    }
+    if (sql.includes('SELECT COUNT(*) FROM password_reset_tokens')) {
+      const since = Date.now() - 60 * 60 * 1000;
+      const count = tokens.filter(token => token.user_id === params[0] && token.created_at.getTime() > since).length;
+      return { rows: [{ count: String(count) }] };
+    }
+    if (sql.includes('UPDATE password_reset_tokens SET invalidated_at')) {
+      tokens
+        .filter(token => token.user_id === params[0] && !token.used_at && !token.invalidated_at)
+        .forEach(token => { token.invalidated_at = new Date(); });
+      return { rows: [] };
+    }
+    if (sql.includes('DELETE FROM password_reset_tokens')) {
+      tokens.splice(0, tokens.length, ...tokens.filter(token => token.user_id !== params[0] || token.used_at));
+      return { rows: [] };
+    }
+    if (sql.includes('INSERT INTO password_reset_tokens')) {
+      tokens.push({ user_id: params[0], token_hash: params[1], used_at: null, invalidated_at: null, created_at: new Date() });
+      return { rows: [] };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  })
+});
+
+describe('PasswordResetService.requestReset', () => {
+  let tokens: TokenRow[];
+
+  beforeEach(() => {
+    tokens = [];
+    jest.clearAllMocks();
+    (pool.connect as jest.Mock).mockImplementation(async () => createFakeClient(tokens));
+  });
+
+  it('sends a link for each request up to the hourly cap and refuses the next one', async () => {
+    for (let i = 0; i < 3; i++) {
+      await PasswordResetService.requestReset('ada@example.com');
+    }
+    expect(MailService.enqueue).toHaveBeenCalledTimes(3);
+
+    await PasswordResetService.requestReset('ada@example.com');
+
+    expect(MailService.enqueue).toHaveBeenCalledTimes(3);
+    expect(tokens).toHaveLength(3);
+  });
+
+  it('leaves only the newest link usable', async () => {
+    await PasswordResetService.requestReset('ada@example.com');
+    await PasswordResetService.requestReset('ada@example.com');
+
+    expect(tokens.filter(token => !token.invalidated_at)).toHaveLength(1);
+    expect(tokens[1].invalidated_at).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { SessionService } from '../../src/services/sessionService';
+import { EventService } from '../../src/services/eventService';
+import { pool } from '../../src/config/db';
+
+jest.mock('../../src/config/db', () => ({ pool: { connect: jest.fn(), query: jest.fn() } }));
+jest.mock('../../src/services/eventService', () => ({
+  EventService: { closeSessions: jest.fn(), closeUser: jest.fn() }
+}));
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  previous_token_hash: string | null;
+  last_used_at: Date;
+  revoked_at: Date | null;
+}
+
+const GRACE_MS = 30 * 1000;
+const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Just enough of user_sessions for rotateSession and the revoke paths, kept in memory
+const createFakeClient = (sessions: SessionRow[]) => ({
+  release: jest.fn(),
+  query: jest.fn(async (sql: string, params: any[] = []) => {
+    if (/^(BEGIN|COMMIT|ROLLBACK)$/.test(sql)) return { rows: [] };
+    if (sql.includes('FOR UPDATE OF s')) {
+      const [presented, graceSeconds] = params;
+      const rows = sessions.filter(session => !session.revoked_at && (
+        session.refresh_token_hash === presented ||
+        (session.previous_token_hash === presented && session.last_used_at.getTime() > Date.now() - graceSeconds * 1000)
+      ));
+      return {
+        rows: rows.map(session => ({
+          id: session.id, user_id: session.user_id, email: 'ada@example.com', role: 'User', first_name: 'Ada', last_name: 'Lovelace'
+        }))
+      };
+    }
+    if (sql.includes('WHERE previous_token_hash = $1 AND revoked_at IS NULL')) {
+      const reused = sessions.filter(session => session.previous_token_hash === params[0] && !session.revoked_at);
+      reused.forEach(session => { session.revoked_at = new Date(); });
+      return { rows: reused.map(session => ({ id: session.id, user_id: session.user_id })) };
+    }
+    if (sql.includes('SET previous_token_hash = refresh_token_hash')) {
+      const session = sessions.find(row => row.id === params[0])!;
+      session.previous_token_hash = session.refresh_token_hash;
+      session.refresh_token_hash = params[1];
+      session.last_used_at = new Date();
+      return { rows: [] };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  })
+});
+
+describe('SessionService.rotateSession', () => {
+  let sessions: SessionRow[];
+
+  beforeEach(() => {
+    sessions = [{
+      id: 'session-1',
+      user_id: 'user-1',
+      refresh_token_hash: hash('first-token'),
+      previous_token_hash: null,
+      last_used_at: new Date(),
+      revoked_at: null
+    }];
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    (pool.connect as jest.Mock).mockImplementation(async () => createFakeClient(sessions));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('issues a new token and stops accepting the old one as current', async () => {
+    const rotated = await SessionService.rotateSession('first-token');
+
+    expect(rotated?.session.sessionId).toBe('session-1');
+    expect(rotated?.session.refreshToken).not.toBe('first-token');
+    expect(sessions[0].refresh_token_hash).toBe(hash(rotated!.session.refreshToken));
+    expect(sessions[0].previous_token_hash).toBe(hash('first-token'));
+  });
+
+  it('keeps the faster tab signed in when a slower one refreshes with the same token', async () => {
+    const fastTab = await SessionService.rotateSession('first-token');
+    const slowTab = await SessionService.rotateSession('first-token');
+
+    expect(slowTab).not.toBeNull();
+    expect(await SessionService.rotateSession(fastTab!.session.refreshToken)).not.toBeNull();
+    expect(sessions[0].revoked_at).toBeNull();
+  });
+
+  it('revokes the session when a rotated-away token comes back after the grace window', async () => {
+    const rotated = await SessionService.rotateSession('first-token');
+    sessions[0].last_used_at = new Date(Date.now() - GRACE_MS - 1000);
+
+    expect(await SessionService.rotateSession('first-token')).toBeNull();
+    expect(sessions[0].revoked_at).not.toBeNull();
+    expect(await SessionService.rotateSession(rotated!.session.refreshToken)).toBeNull();
+  });
+
+  it('refuses an unknown token without touching any session', async () => {
+    expect(await SessionService.rotateSession('made-up-token')).toBeNull();
+    expect(sessions[0].revoked_at).toBeNull();
+  });
+});
+
+describe('SessionService revocation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('closes the event streams of a revoked session', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rowCount: 1, rows: [] });
+
+    await SessionService.revokeSession('session-1', 'user-1');
+
+    expect(EventService.closeSessions).toHaveBeenCalledWith(['session-1']);
+  });
+
+  it('closes the event streams of the session signed out by its refresh token', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rowCount: 1, rows: [{ id: 'session-1' }] });
+
+    await SessionService.revokeByRefreshToken('first-token');
+
+    expect(EventService.closeSessions).toHaveBeenCalledWith(['session-1']);
+  });
+
+  it('leaves streams open when the session was not found', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rowCount: 0, rows: [] });
+
+    await expect(SessionService.revokeSession('session-2', 'user-1')).rejects.toThrow('Session not found');
+    expect(EventService.closeSessions).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import { getNextOccurrence, normalizeRecurrencePattern, parseRecurrenceRule } from '../../src/utils/recurrence';
+import { ValidationError } from '../../src/utils/errors';
+
+const utc = (iso: string) => new Date(`${iso}T09:00:00Z`);
+const day = (date: Date | null) => date && date.toISOString().slice(0, 10);
+
+// Follows a series the way the scheduler does, one instance at a time
+const series = (pattern: string, start: string, length: number): (string | null)[] => {
+  const rule = parseRecurrenceRule(pattern);
+  const first = utc(start);
+  const dates: (string | null)[] = [start];
+  let current: Date | null = first;
+  for (let occurrence = 1; occurrence < length && current; occurrence++) {
+    current = getNextOccurrence(rule, current, occurrence, first);
+    dates.push(day(current));
+  }
+  return dates;
+};
+
+describe('recurrence rules', () => {
+  it('stores equivalent patterns in one canonical form', () => {
+    expect(normalizeRecurrencePattern('RRULE:freq=weekly;byday=FR,MO')).toBe('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,FR');
+    expect(normalizeRecurrencePattern(null)).toBeNull();
+  });
+
+  it('rejects parts outside the supported subset', () => {
+    expect(() => parseRecurrenceRule('FREQ=YEARLY')).toThrow(ValidationError);
+    expect(() => parseRecurrenceRule('FREQ=DAILY;BYDAY=MO')).toThrow(ValidationError);
+    expect(() => parseRecurrenceRule('FREQ=MONTHLY;UNTIL=20250101;COUNT=3')).toThrow(ValidationError);
+    expect(() => parseRecurrenceRule('FREQ=MONTHLY;UNTIL=20250231')).toThrow(ValidationError);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('steps daily by the interval', () => {
+    expect(series('FREQ=DAILY;INTERVAL=3', '2025-01-30', 3)).toEqual(['2025-01-30', '2025-02-02', '2025-02-05']);
+  });
+
+  it('walks the listed weekdays of every other week', () => {
+    // 2025-01-06 is a Monday
+    expect(series('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE', '2025-01-06', 4)).toEqual(['2025-01-06', '2025-01-08', '2025-01-20', '2025-01-22']);
+  });
+
+  it('keeps a monthly series on its first day after clamping into a short month', () => {
+    expect(series('FREQ=MONTHLY', '2025-01-31', 4)).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+  });
+
+  it('clamps an explicit month day the same way', () => {
+    expect(series('FREQ=MONTHLY;BYMONTHDAY=30', '2024-01-30', 3)).toEqual(['2024-01-30', '2024-02-29', '2024-03-30']);
+  });
+
+  it('ends after COUNT instances', () => {
+    expect(series('FREQ=DAILY;COUNT=2', '2025-01-01', 3)).toEqual(['2025-01-01', '2025-01-02', null]);
+  });
+
+  it('runs through the whole UNTIL day and no further', () => {
+    expect(series('FREQ=DAILY;UNTIL=20250102', '2025-01-01', 3)).toEqual(['2025-01-01', '2025-01-02', null]);
+  });
+
+  it('keeps the time of day', () => {
+    const next = getNextOccurrence(parseRecurrenceRule('FREQ=MONTHLY'), new Date('2025-03-15T17:45:00Z'), 1);
+    expect(next?.toISOString()).toBe('2025-04-15T17:45:00.000Z');
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  assertInitialStatusAllowed,
+  assertTransitionAllowed,
+  getAllowedTransitions,
+  getWorkflow
+} from '../../src/utils/statusTransitions';
+import { StatusTransitionError, ValidationError } from '../../src/utils/errors';
+import { TASK_STATUSES } from '../../src/types/task';
+import { UserRole } from '../../src/types';
+
+const ROLES: UserRole[] = ['Admin', 'Manager', 'User'];
+
+describe('status transitions', () => {
+  it('lets only admins reject a task', () => {
+    for (const from of TASK_STATUSES) {
+      expect(getAllowedTransitions(from, 'Manager')).not.toContain('Rejected');
+      expect(getAllowedTransitions(from, 'User')).not.toContain('Rejected');
+    }
+    expect(getAllowedTransitions('Pending Approval', 'Admin')).toContain('Rejected');
+    expect(() => assertTransitionAllowed('Pending Approval', 'Rejected', 'Manager')).toThrow(StatusTransitionError);
+  });
+
+  it('lets managers approve and request revisions', () => {
+    expect(getAllowedTransitions('Pending Approval', 'Manager')).toEqual(expect.arrayContaining(['To Do', 'In Progress', 'Needs Changes']));
+    expect(() => assertTransitionAllowed('Pending Approval', 'To Do', 'Manager')).not.toThrow();
+  });
+
+  it('keeps users from approving their own submissions', () => {
+    expect(getAllowedTransitions('Pending Approval', 'User')).toEqual([]);
+    expect(getAllowedTransitions('Needs Changes', 'User')).toEqual(['Pending Approval']);
+    expect(() => assertTransitionAllowed('Pending Approval', 'To Do', 'User')).toThrow(StatusTransitionError);
+  });
+
+  it('reports the allowed statuses when a move is refused', () => {
+    try {
+      assertTransitionAllowed('To Do', 'Completed', 'User');
+      fail('expected the move to be refused');
+    } catch (error) {
+      expect(error).toBeInstanceOf(StatusTransitionError);
+      expect((error as StatusTransitionError).allowedStatuses).toEqual(['In Progress']);
+    }
+  });
+
+  it('requires a reason to reopen a completed task, but not to archive it', () => {
+    for (const role of ROLES) {
+      expect(() => assertTransitionAllowed('Completed', 'In Progress', role)).toThrow(ValidationError);
+      expect(() => assertTransitionAllowed('Completed', 'In Progress', role, 'Found a regression')).not.toThrow();
+    }
+    expect(() => assertTransitionAllowed('Completed', 'Archived', 'Admin')).not.toThrow();
+  });
+
+  it('only lets reviewers create tasks that skip approval', () => {
+    expect(() => assertInitialStatusAllowed('To Do', 'User')).toThrow(StatusTransitionError);
+    expect(() => assertInitialStatusAllowed('Pending Approval', 'User')).not.toThrow();
+    expect(() => assertInitialStatusAllowed('To Do', 'Manager')).not.toThrow();
+  });
+
+  it('publishes a complete table for every role', () => {
+    for (const role of ROLES) {
+      expect(Object.keys(getWorkflow(role).transitions).sort()).toEqual([...TASK_STATUSES].sort());
+    }
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @fileOverview The single way AI flows call a model. Wraps the configured provider with
+ * per-flow timeouts, retries, an in-memory response cache and usage accounting, which is
+ * reported to the API for the signed-in user.
+ *
+ * - runAiFlow - Runs one structured-output request for a named flow.
+ * - AiFlowName - The flows that go through this client.
+ */
+
+import { createHash } from 'crypto';
+import { AiConfigurationError, getAiProvider, ProviderRequest } from '@/ai/providers';
+import { recordAiUsage } from '@/lib/api';
+import type { AiProviderName } from '@/types';
+
+export type AiFlowName = 'parseTaskFromText' | 'refineTaskDeadline' | 'breakdownTask';
+
+interface FlowSettings {
+  // Per attempt; a retry gets the same budget again
+  timeoutMs: number;
+  retries: number;
+  // 0 disables caching for the flow
+  cacheTtlMs: number;
+}
+
+const FLOW_SETTINGS: Record<AiFlowName, FlowSettings> = {
+  parseTaskFromText: { timeoutMs: 10000, retries: 1, cacheTtlMs: 10 * 60 * 1000 },
+  // Runs while the user waits for a deadline suggestion that is already usable without it
+  refineTaskDeadline: { timeoutMs: 8000, retries: 0, cacheTtlMs: 30 * 60 * 1000 },
+  // Longer answers than the other flows; "propose again" should not just return the cached plan
+  breakdownTask: { timeoutMs: 20000, retries: 1, cacheTtlMs: 0 },
+};
+
+const RETRY_BASE_DELAY_MS = 250;
+const MAX_CACHE_ENTRIES = 500;
+
+export interface AiFlowResult<T> {
+  output: T;
+  provider: AiProviderName;
+  model: string;
+  cached: boolean;
+}
+
+interface CacheEntry {
+  output: unknown;
+  expiresAt: number;
+}
+
+// Map keeps insertion order, so the first key is always the oldest entry
+const responseCache = new Map<string, CacheEntry>();
+
+export async function runAiFlow<T>(
+  flow: AiFlowName,
+  request: ProviderRequest<T>,
+  options?: { cookieHeader?: string }
+): Promise<AiFlowResult<T>> {
+  const settings = FLOW_SETTINGS[flow];
+  const provider = getAiProvider();
+  const startedAt = Date.now();
+  const report = (usage: { inputTokens?: number; outputTokens?: number; attempts: number; cached: boolean; error?: string }) =>
+    reportUsage(
+      {
+        flow,
+        provider: provider.name,
+        model: provider.model,
+        inputTokens: usage.inputTokens ?? 0,
+        outputTokens: usage.outputTokens ?? 0,
+        latencyMs: Date.now() - startedAt,
+        attempts: usage.attempts,
+        cached: usage.cached,
+        success: usage.error === undefined,
+        error: usage.error,
+      },
+      options?.cookieHeader
+    );
+
+  const cacheKey = settings.cacheTtlMs > 0 ? cacheKeyFor(flow, provider.name, provider.model, request) : null;
+  const hit = cacheKey ? readCache(cacheKey) : undefined;
+  if (hit !== undefined) {
+    report({ attempts: 0, cached: true });
+    return { output: request.schema.parse(hit), provider: provider.name, model: provider.model, cached: true };
+  }
+
+  let attempts = 0;
+  let lastError: unknown;
+  while (attempts <= settings.retries) {
+    if (attempts > 0) {
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+    }
+    attempts++;
+
+    try {
+      const response = await withTimeout(provider.generate(request), settings.timeoutMs, flow);
+      if (cacheKey) {
+        writeCache(cacheKey, response.output, settings.cacheTtlMs);
+      }
+      report({ inputTokens: response.inputTokens, outputTokens: response.outputTokens, attempts, cached: false });
+      return { output: response.output, provider: provider.name, model: provider.model, cached: false };
+    } catch (error) {
+      lastError = error;
+      if (error instanceof AiConfigurationError) break;
+    }
+  }
+
+  report({ attempts, cached: false, error: lastError instanceof Error ? lastError.message : String(lastError) });
+  throw lastError;
+}
+
+// Prompts carry everything that shapes the answer, so equal prompts on the same model can share one
+function cacheKeyFor(flow: AiFlowName, provider: AiProviderName, model: string, request: ProviderRequest<unknown>): string {
+  return createHash('sha256')
+    .update(JSON.stringify([flow, provider, model, request.system ?? '', request.prompt, request.temperature ?? null]))
+    .digest('hex');
+}
+
+function readCache(key: string): unknown {
+  const entry = responseCache.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt <= Date.now()) {
+    responseCache.delete(key);
+    return undefined;
+  }
+  return entry.output;
+}
+
+function writeCache(key: string, output: unknown, ttlMs: number): void {
+  responseCache.delete(key);
+  responseCache.set(key, { output, expiresAt: Date.now() + ttlMs });
+  while (responseCache.size > MAX_CACHE_ENTRIES) {
+    responseCache.delete(responseCache.keys().next().value as string);
+  }
+}
+
+// Accounting never holds up or fails the flow. Calls without a signed-in user, such as
+// runs from the Genkit developer UI, have no one to charge and are not recorded.
+function reportUsage(entry: Parameters<typeof recordAiUsage>[0], cookieHeader?: string): void {
+  if (!cookieHeader) return;
+  recordAiUsage(entry, { cookieHeader }).catch(error => {
+    console.warn(`Could not record AI usage for ${entry.flow}:`, error);
+  });
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, flow: AiFlowName): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${flow} timed out after ${ms}ms`)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
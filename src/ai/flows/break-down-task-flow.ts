@@ -0,0 +1,176 @@
+'use server';
+/**
+ * @fileOverview AI flow that proposes how to split a larger task into subtasks.
+ *
+ * The answer is only a proposal: the user reviews and edits it before anything is created.
+ * Each subtask gets an estimate in minutes and may wait on earlier subtasks (finish to
+ * start). Positions always point backwards, so whatever the model returns can be stored
+ * without forming a cycle. With the stub provider the steps come from the description's
+ * own bullet points or sentences.
+ *
+ * - breakDownTask - Proposes an ordered list of subtasks for a task.
+ * - BreakDownTaskInput - The input type for the breakDownTask function.
+ * - BreakDownTaskOutput - The return type for the breakDownTask function.
+ */
+
+import { z } from 'zod';
+import { runAiFlow } from '@/ai/client';
+
+const MAX_SUBTASKS = 15;
+const MIN_ESTIMATE_MINUTES = 5;
+// Matches the longest timer the API accepts on a task
+const MAX_ESTIMATE_MINUTES = 2880;
+const DEFAULT_ESTIMATE_MINUTES = 60;
+const WORKDAY_MINUTES = 8 * 60;
+
+const BreakDownTaskInputSchema = z.object({
+  title: z.string().min(3, 'Please provide a task title.'),
+  description: z.string().optional(),
+  deadline: z.string().optional().describe('ISO 8601 deadline of the whole task, if any.'),
+});
+
+export type BreakDownTaskInput = z.infer<typeof BreakDownTaskInputSchema>;
+
+const ProposedSubtaskSchema = z.object({
+  title: z.string().describe('Short imperative title, e.g. "Draft the API schema".'),
+  description: z.string().optional().describe('One or two sentences on what the step covers.'),
+  estimatedMinutes: z.number().describe('Working time the step needs, in minutes.'),
+  dependsOn: z
+    .array(z.number())
+    .describe('0-based positions of earlier subtasks that must be finished before this one can start.'),
+});
+
+const ProposalSchema = z.object({
+  subtasks: z.array(ProposedSubtaskSchema),
+  reasoning: z.string().describe('One or two sentences on how the work was split.'),
+});
+
+export type ProposedSubtask = z.infer<typeof ProposedSubtaskSchema>;
+
+export interface BreakDownTaskOutput {
+  subtasks: ProposedSubtask[];
+  reasoning: string;
+  totalMinutes: number;
+  // The longest chain of dependent steps; the least time the work takes with enough hands
+  criticalPathMinutes: number;
+  proposedByModel: boolean;
+}
+
+export async function breakDownTask(
+  input: BreakDownTaskInput,
+  options?: { cookieHeader?: string }
+): Promise<BreakDownTaskOutput> {
+  const { title, description, deadline } = BreakDownTaskInputSchema.parse(input);
+
+  const result = await runAiFlow(
+    'breakdownTask',
+    {
+      prompt: buildPrompt({ title, description: description || '', deadline: deadline || '' }),
+      schema: ProposalSchema,
+      temperature: 0.3,
+      stub: () => proposeLocally(title, description || ''),
+    },
+    options
+  );
+
+  const subtasks = sanitize(result.output.subtasks);
+  if (subtasks.length === 0) {
+    throw new Error('No subtasks could be proposed for this task.');
+  }
+
+  return {
+    subtasks,
+    reasoning: result.output.reasoning,
+    totalMinutes: subtasks.reduce((sum, subtask) => sum + subtask.estimatedMinutes, 0),
+    criticalPathMinutes: criticalPath(subtasks),
+    proposedByModel: result.provider !== 'stub',
+  };
+}
+
+// Models occasionally point forwards, repeat a position or return odd estimates
+function sanitize(subtasks: ProposedSubtask[]): ProposedSubtask[] {
+  return subtasks
+    .filter(subtask => subtask.title.trim())
+    .slice(0, MAX_SUBTASKS)
+    .map((subtask, index) => ({
+      title: subtask.title.trim().slice(0, 255),
+      description: subtask.description?.trim() || undefined,
+      estimatedMinutes: Math.min(
+        Math.max(Math.round(subtask.estimatedMinutes) || DEFAULT_ESTIMATE_MINUTES, MIN_ESTIMATE_MINUTES),
+        MAX_ESTIMATE_MINUTES
+      ),
+      dependsOn: [...new Set(subtask.dependsOn.filter(position => Number.isInteger(position) && position >= 0 && position < index))]
+        .sort((a, b) => a - b),
+    }));
+}
+
+function criticalPath(subtasks: ProposedSubtask[]): number {
+  const finish: number[] = [];
+  subtasks.forEach((subtask, index) => {
+    const start = Math.max(0, ...subtask.dependsOn.map(position => finish[position]));
+    finish[index] = start + subtask.estimatedMinutes;
+  });
+  return Math.max(0, ...finish);
+}
+
+const BULLET_PATTERN = /^\s*(?:[-*•]|\d+[.)])\s+/;
+const DURATION_PATTERN = /\(?\s*~?(\d+(?:\.\d+)?)\s*(minutes?|mins?|m|hours?|hrs?|h|days?|d)\b\s*\)?/i;
+
+// Bullet or numbered lines are taken as steps in order; otherwise sentences and "then" clauses
+// are. A description that yields fewer than two steps gets a plain plan / do / review split.
+function proposeLocally(title: string, description: string): z.infer<typeof ProposalSchema> {
+  const lines = description.split('\n').map(line => line.trim()).filter(Boolean);
+  const bulletLines = lines.filter(line => BULLET_PATTERN.test(line));
+
+  let steps: string[];
+  let reasoning: string;
+  if (bulletLines.length >= 2) {
+    steps = bulletLines.map(line => line.replace(BULLET_PATTERN, ''));
+    reasoning = 'Each listed item became a subtask, in the order given.';
+  } else {
+    steps = description
+      .split(/(?<=[.!?])\s+|;|\n|,?\s+\b(?:and )?then\b\s*/i)
+      .map(step => step.trim().replace(/^(?:and\s+)?then\s+/i, '').replace(/[.!?]+$/, ''))
+      .filter(step => step.split(/\s+/).length >= 2);
+    reasoning = 'Each sentence or "then" step of the description became a subtask, in the order given.';
+  }
+
+  if (steps.length < 2) {
+    steps = [`Plan: ${title}`, `Carry out: ${title}`, `Review and hand over: ${title}`];
+    reasoning = 'The description has no separate steps, so the work was split into planning, doing and review.';
+  }
+
+  return {
+    subtasks: steps.slice(0, MAX_SUBTASKS).map((step, index) => {
+      const duration = step.match(DURATION_PATTERN);
+      const cleaned = duration ? step.replace(duration[0], ' ').replace(/\s+/g, ' ').trim() : step;
+      return {
+        title: capitalize(cleaned),
+        estimatedMinutes: duration ? toMinutes(Number(duration[1]), duration[2]) : DEFAULT_ESTIMATE_MINUTES,
+        dependsOn: index > 0 ? [index - 1] : [],
+      };
+    }),
+    reasoning: `${reasoning} Steps run one after another; estimates are ${DEFAULT_ESTIMATE_MINUTES} minutes unless a duration was written next to the step.`,
+  };
+}
+
+function toMinutes(amount: number, unit: string): number {
+  const normalized = unit.toLowerCase();
+  if (normalized.startsWith('d')) return Math.round(amount * WORKDAY_MINUTES);
+  if (normalized.startsWith('h')) return Math.round(amount * 60);
+  return Math.round(amount);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function buildPrompt(input: { title: string; description: string; deadline: string }): string {
+  return `You are helping a team plan a larger piece of work. Split the task below into between 2 and ${MAX_SUBTASKS} concrete subtasks that together complete it.
+
+Task title: ${input.title}
+Task description: ${input.description || '(none)'}
+Deadline for the whole task: ${input.deadline || '(none)'}
+
+List the subtasks in the order they would normally be done. For each give a short imperative title, an optional one-sentence description, an estimate of the working time in minutes, and in dependsOn the 0-based positions of earlier subtasks that must be finished before it can start. Only refer to earlier positions. Leave dependsOn empty for steps that can start straight away, so independent work can run in parallel. Finish with one or two sentences of reasoning.`;
+}
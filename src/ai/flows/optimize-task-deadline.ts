@@ -1,48 +1,153 @@
 'use server';
 
 /**
- * @fileOverview AI flow to suggest an optimal deadline for a task based on its details.
+ * @fileOverview Suggests a deadline for a task from how long comparable completed tasks took.
  *
- * - optimizeTaskDeadline - A function that suggests an optimal deadline for a given task description.
+ * - optimizeTaskDeadline - Estimates a deadline, a likely range around it and an explanation.
  * - OptimizeTaskDeadlineInput - The input type for the optimizeTaskDeadline function.
  * - OptimizeTaskDeadlineOutput - The return type for the optimizeTaskDeadline function.
+ *
+ * The estimate comes from the API's history-based estimator and needs no model. When a
+ * model provider is configured, the model reads the description and may move the date
+ * within the estimated range; it can never move it outside, and if it fails or is slow the
+ * statistical date stands.
  */
 
 import { z } from 'zod';
+import { runAiFlow } from '@/ai/client';
+import { estimateTaskDeadline } from '@/lib/api';
 
-// Input schema for the task description
 const OptimizeTaskDeadlineInputSchema = z.object({
   taskDescription: z
     .string()
     .min(10, 'Please provide a more detailed task description.')
     .describe('Detailed description of the task for which a deadline is needed.'),
+  title: z.string().optional().describe('Task title; matched against the titles of completed tasks.'),
+  priority: z.enum(['Low', 'Medium', 'High']).optional(),
+  assigneeId: z.string().optional().describe("Whose open workload to take into account."),
+  tags: z.array(z.string()).optional(),
 });
 
 export type OptimizeTaskDeadlineInput = z.infer<typeof OptimizeTaskDeadlineInputSchema>;
 
-// Output schema including suggested deadline and reasoning
 const OptimizeTaskDeadlineOutputSchema = z.object({
   suggestedDeadline: z
     .string()
     .describe('The suggested deadline for the task in ISO 8601 format (YYYY-MM-DDTHH:mm:ss.sssZ).'),
+  earliestDeadline: z.string(),
+  latestDeadline: z.string(),
+  // Share of comparable past tasks that finished within earliestDeadline..latestDeadline
+  intervalLevel: z.number(),
+  // 0-1, from how many comparable completed tasks back the estimate
+  confidence: z.number(),
+  sampleSize: z.number(),
+  // The assignee's open work; null when no assignee was given
+  workload: z.object({
+    openTasks: z.number(),
+    completedLast90Days: z.number(),
+    delayHours: z.number(),
+  }).nullable(),
   reasoning: z
     .string()
-    .describe('The reasoning behind the suggested deadline, considering the task description.'),
+    .describe('The reasoning behind the suggested deadline.'),
+  explanation: z.array(z.string()),
+  refinedByModel: z.boolean(),
 });
 
 export type OptimizeTaskDeadlineOutput = z.infer<typeof OptimizeTaskDeadlineOutputSchema>;
 
-// Export a callable function
 export async function optimizeTaskDeadline(
-  input: OptimizeTaskDeadlineInput
+  input: OptimizeTaskDeadlineInput,
+  options?: { cookieHeader?: string }
 ): Promise<OptimizeTaskDeadlineOutput> {
-  // Simple deadline calculation based on description length
-  const descriptionLength = input.taskDescription.length;
-  const daysToAdd = Math.min(Math.max(Math.ceil(descriptionLength / 100), 1), 14); // 1-14 days
-  const suggestedDeadline = new Date(Date.now() + daysToAdd * 24 * 60 * 60 * 1000).toISOString();
-
-  return {
-    suggestedDeadline,
-    reasoning: `Based on the task description length (${descriptionLength} characters), a deadline of ${daysToAdd} days is suggested to ensure adequate time for completion.`
+  const { taskDescription, title, priority, assigneeId, tags } = OptimizeTaskDeadlineInputSchema.parse(input);
+
+  const estimate = await estimateTaskDeadline(
+    { title, description: taskDescription, priority, assigneeId, tags },
+    options
+  );
+
+  const result: OptimizeTaskDeadlineOutput = {
+    suggestedDeadline: estimate.suggestedDeadline,
+    earliestDeadline: estimate.earliestDeadline,
+    latestDeadline: estimate.latestDeadline,
+    intervalLevel: estimate.intervalLevel,
+    confidence: estimate.confidence,
+    sampleSize: estimate.basis.sampleSize,
+    workload: estimate.workload,
+    reasoning: estimate.explanation.join(' '),
+    explanation: estimate.explanation,
+    refinedByModel: false,
   };
+
+  try {
+    const refinement = await runAiFlow(
+      'refineTaskDeadline',
+      {
+        prompt: buildRefinementPrompt({
+          taskDescription,
+          title: title || '',
+          suggestedDeadline: estimate.suggestedDeadline,
+          earliestDeadline: estimate.earliestDeadline,
+          latestDeadline: estimate.latestDeadline,
+          explanation: estimate.explanation.join(' '),
+        }),
+        schema: RefinementSchema,
+        temperature: 0.1,
+        // Without a model the statistical estimate stands as it is
+        stub: () => ({ deadline: estimate.suggestedDeadline, reasoning: 'Kept the statistical estimate.' }),
+      },
+      options
+    );
+    if (refinement.provider === 'stub') {
+      return result;
+    }
+    const refined = refinement.output;
+    const refinedTime = new Date(refined.deadline).getTime();
+    if (isNaN(refinedTime)) {
+      return result;
+    }
+
+    // The model only gets to pick a point inside the range the history supports
+    const clamped = Math.min(
+      Math.max(refinedTime, new Date(estimate.earliestDeadline).getTime()),
+      new Date(estimate.latestDeadline).getTime()
+    );
+    const note = `Adjusted after reading the description: ${refined.reasoning}`;
+    return {
+      ...result,
+      suggestedDeadline: new Date(clamped).toISOString(),
+      reasoning: `${result.reasoning} ${note}`,
+      explanation: [...result.explanation, note],
+      refinedByModel: true,
+    };
+  } catch (error) {
+    console.warn('Deadline refinement by the model failed; keeping the statistical estimate:', error);
+    return result;
+  }
+}
+
+const RefinementSchema = z.object({
+  deadline: z.string().describe('The chosen deadline in ISO 8601 format, between the earliest and latest deadlines.'),
+  reasoning: z.string().describe('One sentence on why the deadline was moved or kept.'),
+});
+
+function buildRefinementPrompt(input: {
+  taskDescription: string;
+  title: string;
+  suggestedDeadline: string;
+  earliestDeadline: string;
+  latestDeadline: string;
+  explanation: string;
+}): string {
+  return `You are helping plan a task. A statistical estimate based on how long similar completed tasks took has already been made:
+
+Suggested deadline: ${input.suggestedDeadline}
+Likely range: ${input.earliestDeadline} to ${input.latestDeadline}
+How it was worked out: ${input.explanation}
+
+Task title: ${input.title}
+Task description: ${input.taskDescription}
+
+Choose a deadline between the earliest and latest dates. Keep the suggested deadline unless the description clearly makes the task bigger or smaller than a typical one (for example several deliverables, external dependencies, or a one-line change). Answer with the deadline in ISO 8601 format and one sentence of reasoning.`;
 }
@@ -2,40 +2,51 @@
 /**
  * @fileOverview AI flow to parse structured task details from a natural language string.
  *
- * This file defines a Genkit AI flow that takes a user's textual description of a task
+ * This file defines an AI flow that takes a user's textual description of a task
  * and transforms it into a structured JSON object. It is designed to extract key details
  * such as a title, description, deadline, priority, and tags.
  *
+ * The model is only trusted for wording. Deadlines are resolved by the local date parser
+ * from the phrase the model extracted (or from the raw text), on the user's time zone;
+ * "@name" mentions and "#tags" are matched against real users and projects. With the stub
+ * provider, or when the model fails, the whole parse runs locally.
+ *
  * @see parseTaskFromText - The primary exportable function for this flow.
  * @see ParseTaskFromTextInput - The input type for the flow.
  * @see ParseTaskFromTextOutput - The return type for the flow.
  */
 
-import { ai } from '@/ai/genkit';
-import { gemini15Flash } from '@genkit-ai/googleai'; // Explicitly import a model for better control
 import { z } from 'zod';
+import { runAiFlow } from '@/ai/client';
+import { fetchProjects } from '@/lib/api';
+import { userAPI } from '@/lib/auth-api';
+import { isValidTimeZone, parseNaturalDeadline } from '@/lib/natural-dates';
+import type { Project, User } from '@/types';
 
 // Assuming you have a shared type definition like this somewhere in your project
 // e.g., in a file like '@/types/index.ts'
 export type TaskPriority = 'Low' | 'Medium' | 'High';
 
 
-// The input remains the same: a single string from the user.
 const ParseTaskFromTextInputSchema = z.object({
   naturalLanguageInput: z
     .string()
     .min(5, 'Please provide a more detailed task description.')
     .describe('The natural language input from a user describing a task.'),
+  timeZone: z
+    .string()
+    .optional()
+    .describe('IANA time zone of the user, e.g. "Europe/Berlin"; relative dates are resolved on its calendar. Defaults to UTC.'),
 });
 export type ParseTaskFromTextInput = z.infer<typeof ParseTaskFromTextInputSchema>;
 
 /**
- * ENHANCED OUTPUT SCHEMA:
- * - `deadlineNaturalLanguage` is added to capture the original text for the deadline.
- * This allows for deterministic parsing on the server using a date library.
- * - `tags` array is added to capture project names or labels (e.g., #website).
+ * What the model is asked for:
+ * - `deadlineNaturalLanguage` captures the original text for the deadline, which the
+ * local parser turns into the actual date.
+ * - `tags` array captures project names or labels (e.g., #website).
  */
-const ParseTaskFromTextOutputSchema = z.object({
+const ExtractedTaskSchema = z.object({
   title: z
     .string()
     .optional()
@@ -75,63 +86,250 @@ const ParseTaskFromTextOutputSchema = z.object({
       'Brief reasoning if the AI had to make significant assumptions (e.g., calculating a date).'
     ),
 });
+type ExtractedTask = z.infer<typeof ExtractedTaskSchema>;
+
+const ParseTaskFromTextOutputSchema = ExtractedTaskSchema.extend({
+  // 'parser' when the deadline came from the local date parser, 'model' when only the model found one
+  deadlineSource: z.enum(['parser', 'model']).optional(),
+  timeZone: z.string(),
+  assigneeId: z.string().optional(),
+  assigneeName: z.string().optional(),
+  projectId: z.string().optional(),
+  projectName: z.string().optional(),
+  // "@name" mentions that matched no user, or more than one
+  unresolvedMentions: z.array(z.string()).optional(),
+  parsedByModel: z.boolean(),
+});
 export type ParseTaskFromTextOutput = z.infer<typeof ParseTaskFromTextOutputSchema>;
 
+const HASHTAG_PATTERN = /#([\p{L}\p{N}_-]+)/gu;
+const MENTION_PATTERN = /(?:\bassign(?:ed)?(?: it)? to\s+)?@([\p{L}\p{N}_.-]*[\p{L}\p{N}_])/giu;
+const HIGH_PRIORITY_PATTERN = /\b(?:urgent(?:ly)?|asap|critical|immediately|high[ -]priority|top priority|important)\b/i;
+const LOW_PRIORITY_PATTERN = /\b(?:low[ -]priority|no rush|whenever|someday|not urgent)\b/i;
+const MEDIUM_PRIORITY_PATTERN = /\b(?:medium|normal)[ -]priority\b/i;
+
 /**
  * Parses a natural language string into a structured task object.
  *
- * @param {ParseTaskFromTextInput} input The object containing the natural language string.
+ * @param {ParseTaskFromTextInput} input The natural language string and the user's time zone.
+ * @param options.cookieHeader Forwarded to the API when resolving users and projects from a server action.
  * @returns {Promise<ParseTaskFromTextOutput>} A promise that resolves to the structured task data.
  * @example
  * const task = await parseTaskFromText({
- * naturalLanguageInput: "Remind me to deploy the #website update next Friday, it's a high priority."
+ *   naturalLanguageInput: "Deploy the #website update next Friday, assign to @maria, it's a high priority.",
+ *   timeZone: "Europe/Berlin",
  * });
  * console.log(task);
- * // Expected output (assuming today is around June 13, 2025):
+ * // Expected output (on Friday, June 13, 2025):
  * // {
  * //   title: "Deploy website update",
- * //   description: "Deploy the website update.",
- * //   deadline: "2025-06-20T23:59:59.000Z",
+ * //   deadline: "2025-06-20T21:59:59.000Z",
  * //   deadlineNaturalLanguage: "next Friday",
+ * //   deadlineSource: "parser",
  * //   priority: "High",
  * //   tags: ["website"],
- * //   reasoning: "Assumed 'next Friday' refers to the upcoming Friday relative to the current date. Set default time to end-of-day."
+ * //   projectId: "3", projectName: "Website",
+ * //   assigneeId: "7", assigneeName: "Maria Lopez",
+ * //   ...
  * // }
  */
 export async function parseTaskFromText(
-  input: ParseTaskFromTextInput
+  input: ParseTaskFromTextInput,
+  options?: { cookieHeader?: string }
 ): Promise<ParseTaskFromTextOutput> {
-  // The Genkit flow handles the core logic.
-  // You could add pre-processing or post-processing steps here if needed.
-  // For example, using a library like `date-fns` to parse the `deadlineNaturalLanguage`
-  // field from the output would be more robust than relying solely on the AI's date calculation.
-  return parseTaskFromTextFlow(input);
+  const { naturalLanguageInput, timeZone: requestedTimeZone } = ParseTaskFromTextInputSchema.parse(input);
+  const timeZone = requestedTimeZone && isValidTimeZone(requestedTimeZone) ? requestedTimeZone : 'UTC';
+  const now = new Date();
+
+  const local = extractLocally(naturalLanguageInput);
+
+  let extracted: ExtractedTask | null = null;
+  let parsedByModel = false;
+  try {
+    const result = await runAiFlow(
+      'parseTaskFromText',
+      {
+        prompt: buildParsePrompt(naturalLanguageInput, formatInTimeZone(now, timeZone), timeZone),
+        schema: ExtractedTaskSchema,
+        // Low temperature for parsing tasks makes the output more predictable
+        temperature: 0.1,
+        stub: () => ({
+          title: local.title,
+          description: naturalLanguageInput.trim(),
+          priority: local.priority,
+          tags: local.tags,
+        }),
+      },
+      options
+    );
+    extracted = result.output;
+    parsedByModel = result.provider !== 'stub';
+  } catch (error) {
+    console.warn('Task parsing by the model failed; parsing locally instead:', error);
+  }
+
+  const notes: string[] = extracted?.reasoning ? [extracted.reasoning] : [];
+
+  // The extracted phrase is the most precise source; the full text catches phrases the model missed
+  const resolved =
+    (extracted?.deadlineNaturalLanguage && parseNaturalDeadline(extracted.deadlineNaturalLanguage, { now, timeZone })) ||
+    parseNaturalDeadline(naturalLanguageInput, { now, timeZone });
+  let deadline: string | undefined;
+  let deadlineSource: ParseTaskFromTextOutput['deadlineSource'];
+  if (resolved) {
+    deadline = resolved.deadline;
+    deadlineSource = 'parser';
+    notes.push(`Read "${resolved.phrase}" as ${formatInTimeZone(new Date(resolved.deadline), timeZone)}.`);
+  } else if (extracted?.deadline && !isNaN(new Date(extracted.deadline).getTime())) {
+    deadline = new Date(extracted.deadline).toISOString();
+    deadlineSource = 'model';
+  }
+
+  const tags = Array.from(new Set([...local.tags, ...(extracted?.tags ?? []).map(tag => tag.replace(/^#/, ''))]));
+  const references = await resolveReferences(local.mentions, tags, options);
+  if (references.unresolvedMentions.length > 0) {
+    notes.push(`Could not match ${references.unresolvedMentions.join(', ')} to a single user.`);
+  }
+
+  return {
+    title: extracted?.title || local.title,
+    description: extracted?.description || naturalLanguageInput.trim(),
+    deadline,
+    deadlineNaturalLanguage: extracted?.deadlineNaturalLanguage || resolved?.phrase,
+    deadlineSource,
+    timeZone,
+    priority: extracted?.priority ?? local.priority,
+    tags,
+    assigneeId: references.assignee?.id,
+    assigneeName: references.assignee ? `${references.assignee.firstName} ${references.assignee.lastName}`.trim() : undefined,
+    projectId: references.project?.id,
+    projectName: references.project?.name,
+    unresolvedMentions: references.unresolvedMentions.length > 0 ? references.unresolvedMentions : undefined,
+    reasoning: notes.length > 0 ? notes.join(' ') : undefined,
+    parsedByModel,
+  };
 }
 
-const parseTaskPrompt = ai.definePrompt({
-  name: 'parseTaskFromTextPrompt',
-  input: { schema: ParseTaskFromTextInputSchema },
-  output: { schema: ParseTaskFromTextOutputSchema },
-
-  // ENHANCED PROMPT:
-  // - Added a few-shot example to improve reliability.
-  // - Instructions updated for the new `tags` and `deadlineNaturalLanguage` fields.
-  // - Explicitly specifying the model and a low temperature for more deterministic results.
-  model: gemini15Flash,
-  config: {
-    temperature: 0.1, // Low temperature for parsing tasks makes the output more predictable.
-  },
-  prompt: `You are an intelligent assistant that helps parse natural language into structured task information. Your goal is to extract key details from the user's input.
-Today's date is ${new Date().toISOString()}. Use this to calculate relative dates.
+// Everything that can be read from the text without a model
+function extractLocally(text: string): {
+  title: string;
+  priority?: TaskPriority;
+  tags: string[];
+  mentions: string[];
+} {
+  const tags = Array.from(text.matchAll(HASHTAG_PATTERN), match => match[1]);
+  const mentions = Array.from(text.matchAll(MENTION_PATTERN), match => match[1]);
+
+  const priority: TaskPriority | undefined = HIGH_PRIORITY_PATTERN.test(text)
+    ? 'High'
+    : LOW_PRIORITY_PATTERN.test(text)
+    ? 'Low'
+    : MEDIUM_PRIORITY_PATTERN.test(text)
+    ? 'Medium'
+    : undefined;
+
+  const deadlinePhrase = parseNaturalDeadline(text)?.phrase;
+  let title = text.split(/(?<=[.!?])\s|\n/)[0];
+  if (deadlinePhrase) {
+    title = title.replace(new RegExp(`\\b(?:(?:by|on|due|before|until)\\s+)?${escapeRegExp(deadlinePhrase)}`, 'i'), '');
+  }
+  title = title
+    .replace(MENTION_PATTERN, '')
+    .replace(HASHTAG_PATTERN, '$1')
+    .replace(new RegExp(`,?\\s*(?:it'?s\\s+)?(?:a\\s+)?${HIGH_PRIORITY_PATTERN.source}`, 'gi'), '')
+    .replace(new RegExp(`,?\\s*(?:it'?s\\s+)?(?:a\\s+)?${LOW_PRIORITY_PATTERN.source}`, 'gi'), '')
+    .replace(/^\s*(?:please\s+)?(?:remind me to|i need to|we need to|need to|todo:?)\s+/i, '')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s,;:.!?-]+$/, '')
+    .trim();
+  if (title.length > 100) {
+    title = `${title.slice(0, 97).trimEnd()}...`;
+  }
+
+  return {
+    title: title ? title.charAt(0).toUpperCase() + title.slice(1) : text.trim().slice(0, 100),
+    priority,
+    tags,
+    mentions,
+  };
+}
+
+async function resolveReferences(
+  mentions: string[],
+  tags: string[],
+  options?: { cookieHeader?: string }
+): Promise<{ assignee?: User; project?: Project; unresolvedMentions: string[] }> {
+  const [users, projects] = await Promise.all([
+    mentions.length > 0 ? userAPI.getAllUsers(options?.cookieHeader).catch(logLookupFailure<User>('users')) : [],
+    tags.length > 0 ? fetchProjects(options).catch(logLookupFailure<Project>('projects')) : [],
+  ]);
+
+  let assignee: User | undefined;
+  const unresolvedMentions: string[] = [];
+  for (const mention of mentions) {
+    const matches = users.filter(user => userHandles(user).includes(normalizeHandle(mention)));
+    if (matches.length === 1 && !assignee) {
+      assignee = matches[0];
+    } else if (matches.length !== 1) {
+      unresolvedMentions.push(`@${mention}`);
+    }
+  }
+
+  const project = tags
+    .map(tag => projects.find(candidate => normalizeHandle(candidate.name) === normalizeHandle(tag)))
+    .find((match): match is Project => match !== undefined);
+
+  return { assignee, project, unresolvedMentions };
+}
+
+// A mention can name someone by first name, full name or the start of their email address
+function userHandles(user: User): string[] {
+  const first = normalizeHandle(user.firstName || '');
+  const full = normalizeHandle(`${user.firstName || ''}${user.lastName || ''}`);
+  const emailName = normalizeHandle(user.email.split('@')[0]);
+  return [first, full, emailName].filter(Boolean);
+}
+
+function normalizeHandle(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function logLookupFailure<T>(what: string) {
+  return (error: unknown): T[] => {
+    console.warn(`Could not load ${what} to resolve task references:`, error);
+    return [];
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function formatInTimeZone(date: Date, timeZone: string): string {
+  return date.toLocaleString('en-US', {
+    timeZone,
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
+
+function buildParsePrompt(naturalLanguageInput: string, currentDateTime: string, timeZone: string): string {
+  return `You are an intelligent assistant that helps parse natural language into structured task information. Your goal is to extract key details from the user's input.
+It is currently ${currentDateTime} in the user's time zone (${timeZone}). Use this to calculate relative dates.
 
 Extract the following information:
-- title: A concise title for the task. If not explicitly stated, create a short summary.
+- title: A concise title for the task. If not explicitly stated, create a short summary. Leave out the deadline, @mentions and priority words.
 - description: A more detailed description. If the input is short, this can be the same as the title or a slightly expanded version.
-- deadlineNaturalLanguage: Extract the verbatim phrase related to the deadline (e.g., "tomorrow", "in 3 days", "next Monday").
-- deadline: If a date or time is mentioned, convert it to an ISO 8601 format (YYYY-MM-DDTHH:mm:ss.sssZ). Use the current date for calculations. If no time is specified, default to the end of that day (23:59:59).
+- deadlineNaturalLanguage: Extract the verbatim phrase related to the deadline (e.g., "tomorrow", "in 3 days", "next Monday", "EOD Friday").
+- deadline: If a date or time is mentioned, convert it to an ISO 8601 format (YYYY-MM-DDTHH:mm:ss.sssZ). Use the current date for calculations. If no time is specified, default to the end of that day (23:59:59) in the user's time zone.
 - priority: Suggest 'Low', 'Medium', or 'High' if mentioned or implied by urgency.
-- tags: Extract any tags or project names, which are often prefixed with a '#'.
-- reasoning: If you make significant assumptions (e.g., calculating a date), briefly state them.
+- tags: Extract any tags or project names, which are often prefixed with a '#'. Leave out the '#'.
+- reasoning: If you make significant assumptions, briefly state them.
 
 If the input is too vague to be a task, return a title like "Vague task input" and a description asking for more details. Focus on extracting information and do not invent details.
 
@@ -146,35 +344,10 @@ Example Output:
   "deadline": "2025-06-18T23:59:59.000Z",
   "priority": "High",
   "tags": ["finance"],
-  "reasoning": "Inferred 'High' priority from the phrase 'very urgent'. Calculated 'next Wednesday' based on the current date of June 13, 2025. Defaulted time to the end of the day."
+  "reasoning": "Inferred 'High' priority from the phrase 'very urgent'."
 }
 
 ---
-User input: {{{naturalLanguageInput}}}
-`,
-});
-
-const parseTaskFromTextFlow = ai.defineFlow(
-  {
-    name: 'parseTaskFromTextFlow',
-    inputSchema: ParseTaskFromTextInputSchema,
-    outputSchema: ParseTaskFromTextOutputSchema,
-  },
-  /**
-   * The core logic for the flow.
-   * It calls the AI prompt and handles the response.
-   */
-  async (input): Promise<ParseTaskFromTextOutput> => {
-    const { output } = await parseTaskPrompt(input);
-
-    // FIX: The output from a prompt can be null if the model fails to respond.
-    // We must handle this case to satisfy the flow's output schema, which does not allow null.
-    // Throwing an error is the cleanest way to signal a failure.
-    if (!output) {
-      throw new Error('The AI model failed to produce a valid output for the task.');
-    }
-
-    // Now TypeScript knows that `output` is not null and matches ParseTaskFromTextOutput.
-    return output;
-  }
-);
\ No newline at end of file
+User input: ${naturalLanguageInput}
+`;
+}
@@ -1,12 +1,18 @@
 import { genkit } from 'genkit';
 import { googleAI } from '@genkit-ai/googleai';
 
+export const DEFAULT_GEMINI_MODEL = 'googleai/gemini-2.0-flash';
+
+// Only used for flow registration and the Gemini provider; which provider the flows
+// actually run on is decided in ./providers
 export const ai = genkit({
-  plugins: [
-    googleAI({
-      apiKey: process.env.GOOGLE_AI_API_KEY,
-      // region: 'us-central1', // Optional, if your project requires a region
-    }),
-  ],
-  model: process.env.GENKIT_MODEL || 'googleai/gemini-2.0-flash',
+  plugins: process.env.GOOGLE_AI_API_KEY
+    ? [
+        googleAI({
+          apiKey: process.env.GOOGLE_AI_API_KEY,
+          // region: 'us-central1', // Optional, if your project requires a region
+        }),
+      ]
+    : [],
+  model: process.env.GENKIT_MODEL || DEFAULT_GEMINI_MODEL,
 });
@@ -0,0 +1,172 @@
+/**
+ * @fileOverview The model providers the AI flows can run on, picked by AI_PROVIDER:
+ *
+ * - gemini - Google's models through Genkit (GOOGLE_AI_API_KEY, GENKIT_MODEL).
+ * - openai-compatible - Any server speaking the OpenAI chat completions API, such as a local
+ *   Ollama, vLLM or LM Studio instance (AI_BASE_URL, AI_MODEL, optional AI_API_KEY).
+ * - stub - No model at all; each flow answers with its own deterministic rules. Used in CI,
+ *   air-gapped setups and whenever no provider is configured.
+ */
+
+import { z } from 'zod';
+import { toJsonSchema } from 'genkit/schema';
+import { ai, DEFAULT_GEMINI_MODEL } from '@/ai/genkit';
+import type { AiProviderName } from '@/types';
+
+const AI_PROVIDERS: AiProviderName[] = ['gemini', 'openai-compatible', 'stub'];
+
+export interface ProviderRequest<T> {
+  system?: string;
+  prompt: string;
+  schema: z.ZodType<T>;
+  temperature?: number;
+  // The flow's rule-based answer, used by the stub provider
+  stub: () => T;
+}
+
+export interface ProviderResponse<T> {
+  output: T;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AiProvider {
+  readonly name: AiProviderName;
+  readonly model: string;
+  generate<T>(request: ProviderRequest<T>): Promise<ProviderResponse<T>>;
+}
+
+// Failures that asking again will not fix, such as missing settings or bad credentials; not retried
+export class AiConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiConfigurationError';
+  }
+}
+
+export class GeminiProvider implements AiProvider {
+  readonly name = 'gemini' as const;
+
+  constructor(readonly model: string) {}
+
+  async generate<T>(request: ProviderRequest<T>): Promise<ProviderResponse<T>> {
+    const response = await ai.generate({
+      model: this.model,
+      system: request.system,
+      prompt: request.prompt,
+      output: { schema: request.schema },
+      config: { temperature: request.temperature },
+    });
+
+    if (response.output == null) {
+      throw new Error('The model returned no structured output');
+    }
+    return {
+      output: request.schema.parse(response.output),
+      inputTokens: response.usage?.inputTokens ?? 0,
+      outputTokens: response.usage?.outputTokens ?? 0,
+    };
+  }
+}
+
+export class OpenAICompatibleProvider implements AiProvider {
+  readonly name = 'openai-compatible' as const;
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly model: string,
+    private readonly apiKey?: string
+  ) {}
+
+  async generate<T>(request: ProviderRequest<T>): Promise<ProviderResponse<T>> {
+    const schema = JSON.stringify(toJsonSchema({ schema: request.schema }));
+    // Not every compatible server enforces a schema, so it is spelled out in the instructions too
+    const system = [
+      request.system,
+      `Respond with a single JSON object and nothing else. It must match this JSON schema:\n${schema}`,
+    ].filter(Boolean).join('\n\n');
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: request.temperature,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: request.prompt },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      const message = `${this.baseUrl} answered ${response.status}: ${body.slice(0, 500)}`;
+      // Bad credentials or an unknown model fail the same way every time
+      throw response.status === 401 || response.status === 403 || response.status === 404
+        ? new AiConfigurationError(message)
+        : new Error(message);
+    }
+
+    const body = await response.json();
+    const content: string | undefined = body.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('The model returned an empty answer');
+    }
+    // Some local models wrap JSON in a Markdown fence despite the instructions
+    const json = content.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+
+    return {
+      output: request.schema.parse(JSON.parse(json)),
+      inputTokens: body.usage?.prompt_tokens ?? 0,
+      outputTokens: body.usage?.completion_tokens ?? 0,
+    };
+  }
+}
+
+export class StubProvider implements AiProvider {
+  readonly name = 'stub' as const;
+  readonly model = 'rules';
+
+  async generate<T>(request: ProviderRequest<T>): Promise<ProviderResponse<T>> {
+    return { output: request.schema.parse(request.stub()), inputTokens: 0, outputTokens: 0 };
+  }
+}
+
+let providerInstance: AiProvider | null = null;
+
+// Without AI_PROVIDER, Gemini is used when its key is set, a compatible endpoint when
+// AI_BASE_URL is set, and the stub otherwise
+export function getAiProvider(): AiProvider {
+  if (!providerInstance) {
+    providerInstance = createProvider();
+  }
+  return providerInstance;
+}
+
+function createProvider(): AiProvider {
+  const name = (process.env.AI_PROVIDER ||
+    (process.env.GOOGLE_AI_API_KEY ? 'gemini' : process.env.AI_BASE_URL ? 'openai-compatible' : 'stub')) as AiProviderName;
+  if (!AI_PROVIDERS.includes(name)) {
+    throw new AiConfigurationError(`Unknown AI_PROVIDER "${name}"; expected one of ${AI_PROVIDERS.join(', ')}`);
+  }
+
+  switch (name) {
+    case 'gemini':
+      if (!process.env.GOOGLE_AI_API_KEY) {
+        throw new AiConfigurationError('AI_PROVIDER=gemini requires GOOGLE_AI_API_KEY');
+      }
+      return new GeminiProvider(process.env.GENKIT_MODEL || DEFAULT_GEMINI_MODEL);
+    case 'openai-compatible':
+      if (!process.env.AI_BASE_URL || !process.env.AI_MODEL) {
+        throw new AiConfigurationError('AI_PROVIDER=openai-compatible requires AI_BASE_URL and AI_MODEL');
+      }
+      return new OpenAICompatibleProvider(process.env.AI_BASE_URL, process.env.AI_MODEL, process.env.AI_API_KEY);
+    case 'stub':
+      return new StubProvider();
+  }
+}
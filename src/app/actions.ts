@@ -2,16 +2,15 @@
 
 import { optimizeTaskDeadline, OptimizeTaskDeadlineInput, OptimizeTaskDeadlineOutput } from "@/ai/flows/optimize-task-deadline";
 import { parseTaskFromText, ParseTaskFromTextInput, ParseTaskFromTextOutput } from "@/ai/flows/parse-task-from-text-flow";
-import { notifyOverdueTask } from "@/ai/flows/notify-overdue-task-flow";
-import type { NotifyOverdueTaskInput, NotifyOverdueTaskOutput } from "@/ai/flows/notify-overdue-task-types";
+import { breakDownTask, BreakDownTaskOutput } from "@/ai/flows/break-down-task-flow";
 import { z } from "zod";
-import { CEO_EMAIL, NO_PRIORITY_SELECTED_VALUE } from "@/lib/constants";
-import type { Task, TaskPriority, TaskStatus, User, TaskComment, ConceptualFileAttachment, TaskAttachment } from "@/types";
+import { NO_PRIORITY_SELECTED_VALUE, MAX_ATTACHMENT_SIZE_BYTES } from "@/lib/constants";
+import type { Task, TaskPriority, TaskStatus, TaskTemplate, User, UserRole, ConceptualFileAttachment, AppNotification, NotificationType, SubtaskDraft } from "@/types";
 import { revalidatePath } from "next/cache";
-import { format, isPast, parseISO, addDays, isAfter, isBefore } from "date-fns";
+import { format, isPast, parseISO, isAfter, isBefore } from "date-fns";
 import { userAPI } from "@/lib/auth-api";
 import { headers } from "next/headers";
-import { createTask, updateTask, fetchTaskById, fetchTasks } from '@/lib/api';
+import { createTask, updateTask, fetchTaskById, fetchTasks, addTaskComment, sendNotification, recordAuditLog, uploadTaskAttachment, createTemplate } from '@/lib/api';
 
 // Enhanced types for new features
 interface TaskAnalytics {
@@ -22,18 +21,6 @@ interface TaskAnalytics {
   productivityScore: number;
 }
 
-interface TaskTemplate {
-  id: string;
-  name: string;
-  title: string;
-  description: string;
-  defaultPriority: TaskPriority;
-  defaultTimerDuration: number;
-  tags: string[];
-  isPublic: boolean;
-  createdBy: string;
-}
-
 interface BulkOperation {
   operation: 'approve' | 'reject' | 'delete' | 'reassign' | 'update_priority' | 'update_status';
   taskIds: string[];
@@ -80,6 +67,11 @@ function checkRateLimit(userId: string, limit: number = 60, windowMs: number = 6
   return true;
 }
 
+// Approvals, revision requests and rejections; the API further limits managers to their team's tasks
+function canReviewTasks(role: UserRole): boolean {
+  return role === 'Admin' || role === 'Manager';
+}
+
 // Audit logging
 interface AuditLog {
   id: string;
@@ -93,13 +85,28 @@ interface AuditLog {
   userAgent?: string;
 }
 
+// Audit entries are stored by the backend against the session user; a failed write is
+// logged rather than surfaced so it never fails the action being audited. The browser's
+// address is forwarded with the internal secret, since the backend only sees this server.
 async function createAuditLog(log: Omit<AuditLog, 'id' | 'timestamp'>): Promise<void> {
-  // In production, this would save to a database
-  console.log('AUDIT LOG:', {
-    ...log,
-    id: `audit_${Date.now()}`,
-    timestamp: new Date().toISOString()
-  });
+  const requestHeaders = await headers();
+  const forwardedFor = requestHeaders.get("x-forwarded-for");
+
+  try {
+    await recordAuditLog({
+      action: log.action,
+      resource: log.resource,
+      resourceId: log.resourceId || null,
+      metadata: log.metadata,
+      forwardedIpAddress: log.ipAddress || forwardedFor?.split(",")[0].trim() || requestHeaders.get("x-real-ip"),
+      forwardedUserAgent: log.userAgent || requestHeaders.get("user-agent"),
+    }, {
+      cookieHeader: requestHeaders.get("cookie") || undefined,
+      internalSecret: process.env.INTERNAL_API_SECRET,
+    });
+  } catch (error) {
+    console.error('Failed to write audit log:', { ...log, error });
+  }
 }
 
 // Enhanced validation schemas
@@ -107,8 +114,8 @@ const TaskFileSchema = z.object({
   id: z.string(),
   name: z.string().min(1).max(255),
   type: z.string().optional(),
-  size: z.number().max(10 * 1024 * 1024), // 10MB limit
-  content: z.string().optional(), // Base64 encoded content
+  size: z.number().max(MAX_ATTACHMENT_SIZE_BYTES),
+  content: z.string().min(1, "File content is required."), // Base64 encoded content
 });
 
 const TaskDependencySchema = z.object({
@@ -120,6 +127,9 @@ const TaskDependencySchema = z.object({
 // --- Enhanced Suggest Deadline Action ---
 const EnhancedSuggestDeadlineSchema = z.object({
   taskDescription: z.string().min(10, "Task description must be at least 10 characters long.").max(2000),
+  title: z.string().max(255).optional(),
+  priority: z.enum(["Low", "Medium", "High"]).optional(),
+  assignedUserId: z.string().optional(),
   currentWorkload: z.number().min(0).max(100).optional(),
   teamSize: z.number().min(1).optional(),
   complexity: z.enum(['low', 'medium', 'high']).optional(),
@@ -161,6 +171,9 @@ export async function enhancedSuggestDeadlineAction(
 
     const validatedFields = EnhancedSuggestDeadlineSchema.safeParse({
       taskDescription: formData.get("taskDescription"),
+      title: formData.get("title") || undefined,
+      priority: formData.get("priority") || undefined,
+      assignedUserId: formData.get("assignedUserId") || undefined,
       currentWorkload: Number(formData.get("currentWorkload")) || undefined,
       teamSize: Number(formData.get("teamSize")) || undefined,
       complexity: formData.get("complexity") || undefined,
@@ -177,17 +190,17 @@ export async function enhancedSuggestDeadlineAction(
 
     const input: OptimizeTaskDeadlineInput = {
       taskDescription: validatedFields.data.taskDescription,
+      title: validatedFields.data.title,
+      priority: validatedFields.data.priority,
+      assigneeId: validatedFields.data.assignedUserId,
     };
 
-    const result = await optimizeTaskDeadline(input);
+    const result = await optimizeTaskDeadline(input, { cookieHeader });
     
-    // Enhanced AI analysis simulation
-    const confidenceScore = Math.random() * 100;
-    const alternativeDeadlines = [
-      addDays(new Date(result.suggestedDeadline), 1).toISOString(),
-      addDays(new Date(result.suggestedDeadline), 3).toISOString(),
-      addDays(new Date(result.suggestedDeadline), -1).toISOString(),
-    ];
+    const confidenceScore = Math.round(result.confidence * 100);
+    // The ends of the estimate's likely range
+    const alternativeDeadlines = [result.earliestDeadline, result.latestDeadline];
+    const { workload } = result;
 
     await createAuditLog({
       userId: currentUser.id,
@@ -206,9 +219,11 @@ export async function enhancedSuggestDeadlineAction(
         ...result,
         confidenceScore,
         alternativeDeadlines,
-        workloadImpact: validatedFields.data.currentWorkload && validatedFields.data.currentWorkload > 80 
-          ? "High workload detected - consider extending deadline" 
-          : "Normal workload - deadline is achievable"
+        workloadImpact: !workload
+          ? "No assignee given - workload not considered"
+          : workload.delayHours > 0
+          ? `Assignee has ${workload.openTasks} open tasks, more than usual - deadline extended accordingly`
+          : "Assignee's open work is within their usual load"
       },
       message: "Deadline suggested successfully with enhanced analysis.",
     };
@@ -235,6 +250,7 @@ export async function enhancedSuggestDeadlineAction(
 // --- Enhanced Parse Task From Text Action ---
 const EnhancedParseTaskFromTextSchema = z.object({
   naturalLanguageInput: z.string().min(5, "Please provide a more detailed task description.").max(5000),
+  timeZone: z.string().max(100).optional(),
   extractAttachments: z.boolean().optional(),
   suggestTags: z.boolean().optional(),
   detectUrgency: z.boolean().optional(),
@@ -274,6 +290,7 @@ export async function enhancedParseTaskFromTextAction(
 
     const validatedFields = EnhancedParseTaskFromTextSchema.safeParse({
       naturalLanguageInput: formData.get("naturalLanguageInput"),
+      timeZone: formData.get("timeZone") || undefined,
       extractAttachments: formData.get("extractAttachments") === "true",
       suggestTags: formData.get("suggestTags") === "true",
       detectUrgency: formData.get("detectUrgency") === "true",
@@ -289,9 +306,10 @@ export async function enhancedParseTaskFromTextAction(
 
     const input: ParseTaskFromTextInput = {
       naturalLanguageInput: validatedFields.data.naturalLanguageInput,
+      timeZone: validatedFields.data.timeZone,
     };
 
-    const result = await parseTaskFromText(input);
+    const result = await parseTaskFromText(input, { cookieHeader });
     
     // Enhanced AI features simulation
     const urgencyKeywords = ['urgent', 'asap', 'immediately', 'critical', 'emergency'];
@@ -456,23 +474,13 @@ export async function enhancedAdminCreateTaskAction(
     }
 
     // Check assignee workload
-    const assigneeTasks = await fetchTasks({ assigneeId: Number(assignedUserId), status: "In Progress" });
+    const assigneeTasks = await fetchTasks({ assigneeId: assignedUserId, status: "In Progress" }, { cookieHeader });
     if (assigneeTasks.tasks.length > 10) {
       console.warn(`Assignee ${assignee.firstName} ${assignee.lastName} has ${assigneeTasks.tasks.length} active tasks`);
     }
 
     const taskTags = tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : [];
 
-    // Convert ConceptualFileAttachment to TaskAttachment format
-    const taskAttachments: TaskAttachment[] = (attachments || []).map(file => ({
-      id: file.id,
-      fileName: file.name,
-      fileUrl: `#`, // Would be actual URL in production
-      fileType: file.type || null,
-      fileSizeBytes: file.size || 0,
-      createdAt: new Date().toISOString(),
-    }));
-
     const newTask: Omit<Task, 'id'> = {
       title,
       description: description || null,
@@ -502,11 +510,20 @@ export async function enhancedAdminCreateTaskAction(
         lastName: currentUser.lastName || '',
       },
       timerDuration: Number(timerDuration),
-      attachments: taskAttachments,
+      attachments: [],
       comments: [],
     };
 
-    const createdTask = await createTask(newTask);
+    let createdTask = await createTask(newTask, { cookieHeader });
+
+    // Files are uploaded once the task exists; the backend re-checks type and size
+    if (attachments && attachments.length > 0) {
+      for (const file of attachments) {
+        const blob = new Blob([Buffer.from(file.content, 'base64')], { type: file.type || 'application/octet-stream' });
+        await uploadTaskAttachment(createdTask.id, blob, file.name, { cookieHeader });
+      }
+      createdTask = await fetchTaskById(createdTask.id, { cookieHeader });
+    }
 
     // Create dependencies if specified
     if (dependencies && dependencies.length > 0) {
@@ -515,7 +532,7 @@ export async function enhancedAdminCreateTaskAction(
     }
 
     // Generate analytics
-    const userTasks = await fetchTasks({ assigneeId: Number(assignedUserId) });
+    const userTasks = await fetchTasks({ assigneeId: assignedUserId }, { cookieHeader });
     const analytics: TaskAnalytics = {
       totalTasks: userTasks.tasks.length,
       completedTasks: userTasks.tasks.filter(t => t.status === "Completed").length,
@@ -646,7 +663,7 @@ export async function bulkOperationAction(
       
       const batchPromises = batch.map(async (taskId) => {
         try {
-          const task = await fetchTaskById(taskId);
+          const task = await fetchTaskById(taskId, { cookieHeader });
           if (!task) {
             throw new Error("Task not found");
           }
@@ -697,7 +714,7 @@ export async function bulkOperationAction(
               break;
           }
 
-          await updateTask(taskId, updateData);
+          await updateTask(taskId, updateData, { cookieHeader });
           
           results.push({ taskId, success: true });
           processedCount++;
@@ -773,7 +790,8 @@ const TaskTemplateSchema = z.object({
   description: z.string().min(10).max(5000),
   defaultPriority: z.enum(["Low", "Medium", "High"]),
   defaultTimerDuration: z.number().min(1).max(480),
-  tags: z.array(z.string()).optional(),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+  checklist: z.array(z.string().min(1).max(255)).max(50).optional(),
   isPublic: z.boolean().optional(),
 });
 
@@ -788,6 +806,8 @@ export interface TaskTemplateActionState {
     description?: string[];
     defaultPriority?: string[];
     defaultTimerDuration?: string[];
+    tags?: string[];
+    checklist?: string[];
     _form?: string[];
   };
 }
@@ -811,6 +831,7 @@ export async function createTaskTemplateAction(
       defaultPriority: formData.get("defaultPriority"),
       defaultTimerDuration: Number(formData.get("defaultTimerDuration")),
       tags: formData.get("tags") ? JSON.parse(formData.get("tags") as string) : [],
+      checklist: formData.get("checklist") ? JSON.parse(formData.get("checklist") as string) : [],
       isPublic: formData.get("isPublic") === "true",
     });
 
@@ -822,16 +843,12 @@ export async function createTaskTemplateAction(
       };
     }
 
-    const template: TaskTemplate = {
-      id: `template_${Date.now()}`,
+    const template: TaskTemplate = await createTemplate({
       ...validatedFields.data,
       tags: validatedFields.data.tags || [],
+      checklist: validatedFields.data.checklist || [],
       isPublic: validatedFields.data.isPublic || false,
-      createdBy: currentUser.id,
-    };
-
-    // In production, save to database
-    console.log("Created task template:", template);
+    }, { cookieHeader });
 
     await createAuditLog({
       userId: currentUser.id,
@@ -905,13 +922,17 @@ export async function generateAnalyticsAction(
       throw new TaskActionError("Unauthorized", "AUTH_REQUIRED", 401);
     }
 
-    if (currentUser.role !== 'Admin') {
+    if (currentUser.role !== 'Admin' && currentUser.role !== 'Manager') {
       throw new TaskActionError("Insufficient permissions", "PERMISSION_DENIED", 403);
     }
 
-    // Fetch all tasks and users for analysis
-    const allTasks = await fetchTasks({});
-    const allUsers = await userAPI.getAllUsers(cookieHeader);
+    // The API already limits a manager's tasks to their team; their people are narrowed to match
+    const allTasks = await fetchTasks({ limit: 100 }, { cookieHeader });
+    const users = await userAPI.getAllUsers(cookieHeader);
+    const managerTeamId = users.find(user => user.id === currentUser.id)?.teamId;
+    const allUsers = currentUser.role === 'Manager'
+      ? users.filter(user => user.id === currentUser.id || (!!managerTeamId && user.teamId === managerTeamId))
+      : users;
 
     // Generate comprehensive analytics
     const overview: TaskAnalytics = {
@@ -1005,21 +1026,21 @@ export async function generateAnalyticsAction(
   }
 }
 
-// --- Real-time Notification Action ---
+// --- Notification Action ---
+// Legacy form values are still accepted and mapped onto the backend notification types
+const NOTIFICATION_TYPE_MAP: Record<string, NotificationType> = {
+  task_assigned: 'Task Assigned',
+  task_completed: 'Status Change',
+  deadline_approaching: 'Deadline Reminder',
+  task_overdue: 'Deadline Reminder',
+  comment_added: 'Comment Mention',
+};
+
 export interface NotificationActionState {
   success: boolean;
   message?: string;
-  notifications?: Array<{
-    id: string;
-    type: 'task_assigned' | 'task_completed' | 'deadline_approaching' | 'task_overdue' | 'comment_added';
-    title: string;
-    message: string;
-    taskId?: string;
-    userId: string;
-    createdAt: string;
-    read: boolean;
-  }>;
-  errors?: { _form?: string[] };
+  notifications?: AppNotification[];
+  errors?: { _form?: string[]; type?: string[]; recipientId?: string[] };
 }
 
 export async function sendNotificationAction(
@@ -1033,32 +1054,45 @@ export async function sendNotificationAction(
     if (!currentUser) {
       throw new TaskActionError("Unauthorized", "AUTH_REQUIRED", 401);
     }
+    if (!canReviewTasks(currentUser.role)) {
+      throw new TaskActionError("Only admins and managers can send notifications", "PERMISSION_DENIED", 403);
+    }
 
     const notificationType = formData.get("type") as string;
-    const taskId = formData.get("taskId") as string;
+    const taskId = (formData.get("taskId") as string) || null;
     const recipientId = formData.get("recipientId") as string;
     const customMessage = formData.get("message") as string;
 
-    // In production, this would use WebSocket, push notifications, or email
-    const notification = {
-      id: `notif_${Date.now()}`,
-      type: notificationType as any,
-      title: "Task Notification",
-      message: customMessage || "You have a new task notification",
-      taskId,
-      userId: recipientId,
-      createdAt: new Date().toISOString(),
-      read: false,
-    };
+    const type = NOTIFICATION_TYPE_MAP[notificationType] || (Object.values(NOTIFICATION_TYPE_MAP).includes(notificationType as NotificationType) ? notificationType as NotificationType : undefined);
+    if (!type) {
+      return {
+        success: false,
+        message: "Unknown notification type.",
+        errors: { type: [`"${notificationType}" is not a supported notification type.`] },
+      };
+    }
+
+    if (!recipientId) {
+      return {
+        success: false,
+        message: "A recipient is required.",
+        errors: { recipientId: ["Select who should receive the notification."] },
+      };
+    }
 
-    console.log("Sending notification:", notification);
+    const notification = await sendNotification({
+      recipientId,
+      taskId,
+      type,
+      message: customMessage || "You have a new task notification",
+    }, { cookieHeader });
 
     await createAuditLog({
       userId: currentUser.id,
       action: 'send_notification',
       resource: 'notification',
-      resourceId: notification.id,
-      metadata: { type: notificationType, recipientId, taskId }
+      resourceId: String(notification.id),
+      metadata: { type, recipientId, taskId }
     });
 
     return {
@@ -1124,7 +1158,8 @@ export async function suggestDeadlineAction(
   };
 
   try {
-    const result = await optimizeTaskDeadline(input);
+    const cookieHeader = (await headers()).get("cookie") || undefined;
+    const result = await optimizeTaskDeadline(input, { cookieHeader });
     return {
       success: true,
       data: result,
@@ -1144,6 +1179,7 @@ export async function suggestDeadlineAction(
 // --- Parse Task From Text Action ---
 const ParseTaskFromTextSchema = z.object({
   naturalLanguageInput: z.string().min(5, "Please provide a more detailed task description."),
+  timeZone: z.string().max(100).optional(),
 });
 
 export interface ParseTaskFromTextActionState {
@@ -1162,6 +1198,7 @@ export async function parseTaskFromTextAction(
 ): Promise<ParseTaskFromTextActionState> {
   const validatedFields = ParseTaskFromTextSchema.safeParse({
     naturalLanguageInput: formData.get("naturalLanguageInput"),
+    timeZone: formData.get("timeZone") || undefined,
   });
 
   if (!validatedFields.success) {
@@ -1174,10 +1211,12 @@ export async function parseTaskFromTextAction(
 
   const input: ParseTaskFromTextInput = {
     naturalLanguageInput: validatedFields.data.naturalLanguageInput,
+    timeZone: validatedFields.data.timeZone,
   };
 
   try {
-    const result = await parseTaskFromText(input);
+    const cookieHeader = (await headers()).get("cookie") || undefined;
+    const result = await parseTaskFromText(input, { cookieHeader });
     return {
       success: true,
       data: result,
@@ -1194,6 +1233,180 @@ export async function parseTaskFromTextAction(
   }
 }
 
+// --- Break Down Task Actions ---
+const ProposeSubtasksSchema = z.object({
+  title: z.string().min(3, "Title must be at least 3 characters long."),
+  description: z.string().max(5000).optional(),
+  deadline: z.string().datetime().optional(),
+});
+
+export interface ProposeSubtasksActionState {
+  success: boolean;
+  message?: string;
+  data?: BreakDownTaskOutput;
+  errors?: {
+    title?: string[];
+    description?: string[];
+    deadline?: string[];
+    _form?: string[];
+  };
+}
+
+export async function proposeSubtasksAction(
+  prevState: ProposeSubtasksActionState,
+  formData: FormData
+): Promise<ProposeSubtasksActionState> {
+  const validatedFields = ProposeSubtasksSchema.safeParse({
+    title: formData.get("title"),
+    description: formData.get("description") || undefined,
+    deadline: formData.get("deadline") || undefined,
+  });
+
+  if (!validatedFields.success) {
+    return {
+      success: false,
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: "Validation failed. Please check the task details.",
+    };
+  }
+
+  try {
+    const cookieHeader = (await headers()).get("cookie") || undefined;
+    const result = await breakDownTask(validatedFields.data, { cookieHeader });
+    return {
+      success: true,
+      data: result,
+      message: `Proposed ${result.subtasks.length} subtasks.`,
+    };
+  } catch (error) {
+    console.error("Error breaking down task:", error);
+    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+    return {
+      success: false,
+      message: `AI breakdown failed: ${errorMessage}`,
+      errors: { _form: [errorMessage] },
+    };
+  }
+}
+
+const SubtaskDraftSchema = z.object({
+  title: z.string().trim().min(1, "Every subtask needs a title.").max(255),
+  description: z.string().optional(),
+  estimatedMinutes: z.number().int().min(0).max(2880).optional(),
+  dependsOn: z.array(z.number().int().min(0)).optional(),
+});
+
+const CreateTaskWithSubtasksSchema = z.object({
+  title: z.string().min(3, "Title must be at least 3 characters long."),
+  description: z.string().optional(),
+  deadline: z.string().datetime().optional(),
+  priority: z.enum(["Low", "Medium", "High"]).optional(),
+  assignedUserId: z.string().uuid().optional(),
+  projectId: z.string().uuid().optional(),
+  subtasks: z.array(SubtaskDraftSchema).min(1, "Keep at least one subtask."),
+});
+
+export interface CreateTaskWithSubtasksActionState {
+  success: boolean;
+  message?: string;
+  task?: Task;
+  errors?: {
+    title?: string[];
+    subtasks?: string[];
+    _form?: string[];
+  };
+}
+
+// Creates the reviewed task and its subtasks together; the API does it in one transaction
+export async function createTaskWithSubtasksAction(
+  prevState: CreateTaskWithSubtasksActionState,
+  formData: FormData
+): Promise<CreateTaskWithSubtasksActionState> {
+  let subtasks: unknown;
+  try {
+    subtasks = JSON.parse(String(formData.get("subtasks") || "[]"));
+  } catch {
+    subtasks = null;
+  }
+
+  const validatedFields = CreateTaskWithSubtasksSchema.safeParse({
+    title: formData.get("title"),
+    description: formData.get("description") || undefined,
+    deadline: formData.get("deadline") || undefined,
+    priority: formData.get("priority") || undefined,
+    assignedUserId: formData.get("assignedUserId") || undefined,
+    projectId: formData.get("projectId") || undefined,
+    subtasks,
+  });
+
+  if (!validatedFields.success) {
+    const fieldErrors = validatedFields.error.flatten().fieldErrors;
+    return {
+      success: false,
+      errors: { title: fieldErrors.title, subtasks: fieldErrors.subtasks },
+      message: "Validation failed. Please check the task and its subtasks.",
+    };
+  }
+
+  const cookieHeader = (await headers()).get("cookie") || undefined;
+  const currentUser = await userAPI.verifySession(cookieHeader);
+  if (!currentUser) {
+    return {
+      success: false,
+      message: "Unauthorized: Please sign in to create tasks.",
+      errors: { _form: ["Please sign in to create tasks."] },
+    };
+  }
+
+  const { title, description, deadline, priority, assignedUserId, projectId } = validatedFields.data;
+  // Users submit work for approval; reviewers can put it straight on the board
+  const canAssign = canReviewTasks(currentUser.role);
+
+  const newTask: Omit<Task, 'id'> & { subtasks: SubtaskDraft[] } = {
+    title,
+    description: description || null,
+    status: (canAssign ? "To Do" : "Pending Approval") as TaskStatus,
+    deadline: deadline || null,
+    priority: priority || "Medium",
+    progressPercentage: 0,
+    projectId: projectId || null,
+    recurringPattern: null,
+    assignedUserId: canAssign ? assignedUserId || null : null,
+    updatedBy: null,
+    assignerId: currentUser.id,
+    timerDuration: 0,
+    attachments: [],
+    comments: [],
+    suggestedDeadline: null,
+    suggestedPriority: null,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    completedAt: null,
+    softDeletedAt: null,
+    subtasks: validatedFields.data.subtasks,
+  };
+
+  try {
+    const createdTask = await createTask(newTask, { cookieHeader });
+    revalidatePath("/");
+    revalidatePath("/admin");
+
+    return {
+      success: true,
+      task: createdTask,
+      message: `Task "${createdTask.title}" created with ${newTask.subtasks.length} subtasks.`,
+    };
+  } catch (error) {
+    console.error("Error creating task with subtasks:", error);
+    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+    return {
+      success: false,
+      message: errorMessage,
+      errors: { _form: [errorMessage] },
+    };
+  }
+}
+
 // --- Create Task Action (for Admin) ---
 const AdminCreateTaskFormSchema = z.object({
   title: z.string().min(3, "Title must be at least 3 characters long."),
@@ -1215,6 +1428,8 @@ const AdminCreateTaskFormSchema = z.object({
       const num = Number(val);
       return !isNaN(num) && num > 0;
     }, { message: "Timer duration must be a positive number." }),
+  projectId: z.string().uuid("Select a valid project.").optional().nullable(),
+  recurringPattern: z.string().max(255).optional().nullable(),
 });
 
 export interface AdminCreateTaskActionState {
@@ -1228,6 +1443,8 @@ export interface AdminCreateTaskActionState {
     priority?: string[];
     assignedUserId?: string[];
     timerDuration?: string[];
+    projectId?: string[];
+    recurringPattern?: string[];
     _form?: string[];
   };
 }
@@ -1243,6 +1460,8 @@ export async function adminCreateTaskAction(
     priority: formData.get("priority"),
     assignedUserId: formData.get("assignedUserId"),
     timerDuration: formData.get("timerDuration"),
+    projectId: formData.get("projectId") || null,
+    recurringPattern: formData.get("recurringPattern") || null,
   });
 
   if (!validatedFields.success) {
@@ -1253,7 +1472,7 @@ export async function adminCreateTaskAction(
     };
   }
 
-  const { title, description, deadline, priority, assignedUserId, timerDuration } = validatedFields.data;
+  const { title, description, deadline, priority, assignedUserId, timerDuration, projectId, recurringPattern } = validatedFields.data;
 
   const cookieHeader = (await headers()).get("cookie") || undefined;
   const allUsers = await userAPI.getAllUsers(cookieHeader);
@@ -1283,8 +1502,8 @@ export async function adminCreateTaskAction(
     priority: priority as TaskPriority,
     deadline: deadline.toISOString(),
     progressPercentage: 0,
-    projectId: null,
-    recurringPattern: null,
+    projectId: projectId || null,
+    recurringPattern: recurringPattern || null,
     assignerId: currentUser.id,
     assignedUserId: assignee.id,
     updatedBy: currentUser.id,
@@ -1310,7 +1529,7 @@ export async function adminCreateTaskAction(
   };
 
   try {
-    const createdTask = await createTask(newTask);
+    const createdTask = await createTask(newTask, { cookieHeader });
     revalidatePath("/");
     revalidatePath("/admin");
 
@@ -1339,6 +1558,7 @@ const UserCreateTaskFormSchema = z.object({
   creatorName: z.string({ required_error: "Creator name is missing." }),
   suggestedDeadline: z.string().optional().nullable(),
   suggestedPriority: z.enum([NO_PRIORITY_SELECTED_VALUE, ...VALID_TASK_PRIORITIES_FOR_SUGGESTION]).optional().nullable(),
+  projectId: z.string().uuid("Select a valid project.").optional().nullable(),
 });
 
 export interface UserCreateTaskActionState {
@@ -1352,6 +1572,7 @@ export interface UserCreateTaskActionState {
     creatorName?: string[];
     suggestedDeadline?: string[];
     suggestedPriority?: string[];
+    projectId?: string[];
     _form?: string[];
   };
 }
@@ -1367,6 +1588,7 @@ export async function createUserTaskAction(
     creatorName: formData.get("creatorName"),
     suggestedDeadline: formData.get("suggestedDeadline") || null,
     suggestedPriority: formData.get("suggestedPriority") || null,
+    projectId: formData.get("projectId") || null,
   });
 
   if (!validatedFields.success) {
@@ -1377,7 +1599,7 @@ export async function createUserTaskAction(
     };
   }
 
-  const { title, description, creatorId, creatorName, suggestedDeadline, suggestedPriority: rawSuggestedPriority } = validatedFields.data;
+  const { title, description, creatorId, creatorName, suggestedDeadline, suggestedPriority: rawSuggestedPriority, projectId } = validatedFields.data;
 
   const cookieHeader = (await headers()).get("cookie") || undefined;
   const creatorUser = await userAPI.verifySession(cookieHeader);
@@ -1404,7 +1626,7 @@ export async function createUserTaskAction(
     deadline: suggestedDeadline ? new Date(suggestedDeadline).toISOString() : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
     priority: finalTaskPriority,
     progressPercentage: 0,
-    projectId: null,
+    projectId: projectId || null,
     recurringPattern: null,
     assignedUserId: null, 
     updatedBy: null,
@@ -1427,7 +1649,7 @@ export async function createUserTaskAction(
   };
 
   try {
-    const createdTask = await createTask(newTask);
+    const createdTask = await createTask(newTask, { cookieHeader });
     revalidatePath("/");
     revalidatePath("/admin"); 
 
@@ -1514,15 +1736,15 @@ export async function approveTaskAction(
   const cookieHeader = (await headers()).get("cookie") || undefined;
   const currentUser = await userAPI.verifySession(cookieHeader);
 
-  if (!currentUser || currentUser.role !== 'Admin' || currentUser.id !== approverId) {
+  if (!currentUser || !canReviewTasks(currentUser.role) || currentUser.id !== approverId) {
     return {
       success: false,
-      message: "Unauthorized: Only administrators can approve tasks.",
+      message: "Unauthorized: Only administrators and managers can approve tasks.",
       errors: { _form: ["You do not have permission to perform this action."] },
     };
   }
 
-  const taskToUpdate = await fetchTaskById(taskId);
+  const taskToUpdate = await fetchTaskById(taskId, { cookieHeader });
   if (!taskToUpdate) {
     return {
       success: false,
@@ -1550,7 +1772,7 @@ export async function approveTaskAction(
     updatedBy: currentUser.id,
     updatedAt: new Date().toISOString(),
     timerDuration: Number(timerDuration),
-  });
+  }, { cookieHeader });
 
   try {
     revalidatePath("/");
@@ -1576,7 +1798,7 @@ export async function approveTaskAction(
 const RequestRevisionsSchema = z.object({
   taskId: z.string().min(1, "Task ID is required."),
   reviserId: z.string().min(1, "Reviser ID is required."),
-  comment: z.string().min(10, "Comment must be at least 10 characters long."),
+  comment: z.string().min(10, "Comment must be at least 10 characters long.").max(1000, "Comment must be at most 1000 characters long."),
 });
 
 export interface RequestRevisionsActionState {
@@ -1613,16 +1835,16 @@ export async function requestRevisionsAction(
 
   const cookieHeader = (await headers()).get("cookie") || undefined;
   const reviser = await userAPI.verifySession(cookieHeader);
-  if (!reviser || reviser.role !== 'Admin' || reviser.id !== reviserId) {
+  if (!reviser || !canReviewTasks(reviser.role) || reviser.id !== reviserId) {
     return {
       success: false,
-      message: "Unauthorized: Only administrators can request revisions.",
+      message: "Unauthorized: Only administrators and managers can request revisions.",
       task: undefined,
       errors: { _form: ["You do not have permission to perform this action."] },
     };
   }
 
-  const taskToRevise = await fetchTaskById(taskId);
+  const taskToRevise = await fetchTaskById(taskId, { cookieHeader });
   if (!taskToRevise) {
     return {
       success: false,
@@ -1641,22 +1863,15 @@ export async function requestRevisionsAction(
     };
   }
 
-  const newCommentEntry: TaskComment = {
-    id: `comment-${Date.now()}-${Math.floor(Math.random() * 10000)}`,
-    content: comment,
-    createdAt: new Date().toISOString(),
-    user: { id: reviser.id, firstName: reviser.firstName, lastName: reviser.lastName },
-    timestamp: new Date().toISOString(),
-    userName: reviser.firstName + ' ' + reviser.lastName,
-    comment: comment || '',
-  };
-
-  const revisedTask = await updateTask(taskId, {
+  await updateTask(taskId, {
     status: "Needs Changes" as TaskStatus,
-    comments: [...(taskToRevise.comments || []), newCommentEntry],
+    // Sent to the submitter in the revision-request email
+    statusReason: comment,
     updatedBy: reviser.id,
     updatedAt: new Date().toISOString(),
-  });
+  }, { cookieHeader });
+  await addTaskComment(taskId, comment, { cookieHeader });
+  const revisedTask = await fetchTaskById(taskId, { cookieHeader });
 
   try {
     revalidatePath("/");
@@ -1725,7 +1940,7 @@ export async function rejectTaskAction(
     };
   }
 
-  const taskToReject = await fetchTaskById(taskId);
+  const taskToReject = await fetchTaskById(taskId, { cookieHeader });
   if (!taskToReject) {
     return {
       success: false,
@@ -1748,7 +1963,7 @@ export async function rejectTaskAction(
     status: "Rejected" as TaskStatus,
     updatedBy: rejecter.id,
     updatedAt: new Date().toISOString(),
-  });
+  }, { cookieHeader });
 
   try {
     revalidatePath("/");
@@ -1823,7 +2038,7 @@ export async function resubmitTaskAction(
     };
   }
 
-  const taskToResubmit = await fetchTaskById(taskId);
+  const taskToResubmit = await fetchTaskById(taskId, { cookieHeader });
   if (!taskToResubmit) {
     return {
       success: false,
@@ -1857,7 +2072,7 @@ export async function resubmitTaskAction(
     status: "Pending Approval" as TaskStatus,
     updatedBy: user.id,
     updatedAt: new Date().toISOString(),
-  });
+  }, { cookieHeader });
 
   try {
     revalidatePath("/");
@@ -1878,72 +2093,3 @@ export async function resubmitTaskAction(
     };
   }
 }
-
-// --- Check Overdue Tasks and Simulate Notification Action ---
-export interface CheckOverdueTasksActionState {
-  success: boolean;
-  message?: string;
-  overdueTasksFound: number;
-  notificationMessages: string[];
-  errors?: { _form?: string[] };
-}
-
-export async function checkForOverdueTasksAction(
-  prevState: CheckOverdueTasksActionState
-): Promise<CheckOverdueTasksActionState> {
-  try {
-    const cookieHeader = (await headers()).get("cookie") || undefined;
-    const allUsers = await userAPI.getAllUsers(cookieHeader);
-
-    const allTasks = await fetchTasks({ status: "In Progress" });
-    const overdueTasks = allTasks.tasks.filter(
-      (task) => task.deadline && isPast(new Date(task.deadline))
-    );
-
-    const notificationMessages: string[] = [];
-    let overdueTasksFound = 0;
-
-    for (const task of overdueTasks) {
-      const manager = allUsers.find(user => user.id === task.assignerId);
-
-      if (!manager || !manager.email) {
-        notificationMessages.push(`Could not find manager email for task "${task.title}" (Assigner ID: ${task.assignerId}). Skipped notification.`);
-        continue;
-      }
-
-      const overdueTaskInfo: NotifyOverdueTaskInput = {
-        taskId: task.id,
-        taskTitle: task.title,
-        deadline: task.deadline!,
-        managerEmail: manager.email,
-        ceoEmail: CEO_EMAIL,
-      };
-
-      try {
-        const result: NotifyOverdueTaskOutput = await notifyOverdueTask(overdueTaskInfo);
-        notificationMessages.push(`Notification sent for overdue task "${task.title}": ${result.simulationMessage}`);
-        overdueTasksFound++;
-      } catch (error) {
-        console.error(`Error notifying for overdue task "${task.title}":`, error);
-        notificationMessages.push(`Failed to send notification for overdue task "${task.title}": ${error instanceof Error ? error.message : String(error)}`);
-      }
-    }
-
-    return {
-      success: true,
-      message: overdueTasksFound > 0 ? `Found and notified about ${overdueTasksFound} overdue tasks.` : "No overdue tasks found.",
-      overdueTasksFound,
-      notificationMessages,
-    };
-  } catch (error) {
-    console.error("Error checking for overdue tasks:", error);
-    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred while checking for overdue tasks.";
-    return {
-      success: false,
-      message: errorMessage,
-      overdueTasksFound: 0,
-      notificationMessages: [],
-      errors: { _form: [errorMessage] },
-    };
-  }
-}
\ No newline at end of file
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { userAPI } from '@/lib/auth-api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, ArrowLeft, CheckCircle, KeyRound, Loader2, Mail } from 'lucide-react';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [emailError, setEmailError] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  const validateEmail = (value: string) => {
+    if (!value) {
+      setEmailError('Email is required');
+      return false;
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+      setEmailError('Please enter a valid email address');
+      return false;
+    }
+    setEmailError('');
+    return true;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!validateEmail(email)) return;
+
+    setLoading(true);
+    try {
+      await userAPI.forgotPassword(email.trim());
+      setSubmitted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-2xl backdrop-blur-sm border-0 bg-white/80">
+        <CardHeader className="text-center pb-4">
+          <div className="inline-flex justify-center items-center mb-4">
+            <div className="bg-gradient-to-r from-blue-500 to-indigo-600 rounded-full p-3">
+              <KeyRound className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <CardTitle className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+            Forgot your password?
+          </CardTitle>
+          <CardDescription className="mt-2 text-slate-600">
+            Enter the email you signed up with and we&apos;ll send you a link to choose a new password.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {submitted ? (
+            <Alert className="border-green-200 bg-green-50 text-green-800">
+              <CheckCircle className="h-4 w-4" />
+              <AlertTitle>Check your inbox</AlertTitle>
+              <AlertDescription>
+                If an account exists for {email.trim()}, a reset link is on its way. It expires in 30 minutes and can only be used once.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <Alert variant="destructive" className="border-red-200 bg-red-50">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Request Failed</AlertTitle>
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="email" className="font-medium text-slate-700">
+                  Email Address
+                </Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="you@example.com"
+                    value={email}
+                    onChange={(e) => {
+                      setEmail(e.target.value);
+                      if (emailError) validateEmail(e.target.value);
+                    }}
+                    className={`pl-10 text-base ${emailError ? 'border-red-300 focus:border-red-500' : 'focus:border-blue-500'}`}
+                    disabled={loading}
+                    autoComplete="email"
+                    autoFocus
+                    aria-describedby={emailError ? 'email-error' : undefined}
+                  />
+                </div>
+                {emailError && (
+                  <p id="email-error" className="text-sm text-red-600 mt-1">{emailError}</p>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full text-lg py-6 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+                disabled={loading}
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  'Send Reset Link'
+                )}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+
+        <CardFooter className="flex justify-center text-sm pt-2">
+          <Link
+            href="/login"
+            className="inline-flex items-center font-semibold text-blue-600 hover:text-blue-800 hover:underline transition-colors"
+          >
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to Sign In
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
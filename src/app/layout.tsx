@@ -3,6 +3,7 @@ import './globals.css';
 import { ThemeProvider } from '@/components/layout/theme-provider';
 import { AuthProvider } from '@/contexts/auth-context';
 import { TaskProvider } from '@/contexts/TaskContext'; // Import TaskProvider
+import { TimeTrackingProvider } from '@/contexts/time-tracking-context';
 import { ToastProvider } from '@/hooks/use-toast';
 
 export const metadata: Metadata = {
@@ -25,16 +26,18 @@ export default function RootLayout({
       <body className="font-body antialiased min-h-screen bg-background text-foreground">
         <AuthProvider>
           <TaskProvider>
-            <ToastProvider>
-              <ThemeProvider
-                attribute="class"
-                defaultTheme="system"
-                enableSystem
-                disableTransitionOnChange
-              >
-                {children}
-              </ThemeProvider>
-            </ToastProvider>
+            <TimeTrackingProvider>
+              <ToastProvider>
+                <ThemeProvider
+                  attribute="class"
+                  defaultTheme="system"
+                  enableSystem
+                  disableTransitionOnChange
+                >
+                  {children}
+                </ThemeProvider>
+              </ToastProvider>
+            </TimeTrackingProvider>
           </TaskProvider>
         </AuthProvider>
       </body>
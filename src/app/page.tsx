@@ -12,6 +12,8 @@ import { useAuth } from "@/contexts/auth-context"; // Import useAuth
 
 export default function Home() {
   const { currentUser } = useAuth(); // Get current user
+  // Managers get the same review panel, limited to their team
+  const canReview = currentUser?.role === 'Admin' || currentUser?.role === 'Manager';
 
   return (
     <div className="flex flex-col min-h-screen">
@@ -19,7 +21,7 @@ export default function Home() {
       <main className="flex-1">
         <Tabs defaultValue="dashboard" className="w-full p-2 sm:p-4">
           <div className="flex justify-center mb-4 sm:mb-6">
-            <TabsList className={`grid w-full max-w-lg ${currentUser?.role === 'Admin' ? 'grid-cols-4' : 'grid-cols-3'}`}>
+            <TabsList className={`grid w-full max-w-lg ${canReview ? 'grid-cols-4' : 'grid-cols-3'}`}>
               <TabsTrigger value="dashboard" className="flex items-center gap-2">
                 <LayoutDashboard className="h-4 w-4" />
                 Dashboard
@@ -32,10 +34,10 @@ export default function Home() {
                 <Brain className="h-4 w-4" />
                 AI Optimizer
               </TabsTrigger>
-              {currentUser?.role === 'Admin' && (
+              {canReview && (
                 <TabsTrigger value="admin" className="flex items-center gap-2">
                   <UserCog className="h-4 w-4" />
-                  Admin
+                  {currentUser?.role === 'Manager' ? 'Team' : 'Admin'}
                 </TabsTrigger>
               )}
             </TabsList>
@@ -49,7 +51,7 @@ export default function Home() {
           <TabsContent value="ai-optimizer">
             <AiOptimizerPage />
           </TabsContent>
-          {currentUser?.role === 'Admin' && (
+          {canReview && (
             <TabsContent value="admin">
               <AdminPage />
             </TabsContent>
@@ -0,0 +1,17 @@
+import { Header } from "@/components/layout/header";
+import { ProjectBoardPage } from "@/components/project/project-board-page";
+import { Toaster } from "@/components/ui/toaster";
+
+export default async function ProjectBoardRoute({ params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await params;
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-1">
+        <ProjectBoardPage projectId={projectId} />
+      </main>
+      <Toaster />
+    </div>
+  );
+}
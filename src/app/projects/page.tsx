@@ -0,0 +1,15 @@
+import { Header } from "@/components/layout/header";
+import { ProjectsPage } from "@/components/project/projects-page";
+import { Toaster } from "@/components/ui/toaster";
+
+export default function ProjectsRoute() {
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-1">
+        <ProjectsPage />
+      </main>
+      <Toaster />
+    </div>
+  );
+}
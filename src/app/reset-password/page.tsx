@@ -0,0 +1,193 @@
+"use client";
+
+import { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { userAPI } from '@/lib/auth-api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, ArrowLeft, CheckCircle, Eye, EyeOff, Loader2, Lock, ShieldCheck } from 'lucide-react';
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <ResetPasswordContent />
+    </Suspense>
+  );
+}
+
+function ResetPasswordContent() {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [passwordError, setPasswordError] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [success, setSuccess] = useState(false);
+
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  const validate = () => {
+    // The API rejects anything shorter than 8 characters
+    if (password.length < 8) {
+      setPasswordError('Password must be at least 8 characters long');
+      return false;
+    }
+    if (password !== confirmPassword) {
+      setPasswordError('Passwords do not match');
+      return false;
+    }
+    setPasswordError('');
+    return true;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!validate()) return;
+
+    setLoading(true);
+    try {
+      await userAPI.resetPassword(token, password);
+      setSuccess(true);
+      setTimeout(() => router.push('/login'), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-2xl backdrop-blur-sm border-0 bg-white/80">
+        <CardHeader className="text-center pb-4">
+          <div className="inline-flex justify-center items-center mb-4">
+            <div className="bg-gradient-to-r from-blue-500 to-indigo-600 rounded-full p-3">
+              <ShieldCheck className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <CardTitle className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+            Choose a new password
+          </CardTitle>
+          <CardDescription className="mt-2 text-slate-600">
+            You&apos;ll be signed out on every device and can log in again with the new password.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {!token ? (
+            <Alert variant="destructive" className="border-red-200 bg-red-50">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Missing reset link</AlertTitle>
+              <AlertDescription>
+                Open the link from your reset email, or <Link href="/forgot-password" className="underline">request a new one</Link>.
+              </AlertDescription>
+            </Alert>
+          ) : success ? (
+            <Alert className="border-green-200 bg-green-50 text-green-800">
+              <CheckCircle className="h-4 w-4" />
+              <AlertTitle>Password updated</AlertTitle>
+              <AlertDescription>Redirecting you to sign in...</AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <Alert variant="destructive" className="border-red-200 bg-red-50">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Reset Failed</AlertTitle>
+                  <AlertDescription>
+                    {error}{' '}
+                    <Link href="/forgot-password" className="underline">Request a new link</Link>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="password" className="font-medium text-slate-700">
+                  New Password
+                </Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
+                  <Input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={`pl-10 pr-12 text-base ${passwordError ? 'border-red-300 focus:border-red-500' : 'focus:border-blue-500'}`}
+                    disabled={loading}
+                    autoComplete="new-password"
+                    autoFocus
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-400 hover:text-slate-600 transition-colors"
+                    disabled={loading}
+                    aria-label={showPassword ? 'Hide password' : 'Show password'}
+                  >
+                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password" className="font-medium text-slate-700">
+                  Confirm New Password
+                </Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
+                  <Input
+                    id="confirm-password"
+                    type={showPassword ? 'text' : 'password'}
+                    placeholder="••••••••"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className={`pl-10 text-base ${passwordError ? 'border-red-300 focus:border-red-500' : 'focus:border-blue-500'}`}
+                    disabled={loading}
+                    autoComplete="new-password"
+                    aria-describedby={passwordError ? 'password-error' : undefined}
+                  />
+                </div>
+                {passwordError && (
+                  <p id="password-error" className="text-sm text-red-600 mt-1">{passwordError}</p>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full text-lg py-6 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+                disabled={loading}
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    Updating...
+                  </>
+                ) : (
+                  'Reset Password'
+                )}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+
+        <CardFooter className="flex justify-center text-sm pt-2">
+          <Link
+            href="/login"
+            className="inline-flex items-center font-semibold text-blue-600 hover:text-blue-800 hover:underline transition-colors"
+          >
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to Sign In
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -24,8 +24,6 @@ import {
   Shield, 
   Check, 
   X, 
-  Crown, 
-  Users,
   Github,
   Chrome,
   Moon,
@@ -33,15 +31,12 @@ import {
   Wifi,
   WifiOff,
   RefreshCw,
-  Star,
   Zap,
   Globe,
   Building,
   Sparkles
 } from 'lucide-react';
 import Link from 'next/link';
-import type { UserRole } from '@/types';
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 
 interface PasswordStrength {
   score: number;
@@ -55,7 +50,6 @@ export default function EnhancedSignupPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
-  const [role, setRole] = useState<UserRole>('User');
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [acceptTerms, setAcceptTerms] = useState(false);
@@ -110,20 +104,19 @@ export default function EnhancedSignupPage() {
   // Auto-save form data
   useEffect(() => {
     if (formTouched) {
-      const formData = { name, email, role, acceptMarketing };
+      const formData = { name, email, acceptMarketing };
       localStorage.setItem('signupForm', JSON.stringify(formData));
     }
-  }, [name, email, role, acceptMarketing, formTouched]);
+  }, [name, email, acceptMarketing, formTouched]);
 
   // Load saved form data
   useEffect(() => {
     const savedData = localStorage.getItem('signupForm');
     if (savedData) {
       try {
-        const { name: savedName, email: savedEmail, role: savedRole, acceptMarketing: savedMarketing } = JSON.parse(savedData);
+        const { name: savedName, email: savedEmail, acceptMarketing: savedMarketing } = JSON.parse(savedData);
         setName(savedName || '');
         setEmail(savedEmail || '');
-        setRole((savedRole as UserRole) || 'User');
         setAcceptMarketing(savedMarketing || false);
       } catch (error) {
         console.error('Failed to load saved form data:', error);
@@ -333,7 +326,7 @@ export default function EnhancedSignupPage() {
     setCurrentStep(2);
 
     try {
-      const success = await signup(name.trim(), email, role, password);
+      const success = await signup(name.trim(), email, password);
       if (success) {
         setCurrentStep(3);
         setSuccess(true);
@@ -368,22 +361,6 @@ export default function EnhancedSignupPage() {
     window.location.reload();
   };
 
-  const getRoleIcon = (roleType: UserRole) => {
-    switch (roleType) {
-      case 'Admin': return Crown;
-      case 'User': return Users;
-      default: return Users;
-    }
-  };
-
-  const getRoleDescription = (roleType: UserRole) => {
-    switch (roleType) {
-      case 'Admin': return 'Full system access, user management, and administrative privileges';
-      case 'User': return 'Standard access to tasks, projects, and collaboration features';
-      default: return 'Standard access';
-    }
-  };
-
   return (
     <div className={`min-h-screen transition-colors duration-300 ${
       darkMode 
@@ -783,57 +760,6 @@ export default function EnhancedSignupPage() {
               )}
             </div>
 
-            <div className="space-y-3">
-              <Label className={`font-medium ${darkMode ? 'text-gray-200' : 'text-slate-700'}`}>
-                Account Type
-              </Label>
-              <RadioGroup 
-                value={role} 
-                onValueChange={(value) => setRole(value as UserRole)} 
-                className="grid grid-cols-1 gap-3"
-                disabled={loading}
-              >
-                {(['User', 'Admin'] as const).map((roleType) => {
-                  const IconComponent = getRoleIcon(roleType);
-                  return (
-                    <div 
-                      key={roleType}
-                      className={`relative border-2 rounded-lg p-4 cursor-pointer transition-all duration-200 ${
-                        role === roleType 
-                          ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20' 
-                          : darkMode 
-                          ? 'border-gray-600 hover:border-gray-500' 
-                          : 'border-gray-200 hover:border-gray-300'
-                      }`}
-                    >
-                      <RadioGroupItem value={roleType} id={`role-${roleType.toLowerCase()}`} className="sr-only" />
-                      <Label htmlFor={`role-${roleType.toLowerCase()}`} className="cursor-pointer block">
-                        <div className="flex items-start space-x-3">
-                          <IconComponent className="h-5 w-5 text-purple-600 mt-0.5" />
-                          <div className="flex-1">
-                            <div className={`font-medium capitalize ${
-                              darkMode ? 'text-white' : 'text-slate-900'
-                            }`}>
-                              {roleType}
-                              {roleType === 'Admin' && <Star className="inline h-4 w-4 ml-1 text-yellow-500" />}
-                            </div>
-                            <div className={`text-xs mt-1 ${
-                              darkMode ? 'text-gray-400' : 'text-slate-500'
-                            }`}>
-                              {getRoleDescription(roleType)}
-                            </div>
-                          </div>
-                        </div>
-                      </Label>
-                      {role === roleType && (
-                        <Check className="absolute top-2 right-2 h-4 w-4 text-purple-600" />
-                      )}
-                    </div>
-                  );
-                })}
-              </RadioGroup>
-            </div>
-
             <div className="space-y-4">
               <div className="flex items-start space-x-3">
                 <Checkbox 
@@ -0,0 +1,15 @@
+import { Header } from "@/components/layout/header";
+import { TemplatesPage } from "@/components/template/templates-page";
+import { Toaster } from "@/components/ui/toaster";
+
+export default function TemplatesRoute() {
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-1">
+        <TemplatesPage />
+      </main>
+      <Toaster />
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { memo, useCallback, useMemo, useState, useEffect, useTransition } from "react";
+import React, { memo, useCallback, useMemo, useState, useEffect } from "react";
 import { CreateTaskForm } from "./create-task-form";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import type { Task, User } from "@/types";
@@ -12,7 +12,6 @@ import {
   Ban, 
   UserCog, 
   Loader2, 
-  BellRing, 
   AlertCircle,
   Users,
   Clock,
@@ -22,17 +21,13 @@ import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/auth-context";
 import { useTasks } from "@/contexts/TaskContext"; 
 import { useActionState } from "react";
-import { 
-  rejectTaskAction, 
-  type RejectTaskActionState, 
-  checkForOverdueTasksAction, 
-  CheckOverdueTasksActionState 
-} from "@/app/actions"; 
+import { rejectTaskAction, type RejectTaskActionState } from "@/app/actions";
 import { useToast } from "@/hooks/use-toast";
 import { format, parseISO } from "date-fns";
 import { TaskStatusBadge } from "../task/task-status-badge";
 import { ApproveTaskDialog } from "./approve-task-dialog";
 import { RequestRevisionsDialog } from "./request-revisions-dialog";
+import { AuditLogViewer } from "./audit-log-viewer";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -128,119 +123,12 @@ const RejectTaskButton = memo(({ taskId, rejecterId }: { taskId: string; rejecte
 
 RejectTaskButton.displayName = "RejectTaskButton";
 
-// Enhanced notification simulation with better feedback
-const SimulateOverdueNotificationsButton = memo(() => {
-  const initialCheckState: CheckOverdueTasksActionState = { 
-    success: false, 
-    overdueTasksFound: 0, 
-    notificationMessages: [] 
-  };
-  const [checkState, checkFormAction, isCheckingPending] = useActionState(
-    checkForOverdueTasksAction, 
-    initialCheckState
-  );
-  const { toast } = useToast();
-  const [isPending, startTransition] = useTransition();
-
-  useEffect(() => {
-    if (checkState.message && !isCheckingPending) { 
-      toast({
-        title: checkState.success ? "Overdue Check Complete" : "Overdue Check Failed",
-        description: checkState.message,
-        variant: checkState.success ? "default" : "destructive",
-      });
-    }
-  }, [checkState, toast, isCheckingPending]);
-
-  const handleSubmit = useCallback(() => {
-    startTransition(() => {
-      checkFormAction();
-    });
-  }, [checkFormAction]);
-
-  return (
-    <Card className="shadow-lg border-amber-200 dark:border-amber-800">
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <BellRing className="h-6 w-6 text-amber-500" />
-          Overdue Task Notifications
-          <Badge variant="secondary" className="ml-auto">Simulation</Badge>
-        </CardTitle>
-        <CardDescription>
-          Manually trigger a check for overdue tasks. This simulates sending email notifications 
-          to managers and the CEO for relevant tasks.
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-4">
-        <Button 
-          onClick={handleSubmit}
-          disabled={isCheckingPending || isPending} 
-          className="w-full sm:w-auto"
-          variant="outline"
-        >
-          {(isCheckingPending || isPending) ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Checking for overdue tasks...
-            </>
-          ) : (
-            <>
-              <BellRing className="mr-2 h-4 w-4" />
-              Check & Simulate Notifications
-            </>
-          )}
-        </Button>
-
-        {checkState.errors?._form && (
-          <Alert variant="destructive">
-            <AlertCircle className="h-4 w-4" />
-            <ShadAlertTitle>Error</ShadAlertTitle>
-            <ShadAlertDesc>{checkState.errors._form.join(", ")}</ShadAlertDesc>
-          </Alert>
-        )}
-
-        {!isCheckingPending && checkState.success && checkState.notificationMessages.length > 0 && (
-          <div className="space-y-3">
-            <div className="flex items-center gap-2">
-              <CheckSquare className="h-5 w-5 text-green-600" />
-              <h4 className="font-semibold text-green-700 dark:text-green-300">
-                Simulated Notifications Sent
-              </h4>
-            </div>
-            <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-lg border border-green-200 dark:border-green-800">
-              <ul className="space-y-2 text-sm">
-                {checkState.notificationMessages.map((msg, index) => (
-                  <li key={index} className="flex items-start gap-2">
-                    <span className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0" />
-                    <span className="text-green-700 dark:text-green-300">{msg}</span>
-                  </li>
-                ))}
-              </ul>
-            </div>
-          </div>
-        )}
-
-        {!isCheckingPending && checkState.success && checkState.overdueTasksFound === 0 && (
-          <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
-            <CheckSquare className="h-5 w-5 text-muted-foreground" />
-            <p className="text-sm text-muted-foreground">
-              No overdue tasks found. All tasks are on track! 🎉
-            </p>
-          </div>
-        )}
-      </CardContent>
-    </Card>
-  );
-});
-
-SimulateOverdueNotificationsButton.displayName = "SimulateOverdueNotificationsButton";
-
 // Enhanced admin statistics component
 const AdminStatistics = memo(({ tasks, allUsers }: { tasks: Task[]; allUsers: User[] }) => {
   const stats = useMemo(() => {
     const totalTasks = tasks.length;
     const pendingApproval = tasks.filter(t => t.status === 'Pending Approval').length;
-    const overdueTasks = tasks.filter(t => t.status === 'Overdue').length;
+    const overdueTasks = tasks.filter(t => t.isOverdue).length;
     const completedTasks = tasks.filter(t => t.status === 'Completed').length;
     const activeUsers = allUsers.filter(u => u.role === 'User').length;
     const completionRate = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
@@ -378,10 +266,12 @@ const PendingTaskItem = memo(({
               Request Changes
             </Button>
             
-            <RejectTaskButton 
-              taskId={task.id} 
-              rejecterId={currentUser.id.toString()} 
-            />
+            {currentUser.role === 'Admin' && (
+              <RejectTaskButton 
+                taskId={task.id} 
+                rejecterId={currentUser.id.toString()} 
+              />
+            )}
           </div>
         </div>
       </CardContent>
@@ -399,9 +289,18 @@ export function AdminPage() {
   const [selectedTaskForRevisions, setSelectedTaskForRevisions] = useState<Task | null>(null);
   const [isRevisionsDialogOpen, setIsRevisionsDialogOpen] = useState(false);
   
+  const isManager = currentUser?.role === 'Manager';
+
+  // A manager's panel covers their own team; the tasks already arrive scoped by the API
+  const visibleUsers = useMemo(() => {
+    if (!isManager) return allUsers;
+    const teamId = allUsers.find(user => user.id === currentUser?.id)?.teamId;
+    return allUsers.filter(user => user.id === currentUser?.id || (!!teamId && user.teamId === teamId));
+  }, [allUsers, currentUser?.id, isManager]);
+
   const assignableUsers = useMemo(() => 
-    allUsers.filter(user => user.role === 'User'), 
-    [allUsers]
+    visibleUsers.filter(user => user.role === 'User'), 
+    [visibleUsers]
   );
 
   const pendingApprovalTasks = useMemo(() => 
@@ -430,14 +329,14 @@ export function AdminPage() {
   }, []);
 
   // Access control
-  if (!currentUser || currentUser.role !== 'Admin') {
+  if (!currentUser || (currentUser.role !== 'Admin' && !isManager)) {
     return (
       <div className="p-4 md:p-6">
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
           <ShadAlertTitle>Access Denied</ShadAlertTitle>
           <ShadAlertDesc>
-            You must be an administrator to view this page. Please contact your system administrator.
+            You must be an administrator or team manager to view this page. Please contact your system administrator.
           </ShadAlertDesc>
         </Alert>
       </div>
@@ -473,7 +372,7 @@ export function AdminPage() {
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold font-headline text-foreground flex items-center gap-3">
           <UserCog className="h-8 w-8 text-primary" />
-          Admin Control Panel
+          {isManager ? 'Team Review Panel' : 'Admin Control Panel'}
         </h1>
         <Badge variant="outline" className="text-sm">
           {assignableUsers.length} Active Users
@@ -481,24 +380,26 @@ export function AdminPage() {
       </div>
       
       {/* Statistics */}
-      <AdminStatistics tasks={tasks} allUsers={allUsers} />
+      <AdminStatistics tasks={tasks} allUsers={visibleUsers} />
       
       {/* Direct Task Creation */}
-      <Card className="shadow-lg border-primary/20">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <ListPlus className="h-6 w-6 text-primary" />
-            Create & Assign Task Directly
-          </CardTitle>
-          <CardDescription>
-            As an admin, directly create a new task and assign it to an employee. 
-            This task will be marked as 'To Do' and immediately available to the assignee.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <CreateTaskForm assignableUsers={assignableUsers} />
-        </CardContent>
-      </Card>
+      {!isManager && (
+        <Card className="shadow-lg border-primary/20">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListPlus className="h-6 w-6 text-primary" />
+              Create & Assign Task Directly
+            </CardTitle>
+            <CardDescription>
+              As an admin, directly create a new task and assign it to an employee. 
+              This task will be marked as 'To Do' and immediately available to the assignee.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CreateTaskForm assignableUsers={assignableUsers} />
+          </CardContent>
+        </Card>
+      )}
 
       {/* Pending Approval Tasks */}
       <Card className="shadow-lg">
@@ -513,7 +414,7 @@ export function AdminPage() {
             </Badge>
           </CardTitle>
           <CardDescription>
-            Review tasks submitted by users. You can approve and assign them, request revisions, or reject them.
+            Review tasks submitted by users. You can approve and assign them or request revisions; admins can also reject them.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -543,8 +444,8 @@ export function AdminPage() {
         </CardContent>
       </Card>
 
-      {/* Overdue Notifications */}
-      <SimulateOverdueNotificationsButton />
+      {/* Audit Log */}
+      <AuditLogViewer users={allUsers} />
 
       {/* Dialogs */}
       {selectedTaskForApproval && (
@@ -0,0 +1,318 @@
+"use client";
+
+import React, { memo, useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ScrollText, Download, Loader2, Search, ChevronLeft, ChevronRight } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { fetchAuditLog, exportAuditLogCsv, type AuditLogFilters, type PaginatedAuditLog } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import type { User } from "@/types";
+
+const AUDIT_PAGE_SIZE = 25;
+const ALL_USERS_VALUE = "__all__";
+
+interface FilterState {
+  userId: string;
+  action: string;
+  resource: string;
+  search: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+const EMPTY_FILTERS: FilterState = {
+  userId: "",
+  action: "",
+  resource: "",
+  search: "",
+  dateFrom: "",
+  dateTo: "",
+};
+
+// Date inputs give calendar days; widen them to cover the whole local day
+const toApiFilters = (filters: FilterState): Omit<AuditLogFilters, 'page' | 'limit'> => ({
+  userId: filters.userId || undefined,
+  action: filters.action.trim() || undefined,
+  resource: filters.resource.trim() || undefined,
+  search: filters.search.trim() || undefined,
+  dateFrom: filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`).toISOString() : undefined,
+  dateTo: filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`).toISOString() : undefined,
+});
+
+export const AuditLogViewer = memo(({ users }: { users: User[] }) => {
+  const { toast } = useToast();
+  const [draftFilters, setDraftFilters] = useState<FilterState>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<FilterState>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<PaginatedAuditLog | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchAuditLog({ ...toApiFilters(appliedFilters), page, limit: AUDIT_PAGE_SIZE })
+      .then(data => {
+        if (!cancelled) setResult(data);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to load audit log:', error);
+        toast({ title: "Could not load audit log", description: error.message, variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appliedFilters, page, toast]);
+
+  const updateDraft = useCallback((field: keyof FilterState, value: string) => {
+    setDraftFilters(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const handleApply = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
+    setPage(1);
+    setAppliedFilters(draftFilters);
+  }, [draftFilters]);
+
+  const handleReset = useCallback(() => {
+    setPage(1);
+    setDraftFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+  }, []);
+
+  const handleExport = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      const blob = await exportAuditLogCsv(toApiFilters(appliedFilters));
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit-log-${format(new Date(), "yyyy-MM-dd")}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Failed to export audit log:', error);
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  }, [appliedFilters, toast]);
+
+  const entries = result?.entries ?? [];
+  const pagination = result?.pagination;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ScrollText className="h-6 w-6 text-primary" />
+            Audit Log
+          </div>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting}>
+            {isExporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Export CSV
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Every recorded user action, newest first. The export applies the current filters.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleApply} className="grid gap-3 md:grid-cols-3 lg:grid-cols-6 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="audit-user">User</Label>
+            <Select
+              value={draftFilters.userId || ALL_USERS_VALUE}
+              onValueChange={value => updateDraft("userId", value === ALL_USERS_VALUE ? "" : value)}
+            >
+              <SelectTrigger id="audit-user">
+                <SelectValue placeholder="All users" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_USERS_VALUE}>All users</SelectItem>
+                {users.map(user => (
+                  <SelectItem key={user.id} value={String(user.id)}>
+                    {user.firstName} {user.lastName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-action">Action</Label>
+            <Input
+              id="audit-action"
+              placeholder="e.g. create_task"
+              value={draftFilters.action}
+              onChange={event => updateDraft("action", event.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-resource">Resource</Label>
+            <Input
+              id="audit-resource"
+              placeholder="e.g. task"
+              value={draftFilters.resource}
+              onChange={event => updateDraft("resource", event.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={draftFilters.dateFrom}
+              onChange={event => updateDraft("dateFrom", event.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={draftFilters.dateTo}
+              onChange={event => updateDraft("dateTo", event.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-search">Search</Label>
+            <Input
+              id="audit-search"
+              placeholder="IDs, metadata…"
+              value={draftFilters.search}
+              onChange={event => updateDraft("search", event.target.value)}
+            />
+          </div>
+          <div className="flex gap-2 md:col-span-3 lg:col-span-6">
+            <Button type="submit" size="sm">
+              <Search className="mr-2 h-4 w-4" />
+              Apply filters
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={handleReset}>
+              Reset
+            </Button>
+          </div>
+        </form>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[150px]">Time</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Resource</TableHead>
+                <TableHead>IP</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+                  </TableCell>
+                </TableRow>
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                    No audit entries match these filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-xs">
+                      {format(parseISO(entry.createdAt), "MMM dd, yyyy HH:mm:ss")}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {entry.userName || entry.userEmail || <span className="text-muted-foreground">Deleted user</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className="font-mono text-xs">{entry.action}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {entry.resource}
+                      {entry.resourceId && (
+                        <span className="block font-mono text-muted-foreground truncate max-w-[160px]" title={entry.resourceId}>
+                          {entry.resourceId}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs font-mono" title={entry.forwardedUserAgent || entry.userAgent || undefined}>
+                      {entry.forwardedIpAddress || entry.ipAddress || "—"}
+                      {entry.forwardedIpAddress && entry.ipAddress && (
+                        <span className="block text-muted-foreground">via {entry.ipAddress}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs font-mono text-muted-foreground max-w-[280px] truncate" title={JSON.stringify(entry.metadata, null, 2)}>
+                      {Object.keys(entry.metadata).length > 0 ? JSON.stringify(entry.metadata) : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {pagination && pagination.total > 0 && (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              Page {pagination.page} of {pagination.totalPages} · {pagination.total} entries
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!pagination.hasPrevPage || isLoading}
+                onClick={() => setPage(prev => prev - 1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!pagination.hasNextPage || isLoading}
+                onClick={() => setPage(prev => prev + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+AuditLogViewer.displayName = "AuditLogViewer";
@@ -25,15 +25,22 @@ import {
   User as UserIcon,
   Target,
   FileText,
+  FolderKanban,
+  LayoutTemplate,
+  Repeat,
   Calendar as CalendarDays,
   CheckCircle2
 } from "lucide-react";
 import { format, addDays, startOfDay } from 'date-fns';
 import { cn } from "@/lib/utils";
-import type { User, TaskPriority } from "@/types";
+import type { User, TaskPriority, TaskTemplate } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/auth-context";
 import { useTasks } from "@/contexts/TaskContext";
+import { ProjectSelect } from "@/components/project/project-select";
+import { RecurrenceEditor } from "@/components/task/recurrence-editor";
+import { TemplatePicker } from "@/components/template/template-picker";
+import { buildTaskDescriptionFromTemplate } from "@/lib/templates";
 
 interface CreateTaskFormProps {
   assignableUsers: User[];
@@ -177,6 +184,10 @@ export const CreateTaskForm = memo(({ assignableUsers }: CreateTaskFormProps) =>
   const [selectedAssignee, setSelectedAssignee] = useState<string>("");
   const [timerDuration, setTimerDuration] = useState<string>("");
   const [title, setTitle] = useState<string>("");
+  const [description, setDescription] = useState<string>("");
+  const [templateId, setTemplateId] = useState<string>("");
+  const [projectId, setProjectId] = useState<string>("");
+  const [recurringPattern, setRecurringPattern] = useState<string>("");
   const { currentUser } = useAuth();
   const { addTask } = useTasks();
 
@@ -214,6 +225,10 @@ export const CreateTaskForm = memo(({ assignableUsers }: CreateTaskFormProps) =>
         setSelectedAssignee("");
         setTimerDuration("");
         setTitle("");
+        setDescription("");
+        setTemplateId("");
+        setProjectId("");
+        setRecurringPattern("");
       } else if (!state.success) {
         toast({
           title: "Failed to Create Task",
@@ -237,6 +252,18 @@ export const CreateTaskForm = memo(({ assignableUsers }: CreateTaskFormProps) =>
     setDeadline(date);
   }, []);
 
+  const handleTemplateSelect = useCallback((template: TaskTemplate | null) => {
+    setTemplateId(template?.id ?? "");
+    if (!template) return;
+
+    setTitle(template.title);
+    setDescription(buildTaskDescriptionFromTemplate(template));
+    setSelectedPriority(template.defaultPriority);
+    if (template.defaultTimerDuration > 0) {
+      setTimerDuration(String(template.defaultTimerDuration));
+    }
+  }, []);
+
   // Access control
   if (!currentUser || currentUser.role !== 'Admin') {
     return (
@@ -265,6 +292,15 @@ export const CreateTaskForm = memo(({ assignableUsers }: CreateTaskFormProps) =>
       )}
 
       <form action={formAction} ref={formRef} className="space-y-6">
+        {/* Template */}
+        <FormField
+          label="Start from a template"
+          icon={<LayoutTemplate className="h-4 w-4" />}
+          description="Prefills the title, description, priority and estimated duration"
+        >
+          <TemplatePicker value={templateId} onSelect={handleTemplateSelect} />
+        </FormField>
+
         {/* Task Title */}
         <FormField
           label="Task Title"
@@ -299,6 +335,8 @@ export const CreateTaskForm = memo(({ assignableUsers }: CreateTaskFormProps) =>
           <Textarea 
             id="description" 
             name="description" 
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
             rows={4} 
             placeholder="Provide a comprehensive description of the task, including requirements, deliverables, and any specific instructions..." 
             required 
@@ -307,6 +345,22 @@ export const CreateTaskForm = memo(({ assignableUsers }: CreateTaskFormProps) =>
           />
         </FormField>
 
+        {/* Project */}
+        <FormField
+          label="Project"
+          icon={<FolderKanban className="h-4 w-4" />}
+          error={state.errors?.projectId?.join(", ")}
+          description="Optional; groups the task on its project board"
+        >
+          <ProjectSelect
+            id="projectId"
+            name="projectId"
+            value={projectId}
+            onValueChange={setProjectId}
+            className={cn(state.errors?.projectId && "border-destructive")}
+          />
+        </FormField>
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Deadline Selection */}
           <FormField
@@ -475,6 +529,22 @@ export const CreateTaskForm = memo(({ assignableUsers }: CreateTaskFormProps) =>
           </FormField>
         </div>
 
+        {/* Recurrence */}
+        <FormField
+          label="Repeat"
+          icon={<Repeat className="h-4 w-4" />}
+          error={state.errors?.recurringPattern?.join(", ")}
+          description="Each new instance copies the assignee, priority and estimated duration, with dates counted from the deadline"
+        >
+          <RecurrenceEditor
+            id="recurringPattern"
+            name="recurringPattern"
+            value={recurringPattern}
+            onValueChange={setRecurringPattern}
+            anchorDate={deadline}
+          />
+        </FormField>
+
         {/* Task Summary */}
         <TaskSummary
           title={title}
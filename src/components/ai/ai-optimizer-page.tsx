@@ -6,12 +6,18 @@ import {
   suggestDeadlineAction, 
   type SuggestDeadlineActionState, 
   parseTaskFromTextAction, 
-  type ParseTaskFromTextActionState 
+  type ParseTaskFromTextActionState,
+  proposeSubtasksAction,
+  createTaskWithSubtasksAction
 } from "@/app/actions";
+import type { BreakDownTaskOutput } from "@/ai/flows/break-down-task-flow";
+import type { ParseTaskFromTextOutput } from "@/ai/flows/parse-task-from-text-flow";
+import type { SubtaskDraft } from "@/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
@@ -31,11 +37,18 @@ import {
   Copy,
   RotateCcw,
   TrendingUp,
-  Bot
+  Bot,
+  User as UserIcon,
+  Folder,
+  Tag,
+  ListTree,
+  Plus,
+  Trash2
 } from "lucide-react";
 import { format, parseISO } from 'date-fns';
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { formatDuration, localTimeZone } from "@/lib/time-tracking";
 
 const EXAMPLE_PROMPTS = [
   {
@@ -49,7 +62,7 @@ const EXAMPLE_PROMPTS = [
   {
     category: "Development Tasks", 
     examples: [
-      "Fix login bug by next Wednesday high priority",
+      "Fix login bug by EOD tomorrow, assign to @alex #website high priority",
       "Implement user authentication feature with 2FA by end of month",
       "Review and optimize database queries low priority next week"
     ]
@@ -187,6 +200,9 @@ const ParsedResultDisplay = memo(({ data }: { data: any }) => (
               <p className="text-sm">
                 {format(parseISO(data.deadline), "PPPppp ' ('EEEE')'")}
               </p>
+              {data.deadlineNaturalLanguage && (
+                <p className="text-xs mt-1 opacity-80">From &quot;{data.deadlineNaturalLanguage}&quot;</p>
+              )}
             </div>
           )}
           
@@ -203,11 +219,45 @@ const ParsedResultDisplay = memo(({ data }: { data: any }) => (
           )}
         </div>
         
+        {(data.assigneeName || data.projectName || data.tags?.length > 0 || data.unresolvedMentions?.length > 0) && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {(data.assigneeName || data.unresolvedMentions?.length > 0) && (
+              <div className="bg-white/50 dark:bg-blue-800/30 p-3 rounded-lg">
+                <h5 className="font-semibold flex items-center gap-2 mb-2">
+                  <UserIcon className="h-4 w-4" />
+                  Assignee
+                </h5>
+                {data.assigneeName && <p className="text-sm">{data.assigneeName}</p>}
+                {data.unresolvedMentions?.length > 0 && (
+                  <p className="text-xs text-amber-700 dark:text-amber-300">
+                    No single user matches {data.unresolvedMentions.join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {(data.projectName || data.tags?.length > 0) && (
+              <div className="bg-white/50 dark:bg-blue-800/30 p-3 rounded-lg">
+                <h5 className="font-semibold flex items-center gap-2 mb-2">
+                  {data.projectName ? <Folder className="h-4 w-4" /> : <Tag className="h-4 w-4" />}
+                  {data.projectName ? "Project & Tags" : "Tags"}
+                </h5>
+                {data.projectName && <p className="text-sm mb-1">{data.projectName}</p>}
+                <div className="flex flex-wrap gap-1">
+                  {(data.tags as string[] | undefined)?.map(tag => (
+                    <Badge key={tag} variant="outline" className="text-xs">#{tag}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {data.reasoning && (
           <div className="bg-white/50 dark:bg-blue-800/30 p-3 rounded-lg">
             <h5 className="font-semibold flex items-center gap-2 mb-2">
               <Brain className="h-4 w-4" />
-              AI Reasoning
+              {data.parsedByModel ? "AI Reasoning" : "How It Was Read"}
             </h5>
             <p className="text-xs italic leading-relaxed">{data.reasoning}</p>
           </div>
@@ -239,27 +289,54 @@ const DeadlineSuggestionDisplay = memo(({ data }: { data: any }) => (
           <h5 className="font-semibold flex items-center gap-2 mb-3">
             <Calendar className="h-5 w-5" />
             Recommended Timeline
+            {data.refinedByModel && (
+              <Badge variant="outline" className="ml-auto text-xs">Refined by AI</Badge>
+            )}
           </h5>
           <p className="text-lg font-bold mb-2">
             {data.suggestedDeadline ? 
               format(parseISO(data.suggestedDeadline), "PPPppp ' ('EEEE')'") : 
               "Analysis in progress..."}
           </p>
+          {data.earliestDeadline && data.latestDeadline && (
+            <p className="text-sm">
+              Likely between {format(parseISO(data.earliestDeadline), "PPP")} and{" "}
+              {format(parseISO(data.latestDeadline), "PPP")}
+              {" "}({Math.round(data.intervalLevel * 100)}% of comparable tasks finished in this range)
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white/50 dark:bg-green-800/30 p-4 rounded-lg">
+          <div className="flex justify-between text-sm mb-2">
+            <span className="font-semibold flex items-center gap-2">
+              <TrendingUp className="h-4 w-4" />
+              Confidence
+            </span>
+            <span>
+              {Math.round(data.confidence * 100)}% · {data.sampleSize} completed {data.sampleSize === 1 ? "task" : "tasks"}
+            </span>
+          </div>
+          <Progress value={Math.round(data.confidence * 100)} className="h-2" />
         </div>
         
         <div className="bg-white/50 dark:bg-green-800/30 p-4 rounded-lg">
           <h5 className="font-semibold flex items-center gap-2 mb-3">
             <Brain className="h-5 w-5" />
-            Analysis & Reasoning
+            How This Was Estimated
           </h5>
-          <p className="text-sm leading-relaxed">{data.reasoning}</p>
+          <ul className="text-sm leading-relaxed list-disc pl-5 space-y-1">
+            {(data.explanation as string[] | undefined)?.map((line, index) => (
+              <li key={index}>{line}</li>
+            )) ?? <li>{data.reasoning}</li>}
+          </ul>
         </div>
         
         <div className="bg-blue-50 dark:bg-blue-900/30 p-3 rounded-lg border border-blue-200 dark:border-blue-800">
           <p className="text-xs text-blue-700 dark:text-blue-300 flex items-center gap-2">
             <Clock className="h-3 w-3" />
-            <strong>Pro Tip:</strong> This AI-suggested deadline considers task complexity, 
-            typical development timelines, and buffer time for quality assurance.
+            <strong>Pro Tip:</strong> Estimates are based on how long similar completed tasks took, 
+            so they get sharper as your team completes more work.
           </p>
         </div>
       </div>
@@ -269,6 +346,256 @@ const DeadlineSuggestionDisplay = memo(({ data }: { data: any }) => (
 
 DeadlineSuggestionDisplay.displayName = "DeadlineSuggestionDisplay";
 
+interface EditableSubtask {
+  key: number;
+  title: string;
+  description?: string;
+  estimatedMinutes: number;
+  // Positions of earlier rows; kept pointing backwards as rows are removed
+  dependsOn: number[];
+}
+
+// Same rule as the flow: the longest chain of dependent steps
+function criticalPathMinutes(items: EditableSubtask[]): number {
+  const finish: number[] = [];
+  items.forEach((item, index) => {
+    finish[index] = Math.max(0, ...item.dependsOn.map(position => finish[position])) + item.estimatedMinutes;
+  });
+  return Math.max(0, ...finish);
+}
+
+const SubtaskBreakdown = memo(({ task }: { task: ParseTaskFromTextOutput }) => {
+  const { toast } = useToast();
+  const [proposal, setProposal] = useState<BreakDownTaskOutput | null>(null);
+  const [items, setItems] = useState<EditableSubtask[]>([]);
+  const [isProposing, setIsProposing] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdTitle, setCreatedTitle] = useState<string | null>(null);
+  const nextKey = useRef(0);
+
+  // A new parse starts a new review
+  useEffect(() => {
+    setProposal(null);
+    setItems([]);
+    setCreatedTitle(null);
+  }, [task]);
+
+  const handlePropose = useCallback(async () => {
+    setIsProposing(true);
+    try {
+      const formData = new FormData();
+      formData.append("title", task.title || "");
+      if (task.description) formData.append("description", task.description);
+      if (task.deadline) formData.append("deadline", task.deadline);
+
+      const result = await proposeSubtasksAction({ success: false }, formData);
+      if (result.success && result.data) {
+        setProposal(result.data);
+        setItems(result.data.subtasks.map(subtask => ({ ...subtask, key: nextKey.current++ })));
+        setCreatedTitle(null);
+      } else {
+        toast({
+          title: "Breakdown Failed",
+          description: result.message || "Could not propose subtasks. Please try again.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsProposing(false);
+    }
+  }, [task, toast]);
+
+  const updateItem = useCallback((index: number, changes: Partial<EditableSubtask>) => {
+    setItems(current => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  }, []);
+
+  const toggleDependency = useCallback((index: number, position: number) => {
+    setItems(current => current.map((item, i) => {
+      if (i !== index) return item;
+      const dependsOn = item.dependsOn.includes(position)
+        ? item.dependsOn.filter(p => p !== position)
+        : [...item.dependsOn, position].sort((a, b) => a - b);
+      return { ...item, dependsOn };
+    }));
+  }, []);
+
+  const removeItem = useCallback((index: number) => {
+    setItems(current => current
+      .filter((_, i) => i !== index)
+      .map(item => ({
+        ...item,
+        dependsOn: item.dependsOn.filter(p => p !== index).map(p => (p > index ? p - 1 : p)),
+      })));
+  }, []);
+
+  const addItem = useCallback(() => {
+    setItems(current => [
+      ...current,
+      {
+        key: nextKey.current++,
+        title: "",
+        estimatedMinutes: 60,
+        dependsOn: current.length > 0 ? [current.length - 1] : [],
+      },
+    ]);
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    if (items.some(item => !item.title.trim())) {
+      toast({
+        title: "Missing Titles",
+        description: "Give every subtask a title or remove it before creating.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const subtasks: SubtaskDraft[] = items.map(({ title, description, estimatedMinutes, dependsOn }) => ({
+        title: title.trim(),
+        description,
+        estimatedMinutes,
+        dependsOn,
+      }));
+      const formData = new FormData();
+      formData.append("title", task.title || "");
+      if (task.description) formData.append("description", task.description);
+      if (task.deadline) formData.append("deadline", task.deadline);
+      if (task.priority) formData.append("priority", task.priority);
+      if (task.assigneeId) formData.append("assignedUserId", task.assigneeId);
+      if (task.projectId) formData.append("projectId", task.projectId);
+      formData.append("subtasks", JSON.stringify(subtasks));
+
+      const result = await createTaskWithSubtasksAction({ success: false }, formData);
+      if (result.success && result.task) {
+        setCreatedTitle(result.task.title);
+        toast({ title: "Task Created", description: result.message });
+      } else {
+        toast({
+          title: "Creation Failed",
+          description: result.message || "Nothing was created. Please try again.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  }, [items, task, toast]);
+
+  if (!task.title) return null;
+
+  const totalMinutes = items.reduce((sum, item) => sum + item.estimatedMinutes, 0);
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h4 className="font-semibold flex items-center gap-2">
+            <ListTree className="h-4 w-4 text-primary" />
+            Break Into Subtasks
+            {proposal?.proposedByModel && <Badge variant="outline" className="text-xs">AI</Badge>}
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            Review the proposed steps, then create the task and all of its subtasks in one go.
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={handlePropose} disabled={isProposing || isCreating}>
+          <Sparkles className="mr-1 h-3 w-3" />
+          {isProposing ? "Proposing..." : proposal ? "Propose Again" : "Propose Subtasks"}
+        </Button>
+      </div>
+
+      {proposal && (
+        <>
+          <p className="text-xs italic text-muted-foreground">{proposal.reasoning}</p>
+
+          <ol className="space-y-3">
+            {items.map((item, index) => (
+              <li key={item.key} className="rounded-md bg-muted/30 p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-medium text-muted-foreground w-6">#{index + 1}</span>
+                  <Input
+                    value={item.title}
+                    onChange={(e) => updateItem(index, { title: e.target.value })}
+                    placeholder="Subtask title"
+                    maxLength={255}
+                    aria-label={`Subtask ${index + 1} title`}
+                    className="h-8"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={2880}
+                    step={5}
+                    value={item.estimatedMinutes}
+                    onChange={(e) => updateItem(index, { estimatedMinutes: Math.min(Math.max(Math.round(Number(e.target.value)) || 0, 0), 2880) })}
+                    aria-label={`Subtask ${index + 1} estimate in minutes`}
+                    className="h-8 w-24"
+                  />
+                  <span className="text-xs text-muted-foreground">min</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => removeItem(index)}
+                    aria-label={`Remove subtask ${index + 1}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {index > 0 && (
+                  <div className="flex flex-wrap items-center gap-1 pl-8">
+                    <span className="text-xs text-muted-foreground mr-1">Starts after:</span>
+                    {items.slice(0, index).map((_, position) => (
+                      <button
+                        key={position}
+                        type="button"
+                        onClick={() => toggleDependency(index, position)}
+                        aria-pressed={item.dependsOn.includes(position)}
+                      >
+                        <Badge variant={item.dependsOn.includes(position) ? "default" : "outline"} className="text-xs cursor-pointer">
+                          #{position + 1}
+                        </Badge>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={addItem}>
+              <Plus className="mr-1 h-3 w-3" />
+              Add Step
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              {formatDuration(totalMinutes * 60)} of work · at least {formatDuration(criticalPathMinutes(items) * 60)} end to end
+            </span>
+          </div>
+
+          {createdTitle ? (
+            <p className="text-sm text-green-700 dark:text-green-300 flex items-center gap-2">
+              <CheckCircle className="h-4 w-4" />
+              Created &quot;{createdTitle}&quot; with its subtasks.
+            </p>
+          ) : (
+            <div className="flex justify-end">
+              <Button type="button" onClick={handleCreate} disabled={isCreating || items.length === 0}>
+                {isCreating ? "Creating..." : `Create Task with ${items.length} Subtask${items.length === 1 ? "" : "s"}`}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+});
+
+SubtaskBreakdown.displayName = "SubtaskBreakdown";
+
 const NaturalLanguageTaskCreator = memo(() => {
   const initialParseState: ParseTaskFromTextActionState = { success: false };
   const [parseState, parseFormAction] = useActionState(parseTaskFromTextAction, initialParseState);
@@ -276,6 +603,12 @@ const NaturalLanguageTaskCreator = memo(() => {
   const { toast } = useToast();
   const [inputText, setInputText] = useState("");
   const [showExamples, setShowExamples] = useState(false);
+  // Read after mount so the server render and hydration agree
+  const [timeZone, setTimeZone] = useState("");
+
+  useEffect(() => {
+    setTimeZone(localTimeZone());
+  }, []);
 
   useEffect(() => {
     if (parseState.message && !parseState.success) {
@@ -312,6 +645,7 @@ const NaturalLanguageTaskCreator = memo(() => {
       </CardHeader>
 
       <form action={parseFormAction} ref={parseFormRef}>
+        <input type="hidden" name="timeZone" value={timeZone} />
         <CardContent className="space-y-4">
           <div className="space-y-3">
             <div className="flex items-center justify-between">
@@ -393,7 +727,10 @@ const NaturalLanguageTaskCreator = memo(() => {
           )}
 
           {parseState.success && parseState.data && (
-            <ParsedResultDisplay data={parseState.data} />
+            <>
+              <ParsedResultDisplay data={parseState.data} />
+              <SubtaskBreakdown task={parseState.data} />
+            </>
           )}
         </CardFooter>
       </form>
@@ -441,8 +778,8 @@ const DeadlineOptimizer = memo(() => {
           <Badge variant="secondary" className="ml-auto">Smart Analysis</Badge>
         </CardTitle>
         <CardDescription>
-          Describe your task in detail and get AI-powered deadline recommendations 
-          based on complexity, scope, and best practices.
+          Describe your task and get a deadline estimated from how long similar 
+          completed tasks took, with a likely range around it.
         </CardDescription>
       </CardHeader>
 
@@ -499,7 +836,7 @@ const DeadlineOptimizer = memo(() => {
 
         <CardFooter className="flex flex-col items-stretch gap-4">
           <div className="flex justify-end">
-            <SubmitButton pendingText="AI is analyzing complexity...">
+            <SubmitButton pendingText="Estimating from past tasks...">
               <Zap className="mr-2 h-4 w-4" />
               Get AI Deadline Suggestion
             </SubmitButton>
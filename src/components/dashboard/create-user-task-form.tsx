@@ -4,7 +4,7 @@
 import React, { useState, useCallback, memo, useMemo, useEffect } from 'react';
 import { useFormStatus } from "react-dom";
 import { createUserTaskAction } from "@/app/actions";
-import type { TaskPriority, User } from '@/types';
+import type { TaskPriority, TaskTemplate, User } from '@/types';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -27,6 +27,7 @@ import {
   CheckCircle2,
   Sparkles,
   Users,
+  FolderKanban,
   User as UserIcon
 } from "lucide-react";
 import { format } from "date-fns";
@@ -34,48 +35,9 @@ import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { useTasks } from "@/contexts/TaskContext";
 import { useAuth } from "@/contexts/auth-context";
-
-// Define the predefined task type properly
-type PredefinedTaskType = {
-  readonly title: string;
-  readonly description: string;
-  readonly priority: TaskPriority;
-  readonly estimatedDays: number;
-};
-
-// Predefined task templates - properly typed as an array
-const predefinedTasks: readonly PredefinedTaskType[] = [
-  {
-    title: "Fix Login Bug",
-    description: "Users are experiencing issues logging into the application. Need to investigate and resolve the authentication problem.",
-    priority: "High" as TaskPriority,
-    estimatedDays: 2,
-  },
-  {
-    title: "Implement Feature Request",
-    description: "Add new functionality based on user feedback and requirements. Include proper testing and documentation.",
-    priority: "Medium" as TaskPriority,
-    estimatedDays: 7,
-  },
-  {
-    title: "Database Optimization",
-    description: "Optimize database queries and improve performance. Analyze slow queries and implement necessary indexes.",
-    priority: "Medium" as TaskPriority,
-    estimatedDays: 3,
-  },
-  {
-    title: "Security Audit",
-    description: "Conduct comprehensive security review of the application. Check for vulnerabilities and implement security improvements.",
-    priority: "High" as TaskPriority,
-    estimatedDays: 5,
-  },
-  {
-    title: "UI/UX Improvements",
-    description: "Enhance user interface and user experience based on user feedback and usability testing results.",
-    priority: "Low" as TaskPriority,
-    estimatedDays: 4,
-  },
-] as const;
+import { ProjectSelect } from "@/components/project/project-select";
+import { TemplatePicker } from "@/components/template/template-picker";
+import { buildTaskDescriptionFromTemplate } from "@/lib/templates";
 
 const SubmitButton = memo(() => {
   const { pending } = useFormStatus();
@@ -118,49 +80,36 @@ export const CreateUserTaskForm = memo(({ users, onTaskCreated }: CreateUserTask
   const { currentUser } = useAuth();
 
   // Form state
-  const [selectedPredefined, setSelectedPredefined] = useState<string>("");
+  const [templateId, setTemplateId] = useState<string>("");
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [priority, setPriority] = useState<TaskPriority>("Medium");
   const [assigneeId, setAssigneeId] = useState<string>("");
   const [deadline, setDeadline] = useState<Date | undefined>();
   const [timerDuration, setTimerDuration] = useState<number>(0);
+  const [projectId, setProjectId] = useState<string>("");
 
-  // Handle predefined task selection - fix the type issue here
-  const handlePredefinedSelection = useCallback((taskTitle: string) => {
-    if (!taskTitle) {
-      setSelectedPredefined("");
-      return;
-    }
-    
-    // Find the selected task by title - this fixes the type error
-    const selectedTask = predefinedTasks.find(task => task.title === taskTitle);
-    
-    if (selectedTask) {
-      setSelectedPredefined(taskTitle);
-      setTitle(selectedTask.title);
-      setDescription(selectedTask.description);
-      setPriority(selectedTask.priority);
-      
-      // Set estimated deadline based on estimated days
-      const estimatedDeadline = new Date();
-      estimatedDeadline.setDate(estimatedDeadline.getDate() + selectedTask.estimatedDays);
-      setDeadline(estimatedDeadline);
-      
-      // Set estimated timer duration (assume 8 hours per day)
-      setTimerDuration(selectedTask.estimatedDays * 8 * 60); // minutes
-    }
+  // Applying a template prefills the editable fields; the assignee, deadline and project stay as chosen
+  const handleTemplateSelect = useCallback((template: TaskTemplate | null) => {
+    setTemplateId(template?.id ?? "");
+    if (!template) return;
+
+    setTitle(template.title);
+    setDescription(buildTaskDescriptionFromTemplate(template));
+    setPriority(template.defaultPriority);
+    setTimerDuration(template.defaultTimerDuration);
   }, []);
 
   // Reset form
   const resetForm = useCallback(() => {
-    setSelectedPredefined("");
+    setTemplateId("");
     setTitle("");
     setDescription("");
     setPriority("Medium");
     setAssigneeId("");
     setDeadline(undefined);
     setTimerDuration(0);
+    setProjectId("");
   }, []);
 
   // Handle form submission result
@@ -218,31 +167,7 @@ export const CreateUserTaskForm = memo(({ users, onTaskCreated }: CreateUserTask
             <Zap className="h-4 w-4" />
             Quick Templates
           </Label>
-          <Select value={selectedPredefined} onValueChange={handlePredefinedSelection}>
-            <SelectTrigger>
-              <SelectValue placeholder="Choose a template to get started quickly..." />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="">Custom Task</SelectItem>
-              {predefinedTasks.map((task) => (
-                <SelectItem key={task.title} value={task.title}>
-                  <div className="flex items-center gap-2">
-                    <Badge 
-                      variant="outline" 
-                      className={cn(
-                        "text-xs",
-                        priorityColors[task.priority].bg,
-                        priorityColors[task.priority].text
-                      )}
-                    >
-                      {task.priority}
-                    </Badge>
-                    <span>{task.title}</span>
-                  </div>
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <TemplatePicker value={templateId} onSelect={handleTemplateSelect} />
         </div>
 
         <Separator />
@@ -372,6 +297,24 @@ export const CreateUserTaskForm = memo(({ users, onTaskCreated }: CreateUserTask
             </div>
           </div>
 
+          {/* Project */}
+          <div className="space-y-2">
+            <Label htmlFor="projectId" className="flex items-center gap-2">
+              <FolderKanban className="h-4 w-4" />
+              Project
+            </Label>
+            <ProjectSelect
+              id="projectId"
+              name="projectId"
+              value={projectId}
+              onValueChange={setProjectId}
+              className={cn(state.errors?.projectId && "border-destructive")}
+            />
+            {state.errors?.projectId && (
+              <p className="text-sm text-destructive">{state.errors.projectId.join(", ")}</p>
+            )}
+          </div>
+
           {/* Deadline & Timer Row */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {/* Deadline */}
@@ -21,8 +21,10 @@ import { Separator } from "@/components/ui/separator";
 // Components
 import { CreateUserTaskForm } from "./create-user-task-form";
 import { TaskBoardView } from "./task-board-view";
+import { TaskTimelineView } from "./task-timeline-view";
 import { MyTaskItem } from "./my-tasks-card";
 import { UpcomingDeadlineItem } from "./upcoming-deadlines-card";
+import { WeeklyTimesheetCard } from "./weekly-timesheet-card";
 
 // Icons
 import { 
@@ -33,6 +35,7 @@ import {
   PlusCircle, 
   LayoutGrid, 
   List, 
+  GanttChart,
   Search,
   TrendingUp,
   CheckCircle2,
@@ -109,7 +112,7 @@ const TaskInsights = memo(({ tasks, currentUserId }: { tasks: Task[]; currentUse
     );
 
     const completed = myTasks.filter(t => t.status === 'Completed').length;
-    const overdue = myTasks.filter(t => t.status === 'Overdue').length;
+    const overdue = myTasks.filter(t => t.isOverdue).length;
     const inProgress = myTasks.filter(t => t.status === 'In Progress').length;
     const total = myTasks.length;
 
@@ -192,7 +195,7 @@ const ProductivityTips = memo(({ tasks, currentUserId }: { tasks: Task[]; curren
       Number(task.assignedUserId) === currentUserId && (task.status === 'To Do' || task.status === 'In Progress')
     );
 
-    const overdueTasks = myTasks.filter(t => t.status === 'Overdue').length;
+    const overdueTasks = myTasks.filter(t => t.isOverdue).length;
     const highPriorityTasks = myTasks.filter(t => t.priority === 'High').length;
     const dueTodayTasks = myTasks.filter(t => 
       t.deadline && isToday(parseISO(t.deadline))
@@ -341,7 +344,7 @@ export function DashboardPage() {
   const { currentUser, allUsers, loading } = useAuth();
   const { tasks, isLoadingTasks, updateTaskStatus } = useTasks();
   const [isCreateTaskOpen, setIsCreateTaskOpen] = useState(false);
-  const [viewMode, setViewMode] = useState<'list' | 'board'>('list');
+  const [viewMode, setViewMode] = useState<'list' | 'board' | 'timeline'>('list');
 
   // Ensure consistent type handling for user ID comparisons
   const currentUserId = currentUser?.id ? Number(currentUser.id) : null;
@@ -521,7 +524,7 @@ export function DashboardPage() {
                 <ToggleGroup 
                   type="single" 
                   value={viewMode} 
-                  onValueChange={(value: 'list' | 'board') => value && setViewMode(value)} 
+                  onValueChange={(value: 'list' | 'board' | 'timeline') => value && setViewMode(value)} 
                   className="bg-muted rounded-lg p-1"
                 >
                   <ToggleGroupItem value="list" size="sm">
@@ -530,6 +533,9 @@ export function DashboardPage() {
                   <ToggleGroupItem value="board" size="sm">
                     <LayoutGrid className="h-4 w-4" />
                   </ToggleGroupItem>
+                  <ToggleGroupItem value="timeline" size="sm">
+                    <GanttChart className="h-4 w-4" />
+                  </ToggleGroupItem>
                 </ToggleGroup>
               </div>
             </CardHeader>
@@ -552,15 +558,23 @@ export function DashboardPage() {
                     </div>
                   )}
                 </div>
-              ) : (
+              ) : viewMode === 'board' ? (
                 <TaskBoardView 
                   tasks={filteredTasks} 
                   onStatusChange={updateTaskStatus}
                   isLoading={isLoadingTasks}
                 />
+              ) : (
+                <TaskTimelineView
+                  tasks={filteredTasks}
+                  isLoading={isLoadingTasks}
+                />
               )}
             </CardContent>
           </Card>
+
+          {/* Weekly Timesheet */}
+          <WeeklyTimesheetCard />
         </div>
 
         {/* Sidebar - Insights & Deadlines */}
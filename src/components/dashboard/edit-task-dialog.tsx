@@ -12,7 +12,7 @@ import React, {
 } from "react";
 import { useFormStatus } from "react-dom";
 import { resubmitTaskAction, type ResubmitTaskActionState } from "@/app/actions";
-import type { Task, User, TaskComment } from "@/types";
+import type { Task, User, TaskComment, TaskActivityEntry, TaskActivityAction } from "@/types";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -48,6 +48,13 @@ import { useToast } from "@/hooks/use-toast";
 import { useTasks } from "@/contexts/TaskContext";
 import { format, parseISO } from "date-fns";
 import { cn } from "@/lib/utils";
+import { describeRecurrence } from "@/lib/recurrence";
+import { TaskComments } from "@/components/task/task-comments";
+import { TaskDependencies } from "@/components/task/task-dependencies";
+import { TaskSubtasks } from "@/components/task/task-subtasks";
+import { TaskAttachments } from "@/components/task/task-attachments";
+import { useAuth } from "@/contexts/auth-context";
+import { fetchTaskActivity } from "@/lib/api";
 
 interface EditTaskDialogProps {
   task: Task;
@@ -93,55 +100,128 @@ const getCommentTimestamp = (comment: TaskComment): string => {
   return comment.createdAt || comment.timestamp || '';
 };
 
-// Helper function for assignee rendering
-const renderAssignee = (assignee: string | { id: string; firstName: string; lastName: string } | undefined): string => {
-  if (typeof assignee === 'string') {
-    return assignee;
-  }
-  if (assignee && typeof assignee === 'object') {
-    return `${assignee.firstName} ${assignee.lastName}`;
-  }
-  return 'Unknown';
+const ACTIVITY_FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  startDate: 'start date',
+  deadline: 'deadline',
+  recurringPattern: 'recurrence',
+  assignedUserId: 'assignee',
+  assignerId: 'assigner',
+  suggestedPriority: 'suggested priority',
+  suggestedDeadline: 'suggested deadline',
+  attachments: 'attachments',
+  content: 'comment',
+};
+
+const ACTIVITY_DOT_CLASSES: Record<TaskActivityAction, string> = {
+  created: "bg-blue-500",
+  updated: "bg-slate-500",
+  status_changed: "bg-purple-500",
+  reassigned: "bg-green-500",
+  attachments_changed: "bg-cyan-500",
+  comment_added: "bg-orange-500",
+  comment_edited: "bg-orange-300",
+  comment_deleted: "bg-red-500",
+  dependency_added: "bg-amber-500",
+  dependency_removed: "bg-amber-300",
+  subtasks_added: "bg-indigo-500",
 };
 
+const ACTIVITY_PAGE_SIZE = 50;
+
 const TaskHistory = memo(({ task }: { task: Task }) => {
-  const history = useMemo(() => {
-    const events = [];
-    
-    // Add task creation
-    events.push({
-      type: 'created',
-      timestamp: task.createdAt || new Date().toISOString(),
-      user: task.assignee ? renderAssignee(task.assignee) : 'Unknown',
-      description: 'Task was created and submitted for approval'
-    });
-
-    // Add comments as history events
-    if (task.comments && task.comments.length > 0) {
-      task.comments.forEach(comment => {
-        events.push({
-          type: 'comment',
-          timestamp: getCommentTimestamp(comment),
-          user: getCommentUser(comment),
-          description: getCommentText(comment)
-        });
-      });
-    }
+  const { allUsers } = useAuth();
+  const [entries, setEntries] = useState<TaskActivityEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
 
-    // Add status changes based on current status
-    if (task.status === 'Needs Changes') {
-      events.push({
-        type: 'revision_requested',
-        timestamp: new Date().toISOString(), // This would come from the actual timestamp
-        user: 'Manager',
-        description: 'Revisions were requested'
+  // Refetch whenever the task changes so edits made in this dialog show up
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchTaskActivity(task.id, { limit: ACTIVITY_PAGE_SIZE })
+      .then(result => {
+        if (cancelled) return;
+        setEntries(result.activity);
+        setLoadError(null);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to load task activity:', error);
+        setLoadError('Could not load task history.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
       });
-    }
 
-    return events.sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-  }, [task]);
+    return () => {
+      cancelled = true;
+    };
+  }, [task.id, task.updatedAt]);
+
+  const formatValue = useCallback((field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return 'none';
+    if (field === 'assignedUserId' || field === 'assignerId') {
+      const user = allUsers.find(candidate => candidate.id === String(value));
+      return user ? `${user.firstName} ${user.lastName}` : 'an unknown user';
+    }
+    if (field === 'deadline' || field === 'suggestedDeadline' || field === 'startDate') {
+      return format(parseISO(String(value)), "MMM dd, yyyy HH:mm");
+    }
+    if (field === 'recurringPattern') {
+      return describeRecurrence(String(value)) || String(value);
+    }
+    if (Array.isArray(value)) {
+      return value.length > 0 ? value.join(', ') : 'none';
+    }
+    return String(value);
+  }, [allUsers]);
+
+  const describe = useCallback((entry: TaskActivityEntry): string[] => {
+    const changes = Object.entries(entry.details.changes || {});
+
+    switch (entry.action) {
+      case 'created':
+        if (entry.details.parentTask) {
+          return [`Created as a subtask of "${entry.details.parentTask.title}"`];
+        }
+        return entry.details.recurrence
+          ? [`Created as occurrence ${entry.details.recurrence.occurrence} of a recurring task`]
+          : ['Created the task'];
+      case 'subtasks_added': {
+        const subtasks = entry.details.subtasks || [];
+        return [`Broke the task down into ${subtasks.length} subtask${subtasks.length === 1 ? '' : 's'}`];
+      }
+      case 'comment_added':
+        return [`Commented: "${formatValue('content', entry.details.changes?.content?.to)}"`];
+      case 'comment_edited':
+        return ['Edited a comment'];
+      case 'comment_deleted':
+        return ['Deleted a comment'];
+      case 'dependency_added':
+      case 'dependency_removed': {
+        const dependency = entry.details.dependency;
+        if (!dependency) return [];
+        const verb = entry.action === 'dependency_added' ? 'Marked' : 'No longer';
+        return dependency.relation === 'blocked_by'
+          ? [`${verb} blocked by "${dependency.title}"`]
+          : [`${verb} blocking "${dependency.title}"`];
+      }
+      default:
+        return changes.map(([field, change]) => {
+          const label = ACTIVITY_FIELD_LABELS[field] || field;
+          // Long free text is summarised rather than quoted in full
+          if (field === 'description') {
+            return `Changed the ${label}`;
+          }
+          return `Changed ${label} from ${formatValue(field, change.from)} to ${formatValue(field, change.to)}`;
+        }).concat(entry.details.reason ? [`Reason: "${entry.details.reason}"`] : []);
+    }
+  }, [formatValue]);
 
   return (
     <Card className="bg-muted/30">
@@ -152,34 +232,43 @@ const TaskHistory = memo(({ task }: { task: Task }) => {
         </div>
         
         <ScrollArea className="h-32">
-          <div className="space-y-3">
-            {history.map((event, index) => (
-              <div key={index} className="flex gap-3 text-xs">
-                <div className="flex flex-col items-center">
-                  <div className={cn(
-                    "w-2 h-2 rounded-full",
-                    event.type === 'created' && "bg-blue-500",
-                    event.type === 'comment' && "bg-orange-500",
-                    event.type === 'revision_requested' && "bg-red-500"
-                  )} />
-                  {index < history.length - 1 && (
-                    <div className="w-px h-4 bg-muted-foreground/30 mt-1" />
-                  )}
-                </div>
-                <div className="flex-1 pb-2">
-                  <div className="flex items-center gap-2 mb-1">
-                    <span className="font-medium">{event.user}</span>
-                    <span className="text-muted-foreground">
-                      {format(parseISO(event.timestamp), "MMM dd, HH:mm")}
-                    </span>
+          {isLoading && entries.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <RefreshCw className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : loadError ? (
+            <p className="text-xs text-destructive">{loadError}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No recorded changes yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {entries.map((entry, index) => (
+                <div key={entry.id} className="flex gap-3 text-xs">
+                  <div className="flex flex-col items-center">
+                    <div className={cn("w-2 h-2 rounded-full", ACTIVITY_DOT_CLASSES[entry.action] || "bg-muted-foreground")} />
+                    {index < entries.length - 1 && (
+                      <div className="w-px h-4 bg-muted-foreground/30 mt-1" />
+                    )}
+                  </div>
+                  <div className="flex-1 pb-2">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-medium">
+                        {entry.user ? `${entry.user.firstName} ${entry.user.lastName}` : 'System'}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {format(parseISO(entry.createdAt), "MMM dd, HH:mm")}
+                      </span>
+                    </div>
+                    {describe(entry).map((line, lineIndex) => (
+                      <p key={lineIndex} className="text-muted-foreground leading-relaxed break-words">
+                        {line}
+                      </p>
+                    ))}
                   </div>
-                  <p className="text-muted-foreground leading-relaxed">
-                    {event.description}
-                  </p>
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          )}
         </ScrollArea>
       </CardContent>
     </Card>
@@ -398,6 +487,14 @@ export const EditTaskDialog = memo(({
             <TaskHistory task={task} />
           </div>
 
+          <TaskSubtasks taskId={task.id} />
+
+          <TaskDependencies taskId={task.id} />
+
+          <TaskAttachments taskId={task.id} currentUser={currentUser} />
+
+          <TaskComments taskId={task.id} currentUser={currentUser} />
+
           <Separator />
 
           {/* Edit Form */}
@@ -4,11 +4,12 @@ import React, { useState, useCallback, memo, useMemo } from 'react';
 import type { Task, User, TaskStatus } from '@/types';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { TaskStatusBadge } from '@/components/task/task-status-badge';
+import { TaskDependencyBadges } from '@/components/task/task-dependency-badges';
+import { TaskTimerButton } from '@/components/task/task-timer-button';
 import { formatDistanceToNow, parseISO, format, isToday, isTomorrow, isPast } from 'date-fns';
 import { 
   CalendarDays, 
   User as UserIcon, 
-  TimerIcon, 
   UserSquare, 
   CircleUser, 
   MessageSquareMore, 
@@ -135,14 +136,6 @@ const TaskMetadata = memo(({ task }: { task: Task }) => (
       </div>
     )}
 
-    {/* Timer Duration */}
-    {task.timerDuration && task.timerDuration > 0 && (
-      <div className="flex items-center gap-1.5">
-        <TimerIcon className="h-3.5 w-3.5 shrink-0" />
-        <span>Estimated: {task.timerDuration} min</span>
-      </div>
-    )}
-
     {/* Attachments */}
     {task.attachments && task.attachments.length > 0 && (
       <div className="flex items-center gap-1.5">
@@ -233,18 +226,8 @@ TaskActionsMenu.displayName = "TaskActionsMenu";
 
 // Progress indicator for tasks
 const TaskProgressIndicator = memo(({ task }: { task: Task }) => {
-  const progress = useMemo(() => {
-    switch (task.status) {
-      case 'Completed': return 100;
-      case 'In Progress': return 60;
-      case 'To Do': return 20;
-      case 'Overdue': return 40;
-      case 'Pending Approval': return 10;
-      case 'Needs Changes': return 30;
-      case 'Rejected': return 0;
-      default: return 0;
-    }
-  }, [task.status]);
+  // Rolled up by the server from subtasks and checklist items; completed tasks always read 100
+  const progress = Math.min(Math.max(Math.round(task.progressPercentage || 0), 0), 100);
 
   const progressColor = useMemo(() => {
     if (isCompletedTask(task.status)) return 'bg-green-500';
@@ -355,7 +338,11 @@ export const MyTaskItem = memo(({ task }: MyTaskItemProps) => {
         </CardHeader>
 
         <CardContent className="pt-0 pb-3 space-y-3 pl-5">
+          <TaskDependencyBadges task={task} />
+
           <TaskMetadata task={task} />
+
+          <TaskTimerButton task={task} />
           
           <TaskProgressIndicator task={task} />
           
@@ -41,6 +41,7 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { DEPENDENCY_GATED_STATUSES } from '@/lib/constants';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -49,10 +50,23 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Skeleton } from '../ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { getNextPossibleStatuses, isValidStatusTransition, requiresStatusReason } from '@/components/task/task-status-badge';
+import { useTaskWorkflow } from '@/hooks/use-task-workflow';
+import { ApiError } from '@/lib/api';
 
 interface TaskBoardViewProps {
   tasks: Task[];
-  onStatusChange: (taskId: number, newStatus: TaskStatus) => void;
+  onStatusChange: (taskId: string, newStatus: TaskStatus, reason?: string) => void | Promise<void>;
   isLoading?: boolean;
 }
 
@@ -333,14 +347,32 @@ const BoardColumnSkeleton = memo(() => (
 
 BoardColumnSkeleton.displayName = "BoardColumnSkeleton";
 
+// A rejected transition comes back as a 409 naming the statuses the task could move to instead
+const describeStatusChangeError = (error: unknown): string => {
+  if (error instanceof ApiError && error.body?.error) {
+    if (error.status === 409 && Array.isArray(error.body.allowedStatuses)) {
+      const allowed: string[] = error.body.allowedStatuses;
+      return allowed.length > 0
+        ? `${error.body.error}. It can move to: ${allowed.join(', ')}`
+        : `${error.body.error}. You can't change its status right now.`;
+    }
+    return error.body.error;
+  }
+  return "Failed to update task status. Please try again.";
+};
+
 export const TaskBoardView = memo(({ 
   tasks, 
   onStatusChange, 
   isLoading = false 
 }: TaskBoardViewProps) => {
   const { toast } = useToast();
+  const workflow = useTaskWorkflow();
   const [activeTask, setActiveTask] = useState<Task | null>(null);
   const [collapsedColumns, setCollapsedColumns] = useState<Set<TaskStatus>>(new Set());
+  // A drop that reopens a task waits here until the user gives a reason
+  const [pendingReopen, setPendingReopen] = useState<{ task: Task; newStatus: TaskStatus } | null>(null);
+  const [reopenReason, setReopenReason] = useState('');
 
   // Enhanced sensors for better drag experience
   const sensors = useSensors(
@@ -374,6 +406,24 @@ export const TaskBoardView = memo(({
     }
   }, []);
 
+  const commitStatusChange = useCallback((task: Task, newStatus: TaskStatus, reason?: string) => {
+    Promise.resolve(onStatusChange(task.id, newStatus, reason))
+      .then(() => {
+        toast({
+          title: "Task Updated",
+          description: `Task moved to "${newStatus}"`,
+          variant: "default",
+        });
+      })
+      .catch((error) => {
+        toast({
+          title: "Update Failed", 
+          description: describeStatusChangeError(error),
+          variant: "destructive",
+        });
+      });
+  }, [onStatusChange, toast]);
+
   // Handle drag end with improved error handling and optimistic updates
   const handleDragEnd = useCallback((event: DragEndEvent) => {
     const { active, over } = event;
@@ -392,41 +442,44 @@ export const TaskBoardView = memo(({
       return;
     }
 
-    // Validate status transition
-    const validTransitions: Record<TaskStatus, TaskStatus[]> = {
-      'To Do': ['In Progress', 'Overdue'],
-      'In Progress': ['To Do', 'Completed', 'Needs Changes', 'Overdue'],
-      'Needs Changes': ['In Progress', 'Pending Approval'],
-      'Overdue': ['In Progress', 'Completed'],
-      'Pending Approval': ['Needs Changes', 'Rejected', 'To Do'],
-      'Completed': ['Needs Changes'],
-      'Rejected': ['Pending Approval'],
-    };
-
-    if (!validTransitions[originalStatus]?.includes(newStatus)) {
+    // Until the workflow has loaded the server alone decides, and reports back with a 409
+    if (workflow && !isValidStatusTransition(originalStatus, newStatus, workflow)) {
+      const allowed = getNextPossibleStatuses(originalStatus, workflow);
       toast({
         title: "Invalid Status Change",
-        description: `Cannot move task from "${originalStatus}" to "${newStatus}"`,
+        description: allowed.length > 0
+          ? `Cannot move task from "${originalStatus}" to "${newStatus}". It can move to: ${allowed.join(', ')}`
+          : `Cannot move task from "${originalStatus}" to "${newStatus}"`,
         variant: "destructive",
       });
       return;
     }
 
-    try {
-      onStatusChange(Number(task.id), newStatus);
-      toast({
-        title: "Task Updated",
-        description: `Task moved to "${newStatus}"`,
-        variant: "default",
-      });
-    } catch (error) {
+    // The server enforces this too; checking here avoids a flicker from the optimistic move
+    const blockedBy = task.blockedBy ?? [];
+    if (DEPENDENCY_GATED_STATUSES.includes(newStatus) && blockedBy.length > 0) {
       toast({
-        title: "Update Failed", 
-        description: "Failed to update task status. Please try again.",
+        title: "Task Is Blocked",
+        description: `Finish ${blockedBy.map(dependency => `"${dependency.title}"`).join(', ')} before moving this task to "${newStatus}"`,
         variant: "destructive",
       });
+      return;
+    }
+
+    if (workflow && requiresStatusReason(originalStatus, workflow)) {
+      setReopenReason('');
+      setPendingReopen({ task, newStatus });
+      return;
     }
-  }, [onStatusChange, toast]);
+
+    commitStatusChange(task, newStatus);
+  }, [commitStatusChange, toast, workflow]);
+
+  const handleConfirmReopen = useCallback(() => {
+    if (!pendingReopen || !reopenReason.trim()) return;
+    commitStatusChange(pendingReopen.task, pendingReopen.newStatus, reopenReason.trim());
+    setPendingReopen(null);
+  }, [commitStatusChange, pendingReopen, reopenReason]);
 
   // Handle column collapse toggle
   const handleToggleCollapse = useCallback((status: TaskStatus) => {
@@ -489,6 +542,32 @@ export const TaskBoardView = memo(({
           </div>
         ) : null}
       </DragOverlay>
+
+      <Dialog open={!!pendingReopen} onOpenChange={(open) => !open && setPendingReopen(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reopen Task</DialogTitle>
+            <DialogDescription>
+              {pendingReopen && `"${pendingReopen.task.title}" is completed. Explain why it is moving back to "${pendingReopen.newStatus}".`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reopen-reason">Reason</Label>
+            <Textarea
+              id="reopen-reason"
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              placeholder="What still needs to be done?"
+              maxLength={1000}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingReopen(null)}>Cancel</Button>
+            <Button onClick={handleConfirmReopen} disabled={!reopenReason.trim()}>Reopen</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </DndContext>
   );
 });
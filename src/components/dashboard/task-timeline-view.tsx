@@ -0,0 +1,485 @@
+// Timeline (Gantt) view: one bar per task from its start to its deadline, with dependency arrows
+"use client";
+
+import React, { memo, useCallback, useEffect, useId, useMemo, useRef, useState } from 'react';
+import type { DependencyLink, Task, TaskStatus } from '@/types';
+import { fetchDependencyLinks } from '@/lib/api';
+import { useTasks } from '@/contexts/TaskContext';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { Skeleton } from '../ui/skeleton';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  isWeekend,
+  max as maxDate,
+  min as minDate,
+  parseISO,
+  startOfDay,
+} from 'date-fns';
+import { CalendarRange, Loader2 } from 'lucide-react';
+
+interface TaskTimelineViewProps {
+  tasks: Task[];
+  isLoading?: boolean;
+}
+
+type GroupBy = 'assignee' | 'project';
+type TimelineScale = 'day' | 'week';
+
+// Pixels per calendar day at each zoom level
+const DAY_WIDTHS: Record<TimelineScale, number> = {
+  day: 40,
+  week: 16,
+};
+
+const LABEL_WIDTH = 200;
+const HEADER_HEIGHT = 40;
+const GROUP_HEIGHT = 28;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const ARROW_GAP = 8;
+const RANGE_PADDING_BEFORE = 2;
+const RANGE_PADDING_AFTER = 7;
+// The links endpoint accepts at most this many task IDs per request
+const LINK_BATCH_SIZE = 500;
+
+const STATUS_BAR_CLASSES: Record<TaskStatus, string> = {
+  'To Do': 'bg-blue-500',
+  'In Progress': 'bg-amber-500',
+  'Completed': 'bg-green-500',
+  'Overdue': 'bg-red-500',
+  'Pending Approval': 'bg-sky-500',
+  'Needs Changes': 'bg-orange-500',
+  'Rejected': 'bg-slate-400',
+};
+
+interface TimelineRow {
+  task: Task;
+  top: number;
+  startIndex: number;
+  // Exclusive: the bar covers days [startIndex, endIndex)
+  endIndex: number;
+}
+
+interface TimelineGroup {
+  key: string;
+  label: string;
+  top: number;
+  rows: TimelineRow[];
+}
+
+interface DragState {
+  taskId: string;
+  originX: number;
+  deltaDays: number;
+}
+
+const getBarStart = (task: Task): Date => startOfDay(parseISO(task.startDate || task.createdAt));
+
+const getGroup = (task: Task, groupBy: GroupBy): { key: string; label: string } => {
+  if (groupBy === 'project') {
+    return task.projectId
+      ? { key: task.projectId, label: task.projectName || 'Untitled project' }
+      : { key: '', label: 'No project' };
+  }
+  return task.assignee?.id
+    ? { key: task.assignee.id, label: `${task.assignee.firstName} ${task.assignee.lastName}` }
+    : { key: '', label: 'Unassigned' };
+};
+
+export const TaskTimelineView = memo(({ tasks, isLoading = false }: TaskTimelineViewProps) => {
+  const { updateTask } = useTasks();
+  const { toast } = useToast();
+  const markerId = useId();
+  const [groupBy, setGroupBy] = useState<GroupBy>('assignee');
+  const [scale, setScale] = useState<TimelineScale>('day');
+  const [links, setLinks] = useState<DependencyLink[]>([]);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [savingShifts, setSavingShifts] = useState<Record<string, number>>({});
+  const dragRef = useRef<DragState | null>(null);
+
+  const dayWidth = DAY_WIDTHS[scale];
+  const scheduledTasks = useMemo(() => tasks.filter(task => task.deadline), [tasks]);
+  const unscheduledCount = tasks.length - scheduledTasks.length;
+
+  // Refetch links when the set of tasks or their blocked/blocking summaries change
+  const linkKey = useMemo(
+    () => scheduledTasks
+      .map(task => `${task.id}:${task.blockedBy?.length ?? 0}:${task.blocking?.length ?? 0}`)
+      .sort()
+      .join('|'),
+    [scheduledTasks]
+  );
+
+  useEffect(() => {
+    const ids = linkKey ? linkKey.split('|').map(entry => entry.split(':')[0]) : [];
+    if (ids.length === 0) {
+      setLinks([]);
+      return;
+    }
+
+    let cancelled = false;
+    const batches: string[][] = [];
+    for (let i = 0; i < ids.length; i += LINK_BATCH_SIZE) {
+      batches.push(ids.slice(i, i + LINK_BATCH_SIZE));
+    }
+
+    // Batches only see links within themselves; cross-batch arrows are dropped on very large views
+    Promise.all(batches.map(batch => fetchDependencyLinks(batch)))
+      .then(results => {
+        if (!cancelled) setLinks(results.flat());
+      })
+      .catch(error => {
+        if (!cancelled) console.error('Failed to load dependency links:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [linkKey]);
+
+  const range = useMemo(() => {
+    const today = startOfDay(new Date());
+    if (scheduledTasks.length === 0) {
+      return { start: addDays(today, -RANGE_PADDING_BEFORE), days: RANGE_PADDING_BEFORE + RANGE_PADDING_AFTER + 1 };
+    }
+    const starts = scheduledTasks.map(getBarStart);
+    const ends = scheduledTasks.map(task => startOfDay(parseISO(task.deadline!)));
+    const start = addDays(minDate([...starts, ...ends, today]), -RANGE_PADDING_BEFORE);
+    const end = addDays(maxDate([...ends, today]), RANGE_PADDING_AFTER);
+    return { start, days: differenceInCalendarDays(end, start) + 1 };
+  }, [scheduledTasks]);
+
+  const layout = useMemo(() => {
+    const grouped = new Map<string, { label: string; tasks: Task[] }>();
+    for (const task of scheduledTasks) {
+      const { key, label } = getGroup(task, groupBy);
+      if (!grouped.has(key)) grouped.set(key, { label, tasks: [] });
+      grouped.get(key)!.tasks.push(task);
+    }
+
+    // Named groups alphabetically, the catch-all group ("Unassigned"/"No project") last
+    const orderedKeys = Array.from(grouped.keys()).sort((a, b) => {
+      if (!a) return 1;
+      if (!b) return -1;
+      return grouped.get(a)!.label.localeCompare(grouped.get(b)!.label);
+    });
+
+    const groups: TimelineGroup[] = [];
+    const rowsById = new Map<string, TimelineRow>();
+    let top = 0;
+
+    for (const key of orderedKeys) {
+      const { label, tasks: groupTasks } = grouped.get(key)!;
+      const group: TimelineGroup = { key, label, top, rows: [] };
+      top += GROUP_HEIGHT;
+
+      const sorted = [...groupTasks].sort((a, b) => getBarStart(a).getTime() - getBarStart(b).getTime());
+      for (const task of sorted) {
+        const startIndex = differenceInCalendarDays(getBarStart(task), range.start);
+        const endIndex = Math.max(
+          differenceInCalendarDays(startOfDay(parseISO(task.deadline!)), range.start) + 1,
+          startIndex + 1
+        );
+        const row: TimelineRow = { task, top, startIndex, endIndex };
+        group.rows.push(row);
+        rowsById.set(task.id, row);
+        top += ROW_HEIGHT;
+      }
+
+      groups.push(group);
+    }
+
+    return { groups, rowsById, height: top };
+  }, [scheduledTasks, groupBy, range.start]);
+
+  const days = useMemo(
+    () => Array.from({ length: range.days }, (_, index) => addDays(range.start, index)),
+    [range]
+  );
+
+  const todayIndex = differenceInCalendarDays(startOfDay(new Date()), range.start);
+  const chartWidth = range.days * dayWidth;
+
+  // Shift in days currently applied to a bar, either mid-drag or while its save is in flight
+  const getShift = useCallback((taskId: string): number => {
+    if (drag?.taskId === taskId) return drag.deltaDays;
+    return savingShifts[taskId] ?? 0;
+  }, [drag, savingShifts]);
+
+  const reschedule = useCallback(async (task: Task, deltaDays: number) => {
+    setSavingShifts(prev => ({ ...prev, [task.id]: deltaDays }));
+    try {
+      await updateTask(task.id, {
+        startDate: addDays(parseISO(task.startDate || task.createdAt), deltaDays).toISOString(),
+        deadline: addDays(parseISO(task.deadline!), deltaDays).toISOString(),
+      });
+    } catch (error) {
+      toast({
+        title: "Reschedule Failed",
+        description: `Could not move "${task.title}". Please try again.`,
+        variant: "destructive",
+      });
+    } finally {
+      setSavingShifts(prev => {
+        const { [task.id]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  }, [updateTask, toast]);
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLDivElement>, task: Task) => {
+    if (event.button !== 0 || savingShifts[task.id] !== undefined) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const state = { taskId: task.id, originX: event.clientX, deltaDays: 0 };
+    dragRef.current = state;
+    setDrag(state);
+  }, [savingShifts]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    const current = dragRef.current;
+    if (!current) return;
+    const deltaDays = Math.round((event.clientX - current.originX) / dayWidth);
+    if (deltaDays !== current.deltaDays) {
+      const next = { ...current, deltaDays };
+      dragRef.current = next;
+      setDrag(next);
+    }
+  }, [dayWidth]);
+
+  const handlePointerUp = useCallback((task: Task) => {
+    const current = dragRef.current;
+    dragRef.current = null;
+    setDrag(null);
+    if (current && current.taskId === task.id && current.deltaDays !== 0) {
+      reschedule(task, current.deltaDays);
+    }
+  }, [reschedule]);
+
+  const arrows = useMemo(() => {
+    return links.flatMap(link => {
+      const from = layout.rowsById.get(link.predecessorTaskId);
+      const to = layout.rowsById.get(link.successorTaskId);
+      if (!from || !to) return [];
+
+      const x1 = (from.endIndex + getShift(from.task.id)) * dayWidth;
+      const y1 = from.top + ROW_HEIGHT / 2;
+      const x2 = (to.startIndex + getShift(to.task.id)) * dayWidth;
+      const y2 = to.top + ROW_HEIGHT / 2;
+      const elbow = x1 + ARROW_GAP;
+
+      // Route around the bars when the successor starts before the predecessor ends
+      const path = x2 - ARROW_GAP >= elbow
+        ? `M ${x1} ${y1} H ${elbow} V ${y2} H ${x2}`
+        : `M ${x1} ${y1} H ${elbow} V ${(y1 + y2) / 2} H ${x2 - ARROW_GAP} V ${y2} H ${x2}`;
+
+      const isBlocking = link.dependencyType === 'finish_to_start' && from.task.status !== 'Completed';
+      return [{ id: link.id, path, isBlocking }];
+    });
+  }, [links, layout.rowsById, dayWidth, getShift]);
+
+  if (isLoading) {
+    return <Skeleton className="h-[400px] w-full rounded-lg" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <CalendarRange className="h-4 w-4" />
+          <span>Drag a bar to reschedule. Arrows point from a task to the tasks waiting on it.</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={groupBy} onValueChange={(value: GroupBy) => setGroupBy(value)}>
+            <SelectTrigger className="h-8 w-[150px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="assignee">Group by assignee</SelectItem>
+              <SelectItem value="project">Group by project</SelectItem>
+            </SelectContent>
+          </Select>
+          <ToggleGroup
+            type="single"
+            value={scale}
+            onValueChange={(value: TimelineScale) => value && setScale(value)}
+            className="bg-muted rounded-lg p-1"
+          >
+            <ToggleGroupItem value="day" size="sm" className="text-xs">Days</ToggleGroupItem>
+            <ToggleGroupItem value="week" size="sm" className="text-xs">Weeks</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
+
+      {scheduledTasks.length === 0 ? (
+        <div className="text-center py-12 text-sm text-muted-foreground">
+          No tasks with a deadline to plot.
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <div className="relative" style={{ width: LABEL_WIDTH + chartWidth }}>
+            {/* Date header */}
+            <div className="flex sticky top-0 z-20 bg-background border-b" style={{ height: HEADER_HEIGHT }}>
+              <div
+                className="sticky left-0 z-30 bg-background border-r px-3 flex items-center text-xs font-medium"
+                style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+              >
+                {groupBy === 'assignee' ? 'Assignee / Task' : 'Project / Task'}
+              </div>
+              {days.map((day, index) => {
+                const showLabel = scale === 'day' || day.getDay() === 1 || index === 0;
+                return (
+                  <div
+                    key={day.toISOString()}
+                    className={cn(
+                      "shrink-0 border-l border-border/40 text-[10px] text-muted-foreground flex flex-col justify-center overflow-visible whitespace-nowrap pl-1",
+                      scale === 'day' && isWeekend(day) && "bg-muted/40",
+                      index === todayIndex && "text-primary font-semibold"
+                    )}
+                    style={{ width: dayWidth }}
+                  >
+                    {(index === 0 || day.getDate() === 1) && <span>{format(day, 'MMM')}</span>}
+                    {showLabel && <span>{format(day, scale === 'day' ? 'd' : 'MMM d')}</span>}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Rows */}
+            <div className="relative" style={{ height: layout.height }}>
+              {layout.groups.map(group => (
+                <React.Fragment key={group.key || '__none__'}>
+                  <div
+                    className="absolute left-0 right-0 flex items-center bg-muted/60 border-b"
+                    style={{ top: group.top, height: GROUP_HEIGHT }}
+                  >
+                    <div className="sticky left-0 px-3 text-xs font-semibold">
+                      {group.label} <span className="text-muted-foreground font-normal">({group.rows.length})</span>
+                    </div>
+                  </div>
+
+                  {group.rows.map(row => {
+                    const { task } = row;
+                    const shift = getShift(task.id);
+                    const isSaving = savingShifts[task.id] !== undefined;
+                    return (
+                      <div
+                        key={task.id}
+                        className="absolute left-0 right-0 flex border-b border-border/40"
+                        style={{ top: row.top, height: ROW_HEIGHT }}
+                      >
+                        <div
+                          className="sticky left-0 z-10 bg-background border-r px-3 flex items-center text-xs truncate"
+                          style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+                          title={task.title}
+                        >
+                          <span className="truncate">{task.title}</span>
+                        </div>
+                        <div className="relative" style={{ width: chartWidth }}>
+                          <TooltipProvider>
+                            <Tooltip open={drag?.taskId === task.id ? false : undefined}>
+                              <TooltipTrigger asChild>
+                                <div
+                                  role="button"
+                                  aria-label={`Reschedule ${task.title}`}
+                                  className={cn(
+                                    "absolute rounded text-[10px] text-white px-1.5 flex items-center overflow-hidden whitespace-nowrap select-none touch-none shadow-sm",
+                                    STATUS_BAR_CLASSES[task.status] || 'bg-primary',
+                                    drag?.taskId === task.id ? "cursor-grabbing ring-2 ring-primary/50" : "cursor-grab",
+                                    isSaving && "opacity-70",
+                                    (task.blockedBy?.length ?? 0) > 0 && "ring-1 ring-red-400"
+                                  )}
+                                  style={{
+                                    left: (row.startIndex + shift) * dayWidth + 1,
+                                    width: (row.endIndex - row.startIndex) * dayWidth - 2,
+                                    top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+                                    height: BAR_HEIGHT,
+                                  }}
+                                  onPointerDown={event => handlePointerDown(event, task)}
+                                  onPointerMove={handlePointerMove}
+                                  onPointerUp={() => handlePointerUp(task)}
+                                  onPointerCancel={() => handlePointerUp(task)}
+                                >
+                                  {isSaving && <Loader2 className="h-3 w-3 mr-1 animate-spin shrink-0" />}
+                                  <span className="truncate">{task.title}</span>
+                                </div>
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                <p className="font-medium text-xs">{task.title}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {format(getBarStart(task), 'MMM d')} – {format(parseISO(task.deadline!), 'MMM d, yyyy')} · {task.status}
+                                </p>
+                                {(task.blockedBy?.length ?? 0) > 0 && (
+                                  <p className="text-xs text-red-600 mt-1">
+                                    Blocked by {task.blockedBy!.map(dependency => dependency.title).join(', ')}
+                                  </p>
+                                )}
+                              </TooltipContent>
+                            </Tooltip>
+                          </TooltipProvider>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+
+              {/* Today marker */}
+              {todayIndex >= 0 && todayIndex < range.days && (
+                <div
+                  className="absolute top-0 bottom-0 w-px bg-primary/60 pointer-events-none"
+                  style={{ left: LABEL_WIDTH + todayIndex * dayWidth }}
+                />
+              )}
+
+              {/* Dependency arrows */}
+              <svg
+                className="absolute top-0 pointer-events-none overflow-visible"
+                style={{ left: LABEL_WIDTH }}
+                width={chartWidth}
+                height={layout.height}
+              >
+                <defs>
+                  <marker id={`${markerId}-muted`} viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M 0 0 L 8 4 L 0 8 z" className="fill-muted-foreground" />
+                  </marker>
+                  <marker id={`${markerId}-blocking`} viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M 0 0 L 8 4 L 0 8 z" className="fill-red-500" />
+                  </marker>
+                </defs>
+                {arrows.map(arrow => (
+                  <path
+                    key={arrow.id}
+                    d={arrow.path}
+                    fill="none"
+                    strokeWidth={1.5}
+                    className={arrow.isBlocking ? "stroke-red-500" : "stroke-muted-foreground"}
+                    markerEnd={`url(#${markerId}-${arrow.isBlocking ? 'blocking' : 'muted'})`}
+                  />
+                ))}
+              </svg>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {unscheduledCount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {unscheduledCount} task{unscheduledCount > 1 ? 's' : ''} without a deadline {unscheduledCount > 1 ? 'are' : 'is'} not shown.
+        </p>
+      )}
+    </div>
+  );
+});
+
+TaskTimelineView.displayName = "TaskTimelineView";
@@ -0,0 +1,151 @@
+"use client";
+
+import React, { memo, useCallback, useEffect, useState } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Hourglass } from "lucide-react";
+import { fetchWeeklyTimesheet } from "@/lib/api";
+import { formatDuration, localTimeZone } from "@/lib/time-tracking";
+import { useTimeTracking } from "@/contexts/time-tracking-context";
+import { cn } from "@/lib/utils";
+import type { WeeklyTimesheet } from "@/types";
+
+const formatCell = (seconds: number) => (seconds > 0 ? formatDuration(seconds) : "–");
+
+// The signed-in user's logged time per task and day, one Monday-to-Sunday week at a time
+export const WeeklyTimesheetCard = memo(({ className }: { className?: string }) => {
+  const { revision } = useTimeTracking();
+  // null means the current week, resolved by the server in the viewer's time zone
+  const [weekStart, setWeekStart] = useState<string | null>(null);
+  const [timesheet, setTimesheet] = useState<WeeklyTimesheet | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchWeeklyTimesheet({ weekStart: weekStart ?? undefined, timezone: localTimeZone() })
+      .then(data => {
+        if (cancelled) return;
+        setTimesheet(data);
+        setError(null);
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        console.error('Failed to load timesheet:', err);
+        setError(err.message || 'Failed to load timesheet');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [weekStart, revision]);
+
+  const shiftWeek = useCallback((weeks: number) => {
+    if (!timesheet) return;
+    setWeekStart(format(addDays(parseISO(timesheet.weekStart), weeks * 7), "yyyy-MM-dd"));
+  }, [timesheet]);
+
+  const todayKey = format(new Date(), "yyyy-MM-dd");
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Hourglass className="h-5 w-5 text-primary" />
+              Time Logged
+            </CardTitle>
+            <CardDescription>
+              {timesheet
+                ? `Week of ${format(parseISO(timesheet.weekStart), "MMM d, yyyy")} · ${formatDuration(timesheet.totalSeconds)} total`
+                : "Your weekly timesheet"}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => shiftWeek(-1)} disabled={!timesheet} aria-label="Previous week">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" className="h-8" onClick={() => setWeekStart(null)} disabled={weekStart === null}>
+              This week
+            </Button>
+            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => shiftWeek(1)} disabled={!timesheet} aria-label="Next week">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && !timesheet ? (
+          <Skeleton className="h-32 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : timesheet && timesheet.rows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[160px]">Task</TableHead>
+                  {timesheet.days.map(day => (
+                    <TableHead key={day} className={cn("text-right whitespace-nowrap", day === todayKey && "text-primary")}>
+                      {format(parseISO(day), "EEE d")}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {timesheet.rows.map(row => (
+                  <TableRow key={row.taskId}>
+                    <TableCell>
+                      <div className="font-medium line-clamp-1">{row.taskTitle}</div>
+                      {row.projectName && <div className="text-xs text-muted-foreground">{row.projectName}</div>}
+                    </TableCell>
+                    {row.dailySeconds.map((seconds, index) => (
+                      <TableCell key={timesheet.days[index]} className="text-right tabular-nums text-muted-foreground">
+                        {formatCell(seconds)}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right tabular-nums font-medium">{formatDuration(row.totalSeconds)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Total</TableCell>
+                  {timesheet.dailyTotals.map((seconds, index) => (
+                    <TableCell key={timesheet.days[index]} className="text-right tabular-nums">
+                      {formatCell(seconds)}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right tabular-nums">{formatDuration(timesheet.totalSeconds)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No time logged this week. Start a timer on one of your tasks to begin tracking.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+WeeklyTimesheetCard.displayName = "WeeklyTimesheetCard";
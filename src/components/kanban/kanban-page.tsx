@@ -9,7 +9,13 @@ import { useState } from 'react';
 import { useTasks } from '@/contexts/TaskContext'; // Import useTasks
 import { Skeleton } from '../ui/skeleton';
 
-export function KanbanPage() {
+interface KanbanPageProps {
+  title?: string;
+  // Restricts the board to one project's tasks
+  projectId?: string;
+}
+
+export function KanbanPage({ title = 'Kanban Board', projectId }: KanbanPageProps = {}) {
   const { tasks, isLoadingTasks } = useTasks(); // Get tasks from context
   const [searchTerm, setSearchTerm] = useState('');
 
@@ -27,7 +33,7 @@ export function KanbanPage() {
     );
   }
 
-  const filteredTasks = tasks.filter(task =>
+  const filteredTasks = tasks.filter(task => !projectId || task.projectId === projectId).filter(task =>
     task.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
     (task.description ?? '').toLowerCase().includes(searchTerm.toLowerCase())
   );
@@ -35,7 +41,7 @@ export function KanbanPage() {
   return (
     <div className="p-4 md:p-6">
       <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
-        <h1 className="text-3xl font-bold font-headline text-foreground">Kanban Board</h1>
+        <h1 className="text-3xl font-bold font-headline text-foreground">{title}</h1>
         <div className="relative w-full sm:w-auto sm:max-w-xs">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
@@ -2,25 +2,59 @@
 import type { Task } from '@/types';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { TaskStatusBadge } from '@/components/task/task-status-badge';
-import { ArrowDownUp, CalendarDays, User, TimerIcon, UserSquare, CircleUser, Paperclip } from 'lucide-react';
+import { TaskDependencyBadges } from '@/components/task/task-dependency-badges';
+import { Progress } from '@/components/ui/progress';
+import { ArrowDownUp, CalendarDays, User, TimerIcon, UserSquare, CircleUser, Paperclip, Repeat, ListChecks } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
+import { describeRecurrence } from '@/lib/recurrence';
+import { formatDuration } from '@/lib/time-tracking';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
 
 interface TaskCardProps {
   task: Task;
 }
 
 export function TaskCard({ task }: TaskCardProps) {
-  const { title, description, status, deadline, priority, assigneeName, assignerName, timerDuration, attachments } = task;
+  const { title, description, status, deadline, priority, assigneeName, assignerName, timerDuration, loggedSeconds, attachments, recurringPattern } = task;
 
   const formattedDeadline = deadline ? format(parseISO(deadline), 'MMM dd, yyyy') : 'No deadline';
+  const recurrence = describeRecurrence(recurringPattern);
+  const subtaskCount = task.subtaskCount ?? 0;
+  const checklistItemCount = task.checklistItemCount ?? 0;
+  const progressParts = [
+    subtaskCount > 0 && `${task.completedSubtaskCount ?? 0}/${subtaskCount} subtasks`,
+    checklistItemCount > 0 && `${task.checkedItemCount ?? 0}/${checklistItemCount} checked`,
+  ].filter(Boolean).join(' · ');
 
   return (
     <Card className="mb-4 shadow-md hover:shadow-lg transition-shadow duration-200_">
       <CardHeader className="pb-2"> {/* Reduced padding for header */}
-        <CardTitle className="text-lg font-headline">{title}</CardTitle>
+        <CardTitle className="text-lg font-headline flex items-start justify-between gap-2">
+          <span>{title}</span>
+          {recurrence && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <span className="mt-1 shrink-0 text-muted-foreground" aria-label={`Repeats: ${recurrence}`}>
+                    <Repeat className="h-4 w-4" />
+                  </span>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p className="text-xs">{recurrence}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
+        </CardTitle>
         <CardDescription className="text-sm text-muted-foreground pt-1 line-clamp-2">{description}</CardDescription>
       </CardHeader>
       <CardContent className="space-y-2 pt-2 pb-3"> {/* Adjusted padding for content */}
+        <TaskDependencyBadges task={task} />
         <div className="flex items-center text-xs text-muted-foreground">
           <CalendarDays className="mr-1.5 h-3.5 w-3.5" />
           <span>Deadline: {formattedDeadline}</span>
@@ -49,10 +83,13 @@ export function TaskCard({ task }: TaskCardProps) {
             </span>
           </div>
         )}
-        {timerDuration > 0 && ( 
+        {(timerDuration > 0 || (loggedSeconds ?? 0) > 0) && (
           <div className="flex items-center text-xs text-muted-foreground">
             <TimerIcon className="mr-1.5 h-3.5 w-3.5" />
-            <span>Timer: {timerDuration} min</span>
+            <span>
+              Logged: {formatDuration(loggedSeconds ?? 0)}
+              {timerDuration > 0 && ` / ${timerDuration} min est.`}
+            </span>
           </div>
         )}
         {attachments && attachments.length > 0 && (
@@ -61,6 +98,18 @@ export function TaskCard({ task }: TaskCardProps) {
             <span>{attachments.length} attachment{attachments.length > 1 ? 's' : ''}</span>
           </div>
         )}
+        {progressParts && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="flex items-center">
+                <ListChecks className="mr-1.5 h-3.5 w-3.5" />
+                {progressParts}
+              </span>
+              <span>{task.progressPercentage}%</span>
+            </div>
+            <Progress value={task.progressPercentage} className="h-1.5" />
+          </div>
+        )}
       </CardContent>
       <CardFooter className="pt-2 pb-3"> {/* Adjusted padding for footer */}
         <TaskStatusBadge status={status} />
@@ -0,0 +1,153 @@
+"use client";
+
+import React, { memo, useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, Monitor, Smartphone } from "lucide-react";
+import { userAPI } from "@/lib/auth-api";
+import { useAuth } from "@/contexts/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import type { UserSession } from "@/types";
+
+// Good enough to tell devices apart; the raw user agent is shown on hover
+const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return "Unknown device";
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os = /Windows/.test(userAgent) ? "Windows"
+    : /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  return os ? `${browser} on ${os}` : browser;
+};
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+// The signed-in user's devices, each of which can be signed out on its own
+export const ActiveSessionsDialog = memo(({ open, onOpenChange }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) => {
+  const { logout } = useAuth();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    userAPI.getSessions()
+      .then(data => {
+        if (cancelled) return;
+        setSessions(data);
+        setError(null);
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        console.error('Failed to load sessions:', err);
+        setError(err.message || 'Failed to load sessions');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const handleRevoke = useCallback(async (session: UserSession) => {
+    setRevokingId(session.id);
+    try {
+      await userAPI.revokeSession(session.id);
+      if (session.current) {
+        onOpenChange(false);
+        await logout();
+        return;
+      }
+      setSessions(prev => prev.filter(item => item.id !== session.id));
+      toast({ title: "Session signed out", description: describeUserAgent(session.userAgent) });
+    } catch (err: any) {
+      console.error('Failed to revoke session:', err);
+      toast({ title: "Could not sign out session", description: err.message, variant: "destructive" });
+    } finally {
+      setRevokingId(null);
+    }
+  }, [logout, onOpenChange, toast]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Active sessions</DialogTitle>
+          <DialogDescription>
+            Devices currently signed in to your account. Sign out any you don&apos;t recognise.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-14 w-full" />
+            <Skeleton className="h-14 w-full" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active sessions.</p>
+        ) : (
+          <ul className="space-y-2 max-h-96 overflow-y-auto">
+            {sessions.map(session => {
+              const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="flex items-center gap-3 rounded-lg border p-3">
+                  <DeviceIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate" title={session.userAgent ?? undefined}>
+                        {describeUserAgent(session.userAgent)}
+                      </span>
+                      {session.current && <Badge variant="secondary" className="text-xs">This device</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {session.ipAddress ? `${session.ipAddress} · ` : ''}
+                      Active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revokingId !== null}
+                    onClick={() => handleRevoke(session)}
+                  >
+                    {revokingId === session.id && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                    Sign out
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+ActiveSessionsDialog.displayName = "ActiveSessionsDialog";
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { memo, useState, useCallback, useMemo } from "react";
+import React, { memo, useState, useCallback, useMemo, useEffect } from "react";
 import { ThemeToggle } from "@/components/layout/theme-toggle";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -22,7 +22,6 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { useAuth } from "@/contexts/auth-context";
-import { useTasks } from "@/contexts/TaskContext";
 import { 
   Zap, 
   LogIn, 
@@ -37,16 +36,29 @@ import {
   Users,
   BarChart3,
   Sparkles,
-  HelpCircle
+  HelpCircle,
+  CheckCheck,
+  Loader2,
+  FolderKanban,
+  LayoutTemplate,
+  MonitorSmartphone
 } from "lucide-react";
 import Link from "next/link";
 import { useRouter, usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { fetchNotifications, fetchUnreadNotificationCount, markNotificationRead, markAllNotificationsRead } from "@/lib/api";
+import { useRealtimeEvents } from "@/hooks/use-realtime-events";
+import { ActiveSessionsDialog } from "@/components/layout/active-sessions-dialog";
+import type { RealtimeEvent } from "@/lib/realtime";
+import type { AppNotification } from "@/types";
 
 // Navigation items based on user role
 const getNavigationItems = (userRole: string | undefined) => {
   const commonItems = [
     { href: "/", label: "Dashboard", icon: BarChart3 },
+    { href: "/projects", label: "Projects", icon: FolderKanban },
+    { href: "/templates", label: "Templates", icon: LayoutTemplate },
   ];
 
   if (userRole === 'Admin') {
@@ -57,6 +69,14 @@ const getNavigationItems = (userRole: string | undefined) => {
     ];
   }
 
+  if (userRole === 'Manager') {
+    return [
+      ...commonItems,
+      { href: "/admin", label: "Team Review", icon: Shield },
+      { href: "/ai-optimizer", label: "AI Assistant", icon: Sparkles },
+    ];
+  }
+
   if (userRole === 'User') {
     return [
       ...commonItems,
@@ -105,38 +125,174 @@ const UserAvatar = memo(({ user, size = "sm" }: {
 
 UserAvatar.displayName = "UserAvatar";
 
-// Notification indicator
+// Fallback refresh of the unread count; new notifications normally arrive over the event stream
+const NOTIFICATION_POLL_INTERVAL_MS = 5 * 60 * 1000;
+const NOTIFICATION_FEED_LIMIT = 20;
+
+const NotificationItem = memo(({ notification, onSelect }: {
+  notification: AppNotification;
+  onSelect: (notification: AppNotification) => void;
+}) => (
+  <DropdownMenuItem
+    className={cn(
+      "flex items-start gap-3 p-3 cursor-pointer",
+      !notification.isRead && "bg-primary/5"
+    )}
+    onSelect={(event) => {
+      event.preventDefault();
+      onSelect(notification);
+    }}
+  >
+    <span
+      className={cn(
+        "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+        notification.isRead ? "bg-transparent" : "bg-primary"
+      )}
+    />
+    <div className="flex-1 min-w-0 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium text-muted-foreground">{notification.type}</span>
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+        </span>
+      </div>
+      <p className={cn("text-sm leading-snug break-words", !notification.isRead && "font-medium")}>
+        {notification.message}
+      </p>
+    </div>
+  </DropdownMenuItem>
+));
+
+NotificationItem.displayName = "NotificationItem";
+
+// Notification feed backed by /api/notifications
 const NotificationBell = memo(() => {
-  const { tasks } = useTasks();
   const { currentUser } = useAuth();
-  
-  const notificationCount = useMemo(() => {
-    if (!currentUser) return 0;
-    
-    const userId = Number(currentUser.id);
-    const urgentTasks = tasks.filter(task => {
-      const isAssignedToMe = Number(task.assignedUserId) === userId;
-      const isOverdue = task.status === 'Overdue';
-      const needsAttention = task.status === 'Needs Changes' && Number(task.assignerId) === userId;
-      
-      return (isAssignedToMe && isOverdue) || needsAttention;
-    });
-    
-    return urgentTasks.length;
-  }, [tasks, currentUser]);
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const refreshUnreadCount = useCallback(async () => {
+    try {
+      setUnreadCount(await fetchUnreadNotificationCount());
+    } catch (error) {
+      console.error('Failed to fetch unread notification count:', error);
+    }
+  }, []);
+
+  const loadNotifications = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await fetchNotifications({ limit: NOTIFICATION_FEED_LIMIT });
+      setNotifications(result.notifications);
+      setUnreadCount(result.unreadCount);
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    refreshUnreadCount();
+    const interval = setInterval(refreshUnreadCount, NOTIFICATION_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [currentUser, refreshUnreadCount]);
+
+  useRealtimeEvents(useCallback((event: RealtimeEvent) => {
+    if (event.type === 'notification.created') {
+      setNotifications(prev => [event.data.notification, ...prev].slice(0, NOTIFICATION_FEED_LIMIT));
+      setUnreadCount(prev => prev + 1);
+    } else if (event.type === 'reconnected') {
+      refreshUnreadCount();
+    }
+  }, [refreshUnreadCount]), !!currentUser);
+
+  const handleOpenChange = useCallback((nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      loadNotifications();
+    }
+  }, [loadNotifications]);
+
+  const handleSelect = useCallback(async (notification: AppNotification) => {
+    if (notification.isRead) return;
+
+    setNotifications(prev => prev.map(item => item.id === notification.id ? { ...item, isRead: true } : item));
+    setUnreadCount(prev => Math.max(0, prev - 1));
+    try {
+      await markNotificationRead(notification.id);
+    } catch (error) {
+      console.error('Failed to mark notification as read:', error);
+      refreshUnreadCount();
+    }
+  }, [refreshUnreadCount]);
+
+  const handleMarkAllRead = useCallback(async () => {
+    setNotifications(prev => prev.map(item => ({ ...item, isRead: true })));
+    setUnreadCount(0);
+    try {
+      await markAllNotificationsRead();
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error);
+      loadNotifications();
+    }
+  }, [loadNotifications]);
 
   return (
-    <Button variant="ghost" size="sm" className="relative">
-      <Bell className="h-4 w-4" />
-      {notificationCount > 0 && (
-        <Badge 
-          variant="destructive" 
-          className="absolute -top-1 -right-1 h-5 w-5 rounded-full p-0 flex items-center justify-center text-xs"
-        >
-          {notificationCount > 9 ? '9+' : notificationCount}
-        </Badge>
-      )}
-    </Button>
+    <DropdownMenu open={open} onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <Badge 
+              variant="destructive" 
+              className="absolute -top-1 -right-1 h-5 w-5 rounded-full p-0 flex items-center justify-center text-xs"
+            >
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2">
+          <DropdownMenuLabel className="p-0">Notifications</DropdownMenuLabel>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            disabled={unreadCount === 0}
+            onClick={handleMarkAllRead}
+          >
+            <CheckCheck className="mr-1 h-3 w-3" />
+            Mark all read
+          </Button>
+        </div>
+        <DropdownMenuSeparator className="m-0" />
+        <div className="max-h-96 overflow-y-auto">
+          {loading && notifications.length === 0 ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">
+              You&apos;re all caught up.
+            </p>
+          ) : (
+            notifications.map(notification => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onSelect={handleSelect}
+              />
+            ))
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
   );
 });
 
@@ -237,7 +393,11 @@ const MobileNav = memo(({ navigationItems, currentUser, onLogout }: {
 MobileNav.displayName = "MobileNav";
 
 // User menu dropdown
-const UserMenu = memo(({ user, onLogout }: { user: any; onLogout: () => void }) => (
+const UserMenu = memo(({ user, onLogout, onShowSessions }: {
+  user: any;
+  onLogout: () => void;
+  onShowSessions: () => void;
+}) => (
   <DropdownMenu>
     <DropdownMenuTrigger asChild>
       <Button variant="ghost" className="flex items-center gap-2 px-2 h-9">
@@ -274,6 +434,10 @@ const UserMenu = memo(({ user, onLogout }: { user: any; onLogout: () => void })
         <Settings className="mr-2 h-4 w-4" />
         Settings
       </DropdownMenuItem>
+      <DropdownMenuItem className="cursor-pointer" onClick={onShowSessions}>
+        <MonitorSmartphone className="mr-2 h-4 w-4" />
+        Active Sessions
+      </DropdownMenuItem>
       {user.role === 'Admin' && (
         <DropdownMenuItem className="cursor-pointer">
           <Users className="mr-2 h-4 w-4" />
@@ -328,6 +492,7 @@ export const Header = memo(() => {
   const { currentUser, logout, loading } = useAuth();
   const router = useRouter();
   const pathname = usePathname();
+  const [sessionsOpen, setSessionsOpen] = useState(false);
 
   const navigationItems = useMemo(() => 
     getNavigationItems(currentUser?.role), 
@@ -343,6 +508,8 @@ export const Header = memo(() => {
     }
   }, [logout, router]);
 
+  const handleShowSessions = useCallback(() => setSessionsOpen(true), []);
+
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-16 max-w-screen-2xl items-center justify-between px-4">
@@ -381,7 +548,12 @@ export const Header = memo(() => {
             <>
               <NotificationBell />
               <ThemeToggle />
-              <UserMenu user={currentUser} onLogout={handleLogout} />
+              <UserMenu
+                user={currentUser}
+                onLogout={handleLogout}
+                onShowSessions={handleShowSessions}
+              />
+              <ActiveSessionsDialog open={sessionsOpen} onOpenChange={setSessionsOpen} />
             </>
           ) : (
             <>
@@ -0,0 +1,95 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, FolderKanban } from "lucide-react";
+import { KanbanPage } from "@/components/kanban/kanban-page";
+import { ProjectProgress } from "./project-progress";
+import { fetchProject } from "@/lib/api";
+import { useTasks } from "@/contexts/TaskContext";
+import type { Project } from "@/types";
+
+export function ProjectBoardPage({ projectId }: { projectId: string }) {
+  const { tasks, setFilters, clearFilters } = useTasks();
+  const [project, setProject] = useState<Project | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  // The shared task list is narrowed to this project while the board is open
+  useEffect(() => {
+    setFilters({ projectId });
+    return () => clearFilters();
+  }, [projectId, setFilters, clearFilters]);
+
+  // Progress and overdue counts are refetched whenever a task on this board changes state
+  const statsKey = useMemo(() => tasks
+    .filter(task => task.projectId === projectId)
+    .map(task => `${task.id}:${task.status}:${task.deadline ?? ''}`)
+    .join('|'), [tasks, projectId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchProject(projectId)
+      .then(data => {
+        if (!cancelled) setProject(data);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to load project:', error);
+        if (error.message?.includes('API Error: 404')) {
+          setNotFound(true);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, statsKey]);
+
+  if (notFound) {
+    return (
+      <div className="p-4 md:p-6 space-y-4">
+        <p className="text-muted-foreground">This project does not exist or has been deleted.</p>
+        <Button asChild variant="outline" size="sm">
+          <Link href="/projects">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All projects
+          </Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="px-4 pt-4 md:px-6 md:pt-6">
+        <Button asChild variant="ghost" size="sm" className="mb-2">
+          <Link href="/projects">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All projects
+          </Link>
+        </Button>
+        {project ? (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2">
+                <FolderKanban className="h-5 w-5 text-primary" />
+                {project.name}
+              </CardTitle>
+              {project.description && <CardDescription>{project.description}</CardDescription>}
+            </CardHeader>
+            <CardContent>
+              <ProjectProgress stats={project.stats} className="max-w-md" />
+            </CardContent>
+          </Card>
+        ) : (
+          <Skeleton className="h-36 w-full rounded-lg" />
+        )}
+      </div>
+      <KanbanPage title="Board" projectId={projectId} />
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import React, { memo, useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { createProject, updateProject } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import type { Project } from "@/types";
+
+interface ProjectFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this project when given, otherwise creates a new one
+  project?: Project | null;
+  onSaved: (project: Project) => void;
+}
+
+export const ProjectFormDialog = memo(({ open, onOpenChange, project, onSaved }: ProjectFormDialogProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(project?.name ?? "");
+      setDescription(project?.description ?? "");
+    }
+  }, [open, project]);
+
+  const handleSubmit = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const payload = { name: name.trim(), description: description.trim() || null };
+      const saved = project ? await updateProject(project.id, payload) : await createProject(payload);
+      toast({ title: project ? "Project updated" : "Project created", description: saved.name });
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: project ? "Could not update project" : "Could not create project",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [name, description, project, onSaved, onOpenChange, toast]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{project ? "Edit project" : "New project"}</DialogTitle>
+            <DialogDescription>
+              Projects group related tasks onto their own board.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="project-name">Name</Label>
+            <Input
+              id="project-name"
+              value={name}
+              onChange={event => setName(event.target.value)}
+              maxLength={255}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-description">Description</Label>
+            <Textarea
+              id="project-description"
+              rows={3}
+              value={description}
+              onChange={event => setDescription(event.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {project ? "Save changes" : "Create project"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+ProjectFormDialog.displayName = "ProjectFormDialog";
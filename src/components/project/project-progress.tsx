@@ -0,0 +1,33 @@
+"use client";
+
+import React, { memo } from "react";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ProjectStats } from "@/types";
+
+export const ProjectProgress = memo(({ stats, className }: { stats: ProjectStats; className?: string }) => (
+  <div className={cn("space-y-2", className)}>
+    <div className="flex items-center justify-between text-xs text-muted-foreground">
+      <span className="flex items-center gap-1">
+        <CheckCircle2 className="h-3 w-3" />
+        {stats.completedTasks} of {stats.totalTasks} tasks completed
+      </span>
+      <span className="font-medium text-foreground">{stats.progressPercentage}%</span>
+    </div>
+    <Progress value={stats.progressPercentage} className="h-2" />
+    {stats.overdueTasks > 0 ? (
+      <Badge variant="destructive" className="text-xs">
+        <AlertTriangle className="mr-1 h-3 w-3" />
+        {stats.overdueTasks} overdue
+      </Badge>
+    ) : (
+      <Badge variant="outline" className="text-xs text-muted-foreground">
+        Nothing overdue
+      </Badge>
+    )}
+  </div>
+));
+
+ProjectProgress.displayName = "ProjectProgress";
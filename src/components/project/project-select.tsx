@@ -0,0 +1,52 @@
+"use client";
+
+import React, { memo } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useProjects } from "@/hooks/use-projects";
+
+// Radix Select reserves the empty string, so "no project" needs its own sentinel
+const NO_PROJECT_VALUE = "__none__";
+
+interface ProjectSelectProps {
+  value: string;
+  onValueChange: (projectId: string) => void;
+  // Mirrors the selection into a hidden input so server actions receive it as form data
+  name?: string;
+  id?: string;
+  className?: string;
+}
+
+export const ProjectSelect = memo(({ value, onValueChange, name, id, className }: ProjectSelectProps) => {
+  const { projects, isLoading } = useProjects();
+
+  return (
+    <>
+      <Select
+        value={value || NO_PROJECT_VALUE}
+        onValueChange={next => onValueChange(next === NO_PROJECT_VALUE ? "" : next)}
+        disabled={isLoading}
+      >
+        <SelectTrigger id={id} className={className}>
+          <SelectValue placeholder={isLoading ? "Loading projects..." : "No project"} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PROJECT_VALUE}>No project</SelectItem>
+          {projects.map(project => (
+            <SelectItem key={project.id} value={project.id}>
+              {project.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {name && <input type="hidden" name={name} value={value} />}
+    </>
+  );
+});
+
+ProjectSelect.displayName = "ProjectSelect";
@@ -0,0 +1,167 @@
+"use client";
+
+import React, { memo, useCallback, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { FolderKanban, FolderPlus, Pencil, Trash2, ArrowRight } from "lucide-react";
+import { deleteProject } from "@/lib/api";
+import { useProjects } from "@/hooks/use-projects";
+import { useAuth } from "@/contexts/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { ProjectProgress } from "./project-progress";
+import { ProjectFormDialog } from "./project-form-dialog";
+import type { Project } from "@/types";
+
+const ProjectCard = memo(({
+  project,
+  canManage,
+  onEdit,
+  onDelete,
+}: {
+  project: Project;
+  canManage: boolean;
+  onEdit: (project: Project) => void;
+  onDelete: (project: Project) => void;
+}) => (
+  <Card className="flex flex-col">
+    <CardHeader className="pb-3">
+      <CardTitle className="flex items-start justify-between gap-2 text-lg">
+        <span className="truncate">{project.name}</span>
+        {canManage && (
+          <div className="flex shrink-0 gap-1">
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onEdit(project)} aria-label={`Edit ${project.name}`}>
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-7 w-7" aria-label={`Delete ${project.name}`}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete "{project.name}"?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Its {project.stats.totalTasks} task(s) are kept but will no longer belong to a project.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction className="bg-destructive hover:bg-destructive/90" onClick={() => onDelete(project)}>
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+      </CardTitle>
+      <CardDescription className="line-clamp-2 min-h-[2.5rem]">
+        {project.description || "No description"}
+      </CardDescription>
+    </CardHeader>
+    <CardContent className="flex-1">
+      <ProjectProgress stats={project.stats} />
+    </CardContent>
+    <CardFooter>
+      <Button asChild variant="outline" size="sm" className="w-full">
+        <Link href={`/projects/${project.id}`}>
+          Open board
+          <ArrowRight className="ml-2 h-4 w-4" />
+        </Link>
+      </Button>
+    </CardFooter>
+  </Card>
+));
+
+ProjectCard.displayName = "ProjectCard";
+
+export function ProjectsPage() {
+  const { projects, isLoading, error, refresh } = useProjects();
+  const { currentUser } = useAuth();
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const canManage = currentUser?.role === 'Admin';
+
+  const openCreate = useCallback(() => {
+    setEditingProject(null);
+    setDialogOpen(true);
+  }, []);
+
+  const openEdit = useCallback((project: Project) => {
+    setEditingProject(project);
+    setDialogOpen(true);
+  }, []);
+
+  const handleDelete = useCallback(async (project: Project) => {
+    try {
+      await deleteProject(project.id);
+      toast({ title: "Project deleted", description: project.name });
+      await refresh();
+    } catch (err: any) {
+      toast({ title: "Could not delete project", description: err.message, variant: "destructive" });
+    }
+  }, [refresh, toast]);
+
+  return (
+    <div className="p-4 md:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+        <h1 className="text-3xl font-bold font-headline text-foreground flex items-center gap-2">
+          <FolderKanban className="h-7 w-7 text-primary" />
+          Projects
+        </h1>
+        {canManage && (
+          <Button onClick={openCreate}>
+            <FolderPlus className="mr-2 h-4 w-4" />
+            New project
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-56 rounded-lg" />)}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : projects.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">
+          No projects yet.{canManage && " Create one to start grouping tasks."}
+        </p>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {projects.map(project => (
+            <ProjectCard
+              key={project.id}
+              project={project}
+              canManage={canManage}
+              onEdit={openEdit}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+      )}
+
+      <ProjectFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        project={editingProject}
+        onSaved={refresh}
+      />
+    </div>
+  );
+}
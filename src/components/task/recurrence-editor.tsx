@@ -0,0 +1,200 @@
+"use client";
+
+import React, { memo, useCallback, useMemo } from "react";
+import type { RecurrenceFrequency, RecurrenceRule, RecurrenceWeekday } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  RECURRENCE_WEEKDAYS,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  formatRecurrencePattern,
+  parseRecurrencePattern,
+} from "@/lib/recurrence";
+import { addMonths, format } from "date-fns";
+
+const DOES_NOT_REPEAT = "__none__";
+
+type EndMode = "never" | "until" | "count";
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: "DAILY", label: "Daily", unit: "day(s)" },
+  { value: "WEEKLY", label: "Weekly", unit: "week(s)" },
+  { value: "MONTHLY", label: "Monthly", unit: "month(s)" },
+];
+
+interface RecurrenceEditorProps {
+  // RRULE string, or "" when the task does not repeat
+  value: string;
+  onValueChange: (pattern: string) => void;
+  // Date the series starts from; seeds the weekday and day-of-month defaults
+  anchorDate?: Date;
+  name?: string;
+  id?: string;
+  className?: string;
+}
+
+export const RecurrenceEditor = memo(({ value, onValueChange, anchorDate, name, id, className }: RecurrenceEditorProps) => {
+  const rule = useMemo(() => parseRecurrencePattern(value), [value]);
+  const endMode: EndMode = rule?.until ? "until" : rule?.count ? "count" : "never";
+
+  const update = useCallback((changes: Partial<RecurrenceRule>) => {
+    if (!rule) return;
+    onValueChange(formatRecurrencePattern({ ...rule, ...changes }));
+  }, [rule, onValueChange]);
+
+  const handleFrequencyChange = useCallback((next: string) => {
+    if (next === DOES_NOT_REPEAT) {
+      onValueChange("");
+      return;
+    }
+    // The scheduler reads weekdays and month days in UTC, so the defaults come from the same calendar
+    const anchor = anchorDate || new Date();
+    const frequency = next as RecurrenceFrequency;
+    onValueChange(formatRecurrencePattern({
+      frequency,
+      interval: rule?.interval || 1,
+      byWeekday: frequency === "WEEKLY" ? [RECURRENCE_WEEKDAYS[anchor.getUTCDay()]] : undefined,
+      byMonthDay: frequency === "MONTHLY" ? anchor.getUTCDate() : undefined,
+      until: rule?.until,
+      count: rule?.count,
+    }));
+  }, [anchorDate, rule, onValueChange]);
+
+  const toggleWeekday = useCallback((day: RecurrenceWeekday) => {
+    const selected = rule?.byWeekday || [];
+    const next = selected.includes(day) ? selected.filter(d => d !== day) : [...selected, day];
+    // At least one weekday stays selected so the rule keeps a meaning
+    if (next.length === 0) return;
+    update({ byWeekday: RECURRENCE_WEEKDAYS.filter(d => next.includes(d)) });
+  }, [rule, update]);
+
+  const handleEndModeChange = useCallback((mode: string) => {
+    if (mode === "until") {
+      update({ until: format(addMonths(anchorDate || new Date(), 3), "yyyy-MM-dd"), count: undefined });
+    } else if (mode === "count") {
+      update({ until: undefined, count: 10 });
+    } else {
+      update({ until: undefined, count: undefined });
+    }
+  }, [anchorDate, update]);
+
+  const unit = FREQUENCY_OPTIONS.find(option => option.value === rule?.frequency)?.unit;
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={rule?.frequency || DOES_NOT_REPEAT} onValueChange={handleFrequencyChange}>
+          <SelectTrigger id={id} className="w-[160px]">
+            <SelectValue placeholder="Does not repeat" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DOES_NOT_REPEAT}>Does not repeat</SelectItem>
+            {FREQUENCY_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {rule && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">every</span>
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={rule.interval}
+              onChange={e => update({ interval: Math.min(365, Math.max(1, Number(e.target.value) || 1)) })}
+              className="w-20"
+              aria-label="Repeat interval"
+            />
+            <span className="text-muted-foreground">{unit}</span>
+          </div>
+        )}
+      </div>
+
+      {rule?.frequency === "WEEKLY" && (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Repeat on">
+          {RECURRENCE_WEEKDAYS.map(day => {
+            const isSelected = rule.byWeekday?.includes(day) ?? false;
+            return (
+              <Button
+                key={day}
+                type="button"
+                size="sm"
+                variant={isSelected ? "default" : "outline"}
+                className="h-8 w-11 text-xs"
+                aria-pressed={isSelected}
+                onClick={() => toggleWeekday(day)}
+              >
+                {WEEKDAY_LABELS[day]}
+              </Button>
+            );
+          })}
+        </div>
+      )}
+
+      {rule?.frequency === "MONTHLY" && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">on day</span>
+          <Input
+            type="number"
+            min={1}
+            max={31}
+            value={rule.byMonthDay || ""}
+            onChange={e => update({ byMonthDay: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+            className="w-20"
+            aria-label="Day of month"
+          />
+          <span className="text-xs text-muted-foreground">Shorter months use their last day</span>
+        </div>
+      )}
+
+      {rule && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">ends</span>
+          <Select value={endMode} onValueChange={handleEndModeChange}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              <SelectItem value="until">On date</SelectItem>
+              <SelectItem value="count">After</SelectItem>
+            </SelectContent>
+          </Select>
+          {endMode === "until" && (
+            <Input
+              type="date"
+              value={rule.until || ""}
+              onChange={e => e.target.value && update({ until: e.target.value })}
+              className="w-[160px]"
+              aria-label="End date"
+            />
+          )}
+          {endMode === "count" && (
+            <>
+              <Input
+                type="number"
+                min={1}
+                max={1000}
+                value={rule.count || ""}
+                onChange={e => update({ count: Math.min(1000, Math.max(1, Number(e.target.value) || 1)) })}
+                className="w-20"
+                aria-label="Number of occurrences"
+              />
+              <span className="text-muted-foreground">occurrences</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {rule && <p className="text-xs text-muted-foreground">{describeRecurrence(value)}</p>}
+      {name && <input type="hidden" name={name} value={value} />}
+    </div>
+  );
+});
+
+RecurrenceEditor.displayName = "RecurrenceEditor";
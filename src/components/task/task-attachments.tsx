@@ -0,0 +1,218 @@
+"use client";
+
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react';
+import type { TaskAttachmentDetail, User } from '@/types';
+import { fetchTaskAttachments, uploadTaskAttachment, downloadTaskAttachment, deleteTaskAttachment } from '@/lib/api';
+import { ALLOWED_ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE_BYTES } from '@/lib/constants';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { format, parseISO } from 'date-fns';
+import { Paperclip, Upload, Download, Trash2, Loader2, ExternalLink } from 'lucide-react';
+
+interface TaskAttachmentsProps {
+  taskId: string;
+  currentUser: User | null;
+  className?: string;
+}
+
+const formatFileSize = (bytes: number | null) => {
+  if (bytes === null) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const AttachmentRow = memo(({
+  attachment,
+  canDelete,
+  isBusy,
+  onDownload,
+  onDelete,
+}: {
+  attachment: TaskAttachmentDetail;
+  canDelete: boolean;
+  isBusy: boolean;
+  onDownload: (attachment: TaskAttachmentDetail) => void;
+  onDelete: (attachment: TaskAttachmentDetail) => void;
+}) => (
+  <li className="flex items-center justify-between gap-2 text-xs">
+    <div className="min-w-0">
+      <p className="truncate font-medium" title={attachment.fileName}>{attachment.fileName}</p>
+      <p className="text-muted-foreground">
+        {formatFileSize(attachment.fileSizeBytes)}
+        {attachment.fileSizeBytes !== null && ' · '}
+        {attachment.uploadedBy.firstName} {attachment.uploadedBy.lastName} · {format(parseISO(attachment.createdAt), 'MMM dd, yyyy')}
+      </p>
+    </div>
+    <div className="flex shrink-0 gap-1">
+      {attachment.storageDriver ? (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onDownload(attachment)}
+          disabled={isBusy}
+          aria-label={`Download ${attachment.fileName}`}
+        >
+          {isBusy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Download className="h-3 w-3" />}
+        </Button>
+      ) : (
+        <Button asChild type="button" variant="ghost" size="icon" className="h-6 w-6">
+          <a href={attachment.fileUrl} target="_blank" rel="noopener noreferrer" aria-label={`Open ${attachment.fileName}`}>
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        </Button>
+      )}
+      {canDelete && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onDelete(attachment)}
+          disabled={isBusy}
+          aria-label={`Delete ${attachment.fileName}`}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  </li>
+));
+
+AttachmentRow.displayName = "AttachmentRow";
+
+export const TaskAttachments = memo(({ taskId, currentUser, className }: TaskAttachmentsProps) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<TaskAttachmentDetail[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      setAttachments(await fetchTaskAttachments(taskId));
+    } catch (error) {
+      console.error('Failed to load attachments:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const handleFileSelected = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+      toast({ title: "Unsupported file type", description: "Upload a JPEG, PNG, PDF, DOC or DOCX file.", variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+      toast({ title: "File too large", description: `Attachments can be at most ${formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)}.`, variant: "destructive" });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      await uploadTaskAttachment(taskId, file, file.name);
+      await loadAttachments();
+    } catch (error: any) {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+    }
+  }, [taskId, loadAttachments, toast]);
+
+  const handleDownload = useCallback(async (attachment: TaskAttachmentDetail) => {
+    setBusyId(attachment.id);
+    try {
+      const blob = await downloadTaskAttachment(taskId, attachment.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ title: "Download failed", description: error.message, variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  }, [taskId, toast]);
+
+  const handleDelete = useCallback(async (attachment: TaskAttachmentDetail) => {
+    setBusyId(attachment.id);
+    try {
+      await deleteTaskAttachment(taskId, attachment.id);
+      await loadAttachments();
+    } catch (error: any) {
+      toast({ title: "Could not delete attachment", description: error.message, variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  }, [taskId, loadAttachments, toast]);
+
+  return (
+    <Card className={cn("bg-muted/30", className)}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Paperclip className="h-4 w-4 text-muted-foreground" />
+            <h4 className="font-medium text-sm">Attachments</h4>
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="h-8"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+          >
+            {isUploading ? <Loader2 className="h-3 w-3 animate-spin" /> : <Upload className="h-3 w-3" />}
+            <span className="ml-1">Upload</span>
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+            onChange={handleFileSelected}
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : attachments.length === 0 ? (
+          <p className="text-xs text-muted-foreground italic">No attachments yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {attachments.map(attachment => (
+              <AttachmentRow
+                key={attachment.id}
+                attachment={attachment}
+                canDelete={!!currentUser && (currentUser.id === attachment.uploadedBy.id || currentUser.role === 'Admin')}
+                isBusy={busyId === attachment.id}
+                onDownload={handleDownload}
+                onDelete={handleDelete}
+              />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+TaskAttachments.displayName = "TaskAttachments";
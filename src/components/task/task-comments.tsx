@@ -0,0 +1,452 @@
+"use client";
+
+import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { TaskComment, User } from '@/types';
+import { fetchTaskComments, addTaskComment, updateTaskComment, deleteTaskComment } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/auth-context';
+import { cn } from '@/lib/utils';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { MessageSquare, Reply, Pencil, Trash2, Send, Loader2 } from 'lucide-react';
+
+interface TaskCommentsProps {
+  taskId: string;
+  currentUser: User;
+  className?: string;
+}
+
+const COMMENTS_PAGE_SIZE = 20;
+const MAX_MENTION_SUGGESTIONS = 5;
+
+// The backend resolves `@first.last` by name and anything else by email
+const getMentionHandle = (user: User): string => {
+  const first = user.firstName?.trim();
+  const last = user.lastName?.trim();
+  if (first && last && !/\s/.test(first + last)) {
+    return `${first}.${last}`.toLowerCase();
+  }
+  return user.email;
+};
+
+// Matches an in-progress `@query` that ends at the caret
+const ACTIVE_MENTION_PATTERN = /(^|\s)@([\w.@+-]*)$/;
+
+const MentionTextarea = memo(({
+  value,
+  onChange,
+  onSubmitShortcut,
+  placeholder,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmitShortcut: () => void;
+  placeholder: string;
+}) => {
+  const { allUsers } = useAuth();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = useMemo(() => {
+    if (query === null) return [];
+    const needle = query.toLowerCase();
+    return allUsers
+      .filter(user => {
+        const fullName = `${user.firstName ?? ''} ${user.lastName ?? ''}`.toLowerCase();
+        return (
+          fullName.includes(needle) ||
+          user.email.toLowerCase().includes(needle) ||
+          getMentionHandle(user).includes(needle)
+        );
+      })
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [allUsers, query]);
+
+  const updateQuery = useCallback((text: string, caret: number) => {
+    const match = ACTIVE_MENTION_PATTERN.exec(text.slice(0, caret));
+    setQuery(match ? match[2] : null);
+    setActiveIndex(0);
+  }, []);
+
+  const insertMention = useCallback((user: User) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const caret = textarea.selectionStart;
+    const before = value.slice(0, caret).replace(/@[\w.@+-]*$/, `@${getMentionHandle(user)} `);
+    const nextValue = before + value.slice(caret);
+    onChange(nextValue);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(before.length, before.length);
+    });
+  }, [value, onChange]);
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onBlur={() => setQuery(null)}
+        placeholder={placeholder}
+        rows={2}
+        maxLength={5000}
+        className="resize-none text-sm"
+        onKeyDown={(e) => {
+          if (suggestions.length > 0) {
+            if (e.key === 'ArrowDown') {
+              e.preventDefault();
+              setActiveIndex(index => (index + 1) % suggestions.length);
+              return;
+            }
+            if (e.key === 'ArrowUp') {
+              e.preventDefault();
+              setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+              return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+              e.preventDefault();
+              insertMention(suggestions[activeIndex]);
+              return;
+            }
+            if (e.key === 'Escape') {
+              e.preventDefault();
+              setQuery(null);
+              return;
+            }
+          }
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            onSubmitShortcut();
+          }
+        }}
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover p-1 text-sm shadow-md">
+          {suggestions.map((user, index) => (
+            <li
+              key={user.id}
+              // mousedown fires before the textarea blur that would close the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertMention(user);
+              }}
+              className={cn(
+                "flex cursor-pointer items-center justify-between rounded-sm px-2 py-1",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              <span>{user.firstName} {user.lastName}</span>
+              <span className="text-xs text-muted-foreground">@{getMentionHandle(user)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+MentionTextarea.displayName = "MentionTextarea";
+
+// Highlights mention tokens in rendered comment text
+const CommentContent = ({ content }: { content: string }) => (
+  <>
+    {content.split(/((?:^|(?<=\s))@[\w.%+-]+(?:@[\w.-]+\.[A-Za-z]{2,})?)/g).map((part, index) =>
+      part.startsWith('@') ? (
+        <span key={index} className="font-medium text-primary">{part}</span>
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+const CommentComposer = memo(({
+  initialValue = '',
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (content: string) => Promise<void>;
+  onCancel?: () => void;
+}) => {
+  const [value, setValue] = useState(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = useCallback(async () => {
+    if (!value.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(value.trim());
+      setValue('');
+    } catch {
+      // Keep the draft so the user can retry; the parent already reported the error
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [value, onSubmit]);
+
+  return (
+    <div className="space-y-2">
+      <MentionTextarea
+        value={value}
+        onChange={setValue}
+        onSubmitShortcut={handleSubmit}
+        placeholder={placeholder}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+        <Button type="button" size="sm" onClick={handleSubmit} disabled={isSubmitting || !value.trim()}>
+          {isSubmitting ? (
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+          ) : (
+            <Send className="mr-1 h-3 w-3" />
+          )}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+CommentComposer.displayName = "CommentComposer";
+
+const CommentItem = memo(({
+  comment,
+  currentUser,
+  isReply = false,
+  onReply,
+  onEdit,
+  onDelete,
+}: {
+  comment: TaskComment;
+  currentUser: User;
+  isReply?: boolean;
+  onReply: (parentId: string, content: string) => Promise<void>;
+  onEdit: (commentId: string, content: string) => Promise<void>;
+  onDelete: (commentId: string) => Promise<void>;
+}) => {
+  const [mode, setMode] = useState<'view' | 'edit' | 'reply'>('view');
+  const isAuthor = comment.user?.id === currentUser.id;
+  const canDelete = isAuthor || currentUser.role === 'Admin';
+  const authorName = comment.user ? `${comment.user.firstName} ${comment.user.lastName}` : 'Unknown User';
+
+  return (
+    <div className={cn("space-y-2", isReply && "ml-6 border-l pl-3")}>
+      <div className="text-xs">
+        <div className="flex items-center gap-2 mb-1">
+          <span className="font-medium">{comment.isDeleted ? 'Deleted comment' : authorName}</span>
+          <span className="text-muted-foreground">
+            {formatDistanceToNow(parseISO(comment.createdAt), { addSuffix: true })}
+          </span>
+          {comment.isEdited && !comment.isDeleted && (
+            <span className="text-muted-foreground italic">(edited)</span>
+          )}
+        </div>
+
+        {mode === 'edit' ? (
+          <CommentComposer
+            initialValue={comment.content}
+            placeholder="Edit your comment"
+            submitLabel="Save"
+            onSubmit={async (content) => {
+              await onEdit(comment.id, content);
+              setMode('view');
+            }}
+            onCancel={() => setMode('view')}
+          />
+        ) : (
+          <p className={cn("leading-relaxed whitespace-pre-wrap", comment.isDeleted ? "text-muted-foreground italic" : "text-foreground")}>
+            {comment.isDeleted ? 'This comment was deleted.' : <CommentContent content={comment.content} />}
+          </p>
+        )}
+
+        {mode === 'view' && !comment.isDeleted && (
+          <div className="flex items-center gap-1 mt-1">
+            {!isReply && (
+              <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setMode('reply')}>
+                <Reply className="mr-1 h-3 w-3" /> Reply
+              </Button>
+            )}
+            {isAuthor && (
+              <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setMode('edit')}>
+                <Pencil className="mr-1 h-3 w-3" /> Edit
+              </Button>
+            )}
+            {canDelete && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs text-destructive"
+                onClick={() => {
+                  if (window.confirm('Delete this comment?')) onDelete(comment.id);
+                }}
+              >
+                <Trash2 className="mr-1 h-3 w-3" /> Delete
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {mode === 'reply' && (
+        <div className="ml-6">
+          <CommentComposer
+            placeholder={`Reply to ${authorName}`}
+            submitLabel="Reply"
+            onSubmit={async (content) => {
+              await onReply(comment.id, content);
+              setMode('view');
+            }}
+            onCancel={() => setMode('view')}
+          />
+        </div>
+      )}
+
+      {comment.replies?.map(reply => (
+        <CommentItem
+          key={reply.id}
+          comment={reply}
+          currentUser={currentUser}
+          isReply
+          onReply={onReply}
+          onEdit={onEdit}
+          onDelete={onDelete}
+        />
+      ))}
+    </div>
+  );
+});
+
+CommentItem.displayName = "CommentItem";
+
+export const TaskComments = memo(({ taskId, currentUser, className }: TaskCommentsProps) => {
+  const { toast } = useToast();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadComments = useCallback(async (pageToLoad: number) => {
+    setIsLoading(true);
+    try {
+      const result = await fetchTaskComments(taskId, { page: pageToLoad, limit: COMMENTS_PAGE_SIZE });
+      setComments(prev => (pageToLoad === 1 ? result.comments : [...prev, ...result.comments]));
+      setPage(pageToLoad);
+      setHasNextPage(result.pagination.hasNextPage);
+    } catch (error) {
+      console.error('Error loading comments:', error);
+      toast({
+        title: "Could not load comments",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId, toast]);
+
+  useEffect(() => {
+    loadComments(1);
+  }, [loadComments]);
+
+  const runMutation = useCallback(async (mutation: () => Promise<unknown>, failureTitle: string) => {
+    try {
+      await mutation();
+      // Reload the pages already shown so threads, edits and deletions stay consistent
+      const result = await fetchTaskComments(taskId, { page: 1, limit: Math.min(page * COMMENTS_PAGE_SIZE, 100) });
+      setComments(result.comments);
+      setHasNextPage(result.pagination.hasNextPage);
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  }, [taskId, page, toast]);
+
+  const handleAdd = useCallback(
+    (content: string) => runMutation(() => addTaskComment(taskId, content), "Could not post comment"),
+    [taskId, runMutation]
+  );
+
+  const handleReply = useCallback(
+    (parentCommentId: string, content: string) =>
+      runMutation(() => addTaskComment(taskId, content, { parentCommentId }), "Could not post reply"),
+    [taskId, runMutation]
+  );
+
+  const handleEdit = useCallback(
+    (commentId: string, content: string) =>
+      runMutation(() => updateTaskComment(taskId, commentId, content), "Could not update comment"),
+    [taskId, runMutation]
+  );
+
+  const handleDelete = useCallback(
+    (commentId: string) =>
+      runMutation(() => deleteTaskComment(taskId, commentId), "Could not delete comment").catch(() => undefined),
+    [taskId, runMutation]
+  );
+
+  return (
+    <Card className={cn("bg-muted/30", className)}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="h-4 w-4 text-muted-foreground" />
+          <h4 className="font-medium text-sm">Comments</h4>
+        </div>
+
+        <ScrollArea className="max-h-64">
+          <div className="space-y-4 pr-2">
+            {comments.length === 0 && !isLoading && (
+              <p className="text-xs text-muted-foreground">No comments yet.</p>
+            )}
+            {comments.map(comment => (
+              <CommentItem
+                key={comment.id}
+                comment={comment}
+                currentUser={currentUser}
+                onReply={handleReply}
+                onEdit={handleEdit}
+                onDelete={handleDelete}
+              />
+            ))}
+            {isLoading && (
+              <div className="flex justify-center py-2">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {hasNextPage && !isLoading && (
+              <Button type="button" variant="link" size="sm" className="text-xs" onClick={() => loadComments(page + 1)}>
+                Load more comments
+              </Button>
+            )}
+          </div>
+        </ScrollArea>
+
+        <CommentComposer placeholder="Write a comment... Use @ to mention someone" submitLabel="Comment" onSubmit={handleAdd} />
+      </CardContent>
+    </Card>
+  );
+});
+
+TaskComments.displayName = "TaskComments";
@@ -0,0 +1,216 @@
+"use client";
+
+import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import type { DependencyType, TaskDependencies as TaskDependencyLinks, TaskDependency } from '@/types';
+import { fetchTaskDependencies, addTaskDependency, removeTaskDependency } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useTasks } from '@/contexts/TaskContext';
+import { cn } from '@/lib/utils';
+import { GitBranch, Plus, X, Loader2 } from 'lucide-react';
+
+interface TaskDependenciesProps {
+  taskId: string;
+  className?: string;
+}
+
+type Relation = 'blocked_by' | 'blocking';
+
+const DEPENDENCY_TYPE_LABELS: Record<DependencyType, string> = {
+  finish_to_start: 'Finish → Start',
+  start_to_start: 'Start → Start',
+  finish_to_finish: 'Finish → Finish',
+  start_to_finish: 'Start → Finish',
+};
+
+const EMPTY_LINKS: TaskDependencyLinks = { predecessors: [], successors: [] };
+
+const DependencyRow = memo(({
+  dependency,
+  onRemove,
+  isRemoving,
+}: {
+  dependency: TaskDependency;
+  onRemove: (dependency: TaskDependency) => void;
+  isRemoving: boolean;
+}) => (
+  <li className="flex items-center justify-between gap-2 text-xs">
+    <div className="min-w-0 flex items-center gap-2">
+      <span className={cn("truncate", dependency.task.status === 'Completed' && "line-through text-muted-foreground")}>
+        {dependency.task.title}
+      </span>
+      <Badge variant="outline" className="text-[10px] shrink-0">
+        {DEPENDENCY_TYPE_LABELS[dependency.dependencyType]}
+      </Badge>
+    </div>
+    <Button
+      type="button"
+      variant="ghost"
+      size="icon"
+      className="h-6 w-6 shrink-0"
+      onClick={() => onRemove(dependency)}
+      disabled={isRemoving}
+      aria-label={`Remove link to ${dependency.task.title}`}
+    >
+      {isRemoving ? <Loader2 className="h-3 w-3 animate-spin" /> : <X className="h-3 w-3" />}
+    </Button>
+  </li>
+));
+
+DependencyRow.displayName = "DependencyRow";
+
+export const TaskDependencies = memo(({ taskId, className }: TaskDependenciesProps) => {
+  const { toast } = useToast();
+  const { tasks } = useTasks();
+  const [links, setLinks] = useState<TaskDependencyLinks>(EMPTY_LINKS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [relation, setRelation] = useState<Relation>('blocked_by');
+  const [otherTaskId, setOtherTaskId] = useState('');
+  const [dependencyType, setDependencyType] = useState<DependencyType>('finish_to_start');
+  const [isAdding, setIsAdding] = useState(false);
+  const [removingId, setRemovingId] = useState<number | null>(null);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      setLinks(await fetchTaskDependencies(taskId));
+    } catch (error) {
+      console.error('Failed to load task dependencies:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadLinks();
+  }, [loadLinks]);
+
+  // Tasks already linked in either direction cannot be linked again
+  const candidates = useMemo(() => {
+    const linked = new Set([...links.predecessors, ...links.successors].map(dependency => dependency.task.id));
+    return tasks.filter(task => task.id !== taskId && !linked.has(task.id));
+  }, [tasks, links, taskId]);
+
+  const handleAdd = useCallback(async () => {
+    if (!otherTaskId) return;
+    setIsAdding(true);
+    try {
+      await addTaskDependency(taskId, relation === 'blocked_by'
+        ? { predecessorTaskId: otherTaskId, dependencyType }
+        : { successorTaskId: otherTaskId, dependencyType });
+      setOtherTaskId('');
+      await loadLinks();
+    } catch (error: any) {
+      toast({
+        title: "Could not add dependency",
+        description: error.message?.includes('cycle')
+          ? "That link would create a circular dependency."
+          : error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  }, [taskId, relation, otherTaskId, dependencyType, loadLinks, toast]);
+
+  const handleRemove = useCallback(async (dependency: TaskDependency) => {
+    setRemovingId(dependency.id);
+    try {
+      await removeTaskDependency(taskId, dependency.id);
+      await loadLinks();
+    } catch (error: any) {
+      toast({ title: "Could not remove dependency", description: error.message, variant: "destructive" });
+    } finally {
+      setRemovingId(null);
+    }
+  }, [taskId, loadLinks, toast]);
+
+  const renderGroup = (title: string, dependencies: TaskDependency[]) => (
+    <div className="space-y-1.5">
+      <p className="text-xs font-medium text-muted-foreground">{title}</p>
+      {dependencies.length === 0 ? (
+        <p className="text-xs text-muted-foreground italic">None</p>
+      ) : (
+        <ul className="space-y-1">
+          {dependencies.map(dependency => (
+            <DependencyRow
+              key={dependency.id}
+              dependency={dependency}
+              onRemove={handleRemove}
+              isRemoving={removingId === dependency.id}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <Card className={cn("bg-muted/30", className)}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <GitBranch className="h-4 w-4 text-muted-foreground" />
+          <h4 className="font-medium text-sm">Dependencies</h4>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {renderGroup('Blocked by', links.predecessors)}
+            {renderGroup('Blocking', links.successors)}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={relation} onValueChange={value => setRelation(value as Relation)}>
+            <SelectTrigger className="h-8 w-[120px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="blocked_by">Blocked by</SelectItem>
+              <SelectItem value="blocking">Blocking</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={otherTaskId} onValueChange={setOtherTaskId}>
+            <SelectTrigger className="h-8 flex-1 min-w-[160px] text-xs">
+              <SelectValue placeholder="Select a task" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map(task => (
+                <SelectItem key={task.id} value={task.id}>{task.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={dependencyType} onValueChange={value => setDependencyType(value as DependencyType)}>
+            <SelectTrigger className="h-8 w-[140px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DEPENDENCY_TYPE_LABELS) as DependencyType[]).map(type => (
+                <SelectItem key={type} value={type}>{DEPENDENCY_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" size="sm" className="h-8" onClick={handleAdd} disabled={!otherTaskId || isAdding}>
+            {isAdding ? <Loader2 className="h-3 w-3 animate-spin" /> : <Plus className="h-3 w-3" />}
+            <span className="ml-1">Link</span>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+});
+
+TaskDependencies.displayName = "TaskDependencies";
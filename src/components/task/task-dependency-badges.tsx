@@ -0,0 +1,85 @@
+"use client";
+
+import React, { memo } from 'react';
+import type { DependencyTaskSummary, Task } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { Lock, Link2 } from 'lucide-react';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+
+interface TaskDependencyBadgesProps {
+  task: Pick<Task, 'blockedBy' | 'blocking'>;
+  className?: string;
+}
+
+const DependencyBadge = memo(({
+  label,
+  heading,
+  tasks,
+  icon: Icon,
+  badgeClassName,
+}: {
+  label: string;
+  heading: string;
+  tasks: DependencyTaskSummary[];
+  icon: React.ComponentType<{ className?: string }>;
+  badgeClassName: string;
+}) => (
+  <TooltipProvider>
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={cn("text-xs gap-1", badgeClassName)}>
+          <Icon className="h-3 w-3" />
+          {label}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p className="font-medium text-xs mb-1">{heading}</p>
+        <ul className="text-xs text-muted-foreground space-y-0.5">
+          {tasks.map(task => (
+            <li key={task.id}>{task.title} <span className="opacity-70">({task.status})</span></li>
+          ))}
+        </ul>
+      </TooltipContent>
+    </Tooltip>
+  </TooltipProvider>
+));
+
+DependencyBadge.displayName = "DependencyBadge";
+
+export const TaskDependencyBadges = memo(({ task, className }: TaskDependencyBadgesProps) => {
+  const blockedBy = task.blockedBy ?? [];
+  const blocking = task.blocking ?? [];
+
+  if (blockedBy.length === 0 && blocking.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1.5", className)}>
+      {blockedBy.length > 0 && (
+        <DependencyBadge
+          label={`Blocked by ${blockedBy.length}`}
+          heading="Waiting on"
+          tasks={blockedBy}
+          icon={Lock}
+          badgeClassName="border-red-300 text-red-700 bg-red-50 dark:bg-red-900/30 dark:text-red-400"
+        />
+      )}
+      {blocking.length > 0 && (
+        <DependencyBadge
+          label={`Blocking ${blocking.length}`}
+          heading="Holding up"
+          tasks={blocking}
+          icon={Link2}
+          badgeClassName="border-amber-300 text-amber-700 bg-amber-50 dark:bg-amber-900/30 dark:text-amber-400"
+        />
+      )}
+    </div>
+  );
+});
+
+TaskDependencyBadges.displayName = "TaskDependencyBadges";
@@ -1,7 +1,7 @@
 "use client";
 
 import React, { memo } from 'react';
-import type { TaskStatus } from '@/types';
+import type { TaskStatus, TaskWorkflow } from '@/types';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { 
@@ -319,22 +319,15 @@ TaskStatusProgress.displayName = "TaskStatusProgress";
 // Export status configuration for use in other components
 export { STATUS_CONFIG };
 
-// Utility function to get next possible statuses for a given status
-export const getNextPossibleStatuses = (currentStatus: TaskStatus): TaskStatus[] => {
-  const transitions: Record<TaskStatus, TaskStatus[]> = {
-    'To Do': ['In Progress', 'Overdue'],
-    'In Progress': ['Completed', 'Needs Changes', 'Overdue', 'To Do'],
-    'Needs Changes': ['To Do', 'In Progress', 'Pending Approval'],
-    'Overdue': ['In Progress', 'Completed'],
-    'Pending Approval': ['To Do', 'Needs Changes', 'Rejected'],
-    'Completed': ['Needs Changes'], // In case of reopening
-    'Rejected': ['Pending Approval'], // In case of resubmission
-  };
+// Statuses the server's workflow lets `currentStatus` move to, limited to those this UI knows about
+export const getNextPossibleStatuses = (currentStatus: TaskStatus, workflow: TaskWorkflow): TaskStatus[] =>
+  (workflow.transitions[currentStatus] || []).filter((status): status is TaskStatus => status in STATUS_CONFIG);
 
-  return transitions[currentStatus] || [];
+// Utility function to check if a status transition is valid
+export const isValidStatusTransition = (from: TaskStatus, to: TaskStatus, workflow: TaskWorkflow): boolean => {
+  return getNextPossibleStatuses(from, workflow).includes(to);
 };
 
-// Utility function to check if a status transition is valid
-export const isValidStatusTransition = (from: TaskStatus, to: TaskStatus): boolean => {
-  return getNextPossibleStatuses(from).includes(to);
-};
\ No newline at end of file
+// Moving a task out of these statuses back into work, e.g. reopening a completed task, needs a reason
+export const requiresStatusReason = (from: TaskStatus, workflow: TaskWorkflow): boolean =>
+  workflow.reasonRequiredFrom.includes(from);
@@ -0,0 +1,273 @@
+"use client";
+
+import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import type { ChecklistItem, Task } from '@/types';
+import {
+  fetchSubtasks,
+  createSubtasks,
+  fetchChecklist,
+  addChecklistItem,
+  updateChecklistItem,
+  deleteChecklistItem,
+} from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { TaskStatusBadge } from '@/components/task/task-status-badge';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { ListChecks, Plus, X, Loader2 } from 'lucide-react';
+
+interface TaskSubtasksProps {
+  taskId: string;
+  className?: string;
+}
+
+// Same roll-up as the server: every open or completed subtask and every checklist item weighs the same
+function rollUpProgress(subtasks: Task[], items: ChecklistItem[]): number | null {
+  const values = [
+    ...subtasks
+      .filter(subtask => subtask.status !== 'Rejected')
+      .map(subtask => subtask.status === 'Completed' ? 100 : subtask.progressPercentage),
+    ...items.map(item => item.isDone ? 100 : 0),
+  ];
+  if (values.length === 0) return null;
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+const SubtaskRow = memo(({ subtask }: { subtask: Task }) => {
+  const isSettled = subtask.status === 'Completed' || subtask.status === 'Rejected';
+
+  return (
+    <li className="flex items-center justify-between gap-2 text-xs">
+      <span className={cn("truncate", isSettled && "line-through text-muted-foreground")}>
+        {subtask.title}
+      </span>
+      <div className="flex items-center gap-2 shrink-0">
+        {!isSettled && (subtask.subtaskCount || subtask.checklistItemCount) ? (
+          <span className="text-muted-foreground">{subtask.progressPercentage}%</span>
+        ) : null}
+        <TaskStatusBadge status={subtask.status} size="sm" showAnimation={false} />
+      </div>
+    </li>
+  );
+});
+
+SubtaskRow.displayName = "SubtaskRow";
+
+const ChecklistRow = memo(({
+  item,
+  onToggle,
+  onRemove,
+  isBusy,
+}: {
+  item: ChecklistItem;
+  onToggle: (item: ChecklistItem) => void;
+  onRemove: (item: ChecklistItem) => void;
+  isBusy: boolean;
+}) => (
+  <li className="flex items-center justify-between gap-2 text-xs">
+    <label className="min-w-0 flex items-center gap-2 cursor-pointer">
+      <Checkbox
+        checked={item.isDone}
+        onCheckedChange={() => onToggle(item)}
+        disabled={isBusy}
+        aria-label={`Mark "${item.content}" as ${item.isDone ? 'not done' : 'done'}`}
+      />
+      <span className={cn("truncate", item.isDone && "line-through text-muted-foreground")}>
+        {item.content}
+      </span>
+    </label>
+    <Button
+      type="button"
+      variant="ghost"
+      size="icon"
+      className="h-6 w-6 shrink-0"
+      onClick={() => onRemove(item)}
+      disabled={isBusy}
+      aria-label={`Remove "${item.content}"`}
+    >
+      {isBusy ? <Loader2 className="h-3 w-3 animate-spin" /> : <X className="h-3 w-3" />}
+    </Button>
+  </li>
+));
+
+ChecklistRow.displayName = "ChecklistRow";
+
+export const TaskSubtasks = memo(({ taskId, className }: TaskSubtasksProps) => {
+  const { toast } = useToast();
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [subtaskTitle, setSubtaskTitle] = useState('');
+  const [itemContent, setItemContent] = useState('');
+  const [isAddingSubtask, setIsAddingSubtask] = useState(false);
+  const [isAddingItem, setIsAddingItem] = useState(false);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [nextSubtasks, nextItems] = await Promise.all([fetchSubtasks(taskId), fetchChecklist(taskId)]);
+      setSubtasks(nextSubtasks);
+      setItems(nextItems);
+    } catch (error) {
+      console.error('Failed to load subtasks and checklist:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    load();
+  }, [load]);
+
+  const progress = useMemo(() => rollUpProgress(subtasks, items), [subtasks, items]);
+
+  const handleAddSubtask = useCallback(async () => {
+    const title = subtaskTitle.trim();
+    if (!title) return;
+    setIsAddingSubtask(true);
+    try {
+      const result = await createSubtasks(taskId, [{ title }]);
+      setSubtasks(previous => [...previous, ...result.subtasks]);
+      setSubtaskTitle('');
+    } catch (error: any) {
+      toast({ title: "Could not add subtask", description: error.message, variant: "destructive" });
+    } finally {
+      setIsAddingSubtask(false);
+    }
+  }, [taskId, subtaskTitle, toast]);
+
+  const handleAddItem = useCallback(async () => {
+    const content = itemContent.trim();
+    if (!content) return;
+    setIsAddingItem(true);
+    try {
+      const item = await addChecklistItem(taskId, content);
+      setItems(previous => [...previous, item]);
+      setItemContent('');
+    } catch (error: any) {
+      toast({ title: "Could not add checklist item", description: error.message, variant: "destructive" });
+    } finally {
+      setIsAddingItem(false);
+    }
+  }, [taskId, itemContent, toast]);
+
+  const handleToggle = useCallback(async (item: ChecklistItem) => {
+    setBusyItemId(item.id);
+    try {
+      const updated = await updateChecklistItem(taskId, item.id, { isDone: !item.isDone });
+      setItems(previous => previous.map(existing => existing.id === updated.id ? updated : existing));
+    } catch (error: any) {
+      toast({ title: "Could not update checklist item", description: error.message, variant: "destructive" });
+    } finally {
+      setBusyItemId(null);
+    }
+  }, [taskId, toast]);
+
+  const handleRemove = useCallback(async (item: ChecklistItem) => {
+    setBusyItemId(item.id);
+    try {
+      await deleteChecklistItem(taskId, item.id);
+      setItems(previous => previous.filter(existing => existing.id !== item.id));
+    } catch (error: any) {
+      toast({ title: "Could not remove checklist item", description: error.message, variant: "destructive" });
+    } finally {
+      setBusyItemId(null);
+    }
+  }, [taskId, toast]);
+
+  const submitOnEnter = (handler: () => void) => (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      handler();
+    }
+  };
+
+  return (
+    <Card className={cn("bg-muted/30", className)}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <ListChecks className="h-4 w-4 text-muted-foreground" />
+            <h4 className="font-medium text-sm">Subtasks & Checklist</h4>
+          </div>
+          {progress !== null && (
+            <span className="text-xs text-muted-foreground">{progress}% complete</span>
+          )}
+        </div>
+
+        {progress !== null && <Progress value={progress} className="h-1.5" />}
+
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium text-muted-foreground">Subtasks</p>
+              {subtasks.length === 0 ? (
+                <p className="text-xs text-muted-foreground italic">None</p>
+              ) : (
+                <ul className="space-y-1">
+                  {subtasks.map(subtask => <SubtaskRow key={subtask.id} subtask={subtask} />)}
+                </ul>
+              )}
+              <div className="flex items-center gap-2 pt-1">
+                <Input
+                  value={subtaskTitle}
+                  onChange={event => setSubtaskTitle(event.target.value)}
+                  onKeyDown={submitOnEnter(handleAddSubtask)}
+                  placeholder="New subtask"
+                  className="h-8 text-xs"
+                  maxLength={255}
+                />
+                <Button type="button" size="sm" className="h-8" onClick={handleAddSubtask} disabled={!subtaskTitle.trim() || isAddingSubtask}>
+                  {isAddingSubtask ? <Loader2 className="h-3 w-3 animate-spin" /> : <Plus className="h-3 w-3" />}
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium text-muted-foreground">Checklist</p>
+              {items.length === 0 ? (
+                <p className="text-xs text-muted-foreground italic">None</p>
+              ) : (
+                <ul className="space-y-1">
+                  {items.map(item => (
+                    <ChecklistRow
+                      key={item.id}
+                      item={item}
+                      onToggle={handleToggle}
+                      onRemove={handleRemove}
+                      isBusy={busyItemId === item.id}
+                    />
+                  ))}
+                </ul>
+              )}
+              <div className="flex items-center gap-2 pt-1">
+                <Input
+                  value={itemContent}
+                  onChange={event => setItemContent(event.target.value)}
+                  onKeyDown={submitOnEnter(handleAddItem)}
+                  placeholder="New checklist item"
+                  className="h-8 text-xs"
+                  maxLength={500}
+                />
+                <Button type="button" size="sm" className="h-8" onClick={handleAddItem} disabled={!itemContent.trim() || isAddingItem}>
+                  {isAddingItem ? <Loader2 className="h-3 w-3 animate-spin" /> : <Plus className="h-3 w-3" />}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+TaskSubtasks.displayName = "TaskSubtasks";
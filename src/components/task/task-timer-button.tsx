@@ -0,0 +1,92 @@
+"use client";
+
+import React, { memo, useCallback, useEffect, useState } from "react";
+import type { Task, TaskStatus } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Loader2, Play, Square, TimerIcon } from "lucide-react";
+import { useTimeTracking } from "@/contexts/time-tracking-context";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { elapsedSeconds, formatDuration, formatElapsed } from "@/lib/time-tracking";
+
+// Time can only be tracked on work that has been approved and is not finished
+const TRACKABLE_STATUSES: TaskStatus[] = ["To Do", "In Progress", "Overdue"];
+
+interface TaskTimerButtonProps {
+  task: Task;
+  className?: string;
+}
+
+// Logged-vs-estimated summary with a start/stop control for the signed-in user's timer
+export const TaskTimerButton = memo(({ task, className }: TaskTimerButtonProps) => {
+  const { runningEntry, isBusy, startTimer, stopTimer } = useTimeTracking();
+  const { toast } = useToast();
+  const isRunningHere = runningEntry?.taskId === task.id;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!isRunningHere) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunningHere]);
+
+  const runningSeconds = isRunningHere && runningEntry ? elapsedSeconds(runningEntry, now) : 0;
+  const loggedSeconds = (task.loggedSeconds || 0) + runningSeconds;
+  const estimatedSeconds = (task.timerDuration || 0) * 60;
+  const isOverEstimate = estimatedSeconds > 0 && loggedSeconds > estimatedSeconds;
+
+  const handleClick = useCallback(async () => {
+    try {
+      if (isRunningHere) {
+        const entry = await stopTimer();
+        toast({ title: "Timer stopped", description: `Logged ${formatDuration(entry.durationSeconds)} on "${task.title}"` });
+      } else {
+        const { stoppedEntry } = await startTimer(task.id);
+        toast({
+          title: "Timer started",
+          description: stoppedEntry ? `Stopped the timer on "${stoppedEntry.taskTitle}"` : task.title,
+        });
+      }
+    } catch (error: any) {
+      toast({ title: "Timer not updated", description: error.message, variant: "destructive" });
+    }
+  }, [isRunningHere, startTimer, stopTimer, task.id, task.title, toast]);
+
+  const canTrack = TRACKABLE_STATUSES.includes(task.status);
+  if (!canTrack && loggedSeconds === 0 && estimatedSeconds === 0) return null;
+
+  return (
+    <div className={cn("flex items-center justify-between gap-2 text-xs", className)}>
+      <div className={cn("flex items-center gap-1.5 text-muted-foreground", isOverEstimate && "text-red-600")}>
+        <TimerIcon className="h-3.5 w-3.5 shrink-0" />
+        <span>
+          Logged {formatDuration(loggedSeconds)}
+          {estimatedSeconds > 0 && ` / ${formatDuration(estimatedSeconds)} est.`}
+        </span>
+      </div>
+      {canTrack && (
+        <Button
+          type="button"
+          size="sm"
+          variant={isRunningHere ? "destructive" : "outline"}
+          className="h-7 px-2 text-xs"
+          onClick={handleClick}
+          disabled={isBusy}
+          aria-label={isRunningHere ? `Stop timer on ${task.title}` : `Start timer on ${task.title}`}
+        >
+          {isBusy ? (
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+          ) : isRunningHere ? (
+            <Square className="mr-1 h-3 w-3" />
+          ) : (
+            <Play className="mr-1 h-3 w-3" />
+          )}
+          {isRunningHere ? formatElapsed(runningSeconds) : "Start"}
+        </Button>
+      )}
+    </div>
+  );
+});
+
+TaskTimerButton.displayName = "TaskTimerButton";
@@ -0,0 +1,178 @@
+"use client";
+
+import React, { memo, useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { createTemplate, updateTemplate } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import type { TaskPriority, TaskTemplate, TaskTemplateInput } from "@/types";
+
+interface TemplateFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this template when given, otherwise creates a new one
+  template?: TaskTemplate | null;
+  onSaved: (template: TaskTemplate) => void;
+}
+
+// Checklist items are edited one per line, tags as a comma-separated list
+const splitLines = (value: string) => value.split("\n").map(line => line.trim()).filter(Boolean);
+const splitTags = (value: string) => value.split(",").map(tag => tag.trim()).filter(Boolean);
+
+export const TemplateFormDialog = memo(({ open, onOpenChange, template, onSaved }: TemplateFormDialogProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [priority, setPriority] = useState<TaskPriority>("Medium");
+  const [duration, setDuration] = useState("");
+  const [checklist, setChecklist] = useState("");
+  const [tags, setTags] = useState("");
+  const [isPublic, setIsPublic] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(template?.name ?? "");
+      setTitle(template?.title ?? "");
+      setDescription(template?.description ?? "");
+      setPriority(template?.defaultPriority ?? "Medium");
+      setDuration(template?.defaultTimerDuration ? String(template.defaultTimerDuration) : "");
+      setChecklist(template?.checklist.join("\n") ?? "");
+      setTags(template?.tags.join(", ") ?? "");
+      setIsPublic(template?.isPublic ?? false);
+    }
+  }, [open, template]);
+
+  const handleSubmit = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || !title.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const payload: TaskTemplateInput = {
+        name: name.trim(),
+        title: title.trim(),
+        description: description.trim() || null,
+        defaultPriority: priority,
+        defaultTimerDuration: Number(duration) || 0,
+        checklist: splitLines(checklist),
+        tags: splitTags(tags),
+        isPublic,
+      };
+      const saved = template ? await updateTemplate(template.id, payload) : await createTemplate(payload);
+      toast({ title: template ? "Template updated" : "Template created", description: saved.name });
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: template ? "Could not update template" : "Could not create template",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [name, title, description, priority, duration, checklist, tags, isPublic, template, onSaved, onOpenChange, toast]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{template ? "Edit template" : "New template"}</DialogTitle>
+            <DialogDescription>
+              Templates prefill the task forms with a title, description, priority, duration and checklist.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Template name</Label>
+              <Input id="template-name" value={name} onChange={e => setName(e.target.value)} maxLength={100} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-title">Task title</Label>
+              <Input id="template-title" value={title} onChange={e => setTitle(e.target.value)} maxLength={255} required />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea id="template-description" rows={3} value={description} onChange={e => setDescription(e.target.value)} />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="template-priority">Priority</Label>
+              <Select value={priority} onValueChange={(value: TaskPriority) => setPriority(value)}>
+                <SelectTrigger id="template-priority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(["Low", "Medium", "High"] as TaskPriority[]).map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-duration">Estimated duration (minutes)</Label>
+              <Input
+                id="template-duration"
+                type="number"
+                min={0}
+                max={2880}
+                step={15}
+                value={duration}
+                onChange={e => setDuration(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-checklist">Checklist</Label>
+            <Textarea
+              id="template-checklist"
+              rows={4}
+              value={checklist}
+              onChange={e => setChecklist(e.target.value)}
+              placeholder={"One item per line\ne.g. Write tests"}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-tags">Tags</Label>
+            <Input id="template-tags" value={tags} onChange={e => setTags(e.target.value)} placeholder="bug, backend" />
+          </div>
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <Label htmlFor="template-public">Share with everyone</Label>
+              <p className="text-xs text-muted-foreground">Private templates are only visible to you and administrators.</p>
+            </div>
+            <Switch id="template-public" checked={isPublic} onCheckedChange={setIsPublic} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim() || !title.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {template ? "Save changes" : "Create template"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+TemplateFormDialog.displayName = "TemplateFormDialog";
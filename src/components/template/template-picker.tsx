@@ -0,0 +1,73 @@
+"use client";
+
+import React, { memo, useCallback } from "react";
+import Link from "next/link";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { useTemplates } from "@/hooks/use-templates";
+import type { TaskPriority, TaskTemplate } from "@/types";
+
+// Radix Select reserves the empty string, so "no template" needs its own sentinel
+const CUSTOM_TASK_VALUE = "__custom__";
+
+const PRIORITY_BADGE_CLASSES: Record<TaskPriority, string> = {
+  Low: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  Medium: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400",
+  High: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+};
+
+interface TemplatePickerProps {
+  // Id of the applied template, or "" for a custom task
+  value: string;
+  // Receives the chosen template, or null when switching back to a custom task;
+  // the form decides which of its fields to prefill
+  onSelect: (template: TaskTemplate | null) => void;
+  className?: string;
+}
+
+export const TemplatePicker = memo(({ value, onSelect, className }: TemplatePickerProps) => {
+  const { templates, isLoading, error } = useTemplates();
+
+  const handleChange = useCallback((next: string) => {
+    onSelect(templates.find(template => template.id === next) || null);
+  }, [templates, onSelect]);
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <Select value={value || CUSTOM_TASK_VALUE} onValueChange={handleChange} disabled={isLoading}>
+        <SelectTrigger>
+          <SelectValue placeholder={isLoading ? "Loading templates..." : "Choose a template to get started quickly..."} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={CUSTOM_TASK_VALUE}>Custom task</SelectItem>
+          {templates.map(template => (
+            <SelectItem key={template.id} value={template.id}>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={cn("text-xs", PRIORITY_BADGE_CLASSES[template.defaultPriority])}>
+                  {template.defaultPriority}
+                </Badge>
+                <span>{template.name}</span>
+                {template.tags.slice(0, 3).map(tag => (
+                  <span key={tag} className="text-xs text-muted-foreground">#{tag}</span>
+                ))}
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        {error
+          ? "Templates could not be loaded."
+          : !isLoading && templates.length === 0
+            ? "No templates yet. "
+            : null}
+        <Link href="/templates" className="underline underline-offset-2 hover:text-foreground">
+          Manage templates
+        </Link>
+      </p>
+    </div>
+  );
+});
+
+TemplatePicker.displayName = "TemplatePicker";
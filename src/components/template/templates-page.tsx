@@ -0,0 +1,217 @@
+"use client";
+
+import React, { memo, useCallback, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { LayoutTemplate, Plus, Pencil, Trash2, Timer, ListChecks, Globe, Lock } from "lucide-react";
+import { deleteTemplate } from "@/lib/api";
+import { useTemplates } from "@/hooks/use-templates";
+import { useAuth } from "@/contexts/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { TemplateFormDialog } from "./template-form-dialog";
+import type { TaskTemplate } from "@/types";
+
+const TemplateCard = memo(({
+  template,
+  canManage,
+  onEdit,
+  onDelete,
+}: {
+  template: TaskTemplate;
+  canManage: boolean;
+  onEdit: (template: TaskTemplate) => void;
+  onDelete: (template: TaskTemplate) => void;
+}) => (
+  <Card className="flex flex-col">
+    <CardHeader className="pb-3">
+      <CardTitle className="flex items-start justify-between gap-2 text-lg">
+        <span className="truncate">{template.name}</span>
+        {canManage && (
+          <div className="flex shrink-0 gap-1">
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onEdit(template)} aria-label={`Edit ${template.name}`}>
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-7 w-7" aria-label={`Delete ${template.name}`}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete "{template.name}"?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Tasks already created from this template are not affected.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction className="bg-destructive hover:bg-destructive/90" onClick={() => onDelete(template)}>
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+      </CardTitle>
+      <CardDescription className="line-clamp-2 min-h-[2.5rem]">
+        <span className="font-medium text-foreground">{template.title}</span>
+        {template.description && ` — ${template.description}`}
+      </CardDescription>
+    </CardHeader>
+    <CardContent className="flex-1 space-y-2 text-xs text-muted-foreground">
+      <div className="flex flex-wrap items-center gap-3">
+        <Badge variant="outline">{template.defaultPriority}</Badge>
+        {template.defaultTimerDuration > 0 && (
+          <span className="flex items-center gap-1">
+            <Timer className="h-3.5 w-3.5" />
+            {template.defaultTimerDuration} min
+          </span>
+        )}
+        {template.checklist.length > 0 && (
+          <span className="flex items-center gap-1">
+            <ListChecks className="h-3.5 w-3.5" />
+            {template.checklist.length} checklist item{template.checklist.length === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+      {template.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {template.tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="text-xs">#{tag}</Badge>
+          ))}
+        </div>
+      )}
+    </CardContent>
+    <CardFooter className="text-xs text-muted-foreground gap-1">
+      {template.isPublic ? <Globe className="h-3.5 w-3.5" /> : <Lock className="h-3.5 w-3.5" />}
+      {template.isPublic ? "Public" : "Private"}
+      {template.createdBy && ` · by ${template.createdBy.firstName} ${template.createdBy.lastName}`}
+    </CardFooter>
+  </Card>
+));
+
+TemplateCard.displayName = "TemplateCard";
+
+export function TemplatesPage() {
+  const { templates, isLoading, error, refresh } = useTemplates();
+  const { currentUser } = useAuth();
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<TaskTemplate | null>(null);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+
+  const allTags = useMemo(
+    () => Array.from(new Set(templates.flatMap(template => template.tags))).sort(),
+    [templates]
+  );
+
+  const visibleTemplates = useMemo(
+    () => activeTag ? templates.filter(template => template.tags.includes(activeTag)) : templates,
+    [templates, activeTag]
+  );
+
+  const canManage = useCallback(
+    (template: TaskTemplate) => currentUser?.role === 'Admin' || template.createdBy?.id === currentUser?.id,
+    [currentUser]
+  );
+
+  const openCreate = useCallback(() => {
+    setEditingTemplate(null);
+    setDialogOpen(true);
+  }, []);
+
+  const openEdit = useCallback((template: TaskTemplate) => {
+    setEditingTemplate(template);
+    setDialogOpen(true);
+  }, []);
+
+  const handleDelete = useCallback(async (template: TaskTemplate) => {
+    try {
+      await deleteTemplate(template.id);
+      toast({ title: "Template deleted", description: template.name });
+      await refresh();
+    } catch (err: any) {
+      toast({ title: "Could not delete template", description: err.message, variant: "destructive" });
+    }
+  }, [refresh, toast]);
+
+  return (
+    <div className="p-4 md:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+        <h1 className="text-3xl font-bold font-headline text-foreground flex items-center gap-2">
+          <LayoutTemplate className="h-7 w-7 text-primary" />
+          Task Templates
+        </h1>
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          New template
+        </Button>
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant={activeTag === null ? "default" : "outline"} onClick={() => setActiveTag(null)}>
+            All
+          </Button>
+          {allTags.map(tag => (
+            <Button
+              key={tag}
+              size="sm"
+              variant={activeTag === tag ? "default" : "outline"}
+              className="text-xs"
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+            >
+              #{tag}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-48 rounded-lg" />)}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : visibleTemplates.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">
+          {activeTag ? `No templates tagged #${activeTag}.` : "No templates yet. Create one to reuse common tasks."}
+        </p>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {visibleTemplates.map(template => (
+            <TemplateCard
+              key={template.id}
+              template={template}
+              canManage={canManage(template)}
+              onEdit={openEdit}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+      )}
+
+      <TemplateFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        template={editingTemplate}
+        onSaved={refresh}
+      />
+    </div>
+  );
+}
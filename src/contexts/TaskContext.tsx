@@ -11,6 +11,9 @@ import React, {
   useRef,
 } from 'react';
 import { fetchTasks, createTask, updateTask, deleteTask } from '@/lib/api';
+import { useAuth } from '@/contexts/auth-context';
+import { useRealtimeEvents } from '@/hooks/use-realtime-events';
+import type { RealtimeEvent } from '@/lib/realtime';
 import type { Task, TaskStatus, TaskPriority } from '@/types';
 
 // Enhanced pagination interface
@@ -31,8 +34,9 @@ interface TaskFilters {
   sortOrder?: 'asc' | 'desc';
   status?: TaskStatus | TaskStatus[];
   priority?: TaskPriority | TaskPriority[];
-  assigneeId?: number;
-  assignerId?: number;
+  assigneeId?: string;
+  assignerId?: string;
+  projectId?: string;
   search?: string;
   dateRange?: {
     start: Date;
@@ -69,8 +73,12 @@ export interface TaskSearchParams {
   sortOrder?: 'asc' | 'desc';
   status?: string; // API expects string, not TaskStatus | TaskStatus[]
   priority?: string;
-  assigneeId?: number;
-  assignerId?: number;
+  assigneeId?: string;
+  assignerId?: string;
+  projectId?: string;
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
   signal?: AbortSignal;
   overdue?: boolean;
 }
@@ -90,7 +98,8 @@ export interface TaskContextType {
   addTask: (task: Omit<Task, 'id'>) => Promise<void>;
   updateTask: (id: string, updates: Partial<Task>) => Promise<void>;
   deleteTask: (id: string) => Promise<void>;
-  updateTaskStatus: (taskId: number, newStatus: TaskStatus) => Promise<void>;
+  // `reason` is required by the server when reopening a completed task
+  updateTaskStatus: (taskId: string, newStatus: TaskStatus, reason?: string) => Promise<void>;
   
   // Bulk operations
   bulkUpdateTasks: (taskIds: string[], updates: Partial<Task>) => Promise<void>;
@@ -126,11 +135,29 @@ export const convertTaskStatusToString = (status: TaskStatus | TaskStatus[] | un
   return status;
 };
 
+// Whether a pushed task belongs in the list loaded with these filters. Search and date
+// ranges are left to the next reload, since only the API applies them exactly.
+const matchesFilters = (task: Task, filters: TaskFilters): boolean => {
+  const statuses = filters.status && (Array.isArray(filters.status) ? filters.status : [filters.status]);
+  const priorities = filters.priority && (Array.isArray(filters.priority) ? filters.priority : [filters.priority]);
+
+  if (statuses && statuses.length > 0 && !statuses.includes(task.status)) return false;
+  if (priorities && priorities.length > 0 && !priorities.includes(task.priority)) return false;
+  if (filters.projectId && task.projectId !== filters.projectId) return false;
+  if (filters.assigneeId && task.assignedUserId !== filters.assigneeId) return false;
+  if (filters.assignerId && task.assignerId !== filters.assignerId) return false;
+  if (filters.overdue !== undefined && Boolean(task.isOverdue) !== filters.overdue) return false;
+  return true;
+};
+
+// Boards render the whole list, so request the API's maximum page size unless told otherwise
+const DEFAULT_PAGE_SIZE = 100;
+
 // FIXED: Helper function to convert filters to API parameters
 const convertFiltersToApiParams = (filters: TaskFilters): TaskSearchParams => {
   return {
     page: filters.page,
-    limit: filters.limit,
+    limit: filters.limit ?? DEFAULT_PAGE_SIZE,
     sortBy: filters.sortBy,
     sortOrder: filters.sortOrder,
     status: convertTaskStatusToString(filters.status), // Convert TaskStatus to string
@@ -139,6 +166,10 @@ const convertFiltersToApiParams = (filters: TaskFilters): TaskSearchParams => {
       : filters.priority,
     assigneeId: filters.assigneeId,
     assignerId: filters.assignerId,
+    projectId: filters.projectId,
+    search: filters.search?.trim() || undefined,
+    dateFrom: filters.dateRange?.start.toISOString(),
+    dateTo: filters.dateRange?.end.toISOString(),
     overdue: filters.overdue,
   };
 };
@@ -173,6 +204,8 @@ const CACHE_TIMEOUT = 5 * 60 * 1000;
 const TaskContext = createContext<TaskContextType | undefined>(undefined);
 
 export function TaskProvider({ children }: { children: ReactNode }) {
+  const { currentUser } = useAuth();
+
   // Core state
   const [tasks, setTasks] = useState<Task[]>([]);
   const [pagination, setPagination] = useState<PaginationInfo | null>(null);
@@ -225,7 +258,7 @@ export function TaskProvider({ children }: { children: ReactNode }) {
       if (task.deadline) {
         const deadline = new Date(task.deadline);
         
-        if (task.status === 'Overdue' || (deadline < now && task.status !== 'Completed')) {
+        if (task.isOverdue || (deadline < now && task.status !== 'Completed')) {
           stats.overdue++;
         }
         
@@ -372,8 +405,7 @@ export function TaskProvider({ children }: { children: ReactNode }) {
   }, []);
 
   // Enhanced status update with optimistic updates
-  const updateTaskStatus = useCallback(async (taskId: number, newStatus: TaskStatus): Promise<void> => {
-    const taskIdString = taskId.toString();
+  const updateTaskStatus = useCallback(async (taskIdString: string, newStatus: TaskStatus, reason?: string): Promise<void> => {
     const originalTask = tasks.find(t => t.id === taskIdString);
     
     if (!originalTask) {
@@ -390,7 +422,7 @@ export function TaskProvider({ children }: { children: ReactNode }) {
     const operation = async () => {
       try {
         setError(null);
-        await updateTask(taskIdString, { status: newStatus });
+        await updateTask(taskIdString, { status: newStatus, statusReason: reason });
         cacheRef.current = null; // Invalidate cache
       } catch (err: any) {
         // Revert optimistic update on error
@@ -403,7 +435,8 @@ export function TaskProvider({ children }: { children: ReactNode }) {
         const errorMessage = err.message || 'Failed to update task status';
         setError(errorMessage);
         console.error('Error updating task status:', err);
-        throw new Error(errorMessage);
+        // Rethrown as-is so callers can read a rejected transition's allowed statuses
+        throw err;
       }
     };
     
@@ -523,6 +556,45 @@ export function TaskProvider({ children }: { children: ReactNode }) {
     await loadTasks(filtersToUse);
   }, [loadTasks, currentFilters]);
 
+  // Apply server-pushed changes from other users in place
+  const currentFiltersRef = useRef(currentFilters);
+  currentFiltersRef.current = currentFilters;
+
+  const handleRealtimeEvent = useCallback((event: RealtimeEvent) => {
+    switch (event.type) {
+      case 'task.created':
+      case 'task.updated': {
+        const incoming = event.data.task;
+        const filters = currentFiltersRef.current;
+        setTasks(prev => {
+          // A task that no longer matches the filters being viewed leaves the list
+          if (!matchesFilters(incoming, filters)) {
+            return prev.filter(task => task.id !== incoming.id);
+          }
+          const exists = prev.some(task => task.id === incoming.id);
+          if (exists) {
+            return prev.map(task => (task.id === incoming.id ? { ...task, ...incoming } : task));
+          }
+          return [incoming, ...prev];
+        });
+        cacheRef.current = null;
+        break;
+      }
+      // Also sent when a change takes the task out of this user's view
+      case 'task.deleted':
+        setTasks(prev => prev.filter(task => task.id !== event.data.taskId));
+        cacheRef.current = null;
+        break;
+      case 'reconnected':
+        // Events sent while disconnected are gone, so resync from the API
+        cacheRef.current = null;
+        loadTasks(currentFiltersRef.current);
+        break;
+    }
+  }, [loadTasks]);
+
+  useRealtimeEvents(handleRealtimeEvent, !!currentUser);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -31,7 +31,8 @@ interface AuthContextType extends AuthState {
   // Authentication methods
   login: (email: string, password?: string) => Promise<AuthResult>;
   logout: () => Promise<void>;
-  signup: (name: string, email: string, role: UserRole, password?: string) => Promise<AuthResult>;
+  // New accounts are always regular users; admins grant Manager through team membership
+  signup: (name: string, email: string, password?: string) => Promise<AuthResult>;
   
   // User management
   refreshUsers: () => Promise<void>;
@@ -62,6 +63,7 @@ interface AuthResult {
 const SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
 const SESSION_WARNING = 5 * 60 * 1000;  // 5 minutes before timeout
 const ACTIVITY_THROTTLE = 10 * 1000;    // Throttle activity updates to 10 seconds
+const ACCESS_TOKEN_REFRESH_MARGIN = 60 * 1000; // Renew the access token a minute before it expires
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -78,6 +80,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     shouldPromptLogin: false,
   });
 
+  // When the current access token stops working; drives the background refresh
+  const [accessTokenExpiresAt, setAccessTokenExpiresAt] = useState<string | null>(null);
+
   const router = useRouter();
   const sessionCheckIntervalRef = useRef<NodeJS.Timeout>();
   const activityTimeoutRef = useRef<NodeJS.Timeout>();
@@ -114,14 +119,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     async function initializeAuth() {
       try {
         setAuthState(prev => ({ ...prev, loading: true, error: null }));
-        // Check if user has an active session
-        const sessionUser = await userAPI.verifySession();
-        console.log('[AuthProvider] verifySession result:', sessionUser);
-        if (mounted && sessionUser) {
+        // The refresh cookie outlives the access token, so this also restores sessions after a long absence
+        const refreshed = await userAPI.refreshSession();
+        console.log('[AuthProvider] refreshSession result:', refreshed?.user);
+        if (mounted && refreshed) {
           const now = new Date();
+          setAccessTokenExpiresAt(refreshed.accessTokenExpiresAt);
           setAuthState(prev => ({
             ...prev,
-            currentUser: sessionUser,
+            currentUser: refreshed.user,
             isAuthenticated: true,
             lastActivity: now,
             sessionExpiry: new Date(now.getTime() + SESSION_TIMEOUT),
@@ -187,6 +193,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   // Session expiry handler
   const handleSessionExpiry = useCallback(async () => {
+    setAccessTokenExpiresAt(null);
     setAuthState(prev => ({
       ...prev,
       currentUser: null,
@@ -236,6 +243,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
       console.debug('[auth-context] Calling refreshUsers after login');
       await refreshUsers();
+      setAccessTokenExpiresAt(result.accessTokenExpiresAt || null);
       setAuthState(prev => ({
         ...prev,
         currentUser: result.user || null,
@@ -266,6 +274,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       console.error('Logout API call failed:', error);
       // Continue with local logout even if API call fails
     } finally {
+      setAccessTokenExpiresAt(null);
       setAuthState({
         currentUser: null,
         allUsers: [],
@@ -290,10 +299,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, [router]);
 
   // Signup method
-  const signup = useCallback(async (name: string, email: string, role: UserRole, password?: string) => {
+  const signup = useCallback(async (name: string, email: string, password?: string) => {
     setAuthState(prev => ({ ...prev, loading: true, error: null }));
     try {
-      const result = await userAPI.registerUser(name, email, role, password);
+      const result = await userAPI.registerUser(name, email, password);
       console.log('[AuthProvider] signup result:', result);
       if (result.success) {
         // Ensure token is set before calling refreshUsers
@@ -303,6 +312,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
         console.debug('[auth-context] Calling refreshUsers after signup');
         await refreshUsers();
+        setAccessTokenExpiresAt(result.accessTokenExpiresAt || null);
         setAuthState(prev => ({
           ...prev,
           currentUser: result.user || null,
@@ -386,29 +396,39 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
-  // Session refresh
+  // Session refresh: rotates the refresh token and picks up a new access token
   const refreshSession = useCallback(async (): Promise<boolean> => {
-    try {
-      const sessionUser = await userAPI.verifySession();
-      if (sessionUser) {
-        const now = new Date();
-        setAuthState(prev => ({
-          ...prev,
-          currentUser: sessionUser,
-          isAuthenticated: true,
-          lastActivity: now,
-          sessionExpiry: new Date(now.getTime() + SESSION_TIMEOUT),
-          error: null,
-        }));
-        return true;
-      }
-      return false;
-    } catch (error) {
-      console.error('Session refresh failed:', error);
+    const refreshed = await userAPI.refreshSession();
+    if (!refreshed) {
       return false;
     }
+
+    const now = new Date();
+    setAccessTokenExpiresAt(refreshed.accessTokenExpiresAt);
+    setAuthState(prev => ({
+      ...prev,
+      currentUser: refreshed.user,
+      isAuthenticated: true,
+      lastActivity: now,
+      sessionExpiry: new Date(now.getTime() + SESSION_TIMEOUT),
+      error: null,
+    }));
+    return true;
   }, []);
 
+  // Keep the access token fresh; if the session was revoked elsewhere, sign out here too
+  useEffect(() => {
+    if (!accessTokenExpiresAt) return;
+
+    const delay = Math.max(new Date(accessTokenExpiresAt).getTime() - Date.now() - ACCESS_TOKEN_REFRESH_MARGIN, 0);
+    const timer = setTimeout(async () => {
+      if (!(await refreshSession())) {
+        handleSessionExpiry();
+      }
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [accessTokenExpiresAt, refreshSession, handleSessionExpiry]);
+
   // Extend session
   const extendSession = useCallback(() => {
     if (authState.isAuthenticated) {
@@ -435,9 +455,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     
     const userRole = authState.currentUser.role;
     
-    // Role hierarchy: Admin > User
+    // Role hierarchy: Admin > Manager > User
     const roleHierarchy: Record<UserRole, number> = {
-      'Admin': 2,
+      'Admin': 3,
+      'Manager': 2,
       'User': 1,
     };
     
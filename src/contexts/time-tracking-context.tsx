@@ -0,0 +1,93 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { fetchRunningTimer, startTaskTimer, stopRunningTimer } from '@/lib/api';
+import { useAuth } from '@/contexts/auth-context';
+import { useTasks } from '@/contexts/TaskContext';
+import type { TimeEntry } from '@/types';
+
+interface TimeTrackingContextType {
+  // The signed-in user's running timer; the server allows at most one
+  runningEntry: TimeEntry | null;
+  isBusy: boolean;
+  // Bumped after every start/stop so views showing logged time know to reload
+  revision: number;
+  startTimer: (taskId: string) => Promise<{ entry: TimeEntry; stoppedEntry: TimeEntry | null }>;
+  stopTimer: () => Promise<TimeEntry>;
+}
+
+const TimeTrackingContext = createContext<TimeTrackingContextType | undefined>(undefined);
+
+export function TimeTrackingProvider({ children }: { children: ReactNode }) {
+  const { currentUser } = useAuth();
+  const { refreshTasks } = useTasks();
+  const [runningEntry, setRunningEntry] = useState<TimeEntry | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setRunningEntry(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchRunningTimer()
+      .then(entry => {
+        if (!cancelled) setRunningEntry(entry);
+      })
+      .catch(err => console.error('Failed to load running timer:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser]);
+
+  // Stopping a timer adds to a task's logged total, so the task list is reloaded afterwards
+  const afterChange = useCallback(() => {
+    setRevision(value => value + 1);
+    refreshTasks().catch(err => console.error('Failed to refresh tasks after timer change:', err));
+  }, [refreshTasks]);
+
+  const startTimer = useCallback(async (taskId: string) => {
+    setIsBusy(true);
+    try {
+      const result = await startTaskTimer(taskId);
+      setRunningEntry(result.entry);
+      afterChange();
+      return result;
+    } finally {
+      setIsBusy(false);
+    }
+  }, [afterChange]);
+
+  const stopTimer = useCallback(async () => {
+    setIsBusy(true);
+    try {
+      const entry = await stopRunningTimer();
+      setRunningEntry(null);
+      afterChange();
+      return entry;
+    } finally {
+      setIsBusy(false);
+    }
+  }, [afterChange]);
+
+  const value = useMemo(() => ({
+    runningEntry,
+    isBusy,
+    revision,
+    startTimer,
+    stopTimer,
+  }), [runningEntry, isBusy, revision, startTimer, stopTimer]);
+
+  return <TimeTrackingContext.Provider value={value}>{children}</TimeTrackingContext.Provider>;
+}
+
+export function useTimeTracking() {
+  const context = useContext(TimeTrackingContext);
+  if (context === undefined) {
+    throw new Error('useTimeTracking must be used within a TimeTrackingProvider');
+  }
+  return context;
+}
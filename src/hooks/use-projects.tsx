@@ -0,0 +1,30 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchProjects } from "@/lib/api";
+import type { Project } from "@/types";
+
+// Loads the project list once on mount; call `refresh` after a project is created, renamed or deleted
+export function useProjects() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await fetchProjects());
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to load projects:', err);
+      setError(err.message || 'Failed to load projects');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { projects, isLoading, error, refresh };
+}
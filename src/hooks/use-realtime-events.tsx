@@ -0,0 +1,18 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { subscribeToRealtimeEvents, RealtimeEvent } from "@/lib/realtime";
+
+// Subscribes to the shared server event stream while `enabled` is true
+export function useRealtimeEvents(handler: (event: RealtimeEvent) => void, enabled: boolean = true) {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeToRealtimeEvents(event => handlerRef.current(event));
+  }, [enabled]);
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchTaskWorkflow } from "@/lib/api";
+import { useAuth } from "@/contexts/auth-context";
+import type { TaskWorkflow } from "@/types";
+
+// Loads the status transitions the server allows for the signed-in user's role.
+// Stays null until loaded; the server enforces the same table either way.
+export function useTaskWorkflow() {
+  const { currentUser } = useAuth();
+  const [workflow, setWorkflow] = useState<TaskWorkflow | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTaskWorkflow()
+      .then(data => {
+        if (!cancelled) setWorkflow(data);
+      })
+      .catch(err => console.error('Failed to load task workflow:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser?.id, currentUser?.role]);
+
+  return workflow;
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchTemplates } from "@/lib/api";
+import type { TaskTemplate } from "@/types";
+
+// Loads the templates visible to the current user; call `refresh` after one is saved or deleted
+export function useTemplates() {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setTemplates(await fetchTemplates());
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to load templates:', err);
+      setError(err.message || 'Failed to load templates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { templates, isLoading, error, refresh };
+}
@@ -1,4 +1,4 @@
-import { Task, User } from '@/types';
+import { Task, TaskComment, User, AppNotification, NotificationType, TaskActivityEntry, AuditLogEntry, TaskDependency, TaskDependencies, DependencyType, DependencyLink, SubtaskDraft, CreatedSubtasks, ChecklistItem, Project, TaskAttachmentDetail, TaskTemplate, TaskTemplateInput, TimeEntry, TaskTimeSummary, WeeklyTimesheet, TaskWorkflow, DeadlineEstimate, TaskPriority, AiUsageEntry } from '@/types';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
 
@@ -9,7 +9,7 @@ interface ApiResponse<T> {
   message?: string;
 }
 
-interface PaginatedResponse<T> {
+export interface PaginatedResponse<T> {
   tasks: T[];
   pagination: {
     total: number;
@@ -21,10 +21,55 @@ interface PaginatedResponse<T> {
   };
 }
 
+export interface PaginatedComments {
+  comments: TaskComment[];
+  pagination: PaginatedResponse<TaskComment>['pagination'];
+}
+
+export interface PaginatedNotifications {
+  notifications: AppNotification[];
+  pagination: PaginatedResponse<AppNotification>['pagination'];
+  unreadCount: number;
+}
+
+export interface PaginatedActivity {
+  activity: TaskActivityEntry[];
+  pagination: PaginatedResponse<TaskActivityEntry>['pagination'];
+}
+
+export interface PaginatedAuditLog {
+  entries: AuditLogEntry[];
+  pagination: PaginatedResponse<AuditLogEntry>['pagination'];
+}
+
+export interface AuditLogFilters {
+  page?: number;
+  limit?: number;
+  userId?: string;
+  action?: string;
+  resource?: string;
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+// Server actions have no browser cookie jar, so they forward the incoming cookie header
+function withCookie(headers: HeadersInit, cookieHeader?: string): HeadersInit {
+  return cookieHeader ? { ...headers, Cookie: cookieHeader } : headers;
+}
+
+// Keeps the failed response's status and JSON body so callers can act on structured errors
+export class ApiError extends Error {
+  constructor(public status: number, public body: any) {
+    super(`API Error: ${status} - ${JSON.stringify(body)}`);
+    this.name = 'ApiError';
+  }
+}
+
 async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(`API Error: ${response.status} - ${JSON.stringify(error)}`);
+    throw new ApiError(response.status, error);
   }
   const data: ApiResponse<T> = await response.json();
   console.log('handleResponse: Received data:', data);
@@ -43,10 +88,15 @@ export async function fetchTasks(params?: {
   sortOrder?: 'asc' | 'desc';
   status?: string;
   priority?: string;
-  assigneeId?: number;
-  assignerId?: number;
+  assigneeId?: string;
+  assignerId?: string;
+  projectId?: string;
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  overdue?: boolean;
   signal?: AbortSignal; // Added signal parameter
-}): Promise<PaginatedResponse<Task>> {
+}, options?: { cookieHeader?: string }): Promise<PaginatedResponse<Task>> {
   const queryParams = new URLSearchParams();
   
   if (params) {
@@ -54,12 +104,13 @@ export async function fetchTasks(params?: {
     const { signal, ...urlParams } = params;
     
     Object.entries(urlParams).forEach(([key, value]) => {
-      if (value !== undefined) {
+      if (value !== undefined && value !== '') {
         queryParams.append(key, value.toString());
       }
     });
 
     const response = await fetch(`${API_BASE_URL}/tasks?${queryParams.toString()}`, {
+      headers: withCookie({}, options?.cookieHeader),
       credentials: 'include',
       signal: signal, // Use the signal for abort capability
     });
@@ -68,20 +119,23 @@ export async function fetchTasks(params?: {
   }
 
   const response = await fetch(`${API_BASE_URL}/tasks?${queryParams.toString()}`, {
+    headers: withCookie({}, options?.cookieHeader),
     credentials: 'include',
   });
 
   return handleResponse<PaginatedResponse<Task>>(response);
 }
 
-export async function fetchTaskById(id: string): Promise<Task> {
+export async function fetchTaskById(id: string, options?: { cookieHeader?: string }): Promise<Task> {
   const response = await fetch(`${API_BASE_URL}/tasks/${id}`, {
+    headers: withCookie({}, options?.cookieHeader),
     credentials: 'include',
   });
   return handleResponse<Task>(response);
 }
 
-export async function createTask(task: Omit<Task, 'id'>): Promise<Task> {
+// `subtasks` are created with the task, in the same transaction
+export async function createTask(task: Omit<Task, 'id'> & { subtasks?: SubtaskDraft[] }, options?: { cookieHeader?: string }): Promise<Task> {
   // Robust date validation to prevent crashes from empty strings
   const taskToSend = {
     ...task,
@@ -95,9 +149,9 @@ export async function createTask(task: Omit<Task, 'id'>): Promise<Task> {
 
   const response = await fetch(`${API_BASE_URL}/tasks`, {
     method: 'POST',
-    headers: {
+    headers: withCookie({
       'Content-Type': 'application/json',
-    },
+    }, options?.cookieHeader),
     credentials: 'include',
     body: JSON.stringify(taskToSend),
   });
@@ -105,12 +159,12 @@ export async function createTask(task: Omit<Task, 'id'>): Promise<Task> {
   return handleResponse<Task>(response);
 }
 
-export async function updateTask(id: string, updates: Partial<Task>): Promise<Task> {
+export async function updateTask(id: string, updates: Partial<Task> & { statusReason?: string }, options?: { cookieHeader?: string }): Promise<Task> {
   const response = await fetch(`${API_BASE_URL}/tasks/${id}`, {
     method: 'PUT',
-    headers: {
+    headers: withCookie({
       'Content-Type': 'application/json',
-    },
+    }, options?.cookieHeader),
     credentials: 'include',
     body: JSON.stringify(updates),
   });
@@ -118,6 +172,34 @@ export async function updateTask(id: string, updates: Partial<Task>): Promise<Ta
   return handleResponse<Task>(response);
 }
 
+export async function estimateTaskDeadline(input: {
+  title?: string;
+  description?: string;
+  priority?: TaskPriority;
+  assigneeId?: string;
+  tags?: string[];
+  startDate?: string;
+}, options?: { cookieHeader?: string }): Promise<DeadlineEstimate> {
+  const response = await fetch(`${API_BASE_URL}/tasks/estimate-deadline`, {
+    method: 'POST',
+    headers: withCookie({
+      'Content-Type': 'application/json',
+    }, options?.cookieHeader),
+    credentials: 'include',
+    body: JSON.stringify(input),
+  });
+
+  return handleResponse<DeadlineEstimate>(response);
+}
+
+export async function fetchTaskWorkflow(): Promise<TaskWorkflow> {
+  const response = await fetch(`${API_BASE_URL}/tasks/workflow`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<TaskWorkflow>(response);
+}
+
 export async function deleteTask(id: string): Promise<void> {
   const response = await fetch(`${API_BASE_URL}/tasks/${id}`, {
     method: 'DELETE',
@@ -127,10 +209,39 @@ export async function deleteTask(id: string): Promise<void> {
   await handleResponse<void>(response);
 }
 
+export async function fetchTaskComments(taskId: string, params?: { page?: number; limit?: number }): Promise<PaginatedComments> {
+  const queryParams = new URLSearchParams();
+  if (params?.page) queryParams.append('page', params.page.toString());
+  if (params?.limit) queryParams.append('limit', params.limit.toString());
+
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/comments?${queryParams.toString()}`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<PaginatedComments>(response);
+}
+
 // Add task comment API function
-export async function addTaskComment(taskId: string, content: string): Promise<Task> {
+export async function addTaskComment(
+  taskId: string,
+  content: string,
+  options?: { parentCommentId?: string; cookieHeader?: string }
+): Promise<TaskComment> {
   const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/comments`, {
     method: 'POST',
+    headers: withCookie({
+      'Content-Type': 'application/json',
+    }, options?.cookieHeader),
+    credentials: 'include',
+    body: JSON.stringify({ content, parentCommentId: options?.parentCommentId }),
+  });
+
+  return handleResponse<TaskComment>(response);
+}
+
+export async function updateTaskComment(taskId: string, commentId: string, content: string): Promise<TaskComment> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/comments/${commentId}`, {
+    method: 'PUT',
     headers: {
       'Content-Type': 'application/json',
     },
@@ -138,5 +249,506 @@ export async function addTaskComment(taskId: string, content: string): Promise<T
     body: JSON.stringify({ content }),
   });
 
-  return handleResponse<Task>(response);
-}
\ No newline at end of file
+  return handleResponse<TaskComment>(response);
+}
+
+export async function deleteTaskComment(taskId: string, commentId: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/comments/${commentId}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  await handleResponse<void>(response);
+}
+
+export async function fetchTaskActivity(taskId: string, params?: { page?: number; limit?: number }): Promise<PaginatedActivity> {
+  const queryParams = new URLSearchParams();
+  if (params?.page) queryParams.append('page', params.page.toString());
+  if (params?.limit) queryParams.append('limit', params.limit.toString());
+
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/activity?${queryParams.toString()}`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<PaginatedActivity>(response);
+}
+
+export async function fetchTaskDependencies(taskId: string): Promise<TaskDependencies> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/dependencies`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<TaskDependencies>(response);
+}
+
+export async function fetchDependencyLinks(taskIds: string[]): Promise<DependencyLink[]> {
+  const queryParams = new URLSearchParams({ taskIds: taskIds.join(',') });
+
+  const response = await fetch(`${API_BASE_URL}/tasks/dependencies?${queryParams.toString()}`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<DependencyLink[]>(response);
+}
+
+// Pass predecessorTaskId to make this task wait on another, or successorTaskId to make another wait on it
+export async function addTaskDependency(
+  taskId: string,
+  link: { predecessorTaskId?: string; successorTaskId?: string; dependencyType?: DependencyType }
+): Promise<TaskDependency> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/dependencies`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(link),
+  });
+
+  return handleResponse<TaskDependency>(response);
+}
+
+export async function removeTaskDependency(taskId: string, dependencyId: number): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/dependencies/${dependencyId}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  await handleResponse<void>(response);
+}
+
+// Creates every subtask and its links, or none of them
+export async function createSubtasks(
+  taskId: string,
+  subtasks: SubtaskDraft[],
+  options?: { cookieHeader?: string }
+): Promise<CreatedSubtasks> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/subtasks`, {
+    method: 'POST',
+    headers: withCookie({
+      'Content-Type': 'application/json',
+    }, options?.cookieHeader),
+    credentials: 'include',
+    body: JSON.stringify({ subtasks }),
+  });
+
+  return handleResponse<CreatedSubtasks>(response);
+}
+
+export async function fetchSubtasks(taskId: string): Promise<Task[]> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/subtasks`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<Task[]>(response);
+}
+
+export async function fetchChecklist(taskId: string): Promise<ChecklistItem[]> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/checklist`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<ChecklistItem[]>(response);
+}
+
+export async function addChecklistItem(taskId: string, content: string): Promise<ChecklistItem> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/checklist`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify({ content }),
+  });
+
+  return handleResponse<ChecklistItem>(response);
+}
+
+export async function updateChecklistItem(
+  taskId: string,
+  itemId: string,
+  updates: { content?: string; isDone?: boolean }
+): Promise<ChecklistItem> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/checklist/${itemId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(updates),
+  });
+
+  return handleResponse<ChecklistItem>(response);
+}
+
+export async function deleteChecklistItem(taskId: string, itemId: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/checklist/${itemId}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  await handleResponse<void>(response);
+}
+
+export async function fetchTaskAttachments(taskId: string): Promise<TaskAttachmentDetail[]> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/attachments`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<TaskAttachmentDetail[]>(response);
+}
+
+// Sent as multipart/form-data; the browser (or Node's fetch) sets the boundary header itself
+export async function uploadTaskAttachment(
+  taskId: string,
+  file: Blob,
+  fileName: string,
+  options?: { cookieHeader?: string }
+): Promise<TaskAttachmentDetail> {
+  const body = new FormData();
+  body.append('file', file, fileName);
+
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/attachments`, {
+    method: 'POST',
+    headers: withCookie({}, options?.cookieHeader),
+    credentials: 'include',
+    body,
+  });
+
+  return handleResponse<TaskAttachmentDetail>(response);
+}
+
+export async function downloadTaskAttachment(taskId: string, attachmentId: string): Promise<Blob> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/attachments/${attachmentId}/download`, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(`API Error: ${response.status} - ${JSON.stringify(error)}`);
+  }
+  return response.blob();
+}
+
+export async function deleteTaskAttachment(taskId: string, attachmentId: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/attachments/${attachmentId}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  await handleResponse<void>(response);
+}
+
+export async function fetchProjects(options?: { cookieHeader?: string }): Promise<Project[]> {
+  const response = await fetch(`${API_BASE_URL}/projects`, {
+    headers: withCookie({}, options?.cookieHeader),
+    credentials: 'include',
+  });
+
+  return handleResponse<Project[]>(response);
+}
+
+export async function fetchProject(id: string): Promise<Project> {
+  const response = await fetch(`${API_BASE_URL}/projects/${id}`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<Project>(response);
+}
+
+export async function createProject(project: { name: string; description?: string | null }): Promise<Project> {
+  const response = await fetch(`${API_BASE_URL}/projects`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(project),
+  });
+
+  return handleResponse<Project>(response);
+}
+
+export async function updateProject(id: string, updates: { name?: string; description?: string | null }): Promise<Project> {
+  const response = await fetch(`${API_BASE_URL}/projects/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(updates),
+  });
+
+  return handleResponse<Project>(response);
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/projects/${id}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  await handleResponse<void>(response);
+}
+
+export async function fetchTemplates(params?: { tags?: string[]; search?: string }): Promise<TaskTemplate[]> {
+  const queryParams = new URLSearchParams();
+  if (params?.tags?.length) queryParams.append('tags', params.tags.join(','));
+  if (params?.search) queryParams.append('search', params.search);
+
+  const response = await fetch(`${API_BASE_URL}/templates?${queryParams.toString()}`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<TaskTemplate[]>(response);
+}
+
+export async function fetchTemplate(id: string): Promise<TaskTemplate> {
+  const response = await fetch(`${API_BASE_URL}/templates/${id}`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<TaskTemplate>(response);
+}
+
+export async function createTemplate(template: TaskTemplateInput, options?: { cookieHeader?: string }): Promise<TaskTemplate> {
+  const response = await fetch(`${API_BASE_URL}/templates`, {
+    method: 'POST',
+    headers: withCookie({
+      'Content-Type': 'application/json',
+    }, options?.cookieHeader),
+    credentials: 'include',
+    body: JSON.stringify(template),
+  });
+
+  return handleResponse<TaskTemplate>(response);
+}
+
+export async function updateTemplate(id: string, updates: Partial<TaskTemplateInput>): Promise<TaskTemplate> {
+  const response = await fetch(`${API_BASE_URL}/templates/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(updates),
+  });
+
+  return handleResponse<TaskTemplate>(response);
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/templates/${id}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  await handleResponse<void>(response);
+}
+
+export async function fetchTaskTimeEntries(taskId: string): Promise<TaskTimeSummary> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/time-entries`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<TaskTimeSummary>(response);
+}
+
+export async function addTimeEntry(taskId: string, entry: { startedAt: string; endedAt: string; note?: string | null }): Promise<TimeEntry> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/time-entries`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(entry),
+  });
+
+  return handleResponse<TimeEntry>(response);
+}
+
+export async function updateTimeEntry(id: string, updates: { startedAt?: string; endedAt?: string; note?: string | null }): Promise<TimeEntry> {
+  const response = await fetch(`${API_BASE_URL}/time-entries/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(updates),
+  });
+
+  return handleResponse<TimeEntry>(response);
+}
+
+export async function deleteTimeEntry(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/time-entries/${id}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  await handleResponse<void>(response);
+}
+
+// Any timer the user has running on another task is stopped by the server
+export async function startTaskTimer(taskId: string): Promise<{ entry: TimeEntry; stoppedEntry: TimeEntry | null }> {
+  const response = await fetch(`${API_BASE_URL}/tasks/${taskId}/time-entries/start`, {
+    method: 'POST',
+    credentials: 'include',
+  });
+
+  return handleResponse<{ entry: TimeEntry; stoppedEntry: TimeEntry | null }>(response);
+}
+
+export async function stopRunningTimer(): Promise<TimeEntry> {
+  const response = await fetch(`${API_BASE_URL}/time-entries/stop`, {
+    method: 'POST',
+    credentials: 'include',
+  });
+
+  return handleResponse<TimeEntry>(response);
+}
+
+export async function fetchRunningTimer(): Promise<TimeEntry | null> {
+  const response = await fetch(`${API_BASE_URL}/time-entries/running`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<TimeEntry | null>(response);
+}
+
+export async function fetchWeeklyTimesheet(params?: { weekStart?: string; timezone?: string }): Promise<WeeklyTimesheet> {
+  const queryParams = new URLSearchParams();
+  if (params?.weekStart) queryParams.append('weekStart', params.weekStart);
+  if (params?.timezone) queryParams.append('timezone', params.timezone);
+
+  const response = await fetch(`${API_BASE_URL}/time-entries/timesheet?${queryParams.toString()}`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<WeeklyTimesheet>(response);
+}
+
+export async function fetchNotifications(params?: { page?: number; limit?: number; unreadOnly?: boolean }): Promise<PaginatedNotifications> {
+  const queryParams = new URLSearchParams();
+  if (params?.page) queryParams.append('page', params.page.toString());
+  if (params?.limit) queryParams.append('limit', params.limit.toString());
+  if (params?.unreadOnly) queryParams.append('unreadOnly', 'true');
+
+  const response = await fetch(`${API_BASE_URL}/notifications?${queryParams.toString()}`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<PaginatedNotifications>(response);
+}
+
+export async function fetchUnreadNotificationCount(): Promise<number> {
+  const response = await fetch(`${API_BASE_URL}/notifications/unread-count`, {
+    credentials: 'include',
+  });
+
+  const data = await handleResponse<{ count: number }>(response);
+  return data.count;
+}
+
+export async function markNotificationRead(id: number): Promise<AppNotification> {
+  const response = await fetch(`${API_BASE_URL}/notifications/${id}/read`, {
+    method: 'PATCH',
+    credentials: 'include',
+  });
+
+  return handleResponse<AppNotification>(response);
+}
+
+export async function markAllNotificationsRead(): Promise<number> {
+  const response = await fetch(`${API_BASE_URL}/notifications/read-all`, {
+    method: 'PATCH',
+    credentials: 'include',
+  });
+
+  const data = await handleResponse<{ updated: number }>(response);
+  return data.updated;
+}
+
+export async function sendNotification(
+  notification: { recipientId: string; taskId?: string | null; type: NotificationType; message: string },
+  options?: { cookieHeader?: string }
+): Promise<AppNotification> {
+  const response = await fetch(`${API_BASE_URL}/notifications`, {
+    method: 'POST',
+    headers: withCookie({
+      'Content-Type': 'application/json',
+    }, options?.cookieHeader),
+    credentials: 'include',
+    body: JSON.stringify(notification),
+  });
+
+  return handleResponse<AppNotification>(response);
+}
+
+export async function recordAuditLog(
+  entry: {
+    action: string;
+    resource: string;
+    resourceId?: string | null;
+    metadata?: Record<string, any>;
+    forwardedIpAddress?: string | null;
+    forwardedUserAgent?: string | null;
+  },
+  // The forwarded details are only kept when the internal secret comes along (server actions)
+  options?: { cookieHeader?: string; internalSecret?: string }
+): Promise<AuditLogEntry> {
+  const response = await fetch(`${API_BASE_URL}/audit-log`, {
+    method: 'POST',
+    headers: withCookie({
+      'Content-Type': 'application/json',
+      ...(options?.internalSecret ? { 'X-Internal-Secret': options.internalSecret } : {}),
+    }, options?.cookieHeader),
+    credentials: 'include',
+    body: JSON.stringify(entry),
+  });
+
+  return handleResponse<AuditLogEntry>(response);
+}
+
+export async function recordAiUsage(entry: AiUsageEntry, options?: { cookieHeader?: string }): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/ai/usage`, {
+    method: 'POST',
+    headers: withCookie({
+      'Content-Type': 'application/json',
+    }, options?.cookieHeader),
+    credentials: 'include',
+    body: JSON.stringify(entry),
+  });
+
+  await handleResponse<unknown>(response);
+}
+
+function auditLogQuery(filters: AuditLogFilters): string {
+  const queryParams = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      queryParams.append(key, value.toString());
+    }
+  });
+  return queryParams.toString();
+}
+
+export async function fetchAuditLog(filters: AuditLogFilters = {}): Promise<PaginatedAuditLog> {
+  const response = await fetch(`${API_BASE_URL}/audit-log?${auditLogQuery(filters)}`, {
+    credentials: 'include',
+  });
+
+  return handleResponse<PaginatedAuditLog>(response);
+}
+
+export async function exportAuditLogCsv(filters: Omit<AuditLogFilters, 'page' | 'limit'> = {}): Promise<Blob> {
+  const response = await fetch(`${API_BASE_URL}/audit-log/export?${auditLogQuery(filters)}`, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(`API Error: ${response.status} - ${JSON.stringify(error)}`);
+  }
+  return response.blob();
+}
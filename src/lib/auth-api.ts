@@ -1,4 +1,4 @@
-import type { User, UserRole } from '@/types';
+import type { User, UserSession } from '@/types';
 
 // API Base URL - adjust this to match your server
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
@@ -40,6 +40,7 @@ export const userAPI = {
       ...user,
       firstName: user.first_name,
       lastName: user.last_name,
+      teamId: user.team_id ?? null,
     }));
   },
 
@@ -54,7 +55,7 @@ export const userAPI = {
   },
 
   // Login user
-  async loginUser(email: string, password?: string): Promise<{ user: User; token?: string }> {
+  async loginUser(email: string, password?: string): Promise<{ user: User; token?: string; accessTokenExpiresAt?: string }> {
     const response = await fetch(`${API_BASE_URL}/auth/login`, {
       method: 'POST',
       headers: {
@@ -78,7 +79,7 @@ export const userAPI = {
   },
 
   // Register new user
-  async registerUser(name: string, email: string, role: UserRole, password?: string): Promise<{ success: boolean; user?: User; error?: string; token?: string }> {
+  async registerUser(name: string, email: string, password?: string): Promise<{ success: boolean; user?: User; error?: string; token?: string; accessTokenExpiresAt?: string }> {
     // Split name into firstName and lastName
     const nameParts = name.trim().split(' ');
     const firstName = nameParts[0];
@@ -90,7 +91,7 @@ export const userAPI = {
         'Content-Type': 'application/json',
       },
       credentials: 'include',
-      body: JSON.stringify({ firstName, lastName, email, role, password }),
+      body: JSON.stringify({ firstName, lastName, email, password }),
     });
     
     if (response.ok) {
@@ -101,7 +102,7 @@ export const userAPI = {
         localStorage.setItem('token', token);
         console.debug('[auth-api] Stored token after register:', token);
       }
-      return { success: true, user: result.data?.user, token };
+      return { success: true, user: result.data?.user, token, accessTokenExpiresAt: result.data?.accessTokenExpiresAt };
     } else {
       let errorMsg = 'Registration failed';
       try {
@@ -149,26 +150,88 @@ export const userAPI = {
       headers: headers,
       credentials: 'include',
     });
+    localStorage.removeItem('token');
     
     if (!response.ok) {
       throw new Error(`Logout failed: ${response.statusText}`);
     }
   },
 
+  // Swap the httpOnly refresh cookie for a new access token; null once the session has ended
+  async refreshSession(): Promise<{ user: User; token: string; accessTokenExpiresAt: string } | null> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        return null;
+      }
+
+      const result = await response.json();
+      localStorage.setItem('token', result.data.token);
+      return result.data;
+    } catch (error) {
+      console.error('Session refresh failed:', error);
+      return null;
+    }
+  },
+
+  // List the signed-in user's active sessions, one per device
+  async getSessions(): Promise<UserSession[]> {
+    const headers: HeadersInit = {};
+    const token = this.getToken();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    const response = await fetch(`${API_BASE_URL}/auth/sessions`, {
+      headers,
+      credentials: 'include',
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch sessions: ${response.statusText}`);
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  // Sign out one device; revoking the current session signs this browser out as well
+  async revokeSession(sessionId: string): Promise<void> {
+    const headers: HeadersInit = {};
+    const token = this.getToken();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    const response = await fetch(`${API_BASE_URL}/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+      headers,
+      credentials: 'include',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Failed to revoke session: ${response.statusText}`);
+    }
+  },
+
   // Verify current session (browser or server)
-  async verifySession(token?: string): Promise<User | null> {
+  async verifySession(tokenOrCookie?: string): Promise<User | null> {
     try {
       const headers: HeadersInit = {
         'Content-Type': 'application/json',
       };
-      // Use provided token (server) or get from localStorage (browser)
-      let jwt: string | undefined = token;
-      if (!jwt) {
-        const t = this.getToken();
-        jwt = t === null ? undefined : t;
-      }
-      if (jwt) {
-        headers['Authorization'] = `Bearer ${jwt}`;
+      // Server actions hand over the incoming cookie header, which is forwarded as-is
+      if (tokenOrCookie?.includes('=')) {
+        headers['Cookie'] = tokenOrCookie;
+      } else {
+        // Use provided token (server) or get from localStorage (browser)
+        let jwt: string | undefined = tokenOrCookie;
+        if (!jwt) {
+          const t = this.getToken();
+          jwt = t === null ? undefined : t;
+        }
+        if (jwt) {
+          headers['Authorization'] = `Bearer ${jwt}`;
+        }
       }
       console.debug('[auth-api] verifySession headers:', headers);
 
@@ -242,6 +305,49 @@ export const userAPI = {
     }
   },
 
+  // Request a password reset link; the server answers the same whether or not the account exists
+  async forgotPassword(email: string): Promise<{ success: boolean; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/forgot-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to request password reset: ${response.statusText}`);
+      }
+      return data;
+    } catch (error) {
+      console.error('Error requesting password reset:', error);
+      throw error;
+    }
+  },
+
+  // Set a new password with the token from a reset link
+  async resetPassword(token: string, password: string): Promise<{ success: boolean; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/reset-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to reset password: ${response.statusText}`);
+      }
+      if (typeof window !== 'undefined') {
+        localStorage.removeItem('token');
+      }
+      return data;
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      throw error;
+    }
+  },
+
   // Resend verification email (for backward compatibility)
   async resendVerificationEmail(email: string): Promise<void> {
     return this.sendVerificationEmail(email);
@@ -2,7 +2,19 @@ import type { TaskStatus } from '@/types';
 
 export const TASK_STATUSES: TaskStatus[] = ["Pending Approval", "To Do", "In Progress", "Needs Changes", "Completed", "Rejected", "Overdue"];
 
-export const CEO_EMAIL = 'thanushdinesh04@gmail.com'; 
+// A task with an unfinished finish-to-start predecessor cannot enter these statuses
+export const DEPENDENCY_GATED_STATUSES: TaskStatus[] = ["In Progress", "Completed"];
+
+// Mirrors the backend's upload limits so bad files are rejected before they are sent
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+export const MAX_ATTACHMENT_SIZE_BYTES = 10 * 1024 * 1024;
+
 export const NO_PRIORITY_SELECTED_VALUE = "__NONE__";
 
 export const TASKS_STORAGE_KEY = 'taskzen-tasks-data';
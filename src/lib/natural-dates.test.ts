@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseNaturalDeadline } from './natural-dates';
+
+// Friday 03:30 UTC, which is still Thursday evening in Los Angeles and Friday lunchtime in Tokyo
+const NOW = new Date('2025-03-07T03:30:00Z');
+
+const deadline = (text: string, timeZone?: string, now: Date = NOW) =>
+  parseNaturalDeadline(text, { now, timeZone })?.deadline ?? null;
+
+describe('parseNaturalDeadline', () => {
+  it('reads days on the calendar of the given time zone', () => {
+    assert.equal(deadline('tomorrow', 'America/Los_Angeles'), '2025-03-08T07:59:59.000Z');
+    assert.equal(deadline('tomorrow', 'Asia/Tokyo'), '2025-03-08T14:59:59.000Z');
+    assert.equal(deadline('tomorrow', 'UTC'), '2025-03-08T23:59:59.000Z');
+  });
+
+  it('falls back to UTC for a missing or unknown time zone', () => {
+    assert.deepEqual(parseNaturalDeadline('today', { now: NOW, timeZone: 'Mars/Olympus_Mons' }), {
+      deadline: '2025-03-07T23:59:59.000Z',
+      phrase: 'today',
+      timeZone: 'UTC'
+    });
+    assert.equal(deadline('today'), '2025-03-07T23:59:59.000Z');
+  });
+
+  it('moves a bare time that has passed locally to the next day', () => {
+    // 19:30 in Los Angeles, so the end of the working day is tomorrow's
+    assert.equal(deadline('EOD', 'America/Los_Angeles'), '2025-03-08T01:00:00.000Z');
+    // 12:30 in Tokyo, so 5pm is still to come today
+    assert.equal(deadline('by 5pm', 'Asia/Tokyo'), '2025-03-07T08:00:00.000Z');
+  });
+
+  it('uses the offset in force on the target day across a DST change', () => {
+    // Clocks in Los Angeles go forward on Sunday 9 March
+    assert.equal(deadline('next monday at 9am', 'America/Los_Angeles'), '2025-03-10T16:00:00.000Z');
+    assert.equal(deadline('tomorrow at 9am', 'America/Los_Angeles'), '2025-03-07T17:00:00.000Z');
+  });
+
+  it('treats weekdays relative to the local day', () => {
+    assert.equal(deadline('this friday', 'Asia/Tokyo'), '2025-03-07T14:59:59.000Z');
+    assert.equal(deadline('this friday', 'America/Los_Angeles'), '2025-03-08T07:59:59.000Z');
+    assert.equal(deadline('friday', 'Asia/Tokyo'), '2025-03-14T14:59:59.000Z');
+  });
+
+  it('resolves relative durations from the current instant', () => {
+    assert.equal(deadline('in 3 hours', 'Asia/Tokyo'), '2025-03-07T06:30:00.000Z');
+    assert.equal(deadline('in half an hour', 'America/Los_Angeles'), '2025-03-07T04:00:00.000Z');
+  });
+
+  it('clamps month arithmetic to the end of a shorter month', () => {
+    assert.equal(deadline('in 1 month', 'UTC', new Date('2025-01-31T10:00:00Z')), '2025-02-28T23:59:59.000Z');
+  });
+
+  it('rolls a month and day that has passed over to next year', () => {
+    assert.equal(deadline('Jan 15', 'UTC'), '2026-01-15T23:59:59.000Z');
+    assert.equal(deadline('March 20 at noon', 'UTC'), '2025-03-20T12:00:00.000Z');
+  });
+
+  it('picks the date words out of a sentence', () => {
+    assert.deepEqual(parseNaturalDeadline('Send the Q3 report Tomorrow at 3pm please', { now: NOW, timeZone: 'UTC' }), {
+      deadline: '2025-03-08T15:00:00.000Z',
+      phrase: 'Tomorrow at 3pm',
+      timeZone: 'UTC'
+    });
+  });
+
+  it('returns null when nothing reads as a date', () => {
+    assert.equal(deadline('Refactor the login form', 'UTC'), null);
+    assert.equal(deadline("Review today's report", 'UTC'), null);
+  });
+});
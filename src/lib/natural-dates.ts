@@ -0,0 +1,330 @@
+/**
+ * Turns deadline phrases such as "next Friday", "in 3 days", "EOD tomorrow" or "end of month"
+ * into an exact instant, resolved on the calendar of a given IANA time zone. Works on a bare
+ * phrase or on a whole sentence, picking out the date and time words it recognises.
+ */
+
+export interface NaturalDeadline {
+  // ISO 8601 instant (UTC)
+  deadline: string;
+  // The words the deadline was read from, as they appeared in the text
+  phrase: string;
+  timeZone: string;
+}
+
+interface CalendarDay {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+interface Match<T> {
+  value: T;
+  text: string;
+  index: number;
+}
+
+// A date with no time means "by the end of that day"
+const END_OF_DAY: TimeOfDay = { hour: 23, minute: 59, second: 59 };
+// "EOD" and "close of business" mean the end of the working day
+const END_OF_WORKDAY: TimeOfDay = { hour: 17, minute: 0, second: 0 };
+
+const NAMED_TIMES: Array<[RegExp, TimeOfDay]> = [
+  [/\b(?:eod|cob|end of (?:the )?(?:work ?)?day|close of business)\b/, END_OF_WORKDAY],
+  [/\b(?:noon|midday)\b/, { hour: 12, minute: 0, second: 0 }],
+  [/\bmidnight\b/, END_OF_DAY],
+  [/\bmorning\b/, { hour: 9, minute: 0, second: 0 }],
+  [/\bafternoon\b/, { hour: 15, minute: 0, second: 0 }],
+  [/\b(?:evening|tonight)\b/, { hour: 20, minute: 0, second: 0 }],
+];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_PATTERN = '(sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|nesday|rsday|urday)?';
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_PATTERN =
+  '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, couple: 2, few: 3,
+};
+const AMOUNT_PATTERN = `(?:a )?(\\d+|${Object.keys(NUMBER_WORDS).join('|')})(?: of)?`;
+
+/** True when the runtime knows the time zone name. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds a deadline in `text` and resolves it against `now` in `timeZone` (UTC when missing or
+ * unknown). Returns null when nothing in the text reads as a date or time.
+ */
+export function parseNaturalDeadline(
+  text: string,
+  options: { now?: Date; timeZone?: string } = {}
+): NaturalDeadline | null {
+  const now = options.now ?? new Date();
+  const timeZone = options.timeZone && isValidTimeZone(options.timeZone) ? options.timeZone : 'UTC';
+  // Apostrophes become word characters so "today's report" is not read as "today"
+  const normalized = text.toLowerCase().replace(/[’']/g, '_').replace(/\s+/g, ' ');
+
+  const relative = matchRelativeDuration(normalized);
+  if (relative) {
+    return {
+      deadline: new Date(now.getTime() + relative.value).toISOString(),
+      phrase: excerpt(text, normalized, [relative]),
+      timeZone,
+    };
+  }
+
+  const today = zonedParts(now, timeZone);
+  const day = matchDay(normalized, today);
+  const time = matchTime(normalized);
+  if (!day && !time) {
+    return null;
+  }
+
+  let calendarDay = day?.value ?? today;
+  const timeOfDay = time?.value ?? END_OF_DAY;
+  // A bare time ("at 3pm", "EOD") that has already passed today means tomorrow
+  if (!day && compareTime(timeOfDay, today) <= 0) {
+    calendarDay = addDays(today, 1);
+  }
+
+  return {
+    deadline: zonedToUtc(calendarDay, timeOfDay, timeZone).toISOString(),
+    phrase: excerpt(text, normalized, [day, time].filter(m => m !== null) as Match<unknown>[]),
+    timeZone,
+  };
+}
+
+// "in 3 days", "in half an hour", "2 weeks from now"; resolved as an offset in milliseconds
+function matchRelativeDuration(text: string): Match<number> | null {
+  const halfHour = text.match(/\bin (?:half an|a half) hour\b/);
+  if (halfHour) {
+    return { value: 30 * 60 * 1000, text: halfHour[0], index: halfHour.index! };
+  }
+
+  const pattern = new RegExp(
+    `\\b(?:in (?:about |around )?${AMOUNT_PATTERN} (minute|min|hour|hr)s?\\b|${AMOUNT_PATTERN} (minute|min|hour|hr)s? from now\\b)`
+  );
+  const match = text.match(pattern);
+  if (!match) {
+    return null;
+  }
+  const amount = toNumber(match[1] ?? match[3]);
+  const unit = match[2] ?? match[4];
+  const minutes = unit.startsWith('h') ? amount * 60 : amount;
+  return { value: minutes * 60 * 1000, text: match[0], index: match.index! };
+}
+
+function matchDay(text: string, today: CalendarDay & TimeOfDay): Match<CalendarDay> | null {
+  const candidates: Array<[RegExp, (m: RegExpMatchArray) => CalendarDay | null]> = [
+    [/\b(?:the )?day after tomorrow\b/, () => addDays(today, 2)],
+    [/\b(?:tomorrow|tmrw|tmr)\b/, () => addDays(today, 1)],
+    [/\b(?:today|tonight)\b/, () => today],
+    [
+      new RegExp(`\\b(?:in (?:about |around )?${AMOUNT_PATTERN} (day|week|month|year)s?|${AMOUNT_PATTERN} (day|week|month|year)s? from (?:now|today))\\b`),
+      m => shiftCalendar(today, toNumber(m[1] ?? m[3]), (m[2] ?? m[4]) as CalendarUnit),
+    ],
+    [/\b(?:end of (?:the )?next month)\b/, () => lastDayOfMonth(shiftCalendar(today, 1, 'month'))],
+    [/\b(?:end of (?:the |this )?month|eom|next month)\b/, m => (
+      m[0] === 'next month' ? lastDayOfMonth(shiftCalendar(today, 1, 'month')) : lastDayOfMonth(today)
+    )],
+    [/\b(?:end of (?:the |this )?year|eoy)\b/, () => ({ year: today.year, month: 12, day: 31 })],
+    // The working week ends on Friday; "next week" means by the end of next week
+    [/\b(?:end of (?:the )?next week|next week)\b/, () => addDays(upcomingWeekday(today, 5, true), 7)],
+    [/\b(?:end of (?:the |this )?week|eow|this week)\b/, () => upcomingWeekday(today, 5, true)],
+    [/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/, m => validDay(Number(m[1]), Number(m[2]), Number(m[3]))],
+    [
+      new RegExp(`\\b${MONTH_PATTERN} (\\d{1,2})(?:st|nd|rd|th)?(?:,? (\\d{4}))?\\b`),
+      m => resolveMonthDay(today, monthIndex(m[1]), Number(m[2]), m[3]),
+    ],
+    [
+      new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)? (?:of )?${MONTH_PATTERN}(?:,? (\\d{4}))?\\b`),
+      m => resolveMonthDay(today, monthIndex(m[2]), Number(m[1]), m[3]),
+    ],
+    // US order, matching how dates are shown in the app
+    [/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?\b/, m => resolveMonthDay(today, Number(m[1]), Number(m[2]), m[3])],
+    [
+      new RegExp(`\\b(?:(this|next|coming) )?${WEEKDAY_PATTERN}\\b`),
+      m => upcomingWeekday(today, weekdayIndex(m[2]), m[1] === 'this'),
+    ],
+  ];
+
+  for (const [pattern, resolve] of candidates) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const value = resolve(match);
+    if (value) {
+      return { value, text: match[0], index: match.index! };
+    }
+  }
+  return null;
+}
+
+function matchTime(text: string): Match<TimeOfDay> | null {
+  const clock = text.match(/\b(?:(?:at|by) )?(\d{1,2})(?::(\d{2}))? ?(am|pm|a\.m\.?|p\.m\.?)(?=\W|$)/);
+  if (clock) {
+    let hour = Number(clock[1]) % 12;
+    if (clock[3].startsWith('p')) hour += 12;
+    const minute = Number(clock[2] ?? 0);
+    if (hour < 24 && minute < 60) {
+      return { value: { hour, minute, second: 0 }, text: clock[0], index: clock.index! };
+    }
+  }
+
+  const twentyFourHour = text.match(/\b(?:(?:at|by) )?(\d{1,2}):(\d{2})\b/);
+  if (twentyFourHour) {
+    const hour = Number(twentyFourHour[1]);
+    const minute = Number(twentyFourHour[2]);
+    if (hour < 24 && minute < 60) {
+      return { value: { hour, minute, second: 0 }, text: twentyFourHour[0], index: twentyFourHour.index! };
+    }
+  }
+
+  for (const [pattern, value] of NAMED_TIMES) {
+    const match = text.match(pattern);
+    if (match) {
+      return { value, text: match[0], index: match.index! };
+    }
+  }
+  return null;
+}
+
+// Positions line up with the original text unless normalizing dropped characters, so the
+// phrase keeps the user's capitalization where it can
+function excerpt(original: string, normalized: string, matches: Match<unknown>[]): string {
+  const collapsed = original.replace(/\s+/g, ' ');
+  const source = collapsed.length === normalized.length ? collapsed : normalized;
+  const words: string[] = [];
+  let covered = -1;
+  // "tonight" is both the day and the time; show words read twice only once
+  for (const match of [...matches].sort((a, b) => a.index - b.index)) {
+    if (match.index < covered) continue;
+    words.push(source.slice(match.index, match.index + match.text.length).trim());
+    covered = match.index + match.text.length;
+  }
+  return words.join(' ');
+}
+
+type CalendarUnit = 'day' | 'week' | 'month' | 'year';
+
+function shiftCalendar(from: CalendarDay, amount: number, unit: CalendarUnit): CalendarDay {
+  if (unit === 'day') return addDays(from, amount);
+  if (unit === 'week') return addDays(from, amount * 7);
+
+  const months = unit === 'month' ? amount : amount * 12;
+  const target = new Date(Date.UTC(from.year, from.month - 1 + months, 1));
+  const lastDay = lastDayOfMonth(fromUtcDate(target)).day;
+  // Jan 31 + 1 month lands on the last day of February, not in March
+  return { year: target.getUTCFullYear(), month: target.getUTCMonth() + 1, day: Math.min(from.day, lastDay) };
+}
+
+function addDays(from: CalendarDay, days: number): CalendarDay {
+  return fromUtcDate(new Date(Date.UTC(from.year, from.month - 1, from.day + days)));
+}
+
+function lastDayOfMonth(of: CalendarDay): CalendarDay {
+  return fromUtcDate(new Date(Date.UTC(of.year, of.month, 0)));
+}
+
+// The next given weekday after today; today itself counts when includeToday is set
+function upcomingWeekday(today: CalendarDay, weekday: number, includeToday: boolean): CalendarDay {
+  const current = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+  let ahead = (weekday - current + 7) % 7;
+  if (ahead === 0 && !includeToday) ahead = 7;
+  return addDays(today, ahead);
+}
+
+// A month and day without a year means the next time that date comes round
+function resolveMonthDay(today: CalendarDay, month: number, day: number, year?: string): CalendarDay | null {
+  if (year) {
+    return validDay(Number(year), month, day);
+  }
+  const thisYear = validDay(today.year, month, day);
+  if (thisYear && compareDays(thisYear, today) >= 0) {
+    return thisYear;
+  }
+  return validDay(today.year + 1, month, day);
+}
+
+function validDay(year: number, month: number, day: number): CalendarDay | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return { year, month, day };
+}
+
+function fromUtcDate(date: Date): CalendarDay {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function compareDays(a: CalendarDay, b: CalendarDay): number {
+  return Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day);
+}
+
+function compareTime(a: TimeOfDay, b: TimeOfDay): number {
+  return (a.hour - b.hour) * 3600 + (a.minute - b.minute) * 60 + (a.second - b.second);
+}
+
+function toNumber(amount: string): number {
+  return NUMBER_WORDS[amount] ?? Number(amount);
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex(month => month.startsWith(name.slice(0, 3))) + 1;
+}
+
+function weekdayIndex(name: string): number {
+  return WEEKDAYS.findIndex(weekday => weekday.startsWith(name.slice(0, 3)));
+}
+
+// Wall-clock date and time of an instant in the given zone
+function zonedParts(instant: Date, timeZone: string): CalendarDay & TimeOfDay {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+}
+
+// The instant at which the zone's clocks show the given date and time
+function zonedToUtc(day: CalendarDay, time: TimeOfDay, timeZone: string): Date {
+  const wallClock = Date.UTC(day.year, day.month - 1, day.day, time.hour, time.minute, time.second);
+  const offsetAt = (instant: number) => {
+    const p = zonedParts(new Date(instant), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(instant / 1000) * 1000;
+  };
+  // Check the offset a second time so dates on the other side of a DST change come out right
+  let instant = wallClock - offsetAt(wallClock);
+  instant = wallClock - offsetAt(instant);
+  return new Date(instant);
+}
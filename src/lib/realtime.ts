@@ -0,0 +1,104 @@
+import type { Task, AppNotification } from '@/types';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+export type RealtimeEvent =
+  | { type: 'task.created'; data: { task: Task } }
+  | { type: 'task.updated'; data: { task: Task } }
+  | { type: 'task.deleted'; data: { taskId: string } }
+  | { type: 'notification.created'; data: { notification: AppNotification } }
+  // Emitted when the stream comes back after a drop, since anything sent meanwhile was missed
+  | { type: 'reconnected'; data: null };
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+const SERVER_EVENT_TYPES = ['task.created', 'task.updated', 'task.deleted', 'notification.created'] as const;
+
+// One EventSource is shared by every subscriber in the tab
+const listeners = new Set<RealtimeListener>();
+let source: EventSource | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = INITIAL_RETRY_DELAY_MS;
+let hasConnected = false;
+
+function emit(event: RealtimeEvent) {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Realtime listener failed:', error);
+    }
+  });
+}
+
+function scheduleReconnect() {
+  if (retryTimer || listeners.size === 0) return;
+
+  // Full jitter keeps a fleet of tabs from reconnecting in lockstep after a restart
+  const delay = Math.random() * retryDelay;
+  retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    connect();
+  }, delay);
+}
+
+function connect() {
+  if (source || typeof window === 'undefined') return;
+
+  const eventSource = new EventSource(`${API_BASE_URL}/events`, { withCredentials: true });
+  source = eventSource;
+
+  eventSource.onopen = () => {
+    retryDelay = INITIAL_RETRY_DELAY_MS;
+    if (hasConnected) {
+      emit({ type: 'reconnected', data: null });
+    }
+    hasConnected = true;
+  };
+
+  // The browser's built-in retry has a fixed delay and gives up on HTTP errors, so take over
+  eventSource.onerror = () => {
+    eventSource.close();
+    if (source === eventSource) {
+      source = null;
+      scheduleReconnect();
+    }
+  };
+
+  SERVER_EVENT_TYPES.forEach(type => {
+    eventSource.addEventListener(type, (message: MessageEvent) => {
+      try {
+        emit({ type, data: JSON.parse(message.data) } as RealtimeEvent);
+      } catch (error) {
+        console.error(`Malformed ${type} event:`, error);
+      }
+    });
+  });
+}
+
+function disconnect() {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  source?.close();
+  source = null;
+  retryDelay = INITIAL_RETRY_DELAY_MS;
+  hasConnected = false;
+}
+
+export function subscribeToRealtimeEvents(listener: RealtimeListener): () => void {
+  listeners.add(listener);
+  connect();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      disconnect();
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import type { RecurrenceFrequency, RecurrenceRule, RecurrenceWeekday } from '@/types';
+
+export const RECURRENCE_WEEKDAYS: RecurrenceWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAY_LABELS: Record<RecurrenceWeekday, string> = {
+  SU: 'Sun',
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+};
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+};
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Reads the RRULE subset the backend accepts. Returns null for anything it does not
+ * understand; the backend remains the authority and rejects invalid patterns on save.
+ */
+export function parseRecurrencePattern(pattern: string | null | undefined): RecurrenceRule | null {
+  if (!pattern) return null;
+
+  const values = new Map<string, string>();
+  for (const part of pattern.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [name, value] = part.split('=');
+    if (!value) return null;
+    values.set(name.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const frequency = values.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!frequency || !(frequency in FREQUENCY_UNITS)) return null;
+
+  const rule: RecurrenceRule = { frequency, interval: Number(values.get('INTERVAL')) || 1 };
+  const byDay = values.get('BYDAY');
+  if (byDay) {
+    rule.byWeekday = RECURRENCE_WEEKDAYS.filter(day => byDay.split(',').includes(day));
+  }
+  if (values.has('BYMONTHDAY')) rule.byMonthDay = Number(values.get('BYMONTHDAY'));
+  if (values.has('COUNT')) rule.count = Number(values.get('COUNT'));
+  const until = values.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (until) rule.until = `${until[1]}-${until[2]}-${until[3]}`;
+
+  return rule;
+}
+
+export function formatRecurrencePattern(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${rule.interval}`];
+  if (rule.frequency === 'WEEKLY' && rule.byWeekday && rule.byWeekday.length > 0) parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  if (rule.frequency === 'MONTHLY' && rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  else if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+// Human-readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times"
+export function describeRecurrence(pattern: string | null | undefined): string | null {
+  const rule = parseRecurrencePattern(pattern);
+  if (!rule) return null;
+
+  const unit = FREQUENCY_UNITS[rule.frequency];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  if (rule.frequency === 'WEEKLY' && rule.byWeekday && rule.byWeekday.length > 0) {
+    text += ` on ${rule.byWeekday.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (rule.frequency === 'MONTHLY' && rule.byMonthDay) {
+    text += ` on the ${ordinal(rule.byMonthDay)}`;
+  }
+  if (rule.until) text += ` until ${rule.until}`;
+  if (rule.count) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  return text;
+}
@@ -0,0 +1,13 @@
+import type { TaskTemplate } from '@/types';
+
+/**
+ * Description a task starts with when created from `template`. The template's checklist is
+ * carried over as a Markdown task list in the description.
+ */
+export function buildTaskDescriptionFromTemplate(template: TaskTemplate): string {
+  const description = template.description?.trim() || '';
+  if (template.checklist.length === 0) return description;
+
+  const checklist = template.checklist.map(item => `- [ ] ${item}`).join('\n');
+  return description ? `${description}\n\nChecklist:\n${checklist}` : `Checklist:\n${checklist}`;
+}
@@ -0,0 +1,31 @@
+import type { TimeEntry } from '@/types';
+
+/** Compact duration for totals, e.g. "2h 05m", "45m" or "0m". */
+export function formatDuration(totalSeconds: number): string {
+  const minutes = Math.floor(Math.max(0, totalSeconds) / 60);
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return `${hours}h ${String(rest).padStart(2, '0')}m`;
+}
+
+/** Stopwatch-style duration for a running timer, e.g. "1:02:09" or "04:31". */
+export function formatElapsed(totalSeconds: number): string {
+  const seconds = Math.floor(Math.max(0, totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+/** Seconds a running entry has been going at `now`; finished entries report their stored duration. */
+export function elapsedSeconds(entry: TimeEntry, now: number = Date.now()): number {
+  if (!entry.isRunning) return entry.durationSeconds;
+  return Math.max(0, Math.floor((now - new Date(entry.startedAt).getTime()) / 1000));
+}
+
+/** The viewer's IANA time zone, so timesheet days line up with their calendar. */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
@@ -15,12 +15,49 @@ export interface ConceptualFileAttachment {
   size?: number;
 }
 
+export type StorageDriver = 'local' | 's3';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type RecurrenceWeekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+// Parsed form of Task.recurringPattern; the API stores it as an RRULE string
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: RecurrenceWeekday[];
+  byMonthDay?: number;
+  until?: string;
+  count?: number;
+}
+
 export interface TaskAttachment {
   id: string;
   fileName: string;
+  // For uploaded files this is the download path relative to the API base
   fileUrl: string;
   fileType: string | null;
   fileSizeBytes: number;
+  checksum?: string | null;
+  // Null for link-only attachments
+  storageDriver?: StorageDriver | null;
+  createdAt: string;
+}
+
+// Returned by the attachments sub-resource
+export interface TaskAttachmentDetail {
+  id: string;
+  taskId: string;
+  fileName: string;
+  fileUrl: string;
+  fileType: string | null;
+  fileSizeBytes: number | null;
+  checksum: string | null;
+  storageDriver: StorageDriver | null;
+  uploadedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
   createdAt: string;
 }
 
@@ -36,6 +73,13 @@ export interface TaskComment {
     firstName: string;
     lastName: string;
   };
+  taskId?: string;
+  parentCommentId?: string | null;
+  updatedAt?: string;
+  isEdited?: boolean;
+  isDeleted?: boolean;
+  mentions?: string[];
+  replies?: TaskComment[];
 }
 
 export interface Task {
@@ -44,10 +88,14 @@ export interface Task {
   description: string | null;
   status: TaskStatus;
   priority: TaskPriority;
+  // Planned start; timeline bars fall back to createdAt when unset
+  startDate?: string | null;
   deadline: string | null;
   progressPercentage: number;
   projectId: string | null;
-  recurringPattern: any | null;
+  parentTaskId?: string | null;
+  // e.g. "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE"; see src/lib/recurrence.ts
+  recurringPattern: string | null;
   assignerId: string;
   assignedUserId: string | null;
   updatedBy: string | null;
@@ -73,9 +121,205 @@ export interface Task {
   attachments: TaskAttachment[];
   comments: TaskComment[];
   projectName?: string;
+  // Unfinished finish-to-start predecessors, and the tasks this one is holding up
+  blockedBy?: DependencyTaskSummary[];
+  blocking?: DependencyTaskSummary[];
+  // Time logged through finished time entries; add the running timer (if any) for a live total
+  loggedSeconds?: number;
+  // Set by the server for open tasks past their deadline
+  isOverdue?: boolean;
+  // Rejected and archived subtasks are left out of both counts
+  subtaskCount?: number;
+  completedSubtaskCount?: number;
+  checklistItemCount?: number;
+  checkedItemCount?: number;
+}
+
+export type DependencyType = 'finish_to_start' | 'start_to_start' | 'finish_to_finish' | 'start_to_finish';
+
+export interface DependencyTaskSummary {
+  id: string;
+  title: string;
+  status: TaskStatus;
+}
+
+export interface TaskDependency {
+  id: number;
+  predecessorTaskId: string;
+  successorTaskId: string;
+  dependencyType: DependencyType;
+  createdBy: string | null;
+  createdAt: string;
+  // The task on the other end of the link
+  task: DependencyTaskSummary;
+}
+
+export interface DependencyLink {
+  id: number;
+  predecessorTaskId: string;
+  successorTaskId: string;
+  dependencyType: DependencyType;
+}
+
+export interface TaskDependencies {
+  predecessors: TaskDependency[];
+  successors: TaskDependency[];
+}
+
+// One entry of a subtask batch; `dependsOn` holds positions of earlier entries that must finish first
+export interface SubtaskDraft {
+  title: string;
+  description?: string;
+  priority?: TaskPriority;
+  estimatedMinutes?: number;
+  dependsOn?: number[];
+}
+
+export interface CreatedSubtasks {
+  subtasks: Task[];
+  dependencies: DependencyLink[];
+}
+
+export interface ChecklistItem {
+  id: string;
+  taskId: string;
+  content: string;
+  isDone: boolean;
+  position: number;
+  createdBy: string | null;
+  completedBy: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectStats {
+  totalTasks: number;
+  completedTasks: number;
+  overdueTasks: number;
+  progressPercentage: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  createdBy: string | null;
+  updatedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  stats: ProjectStats;
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  title: string;
+  description: string | null;
+  defaultPriority: TaskPriority;
+  // Estimated duration in minutes
+  defaultTimerDuration: number;
+  checklist: string[];
+  tags: string[];
+  isPublic: boolean;
+  createdBy: { id: string; firstName: string; lastName: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TaskTemplateInput = Pick<TaskTemplate, 'name' | 'title' | 'defaultPriority' | 'defaultTimerDuration' | 'checklist' | 'tags' | 'isPublic'> & {
+  description?: string | null;
+};
+
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  user: { id: string; firstName: string; lastName: string };
+  startedAt: string;
+  endedAt: string | null;
+  // Elapsed so far when the timer is still running
+  durationSeconds: number;
+  note: string | null;
+  isManual: boolean;
+  isRunning: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TaskTimeSummary {
+  taskId: string;
+  estimatedMinutes: number;
+  loggedSeconds: number;
+  entries: TimeEntry[];
+}
+
+export interface TimesheetRow {
+  taskId: string;
+  taskTitle: string;
+  projectName: string | null;
+  // Monday first
+  dailySeconds: number[];
+  totalSeconds: number;
+}
+
+export interface WeeklyTimesheet {
+  weekStart: string;
+  timezone: string;
+  days: string[];
+  rows: TimesheetRow[];
+  dailyTotals: number[];
+  totalSeconds: number;
+}
+
+// POST /api/tasks/estimate-deadline; earliest..latest covers intervalLevel of comparable past tasks
+export interface DeadlineEstimate {
+  suggestedDeadline: string;
+  earliestDeadline: string;
+  latestDeadline: string;
+  intervalLevel: number;
+  confidence: number;
+  expectedDurationHours: number;
+  basis: {
+    source: 'history' | 'priority-default';
+    sampleSize: number;
+    effectiveSampleSize: number;
+    similarTasks: number;
+  };
+  workload: {
+    openTasks: number;
+    completedLast90Days: number;
+    delayHours: number;
+  } | null;
+  explanation: string[];
+}
+
+export type AiProviderName = 'gemini' | 'openai-compatible' | 'stub';
+
+// POST /api/ai/usage; one request an AI flow made for the signed-in user
+export interface AiUsageEntry {
+  flow: string;
+  provider: AiProviderName;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  attempts: number;
+  cached: boolean;
+  success: boolean;
+  error?: string | null;
 }
 
-export type UserRole = "Admin" | "User";
+export type UserRole = "Admin" | "Manager" | "User";
+
+// The server's status state machine for the signed-in role. Its tables can name statuses
+// this UI has no column for (e.g. 'In Review', 'Archived'), hence the plain strings.
+export interface TaskWorkflow {
+  role: UserRole;
+  transitions: Record<string, string[]>;
+  initialStatuses: string[];
+  reasonRequiredFrom: string[];
+}
 
 export interface User {
   id: string;
@@ -84,9 +328,83 @@ export interface User {
   lastName: string;
   name?: string;
   role: UserRole;
+  // Managers oversee the tasks of everyone on their team
+  teamId?: string | null;
   password?: string;
 }
 
+// A signed-in device from GET /api/auth/sessions
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export type NotificationType = 'Task Assigned' | 'Comment Mention' | 'Status Change' | 'Deadline Reminder';
+
+// Named to avoid clashing with the DOM's global Notification
+export interface AppNotification {
+  id: number;
+  userId: string;
+  taskId: string | null;
+  taskTitle: string | null;
+  type: NotificationType;
+  message: string;
+  isRead: boolean;
+  createdAt: string;
+}
+
+export type TaskActivityAction =
+  | 'created'
+  | 'updated'
+  | 'status_changed'
+  | 'reassigned'
+  | 'attachments_changed'
+  | 'comment_added'
+  | 'comment_edited'
+  | 'comment_deleted'
+  | 'dependency_added'
+  | 'dependency_removed'
+  | 'subtasks_added';
+
+export interface TaskActivityEntry {
+  id: number;
+  taskId: string;
+  action: TaskActivityAction;
+  details: {
+    changes?: Record<string, { from: unknown; to: unknown }>;
+    commentId?: string;
+    dependency?: { taskId: string; title: string; relation: 'blocked_by' | 'blocking'; type: DependencyType };
+    recurrence?: { sourceTaskId: string; occurrence: number };
+    subtasks?: { taskId: string; title: string }[];
+    parentTask?: { taskId: string; title: string };
+    reason?: string;
+  };
+  user: { id: string; firstName: string; lastName: string } | null;
+  createdAt: string;
+}
+
+export interface AuditLogEntry {
+  id: number;
+  userId: string | null;
+  userEmail: string | null;
+  userName: string | null;
+  action: string;
+  resource: string;
+  resourceId: string | null;
+  metadata: Record<string, any>;
+  // As seen by the backend; the forwarded pair is the browser behind a server action
+  ipAddress: string | null;
+  userAgent: string | null;
+  forwardedIpAddress: string | null;
+  forwardedUserAgent: string | null;
+  createdAt: string;
+}
+
 // Search configuration interface
 export interface SearchConfig {
   searchInTitle: boolean;